@@ -5,87 +5,396 @@ import VeriffAPI from './services/VeriffAPI';
 import DecisionEvents from './services/DecisionEvents';
 import VerificationEvents from './services/VerificationEvents';
 import ProofOfAddress from './services/ProofOfAddress';
+import WatchlistMonitoring from './services/WatchlistMonitoring';
+import ReviewDecisions from './services/ReviewDecisions';
+import { WebhookHandlerServices } from './services/BaseWebhookHandler';
+import JobQueue from './services/JobQueue';
+import WorkerPool from './services/WorkerPool';
+import SessionRegistry from './services/SessionRegistry';
+import SessionStateMachine from './services/SessionStateMachine';
+import ProcessingLedger from './services/ProcessingLedger';
+import ArchiveManifests from './services/ArchiveManifests';
+import ErasureReceipts from './services/ErasureReceipts';
+import RiskSummaries from './services/RiskSummaries';
+import ReviewLog from './services/ReviewLog';
+import ReviewQueue from './services/ReviewQueue';
+import CustomerIndex from './services/CustomerIndex';
+import AddressChecks from './services/AddressChecks';
+import Notifier, { parseNotificationRules } from './services/Notifier';
+import SessionEraser from './services/SessionEraser';
+import RetentionSweeper, { parseRetentionPolicy } from './services/RetentionSweeper';
+import { getUploadSessions } from './services/storage';
+import { createAdminRouter } from './routes/admin';
+import { createCustomersRouter } from './routes/customers';
+import { createHealthRouter } from './routes/health';
+import { VeriffAPIError } from './services/VeriffErrors';
+import { WebhookType, decisionWebhookSchema, eventWebhookSchema, proofOfAddressWebhookSchema, startSessionRequestSchema, watchlistScreeningWebhookSchema } from './types';
+import { toFieldErrors } from './utils/validation-utils';
+import { isBearerTokenValid } from './utils/auth-utils';
+import { getMasterKeys } from './utils/encryption-utils';
+import logger, { runWithCorrelationId } from './utils/logger';
+import { signatureFailures, webhooksReceived } from './utils/metrics';
 dotenv.config();
 
 const app = express();
 const port = process.env.PORT || 3000;
-const { VERSION, BASE_URL, API_KEYS } = process.env;
+const {
+  VERSION,
+  BASE_URL,
+  API_KEYS,
+  DATA_DIR = 'data',
+  QUEUE_CONCURRENCY,
+  QUEUE_MAX_ATTEMPTS,
+  QUEUE_RETRY_DELAY_MS,
+  QUEUE_POLL_INTERVAL_MS,
+  QUEUE_COMPLETED_RETENTION_DAYS,
+  VERIFF_CALLBACK_URL,
+  SESSIONS_API_TOKEN,
+  ADMIN_API_TOKEN,
+  CUSTOMERS_API_TOKEN,
+  READINESS_CACHE_MS,
+  RETENTION_DAYS,
+  RETENTION_SWEEP_INTERVAL_MS,
+  ERASURE_RECEIPT_FOLDER,
+  NOTIFICATION_RULES,
+} = process.env;
 if (!API_KEYS) throw new Error('API keys not found');
 if (!BASE_URL) throw new Error('API version not found');
 if (!VERSION) throw new Error('API version not found');
+// Fail on startup instead of on the first upload if the encryption keys are invalid
+getMasterKeys();
+const retentionPolicy = parseRetentionPolicy(RETENTION_DAYS);
 const veriffAPI = new VeriffAPI(JSON.parse(API_KEYS), BASE_URL);
-app.use(bodyParser.json());
+const sessionRegistry = new SessionRegistry(`${DATA_DIR}/sessions`);
+const sessionStates = new SessionStateMachine(`${DATA_DIR}/states`);
+const jobQueue = new JobQueue(`${DATA_DIR}/jobs`, Number(QUEUE_COMPLETED_RETENTION_DAYS || 7) * 24 * 60 * 60 * 1000);
+const ledger = new ProcessingLedger(`${DATA_DIR}/ledger`);
+const riskSummaries = new RiskSummaries(`${DATA_DIR}/risk`);
+const reviews = new ReviewLog(`${DATA_DIR}/reviews`);
+const customers = new CustomerIndex(`${DATA_DIR}/customers`);
+const addressChecks = new AddressChecks(`${DATA_DIR}/addresses`);
+const erasures = new ErasureReceipts(`${DATA_DIR}/erasures`);
+const manifests = new ArchiveManifests(`${DATA_DIR}/manifests`);
+// The handlers share the stores of the routes, so that every update of a record goes through the same lock
+const handlerServices: WebhookHandlerServices = {
+  veriffAPI,
+  ledger,
+  sessionRegistry,
+  sessionStates,
+  manifests,
+  erasures,
+  riskSummaries,
+  reviews,
+  customers,
+  addressChecks,
+  notifier: new Notifier(parseNotificationRules(NOTIFICATION_RULES)),
+};
+const reviewQueue = new ReviewQueue({ reviews, sessionStates, riskSummaries, sessionRegistry, jobQueue, customers });
+const eraser = new SessionEraser({
+  receipts: erasures,
+  jobQueue,
+  ledger,
+  sessionRegistry,
+  sessionStates,
+  manifests,
+  riskSummaries,
+  reviews,
+  customers,
+  addressChecks,
+  uploads: getUploadSessions(),
+  receiptFolder: ERASURE_RECEIPT_FOLDER || 'Erasure Receipts',
+});
+const retentionSweeper = new RetentionSweeper(sessionStates, reviews, addressChecks, eraser, {
+  policy: retentionPolicy,
+  intervalMs: Number(RETENTION_SWEEP_INTERVAL_MS || 3600000),
+});
+const workerPool = new WorkerPool(jobQueue, {
+  'decision': async (payload, job) => (await DecisionEvents.new(handlerServices)).handleWebhook(payload, { force: job.force }),
+  'verification-event': async (payload, job) => (await VerificationEvents.new(handlerServices)).handleWebhook(payload, { force: job.force }),
+  'proof-of-address': async (payload, job) => (await ProofOfAddress.new(handlerServices)).handleWebhook(payload, { force: job.force }),
+  'watchlist-screening': async (payload, job) => (await WatchlistMonitoring.new(handlerServices)).handleWebhook(payload, { force: job.force }),
+  'rearchive': async (payload) => (await DecisionEvents.new(handlerServices)).rearchive(payload),
+  'review-decision': async (payload) => (await ReviewDecisions.new(handlerServices)).archive(payload),
+}, {
+  concurrency: Number(QUEUE_CONCURRENCY || 2),
+  maxAttempts: Number(QUEUE_MAX_ATTEMPTS || 8),
+  retryDelayMs: Number(QUEUE_RETRY_DELAY_MS || 30000),
+  pollIntervalMs: Number(QUEUE_POLL_INTERVAL_MS || 1000),
+  pruneIntervalMs: 3600000,
+});
+// Keep the exact bytes of the body, the webhook signature is computed over them and not over re-serialized JSON
+app.use(bodyParser.json({
+  verify: (req: Request, res, buf) => {
+    req.rawBody = buf;
+  },
+}));
+// Give every request a correlation ID, it is carried into the logs of the jobs the request creates
+app.use((req, res, next) => {
+  runWithCorrelationId(undefined, () => next());
+});
+app.use(createHealthRouter({ veriffAPI, jobQueue, readinessCacheMs: Number(READINESS_CACHE_MS || 30000) }));
+
+/**
+ * Count a received webhook in the metrics.
+ * @param {WebhookType} route - The webhook route.
+ * @param {string} outcome - What happened to the webhook: accepted, unauthorized, invalid_payload or error.
+ * @param {number | null} code - Veriff event or decision code, known once the payload was validated.
+ */
+const countWebhook = (route: WebhookType, outcome: string, code: number | null = null) => {
+  webhooksReceived.inc({ route, code: code ?? 'none', outcome });
+  if (outcome === 'unauthorized')
+    signatureFailures.inc({ route });
+}
 
 app.post('/webhooks/decision', async (req: Request, res: Response) => {
   const payload = req.body;
   const signature = req.get('x-hmac-signature');
+  const apiKey = req.get('x-auth-client');
 
-  if (!signature) {
+  if (!signature || !apiKey || !req.rawBody) {
+    countWebhook('decision', 'unauthorized');
     return res.status(401).json({ error: 'Unauthorized' });
   }
 
   // Validate received signature
   const isValid = veriffAPI.isSignatureValid({
     signature,
-    payload,
+    apiKey,
+    payload: req.rawBody,
   });
 
   if (!isValid) {
+    countWebhook('decision', 'unauthorized');
     return res.status(401).json({ error: 'Unauthorized' });
   }
 
-  const handler = await DecisionEvents.new();
-  await handler.handleWebhook(payload, res);
+  // Reject malformed payloads before they reach the queue
+  const validation = decisionWebhookSchema.safeParse(payload);
+  if (!validation.success) {
+    countWebhook('decision', 'invalid_payload');
+    return res.status(400).json({ error: 'Invalid payload', fields: toFieldErrors(validation.error) });
+  }
+
+  // Persist the event and acknowledge it right away, it is processed in the background
+  try {
+    const job = await jobQueue.enqueue('decision', validation.data);
+    logger.info('Webhook accepted', { type: job.type, jobId: job.id, sessionId: validation.data.verification.id });
+  } catch (error) {
+    countWebhook('decision', 'error', validation.data.verification.code);
+    logger.error('Unable to enqueue webhook', { type: 'decision', error });
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+  countWebhook('decision', 'accepted', validation.data.verification.code);
   return res.status(200).send();
 });
 
 app.post('/webhooks/verification-event', async (req, res) => {
   const payload = req.body;
   const signature = req.get('x-hmac-signature');
+  const apiKey = req.get('x-auth-client');
 
-  if (!signature) {
+  if (!signature || !apiKey || !req.rawBody) {
+    countWebhook('verification-event', 'unauthorized');
     return res.status(401).json({ error: 'Unauthorized' });
   }
 
   // Validate received signature
   const isValid = veriffAPI.isSignatureValid({
     signature,
-    payload,
+    apiKey,
+    payload: req.rawBody,
   });
 
   if (!isValid) {
+    countWebhook('verification-event', 'unauthorized');
     return res.status(401).json({ error: 'Invalid signature' });
   }
 
-  const handler = await VerificationEvents.new();
-  await handler.handleWebhook(payload, res);
+  // Reject malformed payloads before they reach the queue
+  const validation = eventWebhookSchema.safeParse(payload);
+  if (!validation.success) {
+    countWebhook('verification-event', 'invalid_payload');
+    return res.status(400).json({ error: 'Invalid payload', fields: toFieldErrors(validation.error) });
+  }
+
+  // Persist the event and acknowledge it right away, it is processed in the background
+  try {
+    const job = await jobQueue.enqueue('verification-event', validation.data);
+    logger.info('Webhook accepted', { type: job.type, jobId: job.id, sessionId: validation.data.id });
+  } catch (error) {
+    countWebhook('verification-event', 'error', validation.data.code);
+    logger.error('Unable to enqueue webhook', { type: 'verification-event', error });
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+  countWebhook('verification-event', 'accepted', validation.data.code);
   return res.status(200).send();
 });
 
 app.post('/webhooks/proof-of-address', async (req, res) => {
   const payload = req.body;
   const signature = req.get('x-hmac-signature');
+  const apiKey = req.get('x-auth-client');
+
+  if (!signature || !apiKey || !req.rawBody) {
+    countWebhook('proof-of-address', 'unauthorized');
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  // Validate received signature
+  const isValid = veriffAPI.isSignatureValid({
+    signature,
+    apiKey,
+    payload: req.rawBody,
+  });
+
+  if (!isValid) {
+    countWebhook('proof-of-address', 'unauthorized');
+    return res.status(401).json({ error: 'Invalid signature' });
+  }
+
+  // Reject malformed payloads before they reach the queue
+  const validation = proofOfAddressWebhookSchema.safeParse(payload);
+  if (!validation.success) {
+    countWebhook('proof-of-address', 'invalid_payload');
+    return res.status(400).json({ error: 'Invalid payload', fields: toFieldErrors(validation.error) });
+  }
+
+  // Persist the event and acknowledge it right away, it is processed in the background
+  try {
+    const job = await jobQueue.enqueue('proof-of-address', validation.data);
+    logger.info('Webhook accepted', { type: job.type, jobId: job.id, sessionId: validation.data.id });
+  } catch (error) {
+    countWebhook('proof-of-address', 'error');
+    logger.error('Unable to enqueue webhook', { type: 'proof-of-address', error });
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+  countWebhook('proof-of-address', 'accepted');
+  return res.status(200).send();
+});
+
+app.post('/webhooks/watchlist-screening', async (req, res) => {
+  const payload = req.body;
+  const signature = req.get('x-hmac-signature');
+  const apiKey = req.get('x-auth-client');
 
-  if (!signature) {
+  if (!signature || !apiKey || !req.rawBody) {
+    countWebhook('watchlist-screening', 'unauthorized');
     return res.status(401).json({ error: 'Unauthorized' });
   }
 
   // Validate received signature
   const isValid = veriffAPI.isSignatureValid({
     signature,
-    payload,
+    apiKey,
+    payload: req.rawBody,
   });
 
   if (!isValid) {
+    countWebhook('watchlist-screening', 'unauthorized');
     return res.status(401).json({ error: 'Invalid signature' });
   }
-  const handler = await ProofOfAddress.new();
-  await handler.handleWebhook(payload, res);
+
+  // Reject malformed payloads before they reach the queue
+  const validation = watchlistScreeningWebhookSchema.safeParse(payload);
+  if (!validation.success) {
+    countWebhook('watchlist-screening', 'invalid_payload');
+    return res.status(400).json({ error: 'Invalid payload', fields: toFieldErrors(validation.error) });
+  }
+
+  // Persist the event and acknowledge it right away, it is processed in the background
+  try {
+    const job = await jobQueue.enqueue('watchlist-screening', validation.data);
+    logger.info('Webhook accepted', { type: job.type, jobId: job.id, sessionId: validation.data.sessionId });
+  } catch (error) {
+    countWebhook('watchlist-screening', 'error');
+    logger.error('Unable to enqueue webhook', { type: 'watchlist-screening', error });
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+  countWebhook('watchlist-screening', 'accepted');
   return res.status(200).send();
 });
 
-app.listen(port, () => {
-  console.log(`Server is running on port ${port}`);
+if (!SESSIONS_API_TOKEN) {
+  logger.warn('SESSIONS_API_TOKEN is not set, POST /sessions rejects all requests');
+}
+app.post('/sessions', async (req, res) => {
+  if (!SESSIONS_API_TOKEN || !isBearerTokenValid(req.get('authorization'), SESSIONS_API_TOKEN)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const validation = startSessionRequestSchema.safeParse(req.body);
+  if (!validation.success) {
+    return res.status(400).json({ error: 'Invalid payload', fields: toFieldErrors(validation.error) });
+  }
+  const { customerId, person, document, callbackUrl, endUserId } = validation.data;
+
+  try {
+    // The customer ID goes to Veriff as vendorData and comes back in every webhook of the session
+    const { verification } = await veriffAPI.createSession({
+      callback: callbackUrl || VERIFF_CALLBACK_URL || undefined,
+      person,
+      document,
+      vendorData: customerId,
+      endUserId,
+    });
+    await sessionRegistry.register({
+      sessionId: verification.id,
+      customerId,
+      sessionUrl: verification.url,
+      createdAt: new Date().toISOString(),
+    });
+    await sessionStates.transition(verification.id, { state: 'created', code: null, reason: null, reasonCode: null, attemptId: null });
+    // Link by the customer ID only, the document given here is not verified yet
+    await customers.link({ sessionId: verification.id, kind: 'identity', vendorData: customerId, documentNumber: null, dateOfBirth: null });
+    return res.status(201).json({ sessionId: verification.id, sessionUrl: verification.url });
+  } catch (error) {
+    logger.error('Unable to create verification session', { error });
+    if (error instanceof VeriffAPIError) {
+      return res.status(502).json({ error: 'Unable to create verification session' });
+    }
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+if (!ADMIN_API_TOKEN) {
+  logger.warn('ADMIN_API_TOKEN is not set, the admin API rejects all requests');
+}
+app.use('/admin', createAdminRouter({
+  token: ADMIN_API_TOKEN,
+  jobQueue,
+  ledger,
+  sessionRegistry,
+  sessionStates,
+  riskSummaries,
+  reviews,
+  addressChecks,
+  reviewQueue,
+  eraser,
+  veriffAPI,
+}));
+
+if (!CUSTOMERS_API_TOKEN) {
+  logger.warn('CUSTOMERS_API_TOKEN is not set, the customer API rejects all requests');
+}
+app.use('/customers', createCustomersRouter({
+  token: CUSTOMERS_API_TOKEN,
+  customers,
+  sessionStates,
+  riskSummaries,
+  reviews,
+  addressChecks,
+}));
+
+app.listen(port, async () => {
+  logger.info('Server is running', { port });
+  await workerPool.start();
+  retentionSweeper.start();
 }).on('error', (error) => {
   throw new Error(error.message);
+});
+
+// Let in-flight jobs finish before exiting, unfinished ones are recovered on the next start
+process.on('SIGTERM', async () => {
+  await Promise.all([workerPool.stop(), retentionSweeper.stop()]);
+  process.exit(0);
 });
\ No newline at end of file
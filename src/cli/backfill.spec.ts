@@ -0,0 +1,94 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import ProcessingLedger from '../services/ProcessingLedger';
+
+const SESSION_1 = '11111111-0000-0000-0000-000000000000';
+const SESSION_2 = '22222222-0000-0000-0000-000000000000';
+const SESSION_3 = '33333333-0000-0000-0000-000000000000';
+
+// The CLI runs in its own process through ts-node, which takes a few seconds to start
+const TIMEOUT_MS = 60000;
+
+describe('backfill CLI', () => {
+  let directory: string;
+
+  /**
+   * Run the CLI with the given arguments and input, with its data in the temporary directory.
+   */
+  const backfill = (args: string[], input = '') => {
+    const result = spawnSync(process.execPath, ['-r', 'ts-node/register', path.join(__dirname, 'backfill.ts'), '--report', `${directory}/report.json`, ...args], {
+      input,
+      encoding: 'utf8',
+      timeout: TIMEOUT_MS,
+      env: {
+        ...process.env,
+        TS_NODE_TRANSPILE_ONLY: 'true',
+        API_KEYS: JSON.stringify([{ apiKey: 'api-key-1', sharedSecretKey: 'secret-1' }]),
+        BASE_URL: 'https://veriff.example/v1',
+        VERSION: 'v1',
+        STORAGE_BACKEND: 'local',
+        DATA_DIR: `${directory}/data`,
+        LOCAL_STORAGE_DIR: `${directory}/archive`,
+        LOG_LEVEL: 'error',
+      },
+    });
+    const report = fs.existsSync(`${directory}/report.json`) ? JSON.parse(fs.readFileSync(`${directory}/report.json`, 'utf8')) : null;
+    return { status: result.status, stdout: result.stdout, stderr: result.stderr, report };
+  };
+
+  const statuses = (report: any) => Object.fromEntries(report.results.map((result: any) => [result.sessionId, result.status]));
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'backfill-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('reads session IDs from stdin and reports invalid ones in a dry run', () => {
+    const { status, report } = backfill(['--dry-run'], `${SESSION_1}\n${SESSION_2}\n\nnot-a-session\n${SESSION_1}\n`);
+
+    expect(status).toBe(1);
+    expect(report.dryRun).toBe(true);
+    expect(report.summary).toEqual({ archived: 2, skipped: 0, failed: 1 });
+    expect(statuses(report)).toEqual({ [SESSION_1]: 'archived', [SESSION_2]: 'archived', 'not-a-session': 'failed' });
+    expect(fs.existsSync(`${directory}/data/backfill-checkpoint.json`)).toBe(false);
+  }, TIMEOUT_MS);
+
+  it('filters the sessions of a CSV file by date', () => {
+    fs.writeFileSync(`${directory}/sessions.csv`, [
+      'Name,sessionId,createdAt',
+      `"Doe, Jane",${SESSION_1},2023-12-31T23:59:59Z`,
+      `"O""Brien, Pat",${SESSION_2},2024-01-15`,
+      `Roe,${SESSION_3},2024-02-01`,
+    ].join('\n'));
+
+    const { status, report } = backfill(['--file', `${directory}/sessions.csv`, '--since', '2024-01-01', '--until', '2024-02-01', '--dry-run']);
+    expect(status).toBe(0);
+    expect(statuses(report)).toEqual({ [SESSION_2]: 'archived' });
+  }, TIMEOUT_MS);
+
+  it('skips sessions archived by an earlier run or by the server', async () => {
+    fs.mkdirSync(`${directory}/data`, { recursive: true });
+    fs.writeFileSync(`${directory}/data/backfill-checkpoint.json`, JSON.stringify({
+      sessions: { [SESSION_1]: { sessionId: SESSION_1, status: 'archived', at: '2024-01-01T00:00:00.000Z' } },
+    }));
+    await (await new ProcessingLedger(`${directory}/data/ledger`).open({ sessionId: SESSION_2, event: '9001' })).complete();
+
+    const { report } = backfill(['--dry-run'], [SESSION_1, SESSION_2, SESSION_3].join('\n'));
+    expect(statuses(report)).toEqual({ [SESSION_1]: 'skipped', [SESSION_2]: 'skipped', [SESSION_3]: 'archived' });
+
+    const forced = backfill(['--dry-run', '--force'], [SESSION_1, SESSION_2].join('\n'));
+    expect(forced.report.summary).toEqual({ archived: 2, skipped: 0, failed: 0 });
+  }, TIMEOUT_MS);
+
+  it('rejects invalid arguments', () => {
+    expect(backfill(['--concurrency', '0'])).toMatchObject({ status: 1, report: null });
+    expect(backfill(['--since', 'yesterday']).stderr).toContain('Invalid date for --since: yesterday');
+    expect(backfill(['--since', '2024-01-01'], SESSION_1).stderr).toContain('--since and --until need a date column');
+  }, TIMEOUT_MS);
+});
@@ -0,0 +1,317 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import AddressChecks from '../services/AddressChecks';
+import ArchiveManifests from '../services/ArchiveManifests';
+import CustomerIndex from '../services/CustomerIndex';
+import DecisionEvents from '../services/DecisionEvents';
+import ErasureReceipts from '../services/ErasureReceipts';
+import Notifier, { parseNotificationRules } from '../services/Notifier';
+import ProcessingLedger from '../services/ProcessingLedger';
+import ReviewLog from '../services/ReviewLog';
+import RiskSummaries from '../services/RiskSummaries';
+import SessionRegistry from '../services/SessionRegistry';
+import SessionStateMachine from '../services/SessionStateMachine';
+import VeriffAPI from '../services/VeriffAPI';
+import { runWithCorrelationId } from '../utils/logger';
+dotenv.config();
+
+/*
+ * Archive sessions that finished while the server was not running.
+ *
+ *   npm run backfill -- --file sessions.csv [--since 2024-01-01] [--until 2024-02-01] [--concurrency 2]
+ *     [--rate 30] [--checkpoint data/backfill-checkpoint.json] [--report backfill-report.json] [--dry-run] [--force]
+ *
+ * Session IDs are read from the sessionId (or id) column of a CSV file, or from the first column if there is no header.
+ * Without --file they are read from stdin, one per line.
+ */
+
+const { DATA_DIR = 'data', API_KEYS, BASE_URL, NOTIFICATION_RULES } = process.env;
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ID_COLUMNS = ['sessionid', 'session_id', 'id'];
+const DATE_COLUMNS = ['date', 'createdat', 'created_at', 'submissiontime'];
+
+interface BackfillOptions {
+  file: string | null; // CSV file to read, stdin if null.
+  since: Date | null; // Only sessions from this date on, requires a date column.
+  until: Date | null; // Only sessions before this date, requires a date column.
+  concurrency: number; // Sessions archived in parallel.
+  rate: number; // Maximum number of sessions started per minute.
+  checkpoint: string; // Checkpoint file, sessions archived by an earlier run are skipped.
+  report: string; // File the summary report is written to.
+  dryRun: boolean; // Only report what would be archived.
+  force: boolean; // Archive sessions again that were already archived.
+}
+
+type BackfillStatus = 'archived' | 'skipped' | 'failed';
+
+interface BackfillResult {
+  sessionId: string;
+  status: BackfillStatus;
+  reason?: string; // Why the session was skipped or failed.
+  at: string; // ISO timestamp when the session was processed.
+}
+
+interface Checkpoint {
+  sessions: Record<string, BackfillResult>; // Last result of every session processed so far.
+}
+
+/**
+ * Parse the command line arguments.
+ * @param {string[]} args - Arguments after the script name.
+ * @returns {BackfillOptions} - The options.
+ * @throws {Error} - If an argument is unknown or invalid.
+ */
+const parseArguments = (args: string[]): BackfillOptions => {
+  const options: BackfillOptions = {
+    file: null,
+    since: null,
+    until: null,
+    concurrency: 2,
+    rate: 30,
+    checkpoint: `${DATA_DIR}/backfill-checkpoint.json`,
+    report: `backfill-report-${new Date().toISOString().replace(/[:.]/g, '-')}.json`,
+    dryRun: false,
+    force: false,
+  };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined) throw new Error(`Missing value for ${arg}`);
+      return next;
+    };
+    switch (arg) {
+      case '--file': options.file = value(); break;
+      case '--since': options.since = parseDate(value(), arg); break;
+      case '--until': options.until = parseDate(value(), arg); break;
+      case '--concurrency': options.concurrency = parsePositive(value(), arg); break;
+      case '--rate': options.rate = parsePositive(value(), arg); break;
+      case '--checkpoint': options.checkpoint = value(); break;
+      case '--report': options.report = value(); break;
+      case '--dry-run': options.dryRun = true; break;
+      case '--force': options.force = true; break;
+      default: throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return options;
+}
+
+/**
+ * Parse a date argument.
+ * @param {string} value - The value.
+ * @param {string} name - Name of the argument, used in the error message.
+ * @returns {Date} - The date.
+ */
+const parseDate = (value: string, name: string) => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new Error(`Invalid date for ${name}: ${value}`);
+  return date;
+}
+
+/**
+ * Parse a positive integer argument.
+ * @param {string} value - The value.
+ * @param {string} name - Name of the argument, used in the error message.
+ * @returns {number} - The number.
+ */
+const parsePositive = (value: string, name: string) => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) throw new Error(`Invalid value for ${name}: ${value}`);
+  return number;
+}
+
+/**
+ * Split a CSV line into its cells. Quoted cells may contain commas and escaped quotes.
+ * @param {string} line - The line.
+ * @returns {string[]} - The cells, trimmed.
+ */
+const parseCsvLine = (line: string) => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Read the session IDs to archive, filtered by the date range.
+ * @param {string} content - CSV content or one session ID per line.
+ * @param {BackfillOptions} options - The options.
+ * @returns {string[]} - The session IDs, without duplicates, in input order.
+ * @throws {Error} - If a date range is given but the input has no date column.
+ */
+const readSessionIds = (content: string, options: BackfillOptions) => {
+  const rows = content.split(/\r?\n/).filter(line => line.trim()).map(parseCsvLine);
+  const header = rows[0]?.map(cell => cell.toLowerCase()) || [];
+  const hasHeader = header.some(cell => ID_COLUMNS.includes(cell) || DATE_COLUMNS.includes(cell));
+  const idColumn = hasHeader ? header.findIndex(cell => ID_COLUMNS.includes(cell)) : 0;
+  const dateColumn = hasHeader ? header.findIndex(cell => DATE_COLUMNS.includes(cell)) : -1;
+  if (idColumn < 0)
+    throw new Error(`No session ID column found, expected one of: ${ID_COLUMNS.join(', ')}`);
+  if ((options.since || options.until) && dateColumn < 0)
+    throw new Error(`--since and --until need a date column, expected one of: ${DATE_COLUMNS.join(', ')}`);
+
+  const sessionIds = new Set<string>();
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    if (dateColumn >= 0 && (options.since || options.until)) {
+      const date = new Date(row[dateColumn]);
+      if (isNaN(date.getTime()) || (options.since && date < options.since) || (options.until && date >= options.until))
+        continue;
+    }
+    if (row[idColumn])
+      sessionIds.add(row[idColumn]);
+  }
+  return [...sessionIds];
+}
+
+/**
+ * Read the checkpoint of an earlier run.
+ * @param {string} filePath - Path of the checkpoint file.
+ * @returns {Promise<Checkpoint>} - The checkpoint, empty if the file does not exist.
+ */
+const readCheckpoint = async (filePath: string): Promise<Checkpoint> => {
+  try {
+    return JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT')
+      return { sessions: {} };
+    throw error;
+  }
+}
+
+/**
+ * Atomically write a JSON file by writing a temporary file and renaming it.
+ * @param {string} filePath - Path of the file.
+ * @param {any} data - The content.
+ */
+const writeJsonFile = async (filePath: string, data: any) => {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  await fs.promises.writeFile(tempPath, JSON.stringify(data, null, 2));
+  await fs.promises.rename(tempPath, filePath);
+}
+
+/**
+ * Read all of stdin.
+ * @returns {Promise<string>} - The content.
+ */
+const readStdin = async () => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin)
+    chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Wait for the given number of milliseconds.
+ * @param {number} ms - Time to wait in milliseconds.
+ */
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const main = async () => {
+  const options = parseArguments(process.argv.slice(2));
+  const content = options.file ? await fs.promises.readFile(options.file, 'utf8') : await readStdin();
+  const sessionIds = readSessionIds(content, options);
+  const checkpoint = await readCheckpoint(options.checkpoint);
+  if (!API_KEYS) throw new Error('API keys not found');
+  if (!BASE_URL) throw new Error('API version not found');
+  const ledger = new ProcessingLedger(`${DATA_DIR}/ledger`);
+  const handler = await DecisionEvents.new({
+    veriffAPI: new VeriffAPI(JSON.parse(API_KEYS), BASE_URL),
+    ledger,
+    sessionRegistry: new SessionRegistry(`${DATA_DIR}/sessions`),
+    sessionStates: new SessionStateMachine(`${DATA_DIR}/states`),
+    manifests: new ArchiveManifests(`${DATA_DIR}/manifests`),
+    erasures: new ErasureReceipts(`${DATA_DIR}/erasures`),
+    riskSummaries: new RiskSummaries(`${DATA_DIR}/risk`),
+    reviews: new ReviewLog(`${DATA_DIR}/reviews`),
+    customers: new CustomerIndex(`${DATA_DIR}/customers`),
+    addressChecks: new AddressChecks(`${DATA_DIR}/addresses`),
+    notifier: new Notifier(parseNotificationRules(NOTIFICATION_RULES)),
+  });
+  console.log(`Backfilling ${sessionIds.length} session(s)${options.dryRun ? ' (dry run)' : ''}.`);
+
+  const results: BackfillResult[] = [];
+  let checkpointWrite = Promise.resolve();
+  const record = (result: BackfillResult) => {
+    results.push(result);
+    console.log(`${result.sessionId}: ${result.status}${result.reason ? ` (${result.reason})` : ''}`);
+    if (options.dryRun || result.status === 'skipped')
+      return;
+    checkpoint.sessions[result.sessionId] = result;
+    checkpointWrite = checkpointWrite.then(() => writeJsonFile(options.checkpoint, checkpoint));
+  };
+
+  // Sessions are started at most once every interval, by at most `concurrency` workers
+  const interval = 60000 / options.rate;
+  let nextStart = Date.now();
+  let index = 0;
+  const work = async () => {
+    while (index < sessionIds.length) {
+      const sessionId = sessionIds[index++];
+      const at = () => new Date().toISOString();
+      if (!SESSION_ID_PATTERN.test(sessionId)) {
+        record({ sessionId, status: 'failed', reason: 'Invalid session ID', at: at() });
+        continue;
+      }
+      if (!options.force && checkpoint.sessions[sessionId]?.status === 'archived') {
+        record({ sessionId, status: 'skipped', reason: 'Archived by an earlier backfill run', at: at() });
+        continue;
+      }
+      if (!options.force && (await ledger.list(sessionId)).some(entry => entry.completedAt)) {
+        record({ sessionId, status: 'skipped', reason: 'Already archived by the server', at: at() });
+        continue;
+      }
+      if (options.dryRun) {
+        record({ sessionId, status: 'archived', reason: 'Dry run, nothing was archived', at: at() });
+        continue;
+      }
+
+      const wait = nextStart - Date.now();
+      nextStart = Math.max(nextStart, Date.now()) + interval;
+      if (wait > 0)
+        await sleep(wait);
+      try {
+        await runWithCorrelationId(undefined, () => handler.rearchive({ sessionId }));
+        record({ sessionId, status: 'archived', at: at() });
+      } catch (error) {
+        record({ sessionId, status: 'failed', reason: error instanceof Error ? error.message : String(error), at: at() });
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: options.concurrency }, work));
+  await checkpointWrite;
+
+  const count = (status: BackfillStatus) => results.filter(result => result.status === status).length;
+  const summary = { archived: count('archived'), skipped: count('skipped'), failed: count('failed') };
+  await writeJsonFile(options.report, { dryRun: options.dryRun, startedAt: results[0]?.at || null, finishedAt: new Date().toISOString(), summary, results });
+  console.log(`Archived: ${summary.archived}, skipped: ${summary.skipped}, failed: ${summary.failed}. Report written to ${options.report}.`);
+  process.exitCode = summary.failed > 0 ? 1 : 0;
+}
+
+main().catch(error => {
+  console.error('Backfill failed:', error.message);
+  process.exit(1);
+});
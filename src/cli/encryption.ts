@@ -0,0 +1,148 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { LocalStorage, getRawStorageBackend } from '../services/storage';
+import { StorageBackend } from '../types';
+import { ENCRYPTED_CONTENT_TYPE, ENCRYPTED_EXTENSION, decryptEnvelope, getMasterKeys, readEnvelopeHeader, rewrapEnvelope } from '../utils/encryption-utils';
+dotenv.config();
+
+/*
+ * Inspect and maintain archived files encrypted with ENCRYPTION_KEYS.
+ *
+ *   npm run encryption -- decrypt <file> [--out <file>] [--storage]
+ *   npm run encryption -- verify <file or folder>... [--storage]
+ *   npm run encryption -- rewrap <folder> [--dry-run]
+ *
+ * decrypt writes the plaintext of a file, by default to the working directory under its name without the .enc extension.
+ * verify decrypts every .enc file and reports files that were modified or use an unknown key.
+ * rewrap wraps the data keys of every .enc file in the archive folder with the first key of ENCRYPTION_KEYS,
+ * after a new master key was added in front of the old one. The old key can be removed once no file uses it.
+ *
+ * With --storage, paths refer to the archive in the configured storage backend instead of the local filesystem.
+ */
+
+type Command = 'decrypt' | 'verify' | 'rewrap';
+
+interface EncryptionOptions {
+  command: Command;
+  paths: string[]; // Files or folders to process.
+  out: string | null; // Output file of decrypt, - for stdout.
+  storage: boolean; // Read from the storage backend instead of the local filesystem.
+  dryRun: boolean; // Only report which files rewrap would change.
+}
+
+/**
+ * Parse the command line arguments.
+ * @param {string[]} args - Arguments after the script name.
+ * @returns {EncryptionOptions} - The options.
+ * @throws {Error} - If an argument is unknown or missing.
+ */
+const parseArguments = (args: string[]): EncryptionOptions => {
+  const [command, ...rest] = args;
+  if (command !== 'decrypt' && command !== 'verify' && command !== 'rewrap')
+    throw new Error('Usage: encryption decrypt|verify|rewrap <path>... [--out <file>] [--storage] [--dry-run]');
+  const options: EncryptionOptions = { command, paths: [], out: null, storage: command === 'rewrap', dryRun: false };
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    switch (arg) {
+      case '--out':
+        options.out = rest[++i];
+        if (options.out === undefined) throw new Error('Missing value for --out');
+        break;
+      case '--storage': options.storage = true; break;
+      case '--dry-run': options.dryRun = true; break;
+      default:
+        if (arg.startsWith('--')) throw new Error(`Unknown argument: ${arg}`);
+        options.paths.push(arg);
+    }
+  }
+  if (options.paths.length === 0)
+    throw new Error(`Missing path for ${command}`);
+  if (command === 'decrypt' && options.paths.length > 1)
+    throw new Error('decrypt takes a single file');
+  return options;
+}
+
+/**
+ * Find the encrypted files at a path, recursively for folders.
+ * @param {StorageBackend} storage - Where the files are stored.
+ * @param {string} target - A file or folder.
+ * @returns {AsyncGenerator<string>} - Paths of the encrypted files.
+ */
+async function* findEncryptedFiles(storage: StorageBackend, target: string): AsyncGenerator<string> {
+  if (target.endsWith(ENCRYPTED_EXTENSION)) {
+    yield target;
+    return;
+  }
+  for (const entry of await storage.list(target)) {
+    const entryPath = `${target}/${entry.name}`;
+    if (entry.isFolder)
+      yield* findEncryptedFiles(storage, entryPath);
+    else if (entry.name.endsWith(ENCRYPTED_EXTENSION))
+      yield entryPath;
+  }
+}
+
+const main = async () => {
+  const options = parseArguments(process.argv.slice(2));
+  if (!getMasterKeys())
+    throw new Error('ENCRYPTION_KEYS is not set');
+  // Local paths are read through a local storage rooted at the filesystem root, so both sources work the same way
+  const storage = options.storage ? await getRawStorageBackend() : new LocalStorage(path.parse(process.cwd()).root);
+  const resolve = (target: string) => options.storage ? target.replace(/^\/+|\/+$/g, '') : path.resolve(target);
+
+  if (options.command === 'decrypt') {
+    const { header, plaintext } = decryptEnvelope(await storage.read(resolve(options.paths[0])));
+    const out = options.out || path.basename(options.paths[0], ENCRYPTED_EXTENSION);
+    if (out === '-') {
+      process.stdout.write(plaintext);
+    } else {
+      await fs.promises.writeFile(out, plaintext);
+      console.log(`Decrypted ${header.contentType} (key ${header.key.id}) to ${out}.`);
+    }
+    return;
+  }
+
+  let processed = 0;
+  let changed = 0;
+  let failed = 0;
+  for (const target of options.paths) {
+    for await (const filePath of findEncryptedFiles(storage, resolve(target))) {
+      processed++;
+      try {
+        const file = await storage.read(filePath);
+        if (options.command === 'verify') {
+          const { header } = decryptEnvelope(file);
+          console.log(`${filePath}: ok (key ${header.key.id})`);
+          continue;
+        }
+        const { header } = readEnvelopeHeader(file);
+        const rewrapped = rewrapEnvelope(file);
+        if (!rewrapped) {
+          console.log(`${filePath}: already uses the active key`);
+          continue;
+        }
+        changed++;
+        if (!options.dryRun) {
+          const separator = filePath.lastIndexOf('/');
+          await storage.putBinary(filePath.slice(0, separator), filePath.slice(separator + 1), rewrapped, ENCRYPTED_CONTENT_TYPE, rewrapped.length);
+        }
+        console.log(`${filePath}: ${options.dryRun ? 'would be rewrapped' : 'rewrapped'} (key ${header.key.id})`);
+      } catch (error) {
+        failed++;
+        console.error(`${filePath}: failed (${error instanceof Error ? error.message : String(error)})`);
+      }
+    }
+  }
+
+  const summary = options.command === 'verify'
+    ? `Verified ${processed - failed} of ${processed} file(s)`
+    : `Rewrapped ${changed} of ${processed} file(s)${options.dryRun ? ' (dry run)' : ''}, ${failed} failed`;
+  console.log(`${summary}.`);
+  process.exitCode = failed > 0 ? 1 : 0;
+}
+
+main().catch(error => {
+  console.error('Encryption command failed:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,105 @@
+import dotenv from 'dotenv';
+import SessionStateMachine from '../services/SessionStateMachine';
+import { getStorageBackend } from '../services/storage';
+import { ManifestVerification } from '../types';
+import { verifyManifest } from '../utils/manifest-utils';
+dotenv.config();
+
+/*
+ * Compare archived session folders with their manifest.json.
+ *
+ *   npm run verify-archive -- <folder>... [--session <session ID>]... [--json]
+ *
+ * Every file listed in the manifest is read from the storage backend (decrypted if the archive is encrypted) and
+ * hashed. Files that are missing, modified or not listed are reported, as well as manifests whose root hash or
+ * signature does not match. With --session, every folder the session was archived to is verified.
+ */
+
+const { DATA_DIR = 'data' } = process.env;
+
+interface VerifyOptions {
+  folders: string[]; // Session folders to verify.
+  sessions: string[]; // Sessions whose archive folders are verified.
+  json: boolean; // Print the results as JSON instead of a report.
+}
+
+/**
+ * Parse the command line arguments.
+ * @param {string[]} args - Arguments after the script name.
+ * @returns {VerifyOptions} - The options.
+ * @throws {Error} - If an argument is unknown or missing.
+ */
+const parseArguments = (args: string[]): VerifyOptions => {
+  const options: VerifyOptions = { folders: [], sessions: [], json: false };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--session': {
+        const sessionId = args[++i];
+        if (sessionId === undefined) throw new Error('Missing value for --session');
+        options.sessions.push(sessionId);
+        break;
+      }
+      case '--json': options.json = true; break;
+      default:
+        if (arg.startsWith('--')) throw new Error(`Unknown argument: ${arg}`);
+        options.folders.push(arg.replace(/^\/+|\/+$/g, ''));
+    }
+  }
+  if (options.folders.length === 0 && options.sessions.length === 0)
+    throw new Error('Usage: verify-archive <folder>... [--session <session ID>]... [--json]');
+  return options;
+}
+
+/**
+ * Print the result of a folder.
+ * @param {ManifestVerification} result - The result.
+ */
+const report = (result: ManifestVerification) => {
+  if (!result.manifestFound) {
+    console.log(`${result.folder}: no manifest`);
+    return;
+  }
+  console.log(`${result.folder}: ${result.valid ? 'ok' : 'FAILED'}`);
+  if (!result.chainValid)
+    console.log('  root hash does not match the listed files');
+  if (result.signatureValid === false)
+    console.log('  signature is invalid');
+  for (const file of result.files.filter(file => file.status !== 'ok'))
+    console.log(`  ${file.status}: ${file.path}`);
+  for (const file of result.unlisted)
+    console.log(`  unlisted: ${file}`);
+}
+
+const main = async () => {
+  const options = parseArguments(process.argv.slice(2));
+  const folders = [...options.folders];
+  const states = new SessionStateMachine(`${DATA_DIR}/states`);
+  for (const sessionId of options.sessions) {
+    const state = await states.get(sessionId);
+    if (!state || state.folders.length === 0)
+      throw new Error(`No archive folders known for session ${sessionId}`);
+    folders.push(...state.folders.map(({ folder }) => folder));
+  }
+
+  const storage = await getStorageBackend();
+  const results: ManifestVerification[] = [];
+  for (const folder of folders) {
+    const result = await verifyManifest(storage, folder);
+    results.push(result);
+    if (!options.json)
+      report(result);
+  }
+
+  const valid = results.filter(result => result.valid).length;
+  if (options.json)
+    console.log(JSON.stringify(results, null, 2));
+  else
+    console.log(`Verified ${valid} of ${results.length} folder(s).`);
+  process.exitCode = valid === results.length ? 0 : 1;
+}
+
+main().catch(error => {
+  console.error('Archive verification failed:', error.message);
+  process.exit(1);
+});
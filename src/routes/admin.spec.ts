@@ -0,0 +1,245 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAdminRouter } from './admin';
+import AddressChecks from '../services/AddressChecks';
+import ArchiveManifests from '../services/ArchiveManifests';
+import CustomerIndex from '../services/CustomerIndex';
+import ErasureReceipts from '../services/ErasureReceipts';
+import JobQueue from '../services/JobQueue';
+import ProcessingLedger from '../services/ProcessingLedger';
+import ReviewLog from '../services/ReviewLog';
+import ReviewQueue from '../services/ReviewQueue';
+import RiskSummaries from '../services/RiskSummaries';
+import SessionEraser from '../services/SessionEraser';
+import SessionRegistry from '../services/SessionRegistry';
+import SessionStateMachine from '../services/SessionStateMachine';
+import UploadSessions from '../services/UploadSessions';
+import VeriffAPI from '../services/VeriffAPI';
+
+// The storage backend is configured when it is first imported
+const archiveDirectory = vi.hoisted(async () => {
+  const { default: fs } = await import('fs');
+  const { default: os } = await import('os');
+  const { default: path } = await import('path');
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'admin-archive-'));
+  process.env.STORAGE_BACKEND = 'local';
+  process.env.LOCAL_STORAGE_DIR = directory;
+  return directory;
+});
+
+const TOKEN = 'admin-token';
+const SESSION_ID = '1f2e3d4c-0000-0000-0000-000000000000';
+
+describe('admin router', () => {
+  let directory: string;
+  let server: Server;
+  let jobQueue: JobQueue;
+  let ledger: ProcessingLedger;
+  let sessionStates: SessionStateMachine;
+
+  /**
+   * Send a request to the admin API, with the admin token unless other headers are given.
+   */
+  const request = async (method: string, url: string, body?: object, headers: Record<string, string> = { authorization: `Bearer ${TOKEN}` }) => {
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://127.0.0.1:${port}/admin${url}`, {
+      method,
+      headers: { ...headers, 'content-type': 'application/json' },
+      body: body && JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  /**
+   * Start the admin API on a random port, with its stores in the temporary directory.
+   */
+  const start = async (token: string | undefined) => {
+    const stores = {
+      jobQueue: jobQueue = new JobQueue(`${directory}/jobs`),
+      ledger: ledger = new ProcessingLedger(`${directory}/ledger`),
+      sessionRegistry: new SessionRegistry(`${directory}/sessions`),
+      sessionStates: sessionStates = new SessionStateMachine(`${directory}/states`),
+      riskSummaries: new RiskSummaries(`${directory}/risk`),
+      reviews: new ReviewLog(`${directory}/reviews`),
+      addressChecks: new AddressChecks(`${directory}/addresses`),
+    };
+    const customers = new CustomerIndex(`${directory}/customers`);
+    const eraser = new SessionEraser({
+      ...stores,
+      receipts: new ErasureReceipts(`${directory}/erasures`),
+      manifests: new ArchiveManifests(`${directory}/manifests`),
+      customers,
+      uploads: new UploadSessions(`${directory}/uploads`),
+      receiptFolder: 'Erasure Receipts',
+    });
+    const app = express();
+    app.use(express.json());
+    app.use('/admin', createAdminRouter({
+      ...stores,
+      token,
+      reviewQueue: new ReviewQueue({ ...stores, customers }),
+      eraser,
+      veriffAPI: new VeriffAPI([{ apiKey: 'api-key-1', sharedSecretKey: 'secret-1' }], 'https://veriff.example/v1'),
+    }));
+    await new Promise<void>(resolve => {
+      server = app.listen(0, '127.0.0.1', resolve);
+    });
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'admin-'));
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    fs.rmSync(await archiveDirectory, { recursive: true, force: true });
+  });
+
+  describe('authentication', () => {
+    it('rejects requests without the admin token', async () => {
+      await start(TOKEN);
+      expect((await request('GET', '/keys', undefined, {})).status).toBe(401);
+      expect((await request('GET', '/keys', undefined, { authorization: 'Bearer wrong' })).status).toBe(401);
+      expect((await request('GET', '/keys')).status).toBe(200);
+    });
+
+    it('rejects every request when no token is configured', async () => {
+      await start(undefined);
+      expect((await request('GET', '/keys', undefined, { authorization: 'Bearer undefined' })).status).toBe(401);
+      expect((await request('GET', '/keys', undefined, { authorization: 'Bearer ' })).status).toBe(401);
+    });
+  });
+
+  describe('sessions', () => {
+    beforeEach(async () => {
+      await start(TOKEN);
+    });
+
+    it('reports unknown sessions as not found', async () => {
+      expect((await request('GET', `/sessions/${SESSION_ID}`)).status).toBe(404);
+    });
+
+    it('shows the jobs and ledger of a session, without the webhook payloads', async () => {
+      await jobQueue.enqueue('decision', { verification: { id: SESSION_ID, person: { firstName: 'Jane' } } });
+      await (await ledger.open({ sessionId: SESSION_ID, event: '9001' })).record('json:sessionDecision.json');
+
+      const { status, body } = await request('GET', `/sessions/${SESSION_ID}`);
+      expect(status).toBe(200);
+      expect(body.jobs).toHaveLength(1);
+      expect(body.jobs[0]).not.toHaveProperty('payload');
+      expect(Object.keys(body.ledger[0].artifacts)).toEqual(['json:sessionDecision.json']);
+    });
+
+    it('queues a rearchive of a session', async () => {
+      const { status, body } = await request('POST', `/sessions/${SESSION_ID}/rearchive`);
+      expect(status).toBe(202);
+      expect(await jobQueue.find(body.jobId)).toMatchObject({ type: 'rearchive', payload: { sessionId: SESSION_ID } });
+    });
+  });
+
+  describe('webhook replay', () => {
+    beforeEach(async () => {
+      await start(TOKEN);
+    });
+
+    it('queues the payload of a job again, archived even if it was archived completely', async () => {
+      const original = await jobQueue.enqueue('verification-event', { id: SESSION_ID, code: 7002, action: 'submitted' });
+      await jobQueue.complete((await jobQueue.claimNext())!);
+
+      const { status, body } = await request('POST', '/webhooks/replay', { jobId: original.id });
+      expect(status).toBe(202);
+      expect(await jobQueue.find(body.jobId)).toMatchObject({ type: 'verification-event', payload: original.payload, force: true, status: 'pending' });
+    });
+
+    it('validates the request', async () => {
+      const { status, body } = await request('POST', '/webhooks/replay', { jobId: 'not-a-uuid' });
+      expect(status).toBe(400);
+      expect(body.fields).toEqual([{ field: 'jobId', message: 'Invalid uuid' }]);
+      expect((await request('POST', '/webhooks/replay', { jobId: SESSION_ID })).status).toBe(404);
+    });
+  });
+
+  describe('erasures', () => {
+    beforeEach(async () => {
+      await start(TOKEN);
+      await sessionStates.transition(SESSION_ID, { state: 'declined', code: 9102, reason: null, reasonCode: null, attemptId: null });
+    });
+
+    it('erases a session and returns its receipt', async () => {
+      const { status, body } = await request('POST', '/erasures', { sessionId: SESSION_ID, requestedBy: 'TICKET-1' });
+      expect(status).toBe(200);
+      expect(body.receipts).toHaveLength(1);
+      expect(body.receipts[0]).toMatchObject({ sessionId: SESSION_ID, reason: 'request', requestedBy: 'TICKET-1', state: 'declined' });
+      expect(await sessionStates.get(SESSION_ID)).toBeNull();
+      expect(await request('GET', `/erasures/${SESSION_ID}`)).toEqual({ status: 200, body: body.receipts[0] });
+    });
+
+    it('erases the sessions of a customer', async () => {
+      await jobQueue.enqueue('decision', { verification: { id: SESSION_ID, vendorData: 'CUST-1' } });
+      const { status, body } = await request('POST', '/erasures', { vendorData: 'CUST-1' });
+      expect(status).toBe(200);
+      expect(body.receipts.map((receipt: { sessionId: string }) => receipt.sessionId)).toEqual([SESSION_ID]);
+      expect(await jobQueue.list()).toEqual([]);
+    });
+
+    it('asks to try again while a job of the session is being processed', async () => {
+      await jobQueue.enqueue('rearchive', { sessionId: SESSION_ID });
+      await jobQueue.claimNext();
+
+      const { status, body } = await request('POST', '/erasures', { sessionId: SESSION_ID });
+      expect(status).toBe(409);
+      expect(body).toMatchObject({ busy: [SESSION_ID], receipts: [] });
+      expect((await request('GET', `/erasures/${SESSION_ID}`)).body).toMatchObject({ completedAt: null });
+    });
+
+    it('reports unknown sessions and customers as not found', async () => {
+      expect((await request('POST', '/erasures', { sessionId: '2f2e3d4c-0000-0000-0000-000000000000' })).status).toBe(404);
+      expect((await request('POST', '/erasures', { vendorData: 'CUST-2' })).status).toBe(404);
+      expect((await request('GET', `/erasures/${SESSION_ID}`)).status).toBe(404);
+    });
+  });
+
+  describe('reviews', () => {
+    const DECISION = { decision: 'reject', reviewer: 'reviewer@example.com', notes: 'Document looks altered' };
+
+    beforeEach(async () => {
+      await start(TOKEN);
+      await sessionStates.transition(SESSION_ID, { state: 'review', code: 9121, reason: null, reasonCode: null, attemptId: null });
+    });
+
+    it('lists the sessions waiting for a review', async () => {
+      const { status, body } = await request('GET', '/reviews');
+      expect(status).toBe(200);
+      expect(body.reviews).toMatchObject([{ sessionId: SESSION_ID, reasons: ['review'], state: 'review' }]);
+    });
+
+    it('records a decision once and shows the audit trail', async () => {
+      const { status, body } = await request('POST', `/reviews/${SESSION_ID}`, DECISION);
+      expect(status).toBe(201);
+      expect(body.decision).toMatchObject({ outcome: 'rejected', reviewer: 'reviewer@example.com', veriffState: 'review' });
+      expect(await jobQueue.find(body.jobId)).toMatchObject({ type: 'review-decision' });
+      expect((await request('POST', `/reviews/${SESSION_ID}`, { ...DECISION, decision: 'approve' })).status).toBe(409);
+
+      const trail = await request('GET', `/reviews/${SESSION_ID}`);
+      expect(trail.body).toMatchObject({ pending: null, trailValid: true, decisions: [{ id: body.decision.id }] });
+      expect((await request('GET', '/reviews')).body.reviews).toEqual([]);
+    });
+
+    it('validates the decision', async () => {
+      const { status, body } = await request('POST', `/reviews/${SESSION_ID}`, { ...DECISION, decision: 'maybe', notes: ' ' });
+      expect(status).toBe(400);
+      expect(body.fields.map((field: { field: string }) => field.field)).toEqual(['decision', 'notes']);
+      expect((await request('POST', '/reviews/2f2e3d4c-0000-0000-0000-000000000000', DECISION)).status).toBe(404);
+      expect((await request('GET', '/reviews/2f2e3d4c-0000-0000-0000-000000000000')).status).toBe(404);
+    });
+  });
+});
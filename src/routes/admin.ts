@@ -0,0 +1,234 @@
+import { Router } from 'express';
+import AddressChecks from '../services/AddressChecks';
+import JobQueue, { getJobSessionId } from '../services/JobQueue';
+import ProcessingLedger from '../services/ProcessingLedger';
+import RiskSummaries from '../services/RiskSummaries';
+import ReviewLog, { verifyReviewTrail } from '../services/ReviewLog';
+import ReviewQueue, { ReviewNotPendingError } from '../services/ReviewQueue';
+import SessionRegistry from '../services/SessionRegistry';
+import SessionStateMachine from '../services/SessionStateMachine';
+import SessionEraser, { SessionBusyError } from '../services/SessionEraser';
+import VeriffAPI from '../services/VeriffAPI';
+import { getStorageBackend } from '../services/storage';
+import { ErasureReceipt, RearchivePayload, erasureRequestSchema, replayWebhookRequestSchema, reviewDecisionRequestSchema } from '../types';
+import { isBearerTokenValid } from '../utils/auth-utils';
+import { toFieldErrors } from '../utils/validation-utils';
+import { verifyManifest } from '../utils/manifest-utils';
+import logger from '../utils/logger';
+
+export interface AdminRouterOptions {
+  token: string | undefined; // Bearer token required by every admin route. The routes reject all requests without it.
+  jobQueue: JobQueue;
+  ledger: ProcessingLedger;
+  sessionRegistry: SessionRegistry;
+  sessionStates: SessionStateMachine;
+  riskSummaries: RiskSummaries;
+  reviews: ReviewLog;
+  addressChecks: AddressChecks;
+  reviewQueue: ReviewQueue;
+  eraser: SessionEraser;
+  veriffAPI: VeriffAPI;
+}
+
+/**
+ * Create the admin API, used by support to inspect sessions and archive them again without waiting for Veriff.
+ * @param {AdminRouterOptions} options - Token and local stores.
+ * @returns {Router} - Router to mount on /admin.
+ */
+export const createAdminRouter = ({ token, jobQueue, ledger, sessionRegistry, sessionStates, riskSummaries, reviews, addressChecks, reviewQueue, eraser, veriffAPI }: AdminRouterOptions) => {
+  const router = Router();
+
+  router.use((req, res, next) => {
+    if (!token || !isBearerTokenValid(req.get('authorization'), token)) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    next();
+  });
+
+  // Health of the Veriff API key pairs, as seen by the requests of the server
+  router.get('/keys', (req, res) => {
+    res.json({ keys: veriffAPI.getKeyHealth() });
+  });
+
+  // Local processing status of a session and the files in its archive folders
+  router.get('/sessions/:id', async (req, res) => {
+    const sessionId = req.params.id;
+    try {
+      const [registration, state, risk, review, address, ledgerRecords, jobs] = await Promise.all([
+        sessionRegistry.get(sessionId),
+        sessionStates.get(sessionId),
+        riskSummaries.get(sessionId),
+        reviews.get(sessionId),
+        addressChecks.get(sessionId),
+        ledger.list(sessionId),
+        jobQueue.list(),
+      ]);
+      const sessionJobs = jobs.filter(job => getJobSessionId(job) === sessionId).map(({ payload, ...job }) => job);
+      if (!registration && !state && ledgerRecords.length === 0 && sessionJobs.length === 0) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+
+      const storage = await getStorageBackend();
+      const archive = [];
+      for (const { folder } of state?.folders || []) {
+        const exists = await storage.exists(folder);
+        archive.push({ folder, exists, entries: exists ? await storage.list(folder) : [] });
+      }
+
+      return res.json({ sessionId, registration, state, risk, reviews: review?.decisions || [], address, jobs: sessionJobs, ledger: ledgerRecords, archive });
+    } catch (error) {
+      logger.error('Unable to read status of session', { sessionId, error });
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Compare the archive folders of a session with their manifests
+  router.get('/sessions/:id/verify', async (req, res) => {
+    const sessionId = req.params.id;
+    try {
+      const state = await sessionStates.get(sessionId);
+      if (!state || state.folders.length === 0) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      const storage = await getStorageBackend();
+      const folders = [];
+      for (const { folder } of state.folders) {
+        folders.push(await verifyManifest(storage, folder));
+      }
+      return res.json({ sessionId, valid: folders.every(folder => folder.valid), folders });
+    } catch (error) {
+      logger.error('Unable to verify archive of session', { sessionId, error });
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Pull the session from Veriff and archive it again, processed in the background like a webhook
+  router.post('/sessions/:id/rearchive', async (req, res) => {
+    const payload: RearchivePayload = { sessionId: req.params.id };
+    try {
+      const job = await jobQueue.enqueue('rearchive', payload);
+      return res.status(202).json({ jobId: job.id });
+    } catch (error) {
+      logger.error('Unable to enqueue rearchive of session', { sessionId: payload.sessionId, error });
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Process the payload of a stored job again, even if it was already archived completely
+  router.post('/webhooks/replay', async (req, res) => {
+    const validation = replayWebhookRequestSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid payload', fields: toFieldErrors(validation.error) });
+    }
+    try {
+      const original = await jobQueue.find(validation.data.jobId);
+      if (!original) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      const job = await jobQueue.enqueue(original.type, original.payload, true);
+      return res.status(202).json({ jobId: job.id });
+    } catch (error) {
+      logger.error('Unable to replay job', { jobId: validation.data.jobId, error });
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Sessions waiting for a manual review, longest waiting first
+  router.get('/reviews', async (req, res) => {
+    try {
+      return res.json({ reviews: await reviewQueue.listPending() });
+    } catch (error) {
+      logger.error('Unable to list pending reviews', { error });
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Whether a session is waiting for a review, and the audit trail of its review decisions
+  router.get('/reviews/:sessionId', async (req, res) => {
+    const { sessionId } = req.params;
+    try {
+      const [pending, record] = await Promise.all([reviewQueue.getPending(sessionId), reviews.get(sessionId)]);
+      if (!pending && !record) {
+        return res.status(404).json({ error: 'Review not found' });
+      }
+      const decisions = record?.decisions || [];
+      return res.json({ sessionId, pending, decisions, trailValid: verifyReviewTrail(decisions) });
+    } catch (error) {
+      logger.error('Unable to read reviews of session', { sessionId, error });
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Record a reviewer's decision, archived as reviewDecision.json in the background
+  router.post('/reviews/:sessionId', async (req, res) => {
+    const { sessionId } = req.params;
+    const validation = reviewDecisionRequestSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid payload', fields: toFieldErrors(validation.error) });
+    }
+    try {
+      if (!await sessionStates.get(sessionId)) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      const { decision, jobId } = await reviewQueue.decide(sessionId, validation.data);
+      return res.status(201).json({ decision, jobId });
+    } catch (error) {
+      if (error instanceof ReviewNotPendingError) {
+        return res.status(409).json({ error: 'Session is not waiting for a review' });
+      }
+      logger.error('Unable to record review decision', { sessionId, error });
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Erase a session, or every session of a customer, from the archive and the local stores
+  router.post('/erasures', async (req, res) => {
+    const validation = erasureRequestSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid payload', fields: toFieldErrors(validation.error) });
+    }
+    const { sessionId, vendorData, requestedBy = null } = validation.data;
+    try {
+      const sessionIds = sessionId ? (await eraser.isKnown(sessionId) ? [sessionId] : []) : await eraser.findSessions(vendorData!);
+      if (sessionIds.length === 0) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      const receipts: ErasureReceipt[] = [];
+      const busy: string[] = [];
+      for (const id of sessionIds) {
+        try {
+          receipts.push(await eraser.erase(id, 'request', requestedBy));
+        } catch (error) {
+          if (!(error instanceof SessionBusyError))
+            throw error;
+          busy.push(id);
+        }
+      }
+      // Sessions that are being archived have to be erased again once their job is finished
+      if (busy.length > 0) {
+        return res.status(409).json({ error: 'Session is being archived, try again later', busy, receipts });
+      }
+      return res.json({ receipts });
+    } catch (error) {
+      logger.error('Unable to erase sessions', { sessionId, error });
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Receipt of an erased session
+  router.get('/erasures/:sessionId', async (req, res) => {
+    const { sessionId } = req.params;
+    try {
+      const receipt = await eraser.getReceipt(sessionId);
+      if (!receipt) {
+        return res.status(404).json({ error: 'Receipt not found' });
+      }
+      return res.json(receipt);
+    } catch (error) {
+      logger.error('Unable to read erasure receipt', { sessionId, error });
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,139 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createCustomersRouter } from './customers';
+import AddressChecks from '../services/AddressChecks';
+import CustomerIndex from '../services/CustomerIndex';
+import ReviewLog from '../services/ReviewLog';
+import RiskSummaries from '../services/RiskSummaries';
+import SessionStateMachine from '../services/SessionStateMachine';
+import { AddressCheck, SessionState } from '../types';
+
+const TOKEN = 'customers-token';
+
+describe('customers router', () => {
+  let directory: string;
+  let server: Server;
+  let customers: CustomerIndex;
+  let sessionStates: SessionStateMachine;
+  let riskSummaries: RiskSummaries;
+  let reviews: ReviewLog;
+  let addressChecks: AddressChecks;
+
+  /**
+   * Get the KYC summary of a customer, with the customers token unless other headers are given.
+   */
+  const getSummary = async (customerId: string, headers: Record<string, string> = { authorization: `Bearer ${TOKEN}` }) => {
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://127.0.0.1:${port}/customers/${encodeURIComponent(customerId)}/kyc-summary`, { headers });
+    return { status: response.status, body: await response.json() };
+  };
+
+  /**
+   * Link a session to CUST-1 and move it into a state.
+   */
+  const addSession = async (sessionId: string, state: SessionState) => {
+    await customers.link({ sessionId, kind: 'identity', vendorData: 'CUST-1', documentNumber: null, dateOfBirth: null });
+    await sessionStates.transition(sessionId, { state, code: null, reason: null, reasonCode: null, attemptId: null });
+  };
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'customers-router-'));
+    customers = new CustomerIndex(`${directory}/customers`);
+    sessionStates = new SessionStateMachine(`${directory}/states`);
+    riskSummaries = new RiskSummaries(`${directory}/risk`);
+    reviews = new ReviewLog(`${directory}/reviews`);
+    const app = express();
+    app.use('/customers', createCustomersRouter({ token: TOKEN, customers, sessionStates, riskSummaries, reviews, addressChecks: addressChecks = new AddressChecks(`${directory}/addresses`) }));
+    await new Promise<void>(resolve => {
+      server = app.listen(0, '127.0.0.1', resolve);
+    });
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('rejects requests without the customers token', async () => {
+    expect((await getSummary('CUST-1', {})).status).toBe(401);
+    expect((await getSummary('CUST-1', { authorization: 'Bearer wrong' })).status).toBe(401);
+  });
+
+  it('reports unknown customers as not found', async () => {
+    expect(await getSummary('CUST-1')).toEqual({ status: 404, body: { error: 'Customer not found' } });
+  });
+
+  it('takes the status from the latest decided session', async () => {
+    await addSession('session-1', 'approved');
+    await addSession('session-2', 'started');
+
+    const { status, body } = await getSummary('CUST-1');
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ customerId: 'CUST-1', vendorData: 'CUST-1', status: 'approved', statusSessionId: 'session-1', proofOfAddress: 'unverified', reviewPending: false });
+    expect(body.sessions.map((session: { status: string }) => session.status)).toEqual(['approved', 'pending']);
+  });
+
+  it('applies review decisions and watchlist hits waiting for a review', async () => {
+    await addSession('session-1', 'review');
+    await reviews.append({ sessionId: 'session-1', outcome: 'approved', reviewer: 'reviewer@example.com', notes: 'Checked', reasons: ['review'], veriffState: 'review', veriffCode: 9121, riskLevel: 'none' });
+    expect((await getSummary('CUST-1')).body).toMatchObject({ status: 'approved', sessions: [{ reviewOutcome: 'approved' }] });
+
+    await addSession('session-2', 'approved');
+    await riskSummaries.record('session-2', { hits: [{ matchedName: 'John Smith', matchTypes: ['name_exact'], listingsRelatedToMatch: { sanctions: [{}] } }] }, 'medium');
+    expect((await getSummary('CUST-1')).body).toMatchObject({ status: 'review', statusSessionId: 'session-2', riskLevel: 'high', reviewPending: true });
+
+    await reviews.append({ sessionId: 'session-2', outcome: 'rejected', reviewer: 'reviewer@example.com', notes: 'Sanctioned', reasons: ['watchlist'], veriffState: 'approved', veriffCode: 9001, riskLevel: 'high' });
+    await riskSummaries.markReviewed('session-2');
+    expect((await getSummary('CUST-1')).body).toMatchObject({ status: 'declined', statusSessionId: 'session-2', reviewPending: false });
+  });
+
+  describe('proofs of address', () => {
+    const check = (sessionId: string, fields: Partial<AddressCheck>): AddressCheck => ({
+      sessionId,
+      addressId: 'address-1',
+      state: null,
+      code: null,
+      unknownDecision: false,
+      reason: null,
+      documentType: 'UTILITY_BILL',
+      issueDate: '2024-01-01',
+      address: null,
+      identitySessionId: 'session-1',
+      nameMatch: true,
+      addressMatch: true,
+      mismatch: false,
+      checkedAt: new Date().toISOString(),
+      ...fields,
+    });
+
+    beforeEach(async () => {
+      await addSession('session-1', 'approved');
+      await customers.link({ sessionId: 'session-2', kind: 'proof-of-address', vendorData: 'CUST-1', documentNumber: null, dateOfBirth: null, addressId: 'address-1' });
+    });
+
+    it('takes the decision of the proof of address check, with address mismatches', async () => {
+      await addressChecks.record(check('session-2', { state: 'approved', code: 9001, addressMatch: false, mismatch: true }));
+      expect((await getSummary('CUST-1')).body).toMatchObject({
+        status: 'approved',
+        proofOfAddress: 'approved',
+        addressMismatch: true,
+        sessions: [{ sessionId: 'session-1', addressMismatch: null }, { sessionId: 'session-2', status: 'approved', addressIds: ['address-1'] }],
+      });
+    });
+
+    it('reports proofs of address with an unknown decision as in review', async () => {
+      await addressChecks.record(check('session-2', { state: 'review', code: 9999, unknownDecision: true }));
+      expect((await getSummary('CUST-1')).body).toMatchObject({ proofOfAddress: 'review', reviewPending: true, sessions: [{ status: 'approved' }, { status: 'review' }] });
+    });
+
+    it('reports proofs of address without a decision as pending', async () => {
+      await addressChecks.record(check('session-2', {}));
+      expect((await getSummary('CUST-1')).body).toMatchObject({ proofOfAddress: 'pending', addressMismatch: false });
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { Router } from 'express';
+import AddressChecks from '../services/AddressChecks';
+import CustomerIndex from '../services/CustomerIndex';
+import ReviewLog, { getCurrentState } from '../services/ReviewLog';
+import RiskSummaries from '../services/RiskSummaries';
+import SessionStateMachine from '../services/SessionStateMachine';
+import { CustomerRecord, CustomerSessionKind, KycSessionSummary, KycStatus, KycSummary, RiskLevel, SessionState } from '../types';
+import { isBearerTokenValid } from '../utils/auth-utils';
+import { isRiskAtLeast } from '../utils/watchlist-utils';
+import logger from '../utils/logger';
+
+export interface CustomersRouterOptions {
+  token: string | undefined; // Bearer token required by every customer route. The routes reject all requests without it.
+  customers: CustomerIndex;
+  sessionStates: SessionStateMachine;
+  riskSummaries: RiskSummaries;
+  reviews: ReviewLog;
+  addressChecks: AddressChecks;
+}
+
+// States of sessions that were not decided yet
+const PENDING_STATES: readonly SessionState[] = ['created', 'started', 'submitted'];
+
+// Statuses of sessions that were decided, by Veriff or a reviewer, or wait for one
+const DECIDED_STATUSES: readonly KycStatus[] = ['review', 'approved', 'declined', 'resubmission_requested'];
+
+/**
+ * Create the customer API, used by our systems to look up the verification status of a customer across their sessions.
+ * @param {CustomersRouterOptions} options - Token and local stores.
+ * @returns {Router} - Router to mount on /customers.
+ */
+export const createCustomersRouter = ({ token, customers, sessionStates, riskSummaries, reviews, addressChecks }: CustomersRouterOptions) => {
+  const router = Router();
+
+  router.use((req, res, next) => {
+    if (!token || !isBearerTokenValid(req.get('authorization'), token)) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    next();
+  });
+
+  // Current verification status of a customer and every session linked to them
+  router.get('/:id/kyc-summary', async (req, res) => {
+    const customerId = req.params.id;
+    try {
+      const customer = await customers.get(customerId);
+      if (!customer) {
+        return res.status(404).json({ error: 'Customer not found' });
+      }
+      return res.json(await getKycSummary(customer, { sessionStates, riskSummaries, reviews, addressChecks }));
+    } catch (error) {
+      logger.error('Unable to read KYC summary of customer', { customerId, error });
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+};
+
+/**
+ * Summarize the verification status of a customer from the local stores of their sessions.
+ * @param {CustomerRecord} customer - The customer.
+ * @param {Omit<CustomersRouterOptions, 'token' | 'customers'>} stores - Local stores of the sessions.
+ * @returns {Promise<KycSummary>} - The summary.
+ */
+const getKycSummary = async (customer: CustomerRecord, { sessionStates, riskSummaries, reviews, addressChecks }: Omit<CustomersRouterOptions, 'token' | 'customers'>): Promise<KycSummary> => {
+  const sessions: KycSessionSummary[] = [];
+  for (const { sessionId, kind, attemptIds, addressIds, linkedAt, updatedAt } of customer.sessions) {
+    const [state, risk, review, address] = await Promise.all([sessionStates.get(sessionId), riskSummaries.get(sessionId), reviews.get(sessionId), addressChecks.get(sessionId)]);
+    const decision = review?.decisions[review.decisions.length - 1] || null;
+    const current = getCurrentState(state, review, address)?.state || null;
+    let status: KycStatus = !current || PENDING_STATES.includes(current) ? 'pending' : current as KycStatus;
+    // Approved sessions stay approved while their watchlist hits wait for a review, and when a reviewer rejects the hits
+    if (risk?.reviewRequired)
+      status = 'review';
+    else if (status === 'approved' && decision?.outcome === 'rejected')
+      status = 'declined';
+    sessions.push({
+      sessionId,
+      kind,
+      status,
+      riskLevel: risk?.riskLevel || 'none',
+      reviewOutcome: decision?.outcome || null,
+      addressMismatch: address ? address.mismatch : null,
+      attemptIds,
+      addressIds,
+      linkedAt,
+      updatedAt: [state?.updatedAt, risk?.updatedAt, decision?.decidedAt, address?.checkedAt].reduce((latest: string, at) => at && at > latest ? at : latest, updatedAt),
+    });
+  }
+
+  const identity = getLatestStatus(sessions, 'identity');
+  const proofOfAddress = getLatestStatus(sessions, 'proof-of-address');
+  return {
+    customerId: customer.customerId,
+    vendorData: customer.vendorData,
+    status: identity?.status || 'unverified',
+    statusSessionId: identity?.sessionId || null,
+    proofOfAddress: proofOfAddress?.status || 'unverified',
+    addressMismatch: Boolean(proofOfAddress?.addressMismatch),
+    riskLevel: sessions.reduce((level: RiskLevel, session) => isRiskAtLeast(level, session.riskLevel) ? level : session.riskLevel, 'none'),
+    reviewPending: sessions.some(session => session.status === 'review'),
+    sessions,
+    updatedAt: sessions.reduce((latest, session) => session.updatedAt > latest ? session.updatedAt : latest, customer.updatedAt),
+  };
+}
+
+/**
+ * Find the session the status of a customer is taken from: the latest session with a decision, or the latest session
+ * if none was decided yet.
+ * @param {KycSessionSummary[]} sessions - Sessions of the customer, oldest first.
+ * @param {CustomerSessionKind} kind - Identity verification or proof of address.
+ * @returns {KycSessionSummary | null} - The session, or null if the customer has no session of the kind.
+ */
+const getLatestStatus = (sessions: KycSessionSummary[], kind: CustomerSessionKind) => {
+  const ofKind = sessions.filter(session => session.kind === kind);
+  return [...ofKind].reverse().find(session => DECIDED_STATUSES.includes(session.status)) || ofKind[ofKind.length - 1] || null;
+}
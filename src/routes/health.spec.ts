@@ -0,0 +1,92 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createHealthRouter } from './health';
+import JobQueue from '../services/JobQueue';
+import VeriffAPI from '../services/VeriffAPI';
+
+// The storage backend is configured when it is first imported
+const archiveDirectory = vi.hoisted(async () => {
+  const { default: fs } = await import('fs');
+  const { default: os } = await import('os');
+  const { default: path } = await import('path');
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'health-archive-'));
+  process.env.STORAGE_BACKEND = 'local';
+  process.env.LOCAL_STORAGE_DIR = directory;
+  return directory;
+});
+
+describe('health router', () => {
+  let directory: string;
+  let server: Server;
+  let jobQueue: JobQueue;
+  const checkKeys = vi.fn();
+
+  const request = async (url: string) => {
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://127.0.0.1:${port}${url}`);
+    return { status: response.status, text: await response.text() };
+  };
+
+  // Every router registers a metrics collector for its job queue, so the queue is shared by all tests
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'health-'));
+    jobQueue = new JobQueue(`${directory}/jobs`);
+  });
+
+  beforeEach(async () => {
+    checkKeys.mockReset();
+    const app = express();
+    app.use(createHealthRouter({ veriffAPI: { checkKeys } as unknown as VeriffAPI, jobQueue, readinessCacheMs: 60000 }));
+    await new Promise<void>(resolve => {
+      server = app.listen(0, '127.0.0.1', resolve);
+    });
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterAll(async () => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    fs.rmSync(await archiveDirectory, { recursive: true, force: true });
+  });
+
+  it('reports the process as healthy', async () => {
+    expect(await request('/healthz')).toEqual({ status: 200, text: '{"status":"ok"}' });
+  });
+
+  it('is ready while Veriff accepts one of the key pairs, and caches the result', async () => {
+    checkKeys.mockResolvedValue([
+      { apiKey: 'api-key-…', accepted: false, status: 401 },
+      { apiKey: 'api-key-…', accepted: true, status: 404 },
+    ]);
+
+    const { status, text } = await request('/readyz');
+    expect(status).toBe(200);
+    expect(JSON.parse(text)).toMatchObject({ ready: true, checks: { veriff: { ok: true }, storage: { ok: true } } });
+    await request('/readyz');
+    expect(checkKeys).toHaveBeenCalledOnce();
+  });
+
+  it('is not ready when Veriff rejects every key pair', async () => {
+    checkKeys.mockResolvedValue([{ apiKey: 'api-key-…', accepted: false, status: 401 }]);
+
+    const { status, text } = await request('/readyz');
+    expect(status).toBe(503);
+    expect(JSON.parse(text)).toMatchObject({ ready: false, checks: { veriff: { ok: false } } });
+  });
+
+  it('renders the metrics with the depth of the job queue', async () => {
+    await jobQueue.enqueue('decision', { verification: { id: 'session-1' } });
+
+    const { status, text } = await request('/metrics');
+    expect(status).toBe(200);
+    expect(text).toContain('veriff_kyc_job_queue_jobs{status="pending"} 1\n');
+    expect(text).toContain('# TYPE veriff_kyc_webhooks_total counter');
+  });
+});
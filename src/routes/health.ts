@@ -0,0 +1,93 @@
+import { Router } from 'express';
+import JobQueue from '../services/JobQueue';
+import VeriffAPI, { KeyCheck } from '../services/VeriffAPI';
+import { getStorageBackend } from '../services/storage';
+import logger from '../utils/logger';
+import { onCollect, queueDepth, renderMetrics } from '../utils/metrics';
+
+export interface HealthRouterOptions {
+  veriffAPI: VeriffAPI;
+  jobQueue: JobQueue;
+  readinessCacheMs: number; // How long a readiness result is reused, so that frequent probes do not flood Veriff and the storage.
+}
+
+interface Readiness {
+  ready: boolean; // Whether Veriff accepts at least one key pair and the storage can be reached.
+  checks: {
+    veriff: { ok: boolean, keys: KeyCheck[] };
+    storage: { ok: boolean };
+  };
+  checkedAt: string; // ISO timestamp of the checks.
+}
+
+/**
+ * Create the health, readiness and metrics endpoints. They need no authentication and must not be exposed publicly.
+ * @param {HealthRouterOptions} options - Veriff API, job queue and readiness cache duration.
+ * @returns {Router} - Router to mount on /.
+ */
+export const createHealthRouter = ({ veriffAPI, jobQueue, readinessCacheMs }: HealthRouterOptions) => {
+  const router = Router();
+  let readiness: Promise<Readiness> | null = null;
+  let checkedAt = 0;
+
+  onCollect(async () => {
+    const counts = await jobQueue.countByStatus();
+    for (const [status, count] of Object.entries(counts))
+      queueDepth.set({ status }, count);
+  });
+
+  // The process is up and serving requests
+  router.get('/healthz', (req, res) => {
+    res.json({ status: 'ok' });
+  });
+
+  // The Veriff API keys and the storage credentials work, checked at most once per cache duration
+  router.get('/readyz', async (req, res) => {
+    if (!readiness || Date.now() - checkedAt > readinessCacheMs) {
+      checkedAt = Date.now();
+      readiness = checkReadiness(veriffAPI);
+    }
+    const result = await readiness;
+    res.status(result.ready ? 200 : 503).json(result);
+  });
+
+  router.get('/metrics', async (req, res) => {
+    try {
+      res.type('text/plain; version=0.0.4').send(await renderMetrics());
+    } catch (error) {
+      logger.error('Unable to collect metrics', { error });
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+/**
+ * Check that Veriff accepts the API keys and that the storage can be reached. Failures are logged, the response only
+ * tells which check failed.
+ * @param {VeriffAPI} veriffAPI - The Veriff API.
+ * @returns {Promise<Readiness>} - The result of the checks.
+ */
+const checkReadiness = async (veriffAPI: VeriffAPI): Promise<Readiness> => {
+  const [keys, storageOk] = await Promise.all([
+    veriffAPI.checkKeys(),
+    getStorageBackend().then(storage => storage.checkAccess()).then(() => true, error => {
+      logger.error('Storage is not reachable', { error });
+      return false;
+    }),
+  ]);
+  const rejected = keys.filter(key => !key.accepted);
+  if (rejected.length) {
+    logger.warn('Veriff did not accept API keys', { keys: rejected });
+  }
+  const veriffOk = keys.some(key => key.accepted);
+  return {
+    ready: veriffOk && storageOk,
+    checks: {
+      veriff: { ok: veriffOk, keys },
+      storage: { ok: storageOk },
+    },
+    checkedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,44 @@
+import JsonFileStore from './JsonFileStore';
+import { AddressCheck } from '../types';
+
+/**
+ * Results of the proof of address sessions: the decision, the extracted address and how it compares with the
+ * identity verification of the customer.
+ */
+class AddressChecks {
+  private store: JsonFileStore<AddressCheck>;
+
+  /**
+   * @param {string} directory - Directory in which the checks are stored.
+   */
+  constructor(directory: string) {
+    this.store = new JsonFileStore(directory);
+  }
+
+  /**
+   * Get the latest check of a proof of address session.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @returns {Promise<AddressCheck | null>} - The check, or null if no proof of address webhook of the session was processed.
+   */
+  public async get(sessionId: string) {
+    return this.store.get(sessionId);
+  }
+
+  /**
+   * Record the check of a proof of address, replacing the previous check of the session.
+   * @param {AddressCheck} check - The check.
+   */
+  public async record(check: AddressCheck) {
+    await this.store.put(check.sessionId, check);
+  }
+
+  /**
+   * Forget the check of a session.
+   * @param {string} sessionId - ID of the Veriff session.
+   */
+  public async delete(sessionId: string) {
+    await this.store.delete(sessionId);
+  }
+}
+
+export default AddressChecks;
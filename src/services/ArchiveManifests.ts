@@ -0,0 +1,104 @@
+import JsonFileStore from './JsonFileStore';
+import { ArchiveManifest, ManifestFile, ManifestRecord } from '../types';
+import { computeRootHash, signRootHash } from '../utils/manifest-utils';
+
+export interface PendingManifest {
+  manifest: ArchiveManifest; // The manifest to store in its folder.
+  revision: number; // Revision of the folder the manifest was built from.
+}
+
+/**
+ * Hashes of every file archived for a session, per session folder, kept locally so that the manifest of a folder
+ * still lists the files uploaded by earlier runs and other webhooks of the session.
+ */
+class ArchiveManifests {
+  private store: JsonFileStore<ManifestRecord>;
+
+  /**
+   * @param {string} directory - Directory in which the file hashes are stored.
+   */
+  constructor(directory: string) {
+    this.store = new JsonFileStore(directory);
+  }
+
+  /**
+   * Get the hashes of every file archived for a session.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @returns {Promise<ManifestRecord | null>} - The files per session folder, or null if nothing was archived.
+   */
+  public async get(sessionId: string) {
+    return this.store.get(sessionId);
+  }
+
+  /**
+   * Forget the files archived for a session.
+   * @param {string} sessionId - ID of the Veriff session.
+   */
+  public async delete(sessionId: string) {
+    await this.store.delete(sessionId);
+  }
+
+  /**
+   * Record an archived file. A file uploaded again, e.g. by a rearchive, replaces its earlier entry.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @param {string} folder - The session folder the file belongs to.
+   * @param {ManifestFile} file - The file entry.
+   */
+  public async addFile(sessionId: string, folder: string, file: ManifestFile) {
+    await this.store.update(sessionId, current => {
+      const record: ManifestRecord = current || { sessionId, folders: {} };
+      const entry = record.folders[folder] || (record.folders[folder] = { files: {}, revision: 0, writtenRevision: 0, rootHash: null });
+      entry.files[file.path] = file;
+      entry.revision++;
+      return record;
+    });
+  }
+
+  /**
+   * Build the manifests of the session folders with files recorded since their manifest was last written.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @returns {Promise<PendingManifest[]>} - The new manifests, to be stored in their folders and then marked as written.
+   */
+  public async build(sessionId: string) {
+    const record = await this.store.get(sessionId);
+    const pending: PendingManifest[] = [];
+    for (const [folder, entry] of Object.entries(record?.folders || {})) {
+      if (entry.revision === entry.writtenRevision)
+        continue;
+      const files = Object.values(entry.files).sort((a, b) => a.path.localeCompare(b.path));
+      const rootHash = computeRootHash({ sessionId, folder, files, previousRootHash: entry.rootHash });
+      pending.push({
+        manifest: {
+          version: 1,
+          sessionId,
+          folder,
+          generatedAt: new Date().toISOString(),
+          files,
+          previousRootHash: entry.rootHash,
+          rootHash,
+          signature: signRootHash(rootHash),
+        },
+        revision: entry.revision,
+      });
+    }
+    return pending;
+  }
+
+  /**
+   * Remember that a manifest was stored, so that the next one chains to it.
+   * @param {PendingManifest} pending - The stored manifest.
+   */
+  public async markWritten({ manifest, revision }: PendingManifest) {
+    await this.store.update(manifest.sessionId, current => {
+      const record: ManifestRecord = current || { sessionId: manifest.sessionId, folders: {} };
+      const entry = record.folders[manifest.folder];
+      if (entry) {
+        entry.rootHash = manifest.rootHash;
+        entry.writtenRevision = Math.max(entry.writtenRevision, revision);
+      }
+      return record;
+    });
+  }
+}
+
+export default ArchiveManifests;
@@ -1,45 +1,340 @@
 import VeriffAPI from '../services/VeriffAPI';
-import { getAccessToken, getFormDigestValue, uploadFileToSharepoint } from '../utils/sharepoint-utils';
-import { MediaItem } from '../types';
+import ProcessingLedger, { LedgerEntry } from './ProcessingLedger';
+import SessionRegistry from './SessionRegistry';
+import ArchiveManifests from './ArchiveManifests';
+import ErasureReceipts from './ErasureReceipts';
+import RiskSummaries from './RiskSummaries';
+import ReviewLog, { verifyReviewTrail } from './ReviewLog';
+import CustomerIndex from './CustomerIndex';
+import AddressChecks from './AddressChecks';
+import Notifier from './Notifier';
+import SessionStateMachine, { IllegalTransitionError } from './SessionStateMachine';
+import { getStorageBackend } from './storage';
+import { renderFileNameTemplate } from '../utils/path-utils';
+import { MANIFEST_FILE_NAME, sha256 } from '../utils/manifest-utils';
+import { hashStream } from '../utils/stream-utils';
+import { parseRiskLevel } from '../utils/watchlist-utils';
+import { ArchivePathValues, CustomerLink, CustomerSessionKind, DecisionNotification, HandlerOptions, LedgerKey, MediaItem, Person, RiskSummary, SessionDecisionResponse, SessionTransition, StorageBackend, WatchlistScreening } from '../types';
+import logger, { redactValues } from '../utils/logger';
 import dotenv from 'dotenv';
 dotenv.config();
 
-const { VERSION, BASE_URL, API_KEYS } = process.env;
-if (!API_KEYS) throw new Error('API keys not found');
-if (!BASE_URL) throw new Error('API version not found');
+const { VERSION, WATCHLIST_REVIEW_RISK_LEVEL } = process.env;
 if (!VERSION) throw new Error('API version not found');
-const obj = new VeriffAPI(JSON.parse(API_KEYS), BASE_URL);
+const reviewRiskLevel = parseRiskLevel(WATCHLIST_REVIEW_RISK_LEVEL, 'low', 'WATCHLIST_REVIEW_RISK_LEVEL');
+
+export interface WebhookHandlerServices {
+  veriffAPI: VeriffAPI;
+  ledger: ProcessingLedger;
+  sessionRegistry: SessionRegistry;
+  sessionStates: SessionStateMachine;
+  manifests: ArchiveManifests;
+  erasures: ErasureReceipts;
+  riskSummaries: RiskSummaries;
+  reviews: ReviewLog;
+  customers: CustomerIndex;
+  addressChecks: AddressChecks;
+  notifier: Notifier;
+}
 
 class BaseWebhookHandler {
-  protected static veriffAPI = obj;
   protected static version = VERSION || '1.0.0';
-  protected accessToken: string;
-  protected formDigestValue: string;
+  protected services: WebhookHandlerServices;
+  protected storage: StorageBackend;
 
   constructor() {
     throw new Error('Please use the new() method to create an instance.');
   }
 
-  public static async new() {
-    let instance = Object.create(BaseWebhookHandler.prototype);
-    await instance.init();
+  /**
+   * Create a handler.
+   * @param {WebhookHandlerServices} services - The Veriff API client and the local stores, shared with the rest of the
+   * server so that every update of a store goes through the same locks.
+   * @returns {Promise<T>} - The handler.
+   */
+  public static async new<T extends BaseWebhookHandler>(this: new () => T, services: WebhookHandlerServices): Promise<T> {
+    let instance = Object.create(this.prototype);
+    await instance.init(services);
     return instance;
   }
 
-  private async init() {
-    this.accessToken = await getAccessToken();
-    this.formDigestValue = await getFormDigestValue(this.accessToken);
+  private async init(services: WebhookHandlerServices) {
+    this.services = services;
+    this.storage = await getStorageBackend();
+  }
+
+  /**
+   * Open the ledger entry of a webhook. A forced run, e.g. a replay, starts over if the webhook was already archived completely.
+   * Webhooks of erased sessions are never archived again, not even by a forced run.
+   * @param {LedgerKey} key - Session ID, event code and attempt ID of the webhook.
+   * @param {HandlerOptions} options - Handler options.
+   * @returns {Promise<LedgerEntry | null>} - The ledger entry, or null if the webhook was already archived and must be skipped.
+   */
+  protected async openEntry(key: LedgerKey, options: HandlerOptions) {
+    if (await this.services.erasures.get(key.sessionId)) {
+      logger.info('Session was erased, skipping webhook', { sessionId: key.sessionId });
+      return null;
+    }
+    const entry = await this.services.ledger.open(key);
+    if (entry.completed) {
+      if (!options.force)
+        return null;
+      await entry.reset();
+    }
+    return entry;
+  }
+
+  /**
+   * Move a session to the state a webhook reports. Webhooks that the state machine rejects, e.g. a "submitted" event
+   * delivered after the decision, are marked as processed without archiving anything.
+   * @param {LedgerEntry} entry - Ledger entry of the webhook being processed.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @param {Omit<SessionTransition, 'from' | 'at'>} transition - The new state and what caused it.
+   * @returns {Promise<boolean>} - False if the transition was rejected and the webhook must not be archived.
+   */
+  protected async moveSession(entry: LedgerEntry, sessionId: string, transition: Omit<SessionTransition, 'from' | 'at'>) {
+    try {
+      await this.services.sessionStates.transition(sessionId, transition);
+      return true;
+    } catch (error) {
+      if (!(error instanceof IllegalTransitionError))
+        throw error;
+      logger.warn('Illegal session state transition, skipping webhook', { sessionId, from: error.from, to: error.to });
+      await entry.complete();
+      return false;
+    }
+  }
+
+  /**
+   * Collect the values of the archive path tokens of a session.
+   * Sessions created through POST /sessions are filed under the customer they were created for.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @param {string} decision - Outcome or event the archive is filed under.
+   * @param {Person} person - The verified person.
+   * @param {SessionDecisionResponse | null} sessionDecision - Decision of the session, if available.
+   * @param {string | null} vendorData - vendorData of the webhook, if any.
+   * @returns {Promise<ArchivePathValues>} - The token values.
+   */
+  protected async getArchiveValues(sessionId: string, decision: string, person: Person, sessionDecision: SessionDecisionResponse | null, vendorData?: string | null): Promise<ArchivePathValues> {
+    const record = await this.services.sessionRegistry.get(sessionId);
+    const state = await this.services.sessionStates.get(sessionId);
+    const verification = sessionDecision?.verification;
+    const name = [person.firstName, person.lastName].filter(Boolean).join(' ');
+    // The name also ends up in archive paths, keep it and the other personal data out of the logs
+    redactValues(name, person.firstName, person.lastName, person.fullName, person.idNumber, person.dateOfBirth, person.placeOfBirth, verification?.document?.number);
+    // Use the start of the session, so that every event of a session is filed under the same date
+    const started = new Date(record?.createdAt || verification?.acceptanceTime || Date.now());
+    return {
+      decision,
+      reasonCode: state?.reasonCode != null ? String(state.reasonCode) : null,
+      vendorData: record?.customerId || vendorData || verification?.vendorData || null,
+      name: name || null,
+      sessionId,
+      date: isNaN(started.getTime()) ? new Date() : started,
+    };
+  }
+
+  /**
+   * Link a session to its customer in the customer index, by its vendorData or else by the document of the person.
+   * @param {ArchivePathValues} values - Token values of the session, carrying its vendorData.
+   * @param {CustomerSessionKind} kind - Identity verification or proof of address.
+   * @param {Person} person - The verified person.
+   * @param {SessionDecisionResponse | null} sessionDecision - Decision of the session, if available.
+   * @param {Pick<CustomerLink, 'attemptIds' | 'addressId'>} ids - Attempts and proof of address of the session.
+   */
+  protected async linkCustomer(values: ArchivePathValues, kind: CustomerSessionKind, person: Person, sessionDecision: SessionDecisionResponse | null, ids: Pick<CustomerLink, 'attemptIds' | 'addressId'> = {}) {
+    await this.services.customers.link({
+      sessionId: values.sessionId,
+      kind,
+      vendorData: values.vendorData,
+      documentNumber: sessionDecision?.verification?.document?.number || person.idNumber || null,
+      dateOfBirth: person.dateOfBirth || null,
+      ...ids,
+    });
+  }
+
+  /**
+   * Link the archive folders of a session to each other. A session that is filed under a new state, e.g. approved after
+   * a resubmission was requested, gets a relatedEvidence.json in every one of its folders listing all of them.
+   * @param {LedgerEntry} entry - Ledger entry of the webhook being processed.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @param {string} folderPath - The folder the webhook is archived to.
+   */
+  protected async linkRelatedEvidence(entry: LedgerEntry, sessionId: string, folderPath: string) {
+    const folders = await this.services.sessionStates.addFolder(sessionId, folderPath);
+    if (folders.length < 2)
+      return;
+    await Promise.all(folders.map(({ folder }) =>
+      this.uploadJSON(entry, 'relatedEvidence.json', { sessionId, folders }, folder)
+    ));
+  }
+
+  /**
+   * Write a new manifest.json to every folder of a session that files were archived to since its last manifest.
+   * @param {string} sessionId - ID of the Veriff session.
+   */
+  protected async writeManifests(sessionId: string) {
+    for (const pending of await this.services.manifests.build(sessionId)) {
+      await this.storage.putJson(pending.manifest.folder, MANIFEST_FILE_NAME, pending.manifest);
+      await this.services.manifests.markWritten(pending);
+    }
+  }
+
+  /**
+   * Store the risk summary of a session's watchlist screening.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @param {WatchlistScreening | null | undefined} screening - The screening, if available.
+   * @param {boolean} review - Whether new hits reaching WATCHLIST_REVIEW_RISK_LEVEL require a manual review of the session.
+   * @returns {Promise<RiskSummary | null>} - The summary, or null if the screening is not available.
+   */
+  protected async screenWatchlist(sessionId: string, screening: WatchlistScreening | null | undefined, review: boolean): Promise<RiskSummary | null> {
+    if (!screening)
+      return null;
+    return this.logHits(await this.services.riskSummaries.record(sessionId, screening, review ? reviewRiskLevel : null));
+  }
+
+  /**
+   * Summarize a session's watchlist screening like {@link screenWatchlist}, without storing the summary, e.g. until the
+   * session took the state the summary belongs to.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @param {WatchlistScreening | null | undefined} screening - The screening, if available.
+   * @param {boolean} review - Whether new hits reaching WATCHLIST_REVIEW_RISK_LEVEL require a manual review of the session.
+   * @returns {Promise<RiskSummary | null>} - The summary, or null if the screening is not available.
+   */
+  protected async summarizeWatchlist(sessionId: string, screening: WatchlistScreening | null | undefined, review: boolean): Promise<RiskSummary | null> {
+    if (!screening)
+      return null;
+    return this.logHits(await this.services.riskSummaries.summarize(sessionId, screening, review ? reviewRiskLevel : null));
+  }
+
+  /**
+   * Log the hits of a watchlist screening, if it found any.
+   * @param {RiskSummary} summary - Risk summary of the screening.
+   * @returns {RiskSummary} - The summary.
+   */
+  private logHits(summary: RiskSummary) {
+    if (summary.totalHits > 0)
+      logger.info('Watchlist screening found possible matches', { sessionId: summary.sessionId, riskLevel: summary.riskLevel, totalHits: summary.totalHits, newHits: summary.newHits, reviewRequired: summary.reviewRequired });
+    return summary;
+  }
+
+  /**
+   * Get the content of the reviewDecision.json of a session: the latest manual review decision and the audit trail.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @returns {Promise<object | null>} - The content, or null if the session was never reviewed.
+   */
+  protected async getReviewFile(sessionId: string) {
+    const record = await this.services.reviews.get(sessionId);
+    if (!record || record.decisions.length === 0)
+      return null;
+    return {
+      sessionId,
+      decision: record.decisions[record.decisions.length - 1],
+      trailValid: verifyReviewTrail(record.decisions),
+      auditTrail: record.decisions,
+    };
+  }
+
+  /**
+   * Send the notifications of every rule matching a decision, skipping the ones a previous run already sent.
+   * @param {LedgerEntry} entry - Ledger entry of the webhook being processed.
+   * @param {DecisionNotification} notification - The decision.
+   */
+  protected async notify(entry: LedgerEntry, notification: DecisionNotification) {
+    for (const delivery of this.services.notifier.match(notification)) {
+      const artifact = `notification:${delivery.key}`;
+      if (entry.has(artifact))
+        continue;
+      await this.services.notifier.send(delivery, notification);
+      await entry.record(artifact);
+    }
+  }
+
+  /**
+   * Create a folder and all of its parent folders, skipping the ones a previous run already created.
+   * @param {LedgerEntry} entry - Ledger entry of the webhook being processed.
+   * @param {string} path - Path of the folder.
+   */
+  protected async createFolders(entry: LedgerEntry, path: string) {
+    const segments = path.split('/');
+    for (let i = 1; i <= segments.length; i++) {
+      await this.createFolder(entry, segments.slice(0, i).join('/'));
+    }
+  }
+
+  /**
+   * Create a folder unless a previous run of the same webhook already did.
+   * @param {LedgerEntry} entry - Ledger entry of the webhook being processed.
+   * @param {string} path - Path of the folder.
+   */
+  protected async createFolder(entry: LedgerEntry, path: string) {
+    const artifact = `folder:${path}`;
+    if (entry.has(artifact))
+      return;
+    await this.storage.ensureFolder(path);
+    await entry.record(artifact);
+  }
+
+  /**
+   * Upload an object as a JSON file unless a previous run of the same webhook already did.
+   * Empty data is not recorded so that it is uploaded once it becomes available.
+   * @param {LedgerEntry} entry - Ledger entry of the webhook being processed.
+   * @param {string} fileName - The name of the JSON file.
+   * @param {any} data - The object to be stored in the JSON file.
+   * @param {string} folderPath - The path to the folder where the file will be uploaded.
+   */
+  protected async uploadJSON(entry: LedgerEntry, fileName: string, data: any, folderPath: string) {
+    const artifact = `json:${folderPath}/${fileName}`;
+    if (!data || entry.has(artifact))
+      return;
+    const content = Buffer.from(JSON.stringify(data));
+    await this.storage.putJson(folderPath, fileName, data);
+    await this.services.manifests.addFile(entry.sessionId, folderPath, {
+      path: fileName,
+      sha256: sha256(content),
+      size: content.length,
+      contentType: 'application/json',
+      mediaId: null,
+      archivedAt: new Date().toISOString(),
+    });
+    await entry.record(artifact);
   }
 
-  protected async uploadMediaFiles(mediaItems: MediaItem[], folderPath: string) {
+  /**
+   * Upload media files unless a previous run of the same webhook already did.
+   * @param {LedgerEntry} entry - Ledger entry of the webhook being processed.
+   * @param {MediaItem[]} mediaItems - The media files.
+   * @param {string} folderPath - The path to the folder where the files will be uploaded.
+   * @param {string} fileNameTemplate - Template of the file names, without extension.
+   * @param {ArchivePathValues} values - Token values of the template.
+   * @param {'session' | 'address'} source - Whether the files are media of a session or its attempts, or proof of address media, which Veriff serves from its own endpoint.
+   */
+  protected async uploadMediaFiles(entry: LedgerEntry, mediaItems: MediaItem[], folderPath: string, fileNameTemplate: string, values: ArchivePathValues, source: 'session' | 'address' = 'session') {
     for (const mediaItem of mediaItems) {
-      const { id, context } = mediaItem;
-      const data = await BaseWebhookHandler.veriffAPI.getMediaById(id);
-      const fileExtension = data?.contentType.split('/')[1];
-      const fileName = `${context}.${fileExtension}`;
-      await uploadFileToSharepoint(fileName, data?.media, data?.contentType, this.accessToken, this.formDigestValue, folderPath);
+      const { id, context, size } = mediaItem;
+      const artifact = `media:${folderPath}/${id}`;
+      if (entry.has(artifact))
+        continue;
+      const data = source === 'address' ? await this.services.veriffAPI.getAddressMediaById(id) : await this.services.veriffAPI.getMediaById(id);
+      if (!data)
+        throw new Error(`Media ${id} could not be downloaded`);
+      const fileExtension = data.contentType.split('/')[1];
+      const fileName = `${renderFileNameTemplate(fileNameTemplate, { ...values, context, mediaId: id })}.${fileExtension}`;
+      const hashed = hashStream(data.media);
+      await this.storage.putBinary(folderPath, fileName, hashed.stream, data.contentType, Number(size) || undefined);
+      // Media is listed in the manifest of the session folder, relative to it if the media folder is inside it
+      const sessionFolder = values.sessionFolder || folderPath;
+      const filePath = `${folderPath}/${fileName}`;
+      await this.services.manifests.addFile(values.sessionId, sessionFolder, {
+        path: filePath.startsWith(`${sessionFolder}/`) ? filePath.slice(sessionFolder.length + 1) : `/${filePath}`,
+        ...hashed.digest(),
+        contentType: data.contentType,
+        mediaId: id,
+        archivedAt: new Date().toISOString(),
+      });
+      await entry.record(artifact);
     }
   }
 }
 
-export default BaseWebhookHandler;
\ No newline at end of file
+export default BaseWebhookHandler;
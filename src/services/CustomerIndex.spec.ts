@@ -0,0 +1,89 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import CustomerIndex from './CustomerIndex';
+import { CustomerLink } from '../types';
+
+const link = (sessionId: string, fields: Partial<CustomerLink> = {}): CustomerLink =>
+  ({ sessionId, kind: 'identity', vendorData: null, documentNumber: null, dateOfBirth: null, ...fields });
+
+describe('CustomerIndex', () => {
+  let directory: string;
+  let customers: CustomerIndex;
+
+  const sessionIds = async (customerId: string) => (await customers.get(customerId))?.sessions.map(session => session.sessionId);
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'customers-'));
+    customers = new CustomerIndex(directory);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('links sessions to the customer of their vendorData', async () => {
+    await customers.link(link('session-1', { vendorData: 'CUST-1', attemptIds: ['attempt-1'] }));
+    const record = await customers.link(link('session-1', { vendorData: 'CUST-1', attemptIds: ['attempt-2', 'attempt-1'] }));
+    await customers.link(link('session-2', { vendorData: 'CUST-1', kind: 'proof-of-address', addressId: 'address-1' }));
+
+    expect(record).toMatchObject({ customerId: 'CUST-1', vendorData: 'CUST-1', sessions: [{ sessionId: 'session-1', kind: 'identity', attemptIds: ['attempt-1', 'attempt-2'] }] });
+    expect((await customers.get('CUST-1'))?.sessions.map(({ sessionId, kind, addressIds }) => ({ sessionId, kind, addressIds }))).toEqual([
+      { sessionId: 'session-1', kind: 'identity', addressIds: [] },
+      { sessionId: 'session-2', kind: 'proof-of-address', addressIds: ['address-1'] },
+    ]);
+    expect((await customers.findBySession('session-2'))?.customerId).toBe('CUST-1');
+  });
+
+  it('links sessions without vendorData by the document of the person', async () => {
+    expect(await customers.link(link('session-1'))).toBeNull();
+
+    const first = await customers.link(link('session-1', { documentNumber: 'AB 123-456', dateOfBirth: '1980-01-01' }));
+    const second = await customers.link(link('session-2', { documentNumber: 'ab123456', dateOfBirth: '1980-01-01' }));
+    const other = await customers.link(link('session-3', { documentNumber: 'AB123456', dateOfBirth: '1980-01-02' }));
+
+    expect(first?.customerId).toMatch(/^id-[0-9a-f]{16}$/);
+    expect(first?.vendorData).toBeNull();
+    expect(second?.customerId).toBe(first?.customerId);
+    expect(other?.customerId).not.toBe(first?.customerId);
+    expect(JSON.stringify(fs.readdirSync(directory, { recursive: true }))).not.toContain('123456');
+  });
+
+  it('merges a customer only known by their document into the customer a later session names', async () => {
+    const document = { documentNumber: 'AB123456', dateOfBirth: '1980-01-01' };
+    const anonymous = await customers.link(link('session-1', document));
+    await customers.link(link('session-2', { ...document, vendorData: 'CUST-1' }));
+
+    expect(await customers.get(anonymous!.customerId)).toBeNull();
+    expect(await sessionIds('CUST-1')).toEqual(['session-1', 'session-2']);
+    expect((await customers.findBySession('session-1'))?.customerId).toBe('CUST-1');
+    expect((await customers.link(link('session-3', document)))?.customerId).toBe('CUST-1');
+  });
+
+  it('does not merge two customers with vendorData that share a document', async () => {
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    const document = { documentNumber: 'AB123456', dateOfBirth: '1980-01-01' };
+    await customers.link(link('session-1', { ...document, vendorData: 'CUST-1' }));
+    await customers.link(link('session-2', { ...document, vendorData: 'CUST-2' }));
+
+    expect(await sessionIds('CUST-1')).toEqual(['session-1']);
+    expect(await sessionIds('CUST-2')).toEqual(['session-2']);
+    expect((await customers.link(link('session-3', document)))?.customerId).toBe('CUST-1');
+  });
+
+  it('deletes customers once their last session is unlinked', async () => {
+    const document = { documentNumber: 'AB123456', dateOfBirth: '1980-01-01' };
+    await customers.link(link('session-1', { ...document, vendorData: 'CUST-1' }));
+    await customers.link(link('session-2', { vendorData: 'CUST-1' }));
+
+    await customers.unlink('session-1');
+    expect(await sessionIds('CUST-1')).toEqual(['session-2']);
+    await customers.unlink('session-2');
+    await customers.unlink('session-3');
+    expect(await customers.get('CUST-1')).toBeNull();
+    expect(await customers.findBySession('session-2')).toBeNull();
+    expect((await customers.link(link('session-4', document)))?.customerId).toMatch(/^id-/);
+  });
+});
@@ -0,0 +1,186 @@
+import JsonFileStore from './JsonFileStore';
+import { CustomerLink, CustomerRecord, CustomerSession } from '../types';
+import { sha256 } from '../utils/manifest-utils';
+import logger from '../utils/logger';
+
+interface CustomerPointer {
+  key: string; // Session ID or identity hash.
+  customerId: string;
+}
+
+/**
+ * Local index linking every session, attempt and proof of address of a person to one customer. Sessions are linked by
+ * their vendorData, sessions without one by the document number and date of birth of the verified person.
+ * Customers that were only known by their document are merged into the customer a later session names in its vendorData.
+ */
+class CustomerIndex {
+  private customers: JsonFileStore<CustomerRecord>;
+  private sessions: JsonFileStore<CustomerPointer>;
+  private identities: JsonFileStore<CustomerPointer>;
+
+  /**
+   * @param {string} directory - Directory in which the customers are stored.
+   */
+  constructor(directory: string) {
+    this.customers = new JsonFileStore(directory);
+    this.sessions = new JsonFileStore(`${directory}/sessions`);
+    this.identities = new JsonFileStore(`${directory}/identities`);
+  }
+
+  /**
+   * Get a customer.
+   * @param {string} customerId - Our customer ID, or the ID of a customer only known by their document.
+   * @returns {Promise<CustomerRecord | null>} - The customer, or null if no session was linked to the ID.
+   */
+  public async get(customerId: string) {
+    return this.customers.get(getCustomerKey(customerId));
+  }
+
+  /**
+   * Get the customer a session is linked to.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @returns {Promise<CustomerRecord | null>} - The customer, or null if the session was not linked.
+   */
+  public async findBySession(sessionId: string) {
+    const pointer = await this.sessions.get(sessionId);
+    return pointer && this.get(pointer.customerId);
+  }
+
+  /**
+   * Link a session to its customer, creating the customer if needed.
+   * @param {CustomerLink} link - The session and what identifies the customer.
+   * @returns {Promise<CustomerRecord | null>} - The customer, or null if neither the vendorData nor the document of the person is known yet.
+   */
+  public async link(link: CustomerLink) {
+    const { sessionId, vendorData } = link;
+    const identity = getIdentityKey(link.documentNumber, link.dateOfBirth);
+    const linked = (await this.sessions.get(sessionId))?.customerId || null;
+    const matched = identity ? (await this.identities.get(identity))?.customerId || null : null;
+
+    // vendorData wins, then the customer the session was already linked to, then the customer with the same document
+    const customerId = vendorData || linked || matched || (identity && `id-${identity.slice(0, 16)}`);
+    if (!customerId)
+      return null;
+    if (matched && matched !== customerId) {
+      const other = await this.get(matched);
+      if (other && !other.vendorData && vendorData)
+        await this.merge(other, customerId);
+      else
+        logger.warn('Document of the session matches another customer, not linking them', { sessionId, customerId, otherCustomerId: matched });
+    }
+    if (linked && linked !== customerId) {
+      const other = await this.get(linked);
+      if (other && !other.vendorData)
+        await this.merge(other, customerId);
+    }
+
+    const record = await this.customers.update(getCustomerKey(customerId), current => {
+      const now = new Date().toISOString();
+      const existing = current?.sessions.find(session => session.sessionId === sessionId);
+      const session: CustomerSession = {
+        sessionId,
+        kind: existing?.kind === 'proof-of-address' ? existing.kind : link.kind,
+        attemptIds: union(existing?.attemptIds, link.attemptIds),
+        addressIds: union(existing?.addressIds, link.addressId ? [link.addressId] : []),
+        linkedAt: existing?.linkedAt || now,
+        updatedAt: now,
+      };
+      return {
+        customerId,
+        vendorData: vendorData || current?.vendorData || null,
+        identities: union(current?.identities, identity ? [identity] : []),
+        sessions: [...(current?.sessions || []).filter(entry => entry.sessionId !== sessionId), session]
+          .sort((a, b) => a.linkedAt.localeCompare(b.linkedAt)),
+        createdAt: current?.createdAt || now,
+        updatedAt: now,
+      };
+    });
+    if (linked !== customerId)
+      await this.sessions.put(sessionId, { key: sessionId, customerId });
+    // The first customer verified with a document keeps it
+    if (identity && !matched)
+      await this.identities.put(identity, { key: identity, customerId });
+    return record;
+  }
+
+  /**
+   * Remove a session from its customer, when the session is erased. A customer without sessions is deleted,
+   * together with the documents they were verified with.
+   * @param {string} sessionId - ID of the Veriff session.
+   */
+  public async unlink(sessionId: string) {
+    const pointer = await this.sessions.get(sessionId);
+    if (!pointer)
+      return;
+    const key = getCustomerKey(pointer.customerId);
+    const record = await this.customers.update(key, current => {
+      if (!current)
+        throw new Error(`Customer of session ${sessionId} not found`);
+      return { ...current, sessions: current.sessions.filter(session => session.sessionId !== sessionId), updatedAt: new Date().toISOString() };
+    });
+    if (record.sessions.length === 0) {
+      for (const identity of record.identities) {
+        if ((await this.identities.get(identity))?.customerId === record.customerId)
+          await this.identities.delete(identity);
+      }
+      await this.customers.delete(key);
+    }
+    await this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Move the sessions and documents of a customer only known by their document to another customer.
+   * @param {CustomerRecord} source - The customer to merge.
+   * @param {string} customerId - ID of the customer to merge into.
+   */
+  private async merge(source: CustomerRecord, customerId: string) {
+    await this.customers.update(getCustomerKey(customerId), current => {
+      const now = new Date().toISOString();
+      const known = new Set((current?.sessions || []).map(session => session.sessionId));
+      return {
+        customerId,
+        vendorData: current?.vendorData || null,
+        identities: union(current?.identities, source.identities),
+        sessions: [...(current?.sessions || []), ...source.sessions.filter(session => !known.has(session.sessionId))]
+          .sort((a, b) => a.linkedAt.localeCompare(b.linkedAt)),
+        createdAt: current && current.createdAt < source.createdAt ? current.createdAt : source.createdAt,
+        updatedAt: now,
+      };
+    });
+    for (const session of source.sessions)
+      await this.sessions.put(session.sessionId, { key: session.sessionId, customerId });
+    for (const identity of source.identities)
+      await this.identities.put(identity, { key: identity, customerId });
+    await this.customers.delete(getCustomerKey(source.customerId));
+    logger.info('Merged customer into the customer of the vendorData', { customerId, mergedCustomerId: source.customerId, sessions: source.sessions.length });
+  }
+}
+
+/**
+ * Get the key a customer is stored under. The customer ID is hashed, so that long or personal vendorData never ends up in a file name.
+ * @param {string} customerId - ID of the customer.
+ * @returns {string} - SHA-256 of the ID, hex.
+ */
+const getCustomerKey = (customerId: string) => sha256(customerId);
+
+/**
+ * Identify a person by their document, without storing the document number or date of birth.
+ * @param {string | null} documentNumber - Document number, spaces, dashes and case are ignored.
+ * @param {string | null} dateOfBirth - Date of birth, YYYY-MM-DD.
+ * @returns {string | null} - SHA-256 of both, hex, or null if either is unknown.
+ */
+const getIdentityKey = (documentNumber: string | null, dateOfBirth: string | null) => {
+  const number = (documentNumber || '').replace(/[\s-]/g, '').toUpperCase();
+  const date = (dateOfBirth || '').trim();
+  return number && date ? sha256(`${number}|${date}`) : null;
+}
+
+/**
+ * Merge two lists of IDs, keeping their order.
+ * @param {string[] | undefined} a - A list.
+ * @param {string[] | undefined} b - Another list.
+ * @returns {string[]} - The IDs of both lists, without duplicates.
+ */
+const union = (a: string[] = [], b: string[] = []) => [...new Set([...a, ...b])];
+
+export default CustomerIndex;
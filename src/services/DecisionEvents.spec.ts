@@ -0,0 +1,100 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import AddressChecks from './AddressChecks';
+import ArchiveManifests from './ArchiveManifests';
+import CustomerIndex from './CustomerIndex';
+import DecisionEvents from './DecisionEvents';
+import ErasureReceipts from './ErasureReceipts';
+import Notifier from './Notifier';
+import ProcessingLedger from './ProcessingLedger';
+import ReviewLog from './ReviewLog';
+import RiskSummaries from './RiskSummaries';
+import SessionRegistry from './SessionRegistry';
+import SessionStateMachine from './SessionStateMachine';
+import VeriffAPI from './VeriffAPI';
+import { DecisionWebhookPayload, WatchlistHitData } from '../types';
+
+// The storage backend and the API version are configured when the handlers are first imported
+const archiveDirectory = vi.hoisted(async () => {
+  const { default: fs } = await import('fs');
+  const { default: os } = await import('os');
+  const { default: path } = await import('path');
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'decision-archive-'));
+  process.env.STORAGE_BACKEND = 'local';
+  process.env.LOCAL_STORAGE_DIR = directory;
+  process.env.VERSION = '1.0.0';
+  return directory;
+});
+
+const SESSION_ID = '1f2e3d4c-0000-0000-0000-000000000000';
+const PEP_HIT: WatchlistHitData = { matchedName: 'John Smith', matchTypes: ['name_exact'], listingsRelatedToMatch: { pep: [{ sourceName: 'UK Parliament' }] } };
+
+/**
+ * A decision webhook of the session.
+ */
+const decision = (code: number, status: string): DecisionWebhookPayload => ({
+  status: 'success',
+  verification: { id: SESSION_ID, attemptId: null, code, status, vendorData: 'CUST-1', endUserId: null, reason: null, reasonCode: null, decisionTime: '2024-01-01T00:00:00.000Z', acceptanceTime: '2024-01-01T00:00:00.000Z' },
+});
+
+describe('DecisionEvents', () => {
+  let directory: string;
+  let sessionStates: SessionStateMachine;
+  let riskSummaries: RiskSummaries;
+  let ledger: ProcessingLedger;
+  let handler: DecisionEvents;
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'decision-events-'));
+    // Veriff reports the person and a watchlist hit, and no media
+    const veriffAPI = {
+      getSessionDecision: async () => decision(9001, 'approved'),
+      getPersonForSession: async () => ({ firstName: 'John', lastName: 'Smith' }),
+      getMediaForSession: async () => null,
+      getWatchlistScreeningForSession: async () => ({ status: 'success', data: { matchStatus: 'possible_match', createdAt: '2024-01-01T00:00:00.000Z', hits: [PEP_HIT] } }),
+      getINEDataForSession: async () => null,
+      getCurpRegistryData: async () => null,
+      getAttemptsForSession: async () => null,
+    } as unknown as VeriffAPI;
+    handler = await DecisionEvents.new({
+      veriffAPI,
+      ledger: ledger = new ProcessingLedger(`${directory}/ledger`),
+      sessionRegistry: new SessionRegistry(`${directory}/sessions`),
+      sessionStates: sessionStates = new SessionStateMachine(`${directory}/states`),
+      manifests: new ArchiveManifests(`${directory}/manifests`),
+      erasures: new ErasureReceipts(`${directory}/erasures`),
+      riskSummaries: riskSummaries = new RiskSummaries(`${directory}/risk`),
+      reviews: new ReviewLog(`${directory}/reviews`),
+      customers: new CustomerIndex(`${directory}/customers`),
+      addressChecks: new AddressChecks(`${directory}/addresses`),
+      notifier: new Notifier([]),
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    fs.rmSync(await archiveDirectory, { recursive: true, force: true });
+  });
+
+  it('holds approvals with watchlist hits for review and stores their risk summary', async () => {
+    await handler.handleWebhook(decision(9001, 'approved'));
+
+    expect((await sessionStates.get(SESSION_ID))?.state).toBe('review');
+    expect(await riskSummaries.get(SESSION_ID)).toMatchObject({ riskLevel: 'medium', newHits: 1, reviewRequired: true });
+  });
+
+  it('leaves the risk summary alone when the session cannot take the decision', async () => {
+    await sessionStates.transition(SESSION_ID, { state: 'declined', code: 9102, reason: null, reasonCode: null, attemptId: null });
+
+    await handler.handleWebhook(decision(9001, 'approved'));
+
+    expect((await sessionStates.get(SESSION_ID))?.state).toBe('declined');
+    expect(await riskSummaries.get(SESSION_ID)).toBeNull();
+    expect((await ledger.list(SESSION_ID)).map(record => record.completedAt)).toEqual([expect.any(String)]);
+  });
+});
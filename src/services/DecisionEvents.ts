@@ -1,67 +1,164 @@
-import { Response } from 'express';
 import BaseWebhookHandler from './BaseWebhookHandler';
 import { getRelavantSessionData } from '../utils/veriff-utils';
-import { createFolderIfNotExistInSharepoint, uploadObjectAsJSON } from '../utils/sharepoint-utils';
+import { getArchiveLayout, renderPathTemplate } from '../utils/path-utils';
+import logger from '../utils/logger';
+import { getStateForDecision, getStateLabel } from './SessionStateMachine';
+import { LedgerEntry } from './ProcessingLedger';
+import { DecisionWebhookPayload, HandlerOptions, RearchivePayload, RiskSummary, SessionState } from '../types';
+
+type SessionData = Awaited<ReturnType<typeof getRelavantSessionData>>;
+
+const WATCHLIST_REVIEW_REASON = 'Approved by Veriff, held for review of watchlist hits';
 
 class DecisionEvents extends BaseWebhookHandler {
-  public async handleWebhook(payload: any, res: Response) {
+  public async handleWebhook(payload: DecisionWebhookPayload, options: HandlerOptions = {}) {
     try {
-      const { id: sessionId } = payload.verification;
+      const { id: sessionId, code, attemptId } = payload.verification;
 
-      // Get all the data from Veriff
-      const result = await getRelavantSessionData(DecisionEvents.veriffAPI, sessionId, DecisionEvents.version);
-      if (Object.values(result).every(data => data.value === undefined || data.value === null)) {
-        return res.status(404).json({ error: 'Data not found' });
+      // Skip deliveries that were already archived completely
+      const entry = await this.openEntry({ sessionId, event: String(code), attemptId: attemptId || undefined }, options);
+      if (!entry) {
+        logger.info('Decision webhook was already processed, skipping', { sessionId });
+        return;
       }
-      const { sessionDecision, personInfo, mediaList, watchlistScreening, ineData, curpData, attempts } = result;
 
-      let personName = `No Name`;
-      if (personInfo?.value?.firstName)
-        personName = `${personInfo.value.firstName} ${personInfo.value.lastName}`;
-      else
-        return res.status(404).json({ error: 'Sufficient data not found' });
+      // Get all the data from Veriff, the watchlist screening decides whether an approval is held for review.
+      // Its summary is stored once the session took the state, a decision the session cannot take changes nothing.
+      const data = await this.fetchSessionData(sessionId);
+      const { status, reason, reasonCode } = payload.verification;
+      let state = getStateForDecision(code, status);
+      const risk = await this.summarizeWatchlist(sessionId, data.watchlistScreening.value?.data, state === 'approved');
+      const held = state === 'approved' && Boolean(risk?.reviewRequired);
+      if (held) {
+        logger.warn('Approved session has watchlist hits, holding it for review', { sessionId, riskLevel: risk!.riskLevel });
+        state = 'review';
+      }
 
-      const decision = sessionDecision?.value?.verification?.code === 9001 ? 'Successful' : 'Unsuccessful';
-      // Create folder for this session if does not exist
-      const personFolderPath = `KYC Details/${decision}`;
-      const objectFilesPath = `${personFolderPath}/${personName}_${sessionId}`;
-      await createFolderIfNotExistInSharepoint(personFolderPath, this.accessToken, this.formDigestValue);
-      await createFolderIfNotExistInSharepoint(objectFilesPath, this.accessToken, this.formDigestValue);
-      const jsonUploadTasks = [
-        { name: 'personInfo', data: personInfo },
-        { name: 'mediaList', data: mediaList },
-        { name: 'attempts', data: attempts },
-        { name: 'sessionDecision', data: sessionDecision },
-        { name: 'ineData', data: ineData },
-        { name: 'curpData', data: curpData },
-        { name: 'watchlistScreening', data: watchlistScreening }
-      ];
+      // Move the session to the state of the decision
+      const transition = { state, code, reason: held ? WATCHLIST_REVIEW_REASON : reason || null, reasonCode: reasonCode ?? null, attemptId: attemptId || null };
+      if (!await this.moveSession(entry, sessionId, transition))
+        return;
+      if (risk)
+        await this.services.riskSummaries.save(risk);
 
-      await Promise.all(jsonUploadTasks.map(async ({ name, data }) => {
-        uploadObjectAsJSON(this.accessToken, this.formDigestValue, `${name}.json`, data.value, objectFilesPath);
-      }));
+      await this.archive(entry, sessionId, state, data, risk, payload.verification.vendorData, true);
+    } catch (error) {
+      logger.error('Error handling decision webhook', { sessionId: payload.verification.id, error });
+      throw error;
+    }
+  }
 
-      if (!attempts.value)
+  /**
+   * Archive a session again without a webhook, e.g. to complete an archive that is missing files.
+   * The session is filed under its current state and every artifact is uploaded again.
+   * @param {RearchivePayload} payload - The session to archive.
+   */
+  public async rearchive({ sessionId }: RearchivePayload) {
+    try {
+      const entry = await this.openEntry({ sessionId, event: 'rearchive' }, { force: true });
+      if (!entry)
         return;
+      const current = await this.services.sessionStates.get(sessionId);
+      const data = await this.fetchSessionData(sessionId);
+      const risk = await this.screenWatchlist(sessionId, data.watchlistScreening.value?.data, false);
+      await this.archive(entry, sessionId, current ? current.state : null, data, risk);
+    } catch (error) {
+      logger.error('Error archiving session again', { sessionId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch all data of a session from Veriff.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @returns {Promise<SessionData>} - The data, with the person information available.
+   * @throws {Error} - If Veriff has no data or no person information for the session.
+   */
+  private async fetchSessionData(sessionId: string) {
+    const result = await getRelavantSessionData(this.services.veriffAPI, sessionId, DecisionEvents.version);
+    if (Object.values(result).every(data => data.value === undefined || data.value === null)) {
+      throw new Error(`Data not found for session ${sessionId}`);
+    }
+    if (!result.personInfo?.value?.firstName)
+      throw new Error(`Sufficient data not found for session ${sessionId}`);
+    return result;
+  }
+
+  /**
+   * Archive the data of a session.
+   * @param {LedgerEntry} entry - Ledger entry of the run.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @param {SessionState | null} state - State the session is filed under, taken from its decision if unknown.
+   * @param {SessionData} data - Data of the session fetched from Veriff.
+   * @param {RiskSummary | null} risk - Risk summary of the watchlist screening, if available.
+   * @param {string | null} vendorData - vendorData of the webhook, if any.
+   * @param {boolean} notify - Send the notifications of the decision once it is archived.
+   */
+  private async archive(entry: LedgerEntry, sessionId: string, state: SessionState | null, data: SessionData, risk: RiskSummary | null, vendorData?: string | null, notify = false) {
+    const { sessionDecision, personInfo, mediaList, watchlistScreening, ineData, curpData, attempts } = data;
 
+    const decision = sessionDecision.value?.verification;
+    const outcome = state || (decision ? getStateForDecision(decision.code, decision.status) : 'submitted');
+    // Create folder for this session if does not exist, filed under the outcome of the decision
+    const layout = getArchiveLayout('decision');
+    const values = await this.getArchiveValues(sessionId, getStateLabel(outcome), personInfo.value!, sessionDecision.value, vendorData);
+    await this.linkCustomer(values, 'identity', personInfo.value!, sessionDecision.value, { attemptIds: attempts.value?.map(attempt => attempt.id) });
+    const objectFilesPath = renderPathTemplate(layout.sessionFolder, values);
+    await this.createFolders(entry, objectFilesPath);
+    await this.linkRelatedEvidence(entry, sessionId, objectFilesPath);
+    await this.uploadJSON(entry, 'sessionState.json', await this.services.sessionStates.get(sessionId), objectFilesPath);
+    await this.uploadJSON(entry, 'riskSummary.json', risk, objectFilesPath);
+    await this.uploadJSON(entry, 'reviewDecision.json', await this.getReviewFile(sessionId), objectFilesPath);
+    const jsonUploadTasks = [
+      { name: 'personInfo', data: personInfo },
+      { name: 'mediaList', data: mediaList },
+      { name: 'attempts', data: attempts },
+      { name: 'sessionDecision', data: sessionDecision },
+      { name: 'ineData', data: ineData },
+      { name: 'curpData', data: curpData },
+      { name: 'watchlistScreening', data: watchlistScreening }
+    ];
+
+    await Promise.all(jsonUploadTasks.map(({ name, data }) =>
+      this.uploadJSON(entry, `${name}.json`, data.value, objectFilesPath)
+    ));
+
+    if (attempts.value) {
       for (const attempt of attempts.value) {
         // Create folder for this attempt
         const { id } = attempt;
-        const folderPath = `${objectFilesPath}/${id}/DecisionEvent`;
-        await createFolderIfNotExistInSharepoint(`${objectFilesPath}/${id}`, this.accessToken, this.formDigestValue);
-        await createFolderIfNotExistInSharepoint(folderPath, this.accessToken, this.formDigestValue);
+        const mediaValues = { ...values, sessionFolder: objectFilesPath, attemptId: id };
+        const folderPath = renderPathTemplate(layout.mediaFolder, mediaValues);
+        await this.createFolders(entry, folderPath);
         // Upload payload and relevant data fetched
-        const attemptMedia = await DecisionEvents.veriffAPI.getMediaForAttempt(id);
-        await this.uploadMediaFiles(attemptMedia.images, folderPath);
-        await this.uploadMediaFiles(attemptMedia.videos, folderPath);
-        console.log(`Media for Attempt ID ${id}: `, attemptMedia);
+        const attemptMedia = await this.services.veriffAPI.getMediaForAttempt(id);
+        if (!attemptMedia)
+          throw new Error(`Media for attempt ${id} could not be fetched`);
+        await this.uploadMediaFiles(entry, attemptMedia.images, folderPath, layout.mediaFileName, mediaValues);
+        await this.uploadMediaFiles(entry, attemptMedia.videos, folderPath, layout.mediaFileName, mediaValues);
+        logger.info('Archived media of attempt', { sessionId, attemptId: id, images: attemptMedia.images.length, videos: attemptMedia.videos.length });
       }
-      return res.status(200).json({ message: 'success' });
-    } catch (error) {
-      console.error('Error handling decision webhook:', error);
-      return res.status(500).json({ error: 'Internal server error' });
     }
+
+    await this.writeManifests(sessionId);
+    if (notify) {
+      await this.notify(entry, {
+        event: 'decision',
+        sessionId,
+        state: outcome,
+        code: decision?.code ?? null,
+        status: decision?.status || null,
+        reason: decision?.reason || null,
+        reasonCode: decision?.reasonCode ?? null,
+        vendorData: values.vendorData,
+        watchlistHit: (risk?.totalHits ?? 0) > 0 || risk?.matchStatus === 'possible_match',
+        riskLevel: risk?.riskLevel || 'none',
+        folder: objectFilesPath,
+        decidedAt: decision?.decisionTime || null,
+      });
+    }
+    await entry.complete();
   }
 }
 
-export default DecisionEvents;
\ No newline at end of file
+export default DecisionEvents;
@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+import JsonFileStore from './JsonFileStore';
+import { ErasureReason, ErasureReceipt, SessionState } from '../types';
+
+/**
+ * Receipts of erased sessions. The receipt of a session is recorded before anything is deleted, so it also tells the
+ * webhook handlers not to archive the session again.
+ */
+class ErasureReceipts {
+  private store: JsonFileStore<ErasureReceipt>;
+
+  /**
+   * @param {string} directory - Directory in which the receipts are stored.
+   */
+  constructor(directory: string) {
+    this.store = new JsonFileStore(directory);
+  }
+
+  /**
+   * Get the receipt of a session.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @returns {Promise<ErasureReceipt | null>} - The receipt, or null if the session was not erased.
+   */
+  public async get(sessionId: string) {
+    return this.store.get(sessionId);
+  }
+
+  /**
+   * Record that the erasure of a session started. An erasure that did not finish keeps its receipt.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @param {ErasureReason} reason - Why the session is erased.
+   * @param {string | null} requestedBy - Reference of the erasure request.
+   * @param {SessionState | null} state - State the session is in.
+   * @returns {Promise<ErasureReceipt>} - The unfinished receipt.
+   */
+  public async start(sessionId: string, reason: ErasureReason, requestedBy: string | null, state: SessionState | null) {
+    return this.store.update(sessionId, current => current || {
+      id: crypto.randomUUID(),
+      sessionId,
+      reason,
+      requestedBy,
+      state,
+      folders: 0,
+      files: 0,
+      rootHashes: [],
+      startedAt: new Date().toISOString(),
+      completedAt: null,
+    });
+  }
+
+  /**
+   * Record that everything of a session was deleted.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @param {Pick<ErasureReceipt, 'folders' | 'files' | 'rootHashes'>} deleted - What was deleted.
+   * @returns {Promise<ErasureReceipt>} - The completed receipt.
+   */
+  public async complete(sessionId: string, deleted: Pick<ErasureReceipt, 'folders' | 'files' | 'rootHashes'>) {
+    return this.store.update(sessionId, current => {
+      if (!current)
+        throw new Error(`Erasure of session ${sessionId} was not started`);
+      return { ...current, ...deleted, completedAt: new Date().toISOString() };
+    });
+  }
+}
+
+export default ErasureReceipts;
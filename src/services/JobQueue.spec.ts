@@ -0,0 +1,127 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import JobQueue, { getJobSessionId, getJobVendorData } from './JobQueue';
+import { Job } from '../types';
+
+describe('JobQueue', () => {
+  let directory: string;
+  let queue: JobQueue;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'job-queue-'));
+    queue = new JobQueue(directory);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('claims pending jobs oldest first and only once', async () => {
+    const first = await queue.enqueue('decision', { verification: { id: 'a' } });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const second = await queue.enqueue('verification-event', { id: 'b' });
+
+    const claimed = await queue.claimNext();
+    expect(claimed?.id).toBe(first.id);
+    expect(claimed?.status).toBe('processing');
+    expect(claimed?.attempts).toBe(1);
+    expect((await queue.claimNext())?.id).toBe(second.id);
+    expect(await queue.claimNext()).toBeNull();
+  });
+
+  it('moves completed jobs to the completed directory', async () => {
+    const job = await queue.enqueue('verification-event', { id: 'a' });
+    await queue.complete((await queue.claimNext())!);
+
+    const isJobFile = (name: string) => name.endsWith(`${job.id}.json`);
+    expect(fs.readdirSync(directory).some(isJobFile)).toBe(false);
+    expect(fs.readdirSync(path.join(directory, 'completed')).some(isJobFile)).toBe(true);
+    expect(await queue.countByStatus()).toEqual({ pending: 0, processing: 0, dead: 0, completed: 1 });
+    expect((await queue.find(job.id))?.status).toBe('completed');
+  });
+
+  it('schedules failed jobs for a later attempt', async () => {
+    await queue.enqueue('verification-event', { id: 'a' });
+    const job = (await queue.claimNext())!;
+    await queue.fail(job, new Error('Veriff is down'), 60_000);
+
+    const stored = (await queue.find(job.id))!;
+    expect(stored.status).toBe('pending');
+    expect(stored.lastError).toBe('Veriff is down');
+    expect(Date.parse(stored.runAt)).toBeGreaterThan(Date.now());
+    expect(await queue.claimNext()).toBeNull();
+  });
+
+  it('dead-letters failed jobs without a retry delay', async () => {
+    await queue.enqueue('verification-event', { id: 'a' });
+    const job = (await queue.claimNext())!;
+    await queue.fail(job, new Error('Invalid payload'), null);
+
+    expect((await queue.find(job.id))?.status).toBe('dead');
+    expect(fs.readdirSync(path.join(directory, 'dead')).some(name => name.endsWith(`${job.id}.json`))).toBe(true);
+    expect(await queue.countByStatus()).toEqual({ pending: 0, processing: 0, dead: 1, completed: 0 });
+    expect(await queue.claimNext()).toBeNull();
+  });
+
+  it('moves dead jobs kept in the queue directory by earlier versions to the dead directory', async () => {
+    const job = await queue.enqueue('verification-event', { id: 'a' });
+    const fileName = fs.readdirSync(directory).find(name => name.endsWith(`${job.id}.json`))!;
+    fs.writeFileSync(path.join(directory, fileName), JSON.stringify({ ...job, status: 'dead' }));
+
+    expect(await queue.recover()).toBe(0);
+    expect(fs.readdirSync(directory)).not.toContain(fileName);
+    expect(fs.readdirSync(path.join(directory, 'dead'))).toContain(fileName);
+  });
+
+  it('prunes completed jobs past their retention', async () => {
+    const retained = new JobQueue(directory, 60_000);
+    const job = await retained.enqueue('verification-event', { id: 'a', vendorData: 'CUST-1' });
+    await retained.complete((await retained.claimNext())!);
+
+    expect(await retained.prune(new Date(Date.now() + 30_000))).toBe(0);
+    expect(await retained.find(job.id)).not.toBeNull();
+    expect(await retained.prune(new Date(Date.now() + 120_000))).toBe(1);
+    expect(await retained.find(job.id)).toBeNull();
+    expect(fs.readdirSync(path.join(directory, 'completed'))).toEqual([]);
+  });
+
+  it('recovers jobs left processing by a previous run', async () => {
+    await queue.enqueue('verification-event', { id: 'a' });
+    const job = (await queue.claimNext())!;
+
+    // The queue that claimed the job still processes it
+    expect(await queue.recover()).toBe(0);
+
+    const restarted = new JobQueue(directory);
+    expect(await restarted.recover()).toBe(1);
+    expect((await restarted.claimNext())?.id).toBe(job.id);
+  });
+
+  it('refuses to remove jobs that are being processed', async () => {
+    await queue.enqueue('verification-event', { id: 'a' });
+    const job = (await queue.claimNext())!;
+    await expect(queue.remove(job)).rejects.toThrow('is being processed');
+
+    await queue.fail(job, new Error('failed'), null);
+    await queue.remove(job);
+    expect(await queue.list()).toEqual([]);
+  });
+});
+
+describe('getJobSessionId and getJobVendorData', () => {
+  const job = (type: Job['type'], payload: any) => ({ type, payload } as Job);
+
+  it('reads the session ID from where each webhook carries it', () => {
+    expect(getJobSessionId(job('decision', { verification: { id: 'a' } }))).toBe('a');
+    expect(getJobSessionId(job('rearchive', { sessionId: 'b' }))).toBe('b');
+    expect(getJobSessionId(job('verification-event', { id: 'c' }))).toBe('c');
+  });
+
+  it('reads the vendorData of webhooks that carry it', () => {
+    expect(getJobVendorData(job('decision', { verification: { vendorData: 'a' } }))).toBe('a');
+    expect(getJobVendorData(job('verification-event', { vendorData: 'b' }))).toBe('b');
+    expect(getJobVendorData(job('rearchive', { sessionId: 'c' }))).toBeUndefined();
+  });
+});
@@ -0,0 +1,292 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Job, JobStatus, JobType } from '../types';
+import logger, { getCorrelationId } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * File-backed job queue. Every job is stored as its own JSON file so that
+ * accepted webhooks survive process restarts. Completed jobs are moved to
+ * a "completed" subdirectory, so their payloads can be replayed until they
+ * are pruned, and dead jobs to a "dead" subdirectory. The queue directory
+ * itself only holds the jobs the workers poll for.
+ */
+class JobQueue {
+  private claimed = new Set<string>();
+  private completedDirectory: string;
+  private deadDirectory: string;
+
+  /**
+   * Initialize the queue in the given directory, creating it if needed.
+   * @param {string} directory - Directory in which the job files are stored.
+   * @param {number} completedRetentionMs - How long completed jobs and their payloads are kept after they were completed.
+   */
+  constructor(private directory: string, private completedRetentionMs = 7 * DAY_MS) {
+    this.completedDirectory = path.join(directory, 'completed');
+    this.deadDirectory = path.join(directory, 'dead');
+    fs.mkdirSync(this.completedDirectory, { recursive: true });
+    fs.mkdirSync(this.deadDirectory, { recursive: true });
+  }
+
+  /**
+   * Persist a new job to disk.
+   * @param {JobType} type - Type of the webhook the job was created for.
+   * @param {any} payload - Webhook payload to process.
+   * @param {boolean} force - Archive again even if the webhook was already archived completely.
+   * @returns {Promise<Job>} - The persisted job.
+   */
+  public async enqueue(type: JobType, payload: any, force = false) {
+    const now = new Date().toISOString();
+    const job: Job = {
+      id: crypto.randomUUID(),
+      type,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      runAt: now,
+      createdAt: now,
+      updatedAt: now,
+      ...(force && { force }),
+      correlationId: getCorrelationId(),
+    };
+    await this.write(job);
+    return job;
+  }
+
+  /**
+   * Claim the oldest pending job that is due to run and mark it as processing.
+   * @returns {Promise<Job | null>} - The claimed job, or null if no job is due.
+   */
+  public async claimNext() {
+    const now = Date.now();
+    for (const job of await this.readAll()) {
+      if (job.status !== 'pending' || this.claimed.has(job.id) || Date.parse(job.runAt) > now) {
+        continue;
+      }
+      this.claimed.add(job.id);
+      job.status = 'processing';
+      job.attempts++;
+      await this.write(job);
+      return job;
+    }
+    return null;
+  }
+
+  /**
+   * Remove a successfully processed job from the queue and keep it with the completed jobs.
+   * @param {Job} job - The job that was processed.
+   */
+  public async complete(job: Job) {
+    const pendingPath = this.filePath(job);
+    job.status = 'completed';
+    await this.write(job, this.completedDirectory);
+    await fs.promises.rm(pendingPath, { force: true });
+    this.claimed.delete(job.id);
+  }
+
+  /**
+   * Record a failed attempt. The job is either scheduled for another attempt or moved to the dead-letter state.
+   * @param {Job} job - The job that failed.
+   * @param {Error} error - The error raised while processing the job.
+   * @param {number | null} retryDelayMs - Delay before the next attempt, or null to dead-letter the job.
+   */
+  public async fail(job: Job, error: Error, retryDelayMs: number | null) {
+    job.lastError = error.message;
+    if (retryDelayMs === null) {
+      await this.moveToDead(job);
+    } else {
+      job.status = 'pending';
+      job.runAt = new Date(Date.now() + retryDelayMs).toISOString();
+      await this.write(job);
+    }
+    this.claimed.delete(job.id);
+  }
+
+  /**
+   * Return jobs left in the processing state by a previous run back to pending. Dead jobs that earlier versions kept
+   * in the queue directory are moved to the dead directory.
+   * @returns {Promise<number>} - Number of recovered jobs.
+   */
+  public async recover() {
+    let recovered = 0;
+    for (const job of await this.readAll()) {
+      if (job.status === 'dead') {
+        await this.moveToDead(job);
+      } else if (job.status === 'processing' && !this.claimed.has(job.id)) {
+        job.status = 'pending';
+        await this.write(job);
+        recovered++;
+      }
+    }
+    return recovered;
+  }
+
+  /**
+   * Delete the completed jobs that were completed longer ago than the retention allows, together with their payloads.
+   * @param {Date} now - Time the retention is measured against.
+   * @returns {Promise<number>} - Number of deleted jobs.
+   */
+  public async prune(now = new Date()) {
+    let pruned = 0;
+    // Completed job files are written once, when the job is completed, so their modification time is the completion time
+    for (const fileName of await this.listFileNames(this.completedDirectory)) {
+      const filePath = path.join(this.completedDirectory, fileName);
+      // The job may have been removed in the meantime by an erasure
+      const stats = await fs.promises.stat(filePath).catch(() => null);
+      if (stats && now.getTime() - stats.mtimeMs > this.completedRetentionMs) {
+        await fs.promises.rm(filePath, { force: true });
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+
+  /**
+   * Count the stored jobs by status. Only the queued jobs are read, dead and completed jobs are counted by their files.
+   * @returns {Promise<Record<JobStatus, number>>} - Number of jobs per status.
+   */
+  public async countByStatus() {
+    const counts: Record<JobStatus, number> = { pending: 0, processing: 0, dead: 0, completed: 0 };
+    for (const job of await this.readAll()) {
+      counts[job.status]++;
+    }
+    counts.dead += (await this.listFileNames(this.deadDirectory)).length;
+    counts.completed = (await this.listFileNames(this.completedDirectory)).length;
+    return counts;
+  }
+
+  /**
+   * Find a job by its ID, whether it is queued, dead or completed. Only the file of the job is read.
+   * @param {string} id - ID of the job.
+   * @returns {Promise<Job | null>} - The job, or null if it does not exist or was pruned.
+   */
+  public async find(id: string) {
+    for (const directory of [this.directory, this.deadDirectory, this.completedDirectory]) {
+      const fileName = (await this.listFileNames(directory)).find(name => name.endsWith(`_${id}.json`));
+      if (fileName)
+        return (await this.readFiles(directory, [fileName]))[0] || null;
+    }
+    return null;
+  }
+
+  /**
+   * Delete a job that is not being processed, whether it is queued, dead or completed.
+   * @param {Job} job - The job.
+   * @throws {Error} - If the job is being processed.
+   */
+  public async remove(job: Job) {
+    if (this.claimed.has(job.id))
+      throw new Error(`Job ${job.id} is being processed`);
+    for (const directory of [this.directory, this.deadDirectory, this.completedDirectory]) {
+      await fs.promises.rm(this.filePath(job, directory), { force: true });
+    }
+  }
+
+  /**
+   * Read all queued, dead and completed jobs, oldest first. Reads every job file, so it is meant for lookups of the
+   * admin API and erasures, not for polling.
+   * @returns {Promise<Job[]>} - List of stored jobs.
+   */
+  public async list() {
+    const jobs = [...await this.readAll(), ...await this.readAll(this.deadDirectory), ...await this.readAll(this.completedDirectory)];
+    return jobs.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Move a job to the dead directory.
+   * @param {Job} job - The job.
+   */
+  private async moveToDead(job: Job) {
+    job.status = 'dead';
+    await this.write(job, this.deadDirectory);
+    await fs.promises.rm(this.filePath(job), { force: true });
+  }
+
+  /**
+   * Read all jobs of a directory from disk, oldest first.
+   * @param {string} directory - The directory, the queue directory by default.
+   * @returns {Promise<Job[]>} - List of stored jobs.
+   */
+  private async readAll(directory = this.directory) {
+    return this.readFiles(directory, await this.listFileNames(directory));
+  }
+
+  /**
+   * List the job files of a directory, oldest first.
+   * @param {string} directory - The directory.
+   * @returns {Promise<string[]>} - Names of the job files.
+   */
+  private async listFileNames(directory: string) {
+    return (await fs.promises.readdir(directory)).filter(name => name.endsWith('.json')).sort();
+  }
+
+  /**
+   * Read job files. Files that cannot be read are logged and skipped.
+   * @param {string} directory - The directory of the files.
+   * @param {string[]} fileNames - Names of the files.
+   * @returns {Promise<Job[]>} - The jobs.
+   */
+  private async readFiles(directory: string, fileNames: string[]) {
+    const jobs: Job[] = [];
+    for (const fileName of fileNames) {
+      try {
+        jobs.push(JSON.parse(await fs.promises.readFile(path.join(directory, fileName), 'utf8')));
+      } catch (error) {
+        logger.error('Unable to read job file', { fileName, error });
+      }
+    }
+    return jobs;
+  }
+
+  /**
+   * Atomically write a job to disk by writing a temporary file and renaming it.
+   * @param {Job} job - The job to write.
+   * @param {string} directory - The directory, the queue directory by default.
+   */
+  private async write(job: Job, directory = this.directory) {
+    job.updatedAt = new Date().toISOString();
+    const filePath = this.filePath(job, directory);
+    const tempPath = `${filePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+    const handle = await fs.promises.open(tempPath, 'w');
+    try {
+      await handle.writeFile(JSON.stringify(job));
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  /**
+   * Get the file path of a job. File names start with the creation time so that sorting them gives FIFO order.
+   * @param {Job} job - The job.
+   * @param {string} directory - The directory, the queue directory by default.
+   * @returns {string} - Path of the job file.
+   */
+  private filePath(job: Job, directory = this.directory) {
+    return path.join(directory, `${job.createdAt.replace(/[:.]/g, '-')}_${job.id}.json`);
+  }
+}
+
+// Job types whose payload names the session in sessionId, the other webhooks name it in id
+const SESSION_ID_JOB_TYPES: readonly JobType[] = ['rearchive', 'watchlist-screening', 'review-decision'];
+
+/**
+ * Get the ID of the session a job refers to.
+ * @param {Job} job - The job.
+ * @returns {string | undefined} - The session ID.
+ */
+export const getJobSessionId = (job: Job): string | undefined =>
+  job.type === 'decision' ? job.payload?.verification?.id : SESSION_ID_JOB_TYPES.includes(job.type) ? job.payload?.sessionId : job.payload?.id;
+
+/**
+ * Get the vendorData of the webhook a job was created for.
+ * @param {Job} job - The job.
+ * @returns {string | null | undefined} - The vendorData, undefined for rearchive and review decision jobs.
+ */
+export const getJobVendorData = (job: Job): string | null | undefined =>
+  job.type === 'decision' ? job.payload?.verification?.vendorData : job.type === 'rearchive' || job.type === 'review-decision' ? undefined : job.payload?.vendorData;
+
+export default JobQueue;
@@ -0,0 +1,60 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import JsonFileStore from './JsonFileStore';
+
+describe('JsonFileStore', () => {
+  let directory: string;
+  let store: JsonFileStore<{ count: number }>;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'json-store-'));
+    store = new JsonFileStore(directory);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('reads, writes, lists and deletes records', async () => {
+    expect(await store.get('a')).toBeNull();
+    await store.put('a', { count: 1 });
+    await store.put('b', { count: 2 });
+
+    expect(await store.get('a')).toEqual({ count: 1 });
+    expect(await store.list()).toEqual([{ count: 1 }, { count: 2 }]);
+    await store.delete('a');
+    expect(await store.list()).toEqual([{ count: 2 }]);
+  });
+
+  it('serializes concurrent updates of a record', async () => {
+    await Promise.all(Array.from({ length: 20 }, () => store.update('a', current => ({ count: (current?.count || 0) + 1 }))));
+    expect(await store.get('a')).toEqual({ count: 20 });
+  });
+
+  it('keeps the record when an update fails', async () => {
+    await store.put('a', { count: 1 });
+    await expect(store.update('a', () => {
+      throw new Error('failed');
+    })).rejects.toThrow('failed');
+    expect(await store.update('a', current => ({ count: current!.count + 1 }))).toEqual({ count: 2 });
+  });
+
+  it('never mixes up the writes of stores sharing a directory', async () => {
+    const other = new JsonFileStore<{ count: number }>(directory);
+    await Promise.all(Array.from({ length: 20 }, (_, i) => (i % 2 ? store : other).put('a', { count: i })));
+
+    expect(typeof (await store.get('a'))?.count).toBe('number');
+    expect(fs.readdirSync(directory)).toEqual(['a.json']);
+  });
+
+  it('keeps keys inside the directory', async () => {
+    await store.put('../escape', { count: 1 });
+    await store.put('.', { count: 2 });
+
+    expect(fs.readdirSync(path.dirname(directory))).not.toContain('escape.json');
+    expect(await store.get('../escape')).toEqual({ count: 1 });
+    expect(await store.get('.')).toEqual({ count: 2 });
+  });
+});
@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import logger from '../utils/logger';
+
+/**
+ * Minimal file-backed key/value store. Every record is kept as its own JSON file, written atomically.
+ * Updates of the same key are serialized, so concurrent handlers never overwrite each other's changes.
+ */
+class JsonFileStore<T> {
+  private locks = new Map<string, Promise<unknown>>();
+
+  /**
+   * Initialize the store in the given directory, creating it if needed.
+   * @param {string} directory - Directory in which the records are stored.
+   */
+  constructor(private directory: string) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  /**
+   * Read a record.
+   * @param {string} key - Key of the record.
+   * @returns {Promise<T | null>} - The record, or null if it does not exist.
+   */
+  public async get(key: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.filePath(key), 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Write a record, replacing it if it exists.
+   * @param {string} key - Key of the record.
+   * @param {T} value - The record.
+   */
+  public async put(key: string, value: T) {
+    await this.withLock(key, () => this.write(key, value));
+  }
+
+  /**
+   * Read, modify and write a record without interleaving with other updates of the same key.
+   * @param {string} key - Key of the record.
+   * @param {Function} update - Receives the current record (null if it does not exist) and returns the new one.
+   * @returns {Promise<T>} - The new record.
+   */
+  public async update(key: string, update: (current: T | null) => T | Promise<T>) {
+    return this.withLock(key, async () => {
+      const value = await update(await this.get(key));
+      await this.write(key, value);
+      return value;
+    });
+  }
+
+  /**
+   * Delete a record.
+   * @param {string} key - Key of the record.
+   */
+  public async delete(key: string) {
+    await this.withLock(key, () => fs.promises.rm(this.filePath(key), { force: true }));
+  }
+
+  /**
+   * Read all records.
+   * @returns {Promise<T[]>} - The records, in key order.
+   */
+  public async list() {
+    const fileNames = (await fs.promises.readdir(this.directory)).filter(name => name.endsWith('.json')).sort();
+    const records: T[] = [];
+    for (const fileName of fileNames) {
+      try {
+        records.push(JSON.parse(await fs.promises.readFile(path.join(this.directory, fileName), 'utf8')));
+      } catch (error) {
+        logger.error('Unable to read record', { fileName, error });
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Run an operation once all earlier operations on the same key have finished.
+   * @param {string} key - Key of the record.
+   * @param {Function} operation - The operation.
+   * @returns {Promise<R>} - The result of the operation.
+   */
+  private async withLock<R>(key: string, operation: () => Promise<R>) {
+    const previous = this.locks.get(key) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(operation);
+    this.locks.set(key, current);
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(key) === current) {
+        this.locks.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Atomically write a record by writing a temporary file and renaming it. Every write has its own temporary file,
+   * so that writers that do not share the lock of the key never write to the same one.
+   * @param {string} key - Key of the record.
+   * @param {T} value - The record.
+   */
+  private async write(key: string, value: T) {
+    const filePath = this.filePath(key);
+    const tempPath = `${filePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(value));
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  /**
+   * Get the file path of a record. Keys are sanitized so that they cannot escape the directory.
+   * @param {string} key - Key of the record.
+   * @returns {string} - Path of the record file.
+   */
+  private filePath(key: string) {
+    return path.join(this.directory, `${encodeURIComponent(key).replace(/\./g, '%2E')}.json`);
+  }
+}
+
+export default JsonFileStore;
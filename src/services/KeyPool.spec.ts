@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import KeyPool, { maskApiKey } from './KeyPool';
+
+const KEY_1 = { apiKey: 'aaaaaaaa-1111', sharedSecretKey: 'secret-1' };
+const KEY_2 = { apiKey: 'bbbbbbbb-2222', sharedSecretKey: 'secret-2' };
+const OPTIONS = { coolDownMs: 1000, maxCoolDownMs: 3000 };
+
+describe('KeyPool', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('requires at least one key pair', () => {
+    expect(() => new KeyPool([])).toThrow('API keys not found');
+  });
+
+  it('prefers keys in configured order and skips keys a request already tried', () => {
+    const pool = new KeyPool([KEY_1, KEY_2], OPTIONS);
+    expect(pool.acquire()).toBe(KEY_1);
+    expect(pool.acquire(new Set([KEY_1.apiKey]))).toBe(KEY_2);
+    expect(pool.acquire(new Set([KEY_1.apiKey, KEY_2.apiKey]))).toBeNull();
+  });
+
+  it('skips rejected keys until their cool-down ends', () => {
+    const pool = new KeyPool([KEY_1, KEY_2], OPTIONS);
+    pool.reportAuthFailure(KEY_1);
+    expect(pool.acquire()).toBe(KEY_2);
+
+    vi.advanceTimersByTime(1000);
+    expect(pool.acquire()).toBe(KEY_1);
+  });
+
+  it('doubles the cool-down on every further failure up to the maximum', () => {
+    const pool = new KeyPool([KEY_1], OPTIONS);
+    const coolDowns = [1, 2, 3, 4].map(() => {
+      pool.reportAuthFailure(KEY_1);
+      return Date.parse(pool.getHealth()[0].coolingDownUntil!) - Date.now();
+    });
+    expect(coolDowns).toEqual([1000, 2000, 3000, 3000]);
+  });
+
+  it('ends the cool-down on success', () => {
+    const pool = new KeyPool([KEY_1, KEY_2], OPTIONS);
+    pool.reportAuthFailure(KEY_1);
+    pool.reportSuccess(KEY_1);
+    expect(pool.acquire()).toBe(KEY_1);
+    expect(pool.getHealth()[0]).toMatchObject({ consecutiveFailures: 0, coolingDownUntil: null });
+  });
+
+  it('uses the key whose cool-down ends first when every key is cooling down', () => {
+    const pool = new KeyPool([KEY_1, KEY_2], OPTIONS);
+    pool.reportAuthFailure(KEY_1);
+    pool.reportAuthFailure(KEY_1);
+    pool.reportAuthFailure(KEY_2);
+    expect(pool.acquire()).toBe(KEY_2);
+  });
+
+  it('reports the health of every key with masked API keys', () => {
+    const pool = new KeyPool([KEY_1, KEY_2], OPTIONS);
+    pool.acquire();
+    pool.reportAuthFailure(KEY_1);
+    pool.acquire();
+    pool.reportSuccess(KEY_2);
+
+    const [first, second] = pool.getHealth();
+    expect(first).toMatchObject({ apiKey: 'aaaaaaaa…', requests: 1, authFailures: 1, failureRate: 1, consecutiveFailures: 1 });
+    expect(first.coolingDownUntil).not.toBeNull();
+    expect(second).toMatchObject({ apiKey: maskApiKey(KEY_2.apiKey), requests: 1, authFailures: 0, failureRate: 0, coolingDownUntil: null });
+    expect(JSON.stringify(pool.getHealth())).not.toContain(KEY_1.apiKey);
+  });
+});
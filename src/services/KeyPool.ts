@@ -0,0 +1,141 @@
+import { KeyPair } from '../types';
+import logger from '../utils/logger';
+
+export interface KeyPoolOptions {
+  coolDownMs: number; // Cool-down after the first authentication failure of a key, doubled on every further failure.
+  maxCoolDownMs: number; // Upper bound of the cool-down.
+}
+
+export interface KeyHealth {
+  apiKey: string; // Masked API key.
+  requests: number; // Requests sent with the key.
+  authFailures: number; // Requests rejected with 401/403.
+  failureRate: number; // Share of requests rejected with 401/403.
+  consecutiveFailures: number; // Authentication failures since the last success.
+  coolingDownUntil: string | null; // ISO timestamp until which the key is skipped, if any.
+  lastFailureAt: string | null; // ISO timestamp of the last authentication failure.
+  lastSuccessAt: string | null; // ISO timestamp of the last successful request.
+}
+
+interface KeyState {
+  keyPair: KeyPair;
+  requests: number;
+  authFailures: number;
+  consecutiveFailures: number;
+  coolDownUntil: number;
+  lastFailureAt: number | null;
+  lastSuccessAt: number | null;
+}
+
+const DEFAULT_OPTIONS: KeyPoolOptions = {
+  coolDownMs: 60 * 1000,
+  maxCoolDownMs: 60 * 60 * 1000,
+};
+
+/**
+ * Pool of Veriff API key pairs. Every request takes its key pair from the pool instead of sharing
+ * a mutable "current" key, so concurrent requests never change each other's keys. Keys that Veriff
+ * rejects are put on an exponentially growing cool-down and only used again once no healthy key is left.
+ */
+class KeyPool {
+  private states: KeyState[];
+
+  /**
+   * @param {KeyPair[]} keyPairs - The configured key pairs, in order of preference.
+   * @param {KeyPoolOptions} options - Cool-down options.
+   */
+  constructor(keyPairs: KeyPair[], private options: KeyPoolOptions = DEFAULT_OPTIONS) {
+    if (keyPairs.length === 0) throw new Error('API keys not found');
+    this.states = keyPairs.map(keyPair => ({
+      keyPair,
+      requests: 0,
+      authFailures: 0,
+      consecutiveFailures: 0,
+      coolDownUntil: 0,
+      lastFailureAt: null,
+      lastSuccessAt: null,
+    }));
+  }
+
+  /**
+   * Pick a key pair for a request. Keys that are not cooling down are preferred, in configured order.
+   * When every remaining key is cooling down, the one whose cool-down ends first is returned.
+   * @param {Set<string>} exclude - API keys already tried by the request.
+   * @returns {KeyPair | null} - The key pair to use, or null if every key was already tried.
+   */
+  public acquire(exclude: Set<string> = new Set()) {
+    const now = Date.now();
+    const candidates = this.states.filter(state => !exclude.has(state.keyPair.apiKey));
+    if (candidates.length === 0) {
+      return null;
+    }
+    const healthy = candidates.find(state => state.coolDownUntil <= now);
+    const state = healthy || candidates.reduce((a, b) => (b.coolDownUntil < a.coolDownUntil ? b : a));
+    state.requests++;
+    return state.keyPair;
+  }
+
+  /**
+   * Record a request that the key pair was accepted for.
+   * @param {KeyPair} keyPair - The key pair used.
+   */
+  public reportSuccess(keyPair: KeyPair) {
+    const state = this.getState(keyPair);
+    state.consecutiveFailures = 0;
+    state.coolDownUntil = 0;
+    state.lastSuccessAt = Date.now();
+  }
+
+  /**
+   * Record a request that Veriff rejected the key pair for and put the key on cool-down.
+   * @param {KeyPair} keyPair - The key pair used.
+   */
+  public reportAuthFailure(keyPair: KeyPair) {
+    const state = this.getState(keyPair);
+    const now = Date.now();
+    state.authFailures++;
+    state.consecutiveFailures++;
+    state.lastFailureAt = now;
+    const coolDown = Math.min(this.options.maxCoolDownMs, this.options.coolDownMs * 2 ** (state.consecutiveFailures - 1));
+    state.coolDownUntil = now + coolDown;
+    logger.warn('Veriff API key was rejected, cooling down', { apiKey: maskApiKey(keyPair.apiKey), coolDownMs: coolDown });
+  }
+
+  /**
+   * Get the health of every key pair. API keys are masked.
+   * @returns {KeyHealth[]} - Health of the key pairs, in configured order.
+   */
+  public getHealth(): KeyHealth[] {
+    const now = Date.now();
+    return this.states.map(state => ({
+      apiKey: maskApiKey(state.keyPair.apiKey),
+      requests: state.requests,
+      authFailures: state.authFailures,
+      failureRate: state.requests ? state.authFailures / state.requests : 0,
+      consecutiveFailures: state.consecutiveFailures,
+      coolingDownUntil: state.coolDownUntil > now ? new Date(state.coolDownUntil).toISOString() : null,
+      lastFailureAt: state.lastFailureAt ? new Date(state.lastFailureAt).toISOString() : null,
+      lastSuccessAt: state.lastSuccessAt ? new Date(state.lastSuccessAt).toISOString() : null,
+    }));
+  }
+
+  /**
+   * Get the state of a key pair.
+   * @param {KeyPair} keyPair - The key pair.
+   * @returns {KeyState} - Its state.
+   */
+  private getState(keyPair: KeyPair) {
+    const state = this.states.find(state => state.keyPair.apiKey === keyPair.apiKey);
+    if (!state) throw new Error('Unknown API key');
+    return state;
+  }
+}
+
+/**
+ * Mask an API key for logs and health reports.
+ * @param {string} apiKey - The API key.
+ * @returns {string} - The first characters of the key followed by an ellipsis.
+ */
+export const maskApiKey = (apiKey: string) => `${apiKey.slice(0, 8)}…`;
+
+export default KeyPool;
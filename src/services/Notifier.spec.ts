@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+import { AxiosError } from 'axios';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import Notifier, { parseNotificationRules } from './Notifier';
+import { sendMail } from '../utils/smtp-utils';
+import { DecisionNotification, NotificationRule } from '../types';
+
+const post = vi.hoisted(() => {
+  // The SMTP server and archive links are configured when the module is imported
+  process.env.SMTP_HOST = 'smtp.example.com';
+  process.env.SMTP_FROM = 'kyc@example.com';
+  process.env.ARCHIVE_LINK_BASE_URL = 'https://archive.example.com/sites/kyc/';
+  return vi.fn();
+});
+
+vi.mock('axios', async importOriginal => {
+  const actual = await importOriginal<typeof import('axios')>();
+  return { ...actual, default: { ...actual.default, create: () => ({ post }) } };
+});
+
+vi.mock('../utils/smtp-utils', () => ({ sendMail: vi.fn() }));
+
+const NOTIFICATION: DecisionNotification = {
+  event: 'decision',
+  sessionId: 'session-1',
+  state: 'declined',
+  code: 9102,
+  status: 'declined',
+  reason: 'Document expired',
+  reasonCode: 102,
+  vendorData: 'CUST-1',
+  watchlistHit: false,
+  riskLevel: 'none',
+  folder: 'KYC Details/Declined/CUST-1_session-1',
+  decidedAt: '2024-01-01T00:00:00.000Z',
+};
+
+const rule = (fields: Partial<NotificationRule>): NotificationRule => ({ name: 'rule', channels: [{ type: 'slack', url: 'https://hooks.slack.com/services/T0/B0/secret' }], ...fields });
+
+describe('parseNotificationRules', () => {
+  it('parses the rules', () => {
+    const rules = [rule({ states: ['declined'], codes: [9102] }), rule({ name: 'email', channels: [{ type: 'email', to: ['compliance@example.com'] }] })];
+    expect(parseNotificationRules(JSON.stringify(rules))).toEqual(rules);
+    expect(parseNotificationRules(undefined)).toEqual([]);
+  });
+
+  it('rejects invalid rules with the fields at fault', () => {
+    expect(() => parseNotificationRules(JSON.stringify([rule({ states: ['rejected' as never] })])))
+      .toThrow(/^Invalid NOTIFICATION_RULES: 0\.states\.0: /);
+    expect(() => parseNotificationRules(JSON.stringify([rule({ channels: [{ type: 'webhook', url: 'https://example.com', secret: 'short' }] })])))
+      .toThrow(/0\.channels\.0\.secret/);
+    expect(() => parseNotificationRules(JSON.stringify([rule({ channels: [] })]))).toThrow(/0\.channels/);
+    expect(() => parseNotificationRules(JSON.stringify([rule({}), rule({})]))).toThrow('Rule names must be unique');
+  });
+});
+
+describe('Notifier', () => {
+  beforeEach(() => {
+    post.mockReset();
+    vi.mocked(sendMail).mockReset();
+  });
+
+  it('matches rules whose conditions all match, once per channel', () => {
+    const notifier = new Notifier([
+      rule({ name: 'declined', states: ['declined'], codes: [9102, 9103], vendorDataPrefix: 'CUST-' }),
+      rule({ name: 'watchlist', watchlistHit: true }),
+      rule({ name: 'monitoring', events: ['watchlist-update'] }),
+      rule({ name: 'all', channels: [{ type: 'slack', url: 'https://hooks.slack.com/1' }, { type: 'teams', url: 'https://teams.example.com/1' }] }),
+    ]);
+
+    expect(notifier.match(NOTIFICATION).map(delivery => delivery.key)).toEqual(['declined:0', 'all:0', 'all:1']);
+    expect(notifier.match({ ...NOTIFICATION, code: null, watchlistHit: true }).map(delivery => delivery.key)).toEqual(['watchlist:0', 'all:0', 'all:1']);
+    expect(notifier.match({ ...NOTIFICATION, vendorData: null, event: 'watchlist-update' }).map(delivery => delivery.key)).toEqual(['monitoring:0', 'all:0', 'all:1']);
+  });
+
+  it('renders the templates for Slack, with a link to the archive folder', async () => {
+    const notifier = new Notifier([rule({ title: '{state}: {sessionId}', template: 'Reason: {reason} ({reasonCode}), {unknown}\n{link}' })]);
+    await notifier.send(notifier.match(NOTIFICATION)[0], NOTIFICATION);
+
+    expect(post).toHaveBeenCalledExactlyOnceWith('https://hooks.slack.com/services/T0/B0/secret', {
+      text: '*Declined: session-1*\nReason: Document expired (102), {unknown}\nhttps://archive.example.com/sites/kyc/KYC%20Details/Declined/CUST-1_session-1',
+    });
+  });
+
+  it('signs the body of generic webhooks', async () => {
+    const secret = 'a-secret-of-16-chars';
+    const notifier = new Notifier([rule({ channels: [{ type: 'webhook', url: 'https://example.com/kyc', secret }] })]);
+    await notifier.send(notifier.match(NOTIFICATION)[0], NOTIFICATION);
+
+    const [url, body, { headers }] = post.mock.calls[0];
+    expect(url).toBe('https://example.com/kyc');
+    expect(JSON.parse(body)).toMatchObject({ rule: 'rule', sessionId: 'session-1', state: 'declined', link: expect.stringContaining('https://archive.example.com/') });
+    expect(headers['X-HMAC-Signature']).toBe(crypto.createHmac('sha256', secret).update(body).digest('hex'));
+  });
+
+  it('sends Teams cards and emails', async () => {
+    const notifier = new Notifier([rule({
+      template: 'Session {sessionId}\nCustomer {vendorData}',
+      channels: [{ type: 'teams', url: 'https://teams.example.com/1' }, { type: 'email', to: ['compliance@example.com'] }],
+    })]);
+    for (const delivery of notifier.match(NOTIFICATION))
+      await notifier.send(delivery, NOTIFICATION);
+
+    expect(post.mock.calls[0][1]).toMatchObject({ '@type': 'MessageCard', title: 'KYC decision: Declined (9102)', text: 'Session session-1<br>Customer CUST-1' });
+    expect(sendMail).toHaveBeenCalledExactlyOnceWith(
+      { host: 'smtp.example.com', port: 587, secure: false, user: undefined, password: undefined },
+      { from: 'kyc@example.com', to: ['compliance@example.com'], subject: 'KYC decision: Declined (9102)', text: 'Session session-1\nCustomer CUST-1' },
+    );
+  });
+
+  it('keeps the webhook URL out of errors', async () => {
+    post.mockRejectedValue(new AxiosError('Request failed for https://hooks.slack.com/services/T0/B0/secret', 'ERR_BAD_REQUEST', undefined, undefined, { status: 403 } as any));
+    const notifier = new Notifier([rule({})]);
+
+    const error = await notifier.send(notifier.match(NOTIFICATION)[0], NOTIFICATION).catch(error => error);
+    expect(error.message).toBe('Notification rule to slack failed: status 403');
+  });
+});
@@ -0,0 +1,168 @@
+import axios, { isAxiosError } from 'axios';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { getStateLabel } from './SessionStateMachine';
+import { DecisionNotification, NotificationChannel, NotificationRule, notificationRulesSchema } from '../types';
+import { sendMail } from '../utils/smtp-utils';
+import { validate } from '../utils/validation-utils';
+import { notificationsSent } from '../utils/metrics';
+import logger from '../utils/logger';
+dotenv.config();
+
+const { ARCHIVE_LINK_BASE_URL, SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD, SMTP_FROM } = process.env;
+
+const DEFAULT_TITLES: Record<DecisionNotification['event'], string> = {
+  'decision': 'KYC decision: {state} ({code})',
+  'watchlist-update': 'Watchlist update: {riskLevel} risk',
+};
+const DEFAULT_TEMPLATES: Record<DecisionNotification['event'], string> = {
+  'decision': [
+    'Session {sessionId} was {state}.',
+    'Decision code: {code}',
+    'Reason: {reason} ({reasonCode})',
+    'Customer: {vendorData}',
+    'Watchlist hit: {watchlistHit} (risk: {riskLevel})',
+    'Archive: {link}',
+  ].join('\n'),
+  'watchlist-update': [
+    'Ongoing monitoring found new watchlist hits for session {sessionId}.',
+    'Risk level: {riskLevel}',
+    'Session state: {state}',
+    'Customer: {vendorData}',
+    'Archive: {link}',
+  ].join('\n'),
+};
+
+const client = axios.create({ timeout: 10000 });
+
+export interface NotificationDelivery {
+  key: string; // Identifies the rule and channel, so every notification is sent only once per webhook.
+  rule: NotificationRule;
+  channel: NotificationChannel;
+}
+
+/**
+ * Parse the NOTIFICATION_RULES configuration, a JSON array of rules.
+ * @param {string | undefined} value - The configuration.
+ * @returns {NotificationRule[]} - The rules, empty if not configured.
+ * @throws {Error} - If the configuration is invalid.
+ */
+export const parseNotificationRules = (value: string | undefined): NotificationRule[] =>
+  value ? validate(notificationRulesSchema, JSON.parse(value), 'NOTIFICATION_RULES') : [];
+
+/**
+ * Sends notifications about decisions to webhooks, Slack, Teams and email, according to the configured rules.
+ */
+class Notifier {
+  /**
+   * @param {NotificationRule[]} rules - The notification rules.
+   * @throws {Error} - If a rule sends email but no SMTP server is configured.
+   */
+  constructor(private rules: NotificationRule[]) {
+    if (rules.some(rule => rule.channels.some(channel => channel.type === 'email')) && (!SMTP_HOST || !SMTP_FROM))
+      throw new Error('SMTP_HOST and SMTP_FROM are required for email notifications');
+  }
+
+  /**
+   * Find the notifications to send for a decision or watchlist update. A rule matches if every condition it sets matches.
+   * @param {DecisionNotification} notification - The decision.
+   * @returns {NotificationDelivery[]} - One delivery per channel of every matching rule.
+   */
+  public match(notification: DecisionNotification) {
+    return this.rules
+      .filter(rule =>
+        (!rule.events || rule.events.includes(notification.event))
+        && (!rule.states || rule.states.includes(notification.state))
+        && (!rule.codes || (notification.code !== null && rule.codes.includes(notification.code)))
+        && (rule.watchlistHit === undefined || rule.watchlistHit === notification.watchlistHit)
+        && (!rule.vendorDataPrefix || Boolean(notification.vendorData?.startsWith(rule.vendorDataPrefix)))
+      )
+      .flatMap(rule => rule.channels.map((channel, index): NotificationDelivery => ({ key: `${rule.name}:${index}`, rule, channel })));
+  }
+
+  /**
+   * Send a notification to one channel.
+   * @param {NotificationDelivery} delivery - The rule and channel.
+   * @param {DecisionNotification} notification - The decision.
+   * @throws {Error} - If the channel could not be reached or rejected the notification.
+   */
+  public async send({ rule, channel }: NotificationDelivery, notification: DecisionNotification) {
+    const values = this.getTemplateValues(notification);
+    const title = renderTemplate(rule.title || DEFAULT_TITLES[notification.event], values);
+    const text = renderTemplate(rule.template || DEFAULT_TEMPLATES[notification.event], values);
+    try {
+      switch (channel.type) {
+        case 'webhook': {
+          const body = JSON.stringify({ rule: rule.name, ...notification, link: values.link, sentAt: new Date().toISOString() });
+          const signature = crypto.createHmac('sha256', channel.secret).update(body).digest('hex');
+          await client.post(channel.url, body, { headers: { 'Content-Type': 'application/json', 'X-HMAC-Signature': signature } });
+          break;
+        }
+        case 'slack':
+          await client.post(channel.url, { text: `*${title}*\n${text}` });
+          break;
+        case 'teams':
+          await client.post(channel.url, {
+            '@type': 'MessageCard',
+            '@context': 'https://schema.org/extensions',
+            summary: title,
+            title,
+            text: text.replace(/\n/g, '<br>'),
+          });
+          break;
+        case 'email':
+          await sendMail({
+            host: SMTP_HOST!,
+            port: Number(SMTP_PORT || (SMTP_SECURE === 'true' ? 465 : 587)),
+            secure: SMTP_SECURE === 'true',
+            user: SMTP_USER || undefined,
+            password: SMTP_PASSWORD || undefined,
+          }, { from: SMTP_FROM!, to: channel.to, subject: title, text });
+          break;
+      }
+    } catch (error) {
+      notificationsSent.inc({ channel: channel.type, outcome: 'failed' });
+      // Webhook URLs contain secrets, keep them out of the error
+      const detail = isAxiosError(error) ? (error.response ? `status ${error.response.status}` : error.code || 'no response') : (error as Error).message;
+      throw new Error(`Notification ${rule.name} to ${channel.type} failed: ${detail}`);
+    }
+    notificationsSent.inc({ channel: channel.type, outcome: 'sent' });
+    logger.info('Notification sent', { rule: rule.name, channel: channel.type, sessionId: notification.sessionId });
+  }
+
+  /**
+   * Get the values of the template tokens.
+   * @param {DecisionNotification} notification - The decision.
+   * @returns {Record<string, string>} - Token values, - for unknown values.
+   */
+  private getTemplateValues(notification: DecisionNotification): Record<string, string> {
+    const link = ARCHIVE_LINK_BASE_URL
+      ? `${ARCHIVE_LINK_BASE_URL.replace(/\/+$/, '')}/${notification.folder.split('/').map(encodeURIComponent).join('/')}`
+      : notification.folder;
+    return {
+      event: notification.event,
+      sessionId: notification.sessionId,
+      state: getStateLabel(notification.state),
+      code: notification.code?.toString() ?? '-',
+      status: notification.status || '-',
+      reason: notification.reason || '-',
+      reasonCode: notification.reasonCode?.toString() ?? '-',
+      vendorData: notification.vendorData || '-',
+      watchlistHit: notification.watchlistHit ? 'yes' : 'no',
+      riskLevel: notification.riskLevel,
+      folder: notification.folder,
+      link,
+    };
+  }
+}
+
+/**
+ * Replace the {token} placeholders of a template. Unknown tokens are left as they are.
+ * @param {string} template - The template.
+ * @param {Record<string, string>} values - Token values.
+ * @returns {string} - The rendered text.
+ */
+const renderTemplate = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (token, name: string) => Object.prototype.hasOwnProperty.call(values, name) ? values[name] : token);
+
+export default Notifier;
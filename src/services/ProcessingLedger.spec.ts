@@ -0,0 +1,81 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import ProcessingLedger from './ProcessingLedger';
+
+describe('ProcessingLedger', () => {
+  let directory: string;
+  let ledger: ProcessingLedger;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ledger-'));
+    ledger = new ProcessingLedger(directory);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('shares the entry of a webhook between concurrent runs', async () => {
+    const key = { sessionId: 'session-1', event: 'decision', attemptId: 'attempt-1' };
+    const [first, second] = await Promise.all([ledger.open(key), ledger.open(key)]);
+    expect(first).toBe(second);
+  });
+
+  it('resumes a partial run at the first missing artifact', async () => {
+    const key = { sessionId: 'session-1', event: 'decision' };
+    const entry = await ledger.open(key);
+    await entry.record('folder:KYC Details');
+    await entry.record('json:sessionDecision.json');
+
+    // A restarted process reads the entry from disk
+    const reopened = await new ProcessingLedger(directory).open(key);
+    expect(reopened.completed).toBe(false);
+    expect(reopened.has('folder:KYC Details')).toBe(true);
+    expect(reopened.has('json:sessionDecision.json')).toBe(true);
+    expect(reopened.has('media:front.jpeg')).toBe(false);
+  });
+
+  it('evicts completed entries and reads them from disk again', async () => {
+    const key = { sessionId: 'session-1', event: 'decision' };
+    const entry = await ledger.open(key);
+    await entry.record('json:sessionDecision.json');
+    await entry.complete();
+
+    const redelivered = await ledger.open(key);
+    expect(redelivered).not.toBe(entry);
+    expect(redelivered.completed).toBe(true);
+    expect(redelivered.has('json:sessionDecision.json')).toBe(true);
+  });
+
+  it('archives a reset entry from scratch', async () => {
+    const entry = await ledger.open({ sessionId: 'session-1', event: 'decision' });
+    await entry.record('json:sessionDecision.json');
+    await entry.complete();
+    await entry.reset();
+
+    expect(entry.completed).toBe(false);
+    expect(entry.has('json:sessionDecision.json')).toBe(false);
+  });
+
+  it('keeps concurrent records of the same entry', async () => {
+    const entry = await ledger.open({ sessionId: 'session-1', event: 'decision' });
+    await Promise.all(Array.from({ length: 20 }, (_, i) => entry.record(`media:${i}.jpeg`)));
+
+    const [record] = await ledger.list('session-1');
+    expect(Object.keys(record.artifacts)).toHaveLength(20);
+    expect(fs.readdirSync(directory).filter(name => name.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('lists and deletes the entries of a session only', async () => {
+    await (await ledger.open({ sessionId: 'session-1', event: 'decision' })).record('a');
+    await (await ledger.open({ sessionId: 'session-1', event: 'proof-of-address', attemptId: 'address-1' })).record('b');
+    await (await ledger.open({ sessionId: 'session-10', event: 'decision' })).record('c');
+
+    expect((await ledger.list('session-1')).map(record => record.event)).toEqual(['decision', 'proof-of-address']);
+    await ledger.delete('session-1');
+    expect(await ledger.list('session-1')).toEqual([]);
+    expect(await ledger.list('session-10')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,185 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { LedgerKey, LedgerRecord } from '../types';
+
+/**
+ * Progress of a single webhook delivery, identified by session ID, event code and attempt ID.
+ */
+export class LedgerEntry {
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  /**
+   * @param {string} filePath - Path of the file the entry is persisted to.
+   * @param {LedgerRecord} state - Current state of the entry.
+   * @param {Function} onComplete - Called once the webhook is completely processed.
+   */
+  constructor(private filePath: string, private state: LedgerRecord, private onComplete: () => void = () => undefined) {}
+
+  /**
+   * ID of the Veriff session the webhook belongs to.
+   */
+  public get sessionId() {
+    return this.state.sessionId;
+  }
+
+  /**
+   * Whether every artifact of the webhook has already been archived.
+   */
+  public get completed() {
+    return this.state.completedAt !== null;
+  }
+
+  /**
+   * Check if an artifact has already been archived.
+   * @param {string} artifact - Key of the artifact (folder, JSON file or media file).
+   * @returns {boolean} - True if the artifact was archived by a previous run.
+   */
+  public has(artifact: string) {
+    return artifact in this.state.artifacts;
+  }
+
+  /**
+   * Record an artifact as archived.
+   * @param {string} artifact - Key of the artifact (folder, JSON file or media file).
+   */
+  public async record(artifact: string) {
+    this.state.artifacts[artifact] = new Date().toISOString();
+    await this.save();
+  }
+
+  /**
+   * Forget every archived artifact, so that the webhook is archived again from scratch.
+   */
+  public async reset() {
+    this.state.artifacts = {};
+    this.state.completedAt = null;
+    await this.save();
+  }
+
+  /**
+   * Mark the webhook as completely processed.
+   */
+  public async complete() {
+    this.state.completedAt = new Date().toISOString();
+    await this.save();
+    this.onComplete();
+  }
+
+  /**
+   * Persist the entry. Writes are chained so concurrent updates never interleave.
+   */
+  private async save() {
+    this.state.updatedAt = new Date().toISOString();
+    const content = JSON.stringify(this.state);
+    const write = this.pendingWrite.then(async () => {
+      const tempPath = `${this.filePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+      await fs.promises.writeFile(tempPath, content);
+      await fs.promises.rename(tempPath, this.filePath);
+    });
+    this.pendingWrite = write.catch(() => undefined);
+    await write;
+  }
+}
+
+/**
+ * File-backed ledger of archived webhook artifacts, used to skip work that was already done
+ * when Veriff redelivers a webhook or a job is retried.
+ */
+class ProcessingLedger {
+  // Entries being processed, shared by concurrent runs of the same webhook. Completed entries are read from disk again.
+  private entries = new Map<string, Promise<LedgerEntry>>();
+
+  /**
+   * Initialize the ledger in the given directory, creating it if needed.
+   * @param {string} directory - Directory in which the ledger files are stored.
+   */
+  constructor(private directory: string) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  /**
+   * Get the ledger entry for a webhook delivery, loading it from disk if it exists.
+   * @param {LedgerKey} key - Session ID, event code and attempt ID of the webhook.
+   * @returns {Promise<LedgerEntry>} - The ledger entry shared by all handlers processing the same key.
+   */
+  public async open(key: LedgerKey) {
+    const fileName = [key.sessionId, key.event, key.attemptId || 'session'].map(sanitize).join('_') + '.json';
+    let entry = this.entries.get(fileName);
+    if (!entry) {
+      const loading = this.load(path.join(this.directory, fileName), key, () => this.evict(fileName, loading));
+      entry = loading;
+      this.entries.set(fileName, entry);
+      entry.then(loaded => loaded.completed && this.evict(fileName, loading), () => this.evict(fileName, loading));
+    }
+    return entry;
+  }
+
+  /**
+   * Read the ledger records of every webhook of a session.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @returns {Promise<LedgerRecord[]>} - The ledger records, ordered by file name.
+   */
+  public async list(sessionId: string) {
+    const prefix = `${sanitize(sessionId)}_`;
+    const fileNames = (await fs.promises.readdir(this.directory)).filter(name => name.startsWith(prefix) && name.endsWith('.json')).sort();
+    const records: LedgerRecord[] = [];
+    for (const fileName of fileNames) {
+      records.push(JSON.parse(await fs.promises.readFile(path.join(this.directory, fileName), 'utf8')));
+    }
+    return records;
+  }
+
+  /**
+   * Delete the ledger records of every webhook of a session.
+   * @param {string} sessionId - ID of the Veriff session.
+   */
+  public async delete(sessionId: string) {
+    const prefix = `${sanitize(sessionId)}_`;
+    for (const fileName of await fs.promises.readdir(this.directory)) {
+      if (!fileName.startsWith(prefix))
+        continue;
+      this.entries.delete(fileName);
+      await fs.promises.rm(path.join(this.directory, fileName), { force: true });
+    }
+  }
+
+  /**
+   * Read a ledger entry from disk, or create an empty one if it does not exist yet.
+   * @param {string} filePath - Path of the ledger file.
+   * @param {LedgerKey} key - Session ID, event code and attempt ID of the webhook.
+   * @param {Function} onComplete - Called once the webhook is completely processed.
+   * @returns {Promise<LedgerEntry>} - The ledger entry.
+   */
+  private async load(filePath: string, key: LedgerKey, onComplete: () => void) {
+    try {
+      const record: LedgerRecord = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+      return new LedgerEntry(filePath, record, onComplete);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+      const record: LedgerRecord = { ...key, artifacts: {}, completedAt: null, updatedAt: new Date().toISOString() };
+      return new LedgerEntry(filePath, record, onComplete);
+    }
+  }
+
+  /**
+   * Stop keeping an entry in memory, unless it was replaced by a newer load of the same file in the meantime.
+   * @param {string} fileName - File name of the entry.
+   * @param {Promise<LedgerEntry>} entry - The entry.
+   */
+  private evict(fileName: string, entry: Promise<LedgerEntry>) {
+    if (this.entries.get(fileName) === entry)
+      this.entries.delete(fileName);
+  }
+}
+
+/**
+ * Make a key component safe to use in a file name.
+ * @param {string} value - The key component.
+ * @returns {string} - The sanitized value.
+ */
+const sanitize = (value: string) => String(value).replace(/[^a-zA-Z0-9-]/g, '-');
+
+export default ProcessingLedger;
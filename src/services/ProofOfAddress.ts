@@ -1,60 +1,143 @@
-import { Response } from 'express';
 import BaseWebhookHandler from './BaseWebhookHandler';
-import { MediaItem } from '../types';
+import { getStateForDecision, isKnownDecision } from './SessionStateMachine';
 import { getRelavantSessionData } from '../utils/veriff-utils';
-import { createFolderIfNotExistInSharepoint, uploadObjectAsJSON } from '../utils/sharepoint-utils';
+import { getArchiveLayout, renderPathTemplate } from '../utils/path-utils';
+import { compareAddresses, compareNames, parseAddress } from '../utils/address-utils';
+import logger from '../utils/logger';
+import { AddressCheck, HandlerOptions, Person, ProofOfAddressWebhookPayload, SessionDecisionResponse } from '../types';
 
 class ProofOfAddress extends BaseWebhookHandler {
-  public async handleWebhook(payload: any, res: Response) {
+  public async handleWebhook(payload: ProofOfAddressWebhookPayload, options: HandlerOptions = {}) {
     try {
       const { id: sessionId, addressId } = payload;
 
-      // Get all the data from Veriff
-      const { sessionDecision, personInfo, mediaList, watchlistScreening, attempts } = await getRelavantSessionData(ProofOfAddress.veriffAPI, sessionId, ProofOfAddress.version);
-      const personName = `${personInfo.value.firstName} ${personInfo.value.lastName}`;
+      // Skip deliveries that were already archived completely
+      const entry = await this.openEntry({ sessionId, event: 'proof-of-address', attemptId: addressId || undefined }, options);
+      if (!entry) {
+        logger.info('Proof of address webhook was already processed, skipping', { sessionId });
+        return;
+      }
+
+      // Get all the data from Veriff. Proof of address sessions may have no person, the decision is used instead if it names one.
+      const { sessionDecision, personInfo, mediaList, watchlistScreening, attempts } = await getRelavantSessionData(this.services.veriffAPI, sessionId, ProofOfAddress.version);
+      const person: Person = personInfo.value || sessionDecision.value?.verification?.person || {};
 
       // Create folders for session and attempts
-      const objectFilesPath = `KYC Details/${personName}_${sessionId}`;
-      await createFolderIfNotExistInSharepoint(objectFilesPath, this.accessToken, this.formDigestValue);
+      const layout = getArchiveLayout('proof-of-address');
+      const values = await this.getArchiveValues(sessionId, 'ProofOfAddress', person, sessionDecision.value, payload.vendorData);
+      await this.linkCustomer(values, 'proof-of-address', person, sessionDecision.value, { attemptIds: attempts.value?.map(attempt => attempt.id), addressId });
+      const objectFilesPath = renderPathTemplate(layout.sessionFolder, values);
+      await this.createFolders(entry, objectFilesPath);
+      await this.linkRelatedEvidence(entry, sessionId, objectFilesPath);
+
+      // Compare the document with the identity verification of the customer
+      const check = await this.checkAddress(sessionId, addressId || null, sessionDecision.value, person);
+      await this.services.addressChecks.record(check);
+      if (check.mismatch)
+        logger.warn('Proof of address does not match the identity verification of the customer', { sessionId, identitySessionId: check.identitySessionId, nameMatch: check.nameMatch, addressMatch: check.addressMatch });
 
       // Upload JSON data to SharePoint
       await Promise.all([
-        uploadObjectAsJSON(this.accessToken, this.formDigestValue, `personInfo.json`, personInfo.value, objectFilesPath),
-        uploadObjectAsJSON(this.accessToken, this.formDigestValue, `mediaList.json`, mediaList.value, objectFilesPath),
-        uploadObjectAsJSON(this.accessToken, this.formDigestValue, `sessionDecision.json`, sessionDecision.value, objectFilesPath),
-        uploadObjectAsJSON(this.accessToken, this.formDigestValue, `watchlistScreening.json`, watchlistScreening.value, objectFilesPath)
+        this.uploadJSON(entry, `personInfo.json`, personInfo.value, objectFilesPath),
+        this.uploadJSON(entry, `mediaList.json`, mediaList.value, objectFilesPath),
+        this.uploadJSON(entry, `sessionDecision.json`, sessionDecision.value, objectFilesPath),
+        this.uploadJSON(entry, `watchlistScreening.json`, watchlistScreening.value, objectFilesPath),
+        this.uploadJSON(entry, `proofOfAddress.json`, check, objectFilesPath)
       ]);
 
-      // Upload media files for address
+      // Upload media files for address, downloaded through the address media endpoint
       if (addressId) {
-        const addressMedia = await ProofOfAddress.veriffAPI.getAddressMedia(addressId);
-        if (addressMedia) {
-          const addressMediaPath = `KYC Details/${personName}_KYC/${addressId}/ProofOfAddress`;
-          await createFolderIfNotExistInSharepoint(`KYC Details/${personName}_KYC/${addressId}`, this.accessToken, this.formDigestValue);
-          await createFolderIfNotExistInSharepoint(addressMediaPath, this.accessToken, this.formDigestValue);
-          await this.uploadMediaFiles(addressMedia.images, addressMediaPath);
-          await this.uploadMediaFiles(addressMedia.videos, addressMediaPath);
-        }
+        const addressMedia = await this.services.veriffAPI.getAddressMedia(addressId);
+        if (!addressMedia)
+          throw new Error(`Media for address ${addressId} could not be fetched`);
+        const addressValues = { ...values, sessionFolder: objectFilesPath, attemptId: addressId };
+        const addressMediaPath = renderPathTemplate(layout.mediaFolder, addressValues);
+        await this.createFolders(entry, addressMediaPath);
+        await this.uploadMediaFiles(entry, addressMedia.images, addressMediaPath, layout.mediaFileName, addressValues, 'address');
+        await this.uploadMediaFiles(entry, addressMedia.videos, addressMediaPath, layout.mediaFileName, addressValues, 'address');
+      } else {
+        logger.info('Proof of address webhook carries no addressId, archiving the session without address media', { sessionId });
       }
 
       // Upload media files for attempts
       if (attempts.value) {
         for (const attempt of attempts.value) {
-          const folderPath = `KYC Details/${personName}_KYC/${attempt.id}/ProofOfAddress`;
-          await createFolderIfNotExistInSharepoint(`KYC Details/${personName}_KYC/${attempt.id}`, this.accessToken, this.formDigestValue);
-          await createFolderIfNotExistInSharepoint(folderPath, this.accessToken, this.formDigestValue);
-          const attemptMedia = await ProofOfAddress.veriffAPI.getMediaForAttempt(attempt.id);
-          await this.uploadMediaFiles(attemptMedia.images, folderPath);
-          await this.uploadMediaFiles(attemptMedia.videos, folderPath);
+          const mediaValues = { ...values, sessionFolder: objectFilesPath, attemptId: attempt.id };
+          const folderPath = renderPathTemplate(layout.mediaFolder, mediaValues);
+          await this.createFolders(entry, folderPath);
+          const attemptMedia = await this.services.veriffAPI.getMediaForAttempt(attempt.id);
+          if (!attemptMedia)
+            throw new Error(`Media for attempt ${attempt.id} could not be fetched`);
+          await this.uploadMediaFiles(entry, attemptMedia.images, folderPath, layout.mediaFileName, mediaValues);
+          await this.uploadMediaFiles(entry, attemptMedia.videos, folderPath, layout.mediaFileName, mediaValues);
         }
       }
 
-      return res.status(200).json({ message: "success" });
-
+      await this.writeManifests(sessionId);
+      await entry.complete();
     } catch (error) {
-      console.error('Error handling proof of address event webhook:', error);
-      return res.status(500).json({ error: "Internal server error" });
+      logger.error('Error handling proof of address webhook', { sessionId: payload.id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Check a proof of address: take the decision and the extracted address, and compare the name and address on the
+   * document with the identity verification of the customer.
+   * @param {string} sessionId - ID of the proof of address session.
+   * @param {string | null} addressId - ID of the proof of address, if the webhook carried one.
+   * @param {SessionDecisionResponse | null} sessionDecision - Decision of the session, if available.
+   * @param {Person} person - The person of the session.
+   * @returns {Promise<AddressCheck>} - The check.
+   */
+  private async checkAddress(sessionId: string, addressId: string | null, sessionDecision: SessionDecisionResponse | null, person: Person): Promise<AddressCheck> {
+    const verification = sessionDecision?.verification;
+    const document = verification?.additionalVerifiedData?.proofOfAddress;
+    const extracted = verification?.person?.addresses?.[0] || person.addresses?.[0];
+    const address = extracted ? parseAddress(extracted) : null;
+
+    const identity = await this.getIdentitySession(sessionId);
+    const identityPerson = identity ? (await this.services.veriffAPI.getSessionDecision(identity))?.verification?.person || null : null;
+    // Without an identity verification to compare with, the name check of Veriff against the session's own person is used
+    const nameMatch = (identityPerson && compareNames(person, identityPerson)) ?? document?.nameMatch ?? null;
+    const matches = address && identityPerson?.addresses?.length
+      ? identityPerson.addresses.map(entry => compareAddresses(address, parseAddress(entry)))
+      : [];
+    const addressMatch = matches.includes(true) ? true : matches.includes(false) ? false : null;
+    // Decisions the server does not know are filed under review, like those of identity verifications
+    const state = verification ? getStateForDecision(verification.code, verification.status) : null;
+    return {
+      sessionId,
+      addressId,
+      state,
+      code: verification?.code ?? null,
+      unknownDecision: verification ? !isKnownDecision(verification.code, verification.status) : false,
+      reason: verification?.reason || null,
+      documentType: document?.documentType || null,
+      issueDate: document?.issueDate || null,
+      address,
+      identitySessionId: identity,
+      nameMatch,
+      addressMatch,
+      mismatch: nameMatch === false || addressMatch === false,
+      checkedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Find the identity verification a proof of address is compared with: the latest approved identity session of the
+   * customer, or their latest identity session if none was approved.
+   * @param {string} sessionId - ID of the proof of address session.
+   * @returns {Promise<string | null>} - ID of the identity session, or null if the customer has none.
+   */
+  private async getIdentitySession(sessionId: string) {
+    const customer = await this.services.customers.findBySession(sessionId);
+    const sessions = (customer?.sessions || []).filter(session => session.kind === 'identity' && session.sessionId !== sessionId).reverse();
+    for (const session of sessions) {
+      if ((await this.services.sessionStates.get(session.sessionId))?.state === 'approved')
+        return session.sessionId;
     }
+    return sessions[0]?.sessionId || null;
   }
 }
 
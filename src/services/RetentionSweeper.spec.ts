@@ -0,0 +1,121 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import AddressChecks from './AddressChecks';
+import RetentionSweeper, { parseRetentionPolicy } from './RetentionSweeper';
+import ReviewLog from './ReviewLog';
+import SessionEraser, { SessionBusyError } from './SessionEraser';
+import SessionStateMachine from './SessionStateMachine';
+import { SessionState } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('parseRetentionPolicy', () => {
+  it('parses the days per session state', () => {
+    expect(parseRetentionPolicy('{"declined": 30, "approved": 1825, "abandoned": 0}')).toEqual({ declined: 30, approved: 1825, abandoned: 0 });
+    expect(parseRetentionPolicy(undefined)).toEqual({});
+    expect(parseRetentionPolicy('')).toEqual({});
+  });
+
+  it('rejects invalid policies', () => {
+    expect(() => parseRetentionPolicy('[30]')).toThrow('RETENTION_DAYS must be a JSON object');
+    expect(() => parseRetentionPolicy('{"rejected": 30}')).toThrow('Unknown session state in RETENTION_DAYS: rejected');
+    expect(() => parseRetentionPolicy('{"declined": "30"}')).toThrow('Retention of declined sessions must be a number of days');
+    expect(() => parseRetentionPolicy('{"declined": -1}')).toThrow('Retention of declined sessions must be a number of days');
+    expect(() => parseRetentionPolicy('{"declined": 30')).toThrow(SyntaxError);
+  });
+});
+
+describe('RetentionSweeper', () => {
+  let directory: string;
+  let sessionStates: SessionStateMachine;
+  let reviews: ReviewLog;
+  let addressChecks: AddressChecks;
+  const erase = vi.fn();
+
+  /**
+   * Move a session into a state at the current time.
+   */
+  const transition = (sessionId: string, state: SessionState) =>
+    sessionStates.transition(sessionId, { state, code: null, reason: null, reasonCode: null, attemptId: null });
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'retention-'));
+    sessionStates = new SessionStateMachine(`${directory}/states`);
+    reviews = new ReviewLog(`${directory}/reviews`);
+    addressChecks = new AddressChecks(`${directory}/addresses`);
+    erase.mockReset();
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('erases sessions that were in their state for longer than the policy allows', async () => {
+    await transition('session-1', 'declined');
+    await transition('session-2', 'approved');
+    await transition('session-3', 'submitted');
+    const sweeper = new RetentionSweeper(sessionStates, reviews, addressChecks, { erase } as unknown as SessionEraser, { policy: { declined: 30, approved: 365 }, intervalMs: DAY_MS });
+
+    expect(await sweeper.sweep(new Date(Date.now() + 30 * DAY_MS - 60000))).toBe(0);
+    expect(await sweeper.sweep(new Date(Date.now() + 31 * DAY_MS))).toBe(1);
+    expect(erase).toHaveBeenCalledExactlyOnceWith('session-1', 'retention');
+  });
+
+  it('only applies the rule of the current state', async () => {
+    await transition('session-1', 'submitted');
+    await transition('session-1', 'declined');
+    const sweeper = new RetentionSweeper(sessionStates, reviews, addressChecks, { erase } as unknown as SessionEraser, { policy: { submitted: 0 }, intervalMs: DAY_MS });
+
+    expect(await sweeper.sweep(new Date(Date.now() + 365 * DAY_MS))).toBe(0);
+    expect(erase).not.toHaveBeenCalled();
+  });
+
+  it('applies the rule of the reviewer decision to sessions in review', async () => {
+    await transition('session-1', 'review');
+    await transition('session-2', 'review');
+    await reviews.append({ sessionId: 'session-1', outcome: 'rejected', reviewer: 'jane.doe@example.com', notes: 'Confirmed match', reasons: ['review'], veriffState: 'review', veriffCode: 9121, riskLevel: 'none' });
+    const sweeper = new RetentionSweeper(sessionStates, reviews, addressChecks, { erase } as unknown as SessionEraser, { policy: { declined: 30 }, intervalMs: DAY_MS });
+
+    expect(await sweeper.sweep(new Date(Date.now() + 31 * DAY_MS))).toBe(1);
+    expect(erase).toHaveBeenCalledExactlyOnceWith('session-1', 'retention');
+  });
+
+  it('applies the rule of the decision to proofs of address', async () => {
+    // Proofs of address only get a state record for their archive folders
+    await sessionStates.addFolder('session-1', 'KYC Details/ProofOfAddress/CUST-1_session-1');
+    await sessionStates.addFolder('session-2', 'KYC Details/ProofOfAddress/CUST-1_session-2');
+    const check = { addressId: null, code: 9102, unknownDecision: false, reason: null, documentType: null, issueDate: null, address: null, identitySessionId: null, nameMatch: null, addressMatch: null, mismatch: false, checkedAt: new Date().toISOString() };
+    await addressChecks.record({ ...check, sessionId: 'session-1', state: 'declined' });
+    await addressChecks.record({ ...check, sessionId: 'session-2', state: null });
+    const sweeper = new RetentionSweeper(sessionStates, reviews, addressChecks, { erase } as unknown as SessionEraser, { policy: { declined: 30 }, intervalMs: DAY_MS });
+
+    expect(await sweeper.sweep(new Date(Date.now() + 29 * DAY_MS))).toBe(0);
+    expect(await sweeper.sweep(new Date(Date.now() + 31 * DAY_MS))).toBe(1);
+    expect(erase).toHaveBeenCalledExactlyOnceWith('session-1', 'retention');
+  });
+
+  it('leaves sessions that are being archived and failed erasures to the next sweep', async () => {
+    await transition('session-1', 'declined');
+    await transition('session-2', 'declined');
+    await transition('session-3', 'declined');
+    erase
+      .mockRejectedValueOnce(new SessionBusyError('session-1'))
+      .mockRejectedValueOnce(new Error('Storage is unavailable'))
+      .mockResolvedValueOnce({});
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    const sweeper = new RetentionSweeper(sessionStates, reviews, addressChecks, { erase } as unknown as SessionEraser, { policy: { declined: 0 }, intervalMs: DAY_MS });
+
+    expect(await sweeper.sweep(new Date(Date.now() + DAY_MS))).toBe(1);
+    expect(erase).toHaveBeenCalledTimes(3);
+    vi.restoreAllMocks();
+  });
+
+  it('does not start without rules', async () => {
+    const sweeper = new RetentionSweeper(sessionStates, reviews, addressChecks, { erase } as unknown as SessionEraser, { policy: {}, intervalMs: 10 });
+    sweeper.start();
+    await sweeper.stop();
+    expect(erase).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,124 @@
+import AddressChecks from './AddressChecks';
+import ReviewLog, { getCurrentState } from './ReviewLog';
+import SessionEraser, { SessionBusyError } from './SessionEraser';
+import SessionStateMachine, { isSessionState } from './SessionStateMachine';
+import { SessionState, SessionStateRecord } from '../types';
+import logger from '../utils/logger';
+
+export type RetentionPolicy = Partial<Record<SessionState, number>>;
+
+export interface RetentionSweeperOptions {
+  policy: RetentionPolicy; // Days a session is kept after it reached its current state, per state. States without a rule are kept.
+  intervalMs: number; // Delay between sweeps.
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Erases sessions once they were in their current state for longer than the retention policy allows. The current state
+ * includes the reviewer's decision and, for proofs of address, the decision fetched with their webhook.
+ * The first sweep runs when the sweeper starts, later ones every intervalMs.
+ */
+class RetentionSweeper {
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping: Promise<void> | null = null;
+
+  /**
+   * @param {SessionStateMachine} sessionStates - States of the sessions, telling since when a session is in its state.
+   * @param {ReviewLog} reviews - Review decisions, which approve or decline sessions in review.
+   * @param {AddressChecks} addressChecks - Proof of address checks, holding the decision of the proofs of address.
+   * @param {SessionEraser} eraser - Eraser the expired sessions are passed to.
+   * @param {RetentionSweeperOptions} options - Retention policy and sweep interval.
+   */
+  constructor(private sessionStates: SessionStateMachine, private reviews: ReviewLog, private addressChecks: AddressChecks, private eraser: SessionEraser, private options: RetentionSweeperOptions) {}
+
+  /**
+   * Start sweeping. Does nothing if the policy has no rules.
+   */
+  public start() {
+    if (Object.keys(this.options.policy).length === 0)
+      return;
+    const run = () => {
+      // A sweep that takes longer than the interval is not started twice
+      if (this.sweeping)
+        return;
+      this.sweeping = this.sweep()
+        .then(() => undefined, error => logger.error('Retention sweep failed', { error }))
+        .finally(() => { this.sweeping = null; });
+    };
+    run();
+    this.timer = setInterval(run, this.options.intervalMs);
+  }
+
+  /**
+   * Stop sweeping once the current sweep is finished.
+   */
+  public async stop() {
+    if (this.timer)
+      clearInterval(this.timer);
+    this.timer = null;
+    await this.sweeping;
+  }
+
+  /**
+   * Erase every session past its retention period.
+   * @param {Date} now - Time the retention periods are measured against.
+   * @returns {Promise<number>} - Number of erased sessions.
+   */
+  public async sweep(now = new Date()) {
+    let erased = 0;
+    for (const record of await this.sessionStates.list()) {
+      if (!await this.isExpired(record, now))
+        continue;
+      try {
+        await this.eraser.erase(record.sessionId, 'retention');
+        erased++;
+      } catch (error) {
+        // Sessions that are being archived are erased by the next sweep
+        if (error instanceof SessionBusyError)
+          continue;
+        logger.error('Unable to erase session past its retention period', { sessionId: record.sessionId, error });
+      }
+    }
+    if (erased > 0)
+      logger.info('Retention sweep finished', { erased });
+    return erased;
+  }
+
+  /**
+   * Check if a session was in its current state for longer than the policy allows.
+   * @param {SessionStateRecord} record - State of the session.
+   * @param {Date} now - Time the retention period is measured against.
+   * @returns {Promise<boolean>} - True if the session must be erased.
+   */
+  private async isExpired(record: SessionStateRecord, now: Date) {
+    const current = getCurrentState(record, await this.reviews.get(record.sessionId), await this.addressChecks.get(record.sessionId));
+    const days = current ? this.options.policy[current.state] : undefined;
+    if (!current || days === undefined)
+      return false;
+    return now.getTime() - Date.parse(current.since) > days * DAY_MS;
+  }
+}
+
+/**
+ * Parse the RETENTION_DAYS configuration, a JSON object mapping session states to the number of days they are kept.
+ * @param {string | undefined} value - The configuration, e.g. {"declined": 30, "approved": 1825}.
+ * @returns {RetentionPolicy} - The policy, empty if not configured.
+ * @throws {Error} - If the configuration is invalid.
+ */
+export const parseRetentionPolicy = (value: string | undefined): RetentionPolicy => {
+  if (!value)
+    return {};
+  const policy = JSON.parse(value);
+  if (typeof policy !== 'object' || policy === null || Array.isArray(policy))
+    throw new Error('RETENTION_DAYS must be a JSON object');
+  for (const [state, days] of Object.entries(policy)) {
+    if (!isSessionState(state))
+      throw new Error(`Unknown session state in RETENTION_DAYS: ${state}`);
+    if (typeof days !== 'number' || !(days >= 0))
+      throw new Error(`Retention of ${state} sessions must be a number of days`);
+  }
+  return policy;
+}
+
+export default RetentionSweeper;
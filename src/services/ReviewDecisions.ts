@@ -0,0 +1,38 @@
+import BaseWebhookHandler from './BaseWebhookHandler';
+import logger from '../utils/logger';
+import { ReviewDecisionPayload } from '../types';
+
+/**
+ * Archives the manual review decisions of a session as reviewDecision.json, next to the Veriff artifacts.
+ */
+class ReviewDecisions extends BaseWebhookHandler {
+  /**
+   * Write the review decisions of a session to its latest archive folder.
+   * @param {ReviewDecisionPayload} payload - The session and the decision that was made.
+   */
+  public async archive({ sessionId, decisionId }: ReviewDecisionPayload) {
+    try {
+      const entry = await this.openEntry({ sessionId, event: 'review-decision', attemptId: decisionId }, {});
+      if (!entry)
+        return;
+
+      const state = await this.services.sessionStates.get(sessionId);
+      const folder = state?.folders[state.folders.length - 1]?.folder;
+      if (!folder) {
+        // Archiving the session later includes the decision
+        logger.warn('Session has no archive folder, the review decision is archived with the session', { sessionId, decisionId });
+        await entry.complete();
+        return;
+      }
+      await this.uploadJSON(entry, 'reviewDecision.json', await this.getReviewFile(sessionId), folder);
+      await this.uploadJSON(entry, 'sessionState.json', state, folder);
+      await this.writeManifests(sessionId);
+      await entry.complete();
+    } catch (error) {
+      logger.error('Error archiving review decision', { sessionId, decisionId, error });
+      throw error;
+    }
+  }
+}
+
+export default ReviewDecisions;
@@ -0,0 +1,118 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import ReviewLog, { getCurrentState, getReviewedState, isDecidedSince, verifyReviewTrail } from './ReviewLog';
+import { AddressCheck, ReviewDecision, SessionState, SessionStateRecord } from '../types';
+
+const decision = (outcome: ReviewDecision['outcome'] = 'approved') => ({
+  sessionId: 'session-1',
+  outcome,
+  reviewer: 'reviewer@example.com',
+  notes: 'Document checked against the registry',
+  reasons: ['review' as const],
+  veriffState: 'review' as const,
+  veriffCode: 9121,
+  riskLevel: 'none' as const,
+});
+
+const stateRecord = (state: SessionState, at: string): SessionStateRecord => ({
+  sessionId: 'session-1',
+  state,
+  reason: null,
+  reasonCode: null,
+  history: [{ from: null, state, code: null, reason: null, reasonCode: null, attemptId: null, at }],
+  folders: [],
+  updatedAt: at,
+});
+
+describe('ReviewLog', () => {
+  let directory: string;
+  let reviews: ReviewLog;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'reviews-'));
+    reviews = new ReviewLog(directory);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('chains every decision to the one before it', async () => {
+    const first = await reviews.append(decision('rejected'));
+    const second = await reviews.append(decision('approved'));
+
+    expect(first.previousHash).toBeNull();
+    expect(second.previousHash).toBe(first.hash);
+    expect(verifyReviewTrail((await reviews.get('session-1'))!.decisions)).toBe(true);
+  });
+
+  it('detects decisions that were changed, removed or reordered', async () => {
+    const decisions = [await reviews.append(decision('rejected')), await reviews.append(decision('approved')), await reviews.append(decision('approved'))];
+
+    expect(verifyReviewTrail([decisions[0], { ...decisions[1], outcome: 'rejected' }, decisions[2]])).toBe(false);
+    expect(verifyReviewTrail([decisions[0], decisions[2]])).toBe(false);
+    expect(verifyReviewTrail([decisions[1], decisions[0], decisions[2]])).toBe(false);
+    expect(verifyReviewTrail(decisions.slice(1))).toBe(false);
+    expect(verifyReviewTrail([])).toBe(true);
+  });
+
+  it('does not record decisions the check rejects', async () => {
+    await reviews.append(decision());
+    await expect(reviews.append(decision(), current => {
+      if (current)
+        throw new Error('Already decided');
+    })).rejects.toThrow('Already decided');
+    expect((await reviews.get('session-1'))!.decisions).toHaveLength(1);
+  });
+});
+
+describe('getReviewedState', () => {
+  it('applies a decision made since the session was put in review', () => {
+    const review = { sessionId: 'session-1', decisions: [{ ...decision('rejected'), id: '1', decidedAt: '2024-01-02T00:00:00.000Z', previousHash: null, hash: '' }] };
+
+    expect(getReviewedState(stateRecord('review', '2024-01-01T00:00:00.000Z'), review)).toBe('declined');
+    expect(getReviewedState(stateRecord('resubmission_requested', '2024-01-01T00:00:00.000Z'), review)).toBe('declined');
+    expect(getReviewedState(stateRecord('review', '2024-01-01T00:00:00.000Z'), { ...review, decisions: [{ ...review.decisions[0], outcome: 'approved' }] })).toBe('approved');
+  });
+
+  it('follows Veriff once it moved the session on, or before any decision', () => {
+    const review = { sessionId: 'session-1', decisions: [{ ...decision('rejected'), id: '1', decidedAt: '2024-01-02T00:00:00.000Z', previousHash: null, hash: '' }] };
+
+    expect(getReviewedState(stateRecord('review', '2024-01-03T00:00:00.000Z'), review)).toBe('review');
+    expect(getReviewedState(stateRecord('approved', '2024-01-01T00:00:00.000Z'), review)).toBe('approved');
+    expect(getReviewedState(stateRecord('review', '2024-01-01T00:00:00.000Z'), null)).toBe('review');
+    expect(getReviewedState(null, review)).toBeNull();
+  });
+});
+
+describe('getCurrentState', () => {
+  const review = { sessionId: 'session-1', decisions: [{ ...decision('rejected'), id: '1', decidedAt: '2024-01-02T00:00:00.000Z', previousHash: null, hash: '' }] };
+  const check = (state: SessionState | null): AddressCheck => ({
+    sessionId: 'session-1', addressId: null, state, code: null, unknownDecision: false, reason: null, documentType: null, issueDate: null,
+    address: null, identitySessionId: null, nameMatch: null, addressMatch: null, mismatch: false, checkedAt: '2024-01-05T00:00:00.000Z',
+  });
+
+  it('dates reviewed sessions from the decision and others from their last transition', () => {
+    expect(getCurrentState(stateRecord('review', '2024-01-01T00:00:00.000Z'), review, null)).toEqual({ state: 'declined', since: '2024-01-02T00:00:00.000Z' });
+    expect(getCurrentState(stateRecord('approved', '2024-01-03T00:00:00.000Z'), review, null)).toEqual({ state: 'approved', since: '2024-01-03T00:00:00.000Z' });
+    expect(getCurrentState(null, review, null)).toBeNull();
+  });
+
+  it('takes the decision of proofs of address whose state is pending', () => {
+    expect(getCurrentState(stateRecord('created', '2024-01-01T00:00:00.000Z'), null, check('declined'))).toEqual({ state: 'declined', since: '2024-01-05T00:00:00.000Z' });
+    expect(getCurrentState(null, null, check('approved'))).toEqual({ state: 'approved', since: '2024-01-05T00:00:00.000Z' });
+    expect(getCurrentState(stateRecord('created', '2024-01-01T00:00:00.000Z'), null, check(null))).toEqual({ state: 'created', since: '2024-01-01T00:00:00.000Z' });
+    expect(getCurrentState(stateRecord('expired', '2024-01-01T00:00:00.000Z'), null, check('approved'))).toEqual({ state: 'expired', since: '2024-01-01T00:00:00.000Z' });
+  });
+});
+
+describe('isDecidedSince', () => {
+  it('treats a decision at the given time as made since then', () => {
+    const review = { sessionId: 'session-1', decisions: [{ ...decision(), id: '1', decidedAt: '2024-01-01T00:00:00.000Z', previousHash: null, hash: '' }] };
+    expect(isDecidedSince(review, '2024-01-01T00:00:00.000Z')).toBe(true);
+    expect(isDecidedSince(review, '2024-01-01T00:00:00.001Z')).toBe(false);
+    expect(isDecidedSince(null, '2024-01-01T00:00:00.000Z')).toBe(false);
+  });
+});
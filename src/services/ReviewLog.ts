@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import JsonFileStore from './JsonFileStore';
+import { AddressCheck, ReviewDecision, ReviewRecord, SessionState, SessionStateRecord } from '../types';
+import { sha256 } from '../utils/manifest-utils';
+
+// States of sessions Veriff has not decided on yet
+const PENDING_STATES: readonly SessionState[] = ['created', 'started', 'submitted'];
+
+/**
+ * Append-only audit trail of the manual review decisions of the sessions. Every decision is hash-chained to the one
+ * before it, so a decision that was changed or removed later breaks the chain.
+ */
+class ReviewLog {
+  private store: JsonFileStore<ReviewRecord>;
+
+  /**
+   * @param {string} directory - Directory in which the audit trails are stored.
+   */
+  constructor(directory: string) {
+    this.store = new JsonFileStore(directory);
+  }
+
+  /**
+   * Get the audit trail of a session.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @returns {Promise<ReviewRecord | null>} - The decisions, or null if the session was never reviewed.
+   */
+  public async get(sessionId: string) {
+    return this.store.get(sessionId);
+  }
+
+  /**
+   * Append a decision to the audit trail of a session.
+   * @param {Omit<ReviewDecision, 'id' | 'decidedAt' | 'previousHash' | 'hash'>} decision - The decision.
+   * @param {Function} check - Receives the current audit trail under the lock of the session and throws if the decision
+   * must not be recorded, so that two reviewers cannot both decide the same review.
+   * @returns {Promise<ReviewDecision>} - The recorded decision.
+   */
+  public async append(decision: Omit<ReviewDecision, 'id' | 'decidedAt' | 'previousHash' | 'hash'>, check: (current: ReviewRecord | null) => void = () => undefined) {
+    const record = await this.store.update(decision.sessionId, current => {
+      check(current);
+      const decisions = current?.decisions || [];
+      const entry = { id: crypto.randomUUID(), ...decision, decidedAt: new Date().toISOString(), previousHash: decisions[decisions.length - 1]?.hash || null };
+      return { sessionId: decision.sessionId, decisions: [...decisions, { ...entry, hash: hashDecision(entry) }] };
+    });
+    return record.decisions[record.decisions.length - 1];
+  }
+
+  /**
+   * Forget the audit trail of a session, when the session is erased.
+   * @param {string} sessionId - ID of the Veriff session.
+   */
+  public async delete(sessionId: string) {
+    await this.store.delete(sessionId);
+  }
+}
+
+/**
+ * Hash a decision together with the hash of the decision before it.
+ * @param {Omit<ReviewDecision, 'hash'>} decision - The decision.
+ * @returns {string} - SHA-256, hex.
+ */
+const hashDecision = ({ id, sessionId, outcome, reviewer, notes, reasons, veriffState, veriffCode, riskLevel, decidedAt, previousHash }: Omit<ReviewDecision, 'hash'>) =>
+  sha256(JSON.stringify([previousHash, id, sessionId, outcome, reviewer, notes, reasons, veriffState, veriffCode, riskLevel, decidedAt]));
+
+/**
+ * Check that an audit trail was not changed after it was written.
+ * @param {ReviewDecision[]} decisions - The decisions, oldest first.
+ * @returns {boolean} - True if every decision matches its hash and links to the decision before it.
+ */
+export const verifyReviewTrail = (decisions: ReviewDecision[]) =>
+  decisions.every((decision, index) =>
+    decision.previousHash === (index > 0 ? decisions[index - 1].hash : null) && decision.hash === hashDecision(decision)
+  );
+
+/**
+ * Get the state of a session taking the reviewer's decision into account. A decision made since Veriff put the session
+ * in review or requested a resubmission approves or declines it, until Veriff moves the session to another state.
+ * The decision is kept in the audit trail only, the session state machine follows Veriff.
+ * @param {SessionStateRecord | null} record - State of the session, if known.
+ * @param {ReviewRecord | null} review - Audit trail of the session, if it was reviewed.
+ * @returns {SessionState | null} - The state, or null if the session has none.
+ */
+export const getReviewedState = (record: SessionStateRecord | null, review: ReviewRecord | null): SessionState | null => {
+  if (!record)
+    return null;
+  const decision = review?.decisions[review.decisions.length - 1];
+  if (!decision || (record.state !== 'review' && record.state !== 'resubmission_requested') || !isDecidedSince(review, getTransitionAt(record)))
+    return record.state;
+  return decision.outcome === 'approved' ? 'approved' : 'declined';
+}
+
+/**
+ * Get the state of a session and since when it is in it, taking the reviewer's decision and, for proofs of address, the
+ * decision fetched with their webhook into account. Proofs of address get no decision webhooks, their state record only
+ * tracks their archive folders and stays in a pending state.
+ * @param {SessionStateRecord | null} record - State of the session, if known.
+ * @param {ReviewRecord | null} review - Audit trail of the session, if it was reviewed.
+ * @param {AddressCheck | null} address - Check of the proof of address, if the session is one.
+ * @returns {{ state: SessionState, since: string } | null} - The state and the ISO timestamp it was reached, or null if the session has none.
+ */
+export const getCurrentState = (record: SessionStateRecord | null, review: ReviewRecord | null, address: AddressCheck | null): { state: SessionState, since: string } | null => {
+  const state = getReviewedState(record, review);
+  if (address?.state && (!state || PENDING_STATES.includes(state)))
+    return { state: address.state, since: address.checkedAt };
+  if (!record || !state)
+    return null;
+  const decidedAt = review?.decisions[review.decisions.length - 1]?.decidedAt;
+  return { state, since: state !== record.state && decidedAt ? decidedAt : getTransitionAt(record) };
+}
+
+/**
+ * Get when a session entered its current state.
+ * @param {SessionStateRecord} record - State of the session.
+ * @returns {string} - ISO timestamp of the last transition.
+ */
+export const getTransitionAt = (record: SessionStateRecord) => record.history[record.history.length - 1]?.at || record.updatedAt;
+
+/**
+ * Check if a reviewer decided on a session since a given time.
+ * @param {ReviewRecord | null} review - Audit trail of the session, if it was reviewed.
+ * @param {string} since - ISO timestamp.
+ * @returns {boolean} - True if the latest decision was made at or after the time.
+ */
+export const isDecidedSince = (review: ReviewRecord | null, since: string) => {
+  const decidedAt = review?.decisions[review.decisions.length - 1]?.decidedAt;
+  return decidedAt !== undefined && decidedAt >= since;
+}
+
+export default ReviewLog;
@@ -0,0 +1,116 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import ReviewQueue, { ReviewNotPendingError } from './ReviewQueue';
+import CustomerIndex from './CustomerIndex';
+import JobQueue from './JobQueue';
+import ReviewLog, { getReviewedState } from './ReviewLog';
+import RiskSummaries from './RiskSummaries';
+import SessionRegistry from './SessionRegistry';
+import SessionStateMachine from './SessionStateMachine';
+import { SessionState } from '../types';
+
+const APPROVE = { decision: 'approve' as const, reviewer: 'reviewer@example.com', notes: 'Document checked against the registry' };
+const REJECT = { decision: 'reject' as const, reviewer: 'other@example.com', notes: 'Document looks altered' };
+
+describe('ReviewQueue', () => {
+  let directory: string;
+  let jobQueue: JobQueue;
+  let reviews: ReviewLog;
+  let riskSummaries: RiskSummaries;
+  let sessionRegistry: SessionRegistry;
+  let sessionStates: SessionStateMachine;
+  let customers: CustomerIndex;
+  let reviewQueue: ReviewQueue;
+
+  /**
+   * Move a session into a state, as a Veriff webhook would.
+   */
+  const transition = (sessionId: string, state: SessionState, code: number | null = null) =>
+    sessionStates.transition(sessionId, { state, code, reason: null, reasonCode: null, attemptId: null });
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'review-queue-'));
+    jobQueue = new JobQueue(`${directory}/jobs`);
+    reviews = new ReviewLog(`${directory}/reviews`);
+    riskSummaries = new RiskSummaries(`${directory}/risk`);
+    sessionRegistry = new SessionRegistry(`${directory}/sessions`);
+    sessionStates = new SessionStateMachine(`${directory}/states`);
+    customers = new CustomerIndex(`${directory}/customers`);
+    reviewQueue = new ReviewQueue({ jobQueue, reviews, riskSummaries, sessionRegistry, sessionStates, customers });
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('lists sessions in review, waiting for a resubmission or with unreviewed watchlist hits', async () => {
+    await transition('session-1', 'review', 9121);
+    await transition('session-2', 'resubmission_requested', 9103);
+    await transition('session-3', 'approved', 9001);
+    await riskSummaries.record('session-3', { hits: [{ matchedName: 'John Smith', matchTypes: ['name_exact'], listingsRelatedToMatch: { pep: [{}] } }] }, 'medium');
+    await transition('session-4', 'approved', 9001);
+    await sessionRegistry.register({ sessionId: 'session-1', customerId: 'CUST-1', sessionUrl: 'https://veriff.example/session-1', createdAt: '2024-01-01T00:00:00.000Z' });
+    await customers.link({ sessionId: 'session-3', kind: 'identity', vendorData: 'CUST-3', documentNumber: null, dateOfBirth: null });
+
+    const pending = await reviewQueue.listPending();
+    expect(pending.map(({ sessionId, reasons, vendorData, riskLevel }) => ({ sessionId, reasons, vendorData, riskLevel }))).toEqual([
+      { sessionId: 'session-1', reasons: ['review'], vendorData: 'CUST-1', riskLevel: 'none' },
+      { sessionId: 'session-2', reasons: ['resubmission'], vendorData: null, riskLevel: 'none' },
+      { sessionId: 'session-3', reasons: ['watchlist'], vendorData: 'CUST-3', riskLevel: 'medium' },
+    ]);
+    expect(await reviewQueue.getPending('session-4')).toBeNull();
+  });
+
+  it('records a decision without changing the state Veriff gave the session', async () => {
+    await transition('session-1', 'review', 9121);
+
+    const { decision, jobId } = await reviewQueue.decide('session-1', APPROVE);
+    expect(decision).toMatchObject({ outcome: 'approved', reviewer: APPROVE.reviewer, reasons: ['review'], veriffState: 'review', veriffCode: 9121 });
+    expect(await jobQueue.find(jobId)).toMatchObject({ type: 'review-decision', payload: { sessionId: 'session-1', decisionId: decision.id } });
+    const record = await sessionStates.get('session-1');
+    expect(record?.state).toBe('review');
+    expect(getReviewedState(record, await reviews.get('session-1'))).toBe('approved');
+    expect(await reviewQueue.getPending('session-1')).toBeNull();
+    await expect(reviewQueue.decide('session-1', REJECT)).rejects.toThrow(ReviewNotPendingError);
+  });
+
+  it('records only one of two decisions made at the same time', async () => {
+    await transition('session-1', 'review', 9121);
+
+    const results = await Promise.allSettled([reviewQueue.decide('session-1', APPROVE), reviewQueue.decide('session-1', REJECT)]);
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.filter(result => result.status === 'rejected').map(result => (result as PromiseRejectedResult).reason)).toEqual([expect.any(ReviewNotPendingError)]);
+    expect((await reviews.get('session-1'))!.decisions).toHaveLength(1);
+    expect(await jobQueue.list()).toHaveLength(1);
+    expect((await sessionStates.get('session-1'))?.state).toBe('review');
+  });
+
+  it('marks watchlist hits as reviewed', async () => {
+    await transition('session-1', 'approved', 9001);
+    await riskSummaries.record('session-1', { hits: [{ matchedName: 'John Smith', matchTypes: ['name_exact'], listingsRelatedToMatch: { sanctions: [{}] } }] }, 'medium');
+
+    const { decision } = await reviewQueue.decide('session-1', REJECT);
+    expect(decision).toMatchObject({ outcome: 'rejected', reasons: ['watchlist'], riskLevel: 'high' });
+    expect((await riskSummaries.get('session-1'))?.reviewRequired).toBe(false);
+    expect(await reviewQueue.getPending('session-1')).toBeNull();
+  });
+
+  it('asks for a new decision once Veriff puts the session in review again', async () => {
+    await transition('session-1', 'resubmission_requested', 9103);
+    await reviewQueue.decide('session-1', REJECT);
+    // Transitions in the same millisecond as the decision count as decided
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await transition('session-1', 'submitted', 7002);
+    await transition('session-1', 'review', 9121);
+
+    expect((await reviewQueue.getPending('session-1'))?.reasons).toEqual(['review']);
+  });
+
+  it('rejects decisions for sessions that are not waiting for a review', async () => {
+    await transition('session-1', 'approved', 9001);
+    await expect(reviewQueue.decide('session-1', APPROVE)).rejects.toThrow('Session session-1 is not waiting for a review');
+    await expect(reviewQueue.decide('session-2', APPROVE)).rejects.toThrow(ReviewNotPendingError);
+  });
+});
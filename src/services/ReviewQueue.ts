@@ -0,0 +1,151 @@
+import CustomerIndex from './CustomerIndex';
+import JobQueue from './JobQueue';
+import ReviewLog, { getTransitionAt, isDecidedSince } from './ReviewLog';
+import RiskSummaries from './RiskSummaries';
+import SessionRegistry from './SessionRegistry';
+import SessionStateMachine from './SessionStateMachine';
+import { PendingReview, ReviewDecisionPayload, ReviewDecisionRequest, ReviewReason, ReviewRecord, RiskSummary, SessionStateRecord } from '../types';
+import logger from '../utils/logger';
+
+export interface ReviewQueueOptions {
+  reviews: ReviewLog;
+  sessionStates: SessionStateMachine;
+  riskSummaries: RiskSummaries;
+  sessionRegistry: SessionRegistry;
+  jobQueue: JobQueue;
+  customers: CustomerIndex;
+}
+
+/**
+ * A review decision for a session that is not waiting for one.
+ */
+export class ReviewNotPendingError extends Error {
+  /**
+   * @param {string} sessionId - ID of the Veriff session.
+   */
+  constructor(public sessionId: string) {
+    super(`Session ${sessionId} is not waiting for a review`);
+    this.name = 'ReviewNotPendingError';
+  }
+}
+
+/**
+ * Sessions that need a human compliance decision, and the decisions of the reviewers.
+ */
+class ReviewQueue {
+  /**
+   * @param {ReviewQueueOptions} options - The local stores of the sessions and the queue the decisions are archived through.
+   */
+  constructor(private options: ReviewQueueOptions) {}
+
+  /**
+   * List every session waiting for a review.
+   * @returns {Promise<PendingReview[]>} - The sessions, longest waiting first.
+   */
+  public async listPending() {
+    const { sessionStates, riskSummaries, reviews } = this.options;
+    const pending: PendingReview[] = [];
+    for (const record of await sessionStates.list()) {
+      const review = this.toPendingReview(record, await riskSummaries.get(record.sessionId), await reviews.get(record.sessionId));
+      if (review)
+        pending.push({ ...review, vendorData: await this.getVendorData(record.sessionId) });
+    }
+    return pending.sort((a, b) => a.since.localeCompare(b.since));
+  }
+
+  /**
+   * Check if a session is waiting for a review.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @returns {Promise<PendingReview | null>} - Why the session is waiting, or null if it is not.
+   */
+  public async getPending(sessionId: string) {
+    const { sessionStates, riskSummaries, reviews } = this.options;
+    const record = await sessionStates.get(sessionId);
+    const review = record && this.toPendingReview(record, await riskSummaries.get(sessionId), await reviews.get(sessionId));
+    if (!review)
+      return null;
+    return { ...review, vendorData: await this.getVendorData(sessionId) };
+  }
+
+  /**
+   * Record a reviewer's decision. The decision settles a session in review or waiting for a resubmission, without
+   * changing the state Veriff gave it, watchlist hits are marked as reviewed, and the decision is archived in the background.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @param {ReviewDecisionRequest} request - The decision, the reviewer and their notes.
+   * @returns {Promise<{ decision: ReviewDecision, jobId: string }>} - The recorded decision and the job archiving it.
+   * @throws {ReviewNotPendingError} - If the session is not waiting for a review.
+   */
+  public async decide(sessionId: string, { decision: verdict, reviewer, notes }: ReviewDecisionRequest) {
+    const { reviews, sessionStates, riskSummaries, jobQueue } = this.options;
+    const record = await sessionStates.get(sessionId);
+    const pending = record && this.toPendingReview(record, await riskSummaries.get(sessionId), await reviews.get(sessionId));
+    if (!record || !pending)
+      throw new ReviewNotPendingError(sessionId);
+
+    // The audit trail is written first, so that no decision takes effect without being recorded. A decision another
+    // reviewer recorded in the meantime is checked for under the lock of the trail.
+    const outcome = verdict === 'approve' ? 'approved' : 'rejected';
+    const decision = await reviews.append({
+      sessionId,
+      outcome,
+      reviewer,
+      notes,
+      reasons: pending.reasons,
+      veriffState: record.state,
+      veriffCode: record.history[record.history.length - 1]?.code ?? null,
+      riskLevel: pending.riskLevel,
+    }, current => {
+      if (isDecidedSince(current, pending.since))
+        throw new ReviewNotPendingError(sessionId);
+    });
+    await riskSummaries.markReviewed(sessionId);
+
+    const payload: ReviewDecisionPayload = { sessionId, decisionId: decision.id };
+    const job = await jobQueue.enqueue('review-decision', payload);
+    logger.info('Review decision recorded', { sessionId, decisionId: decision.id, outcome, jobId: job.id });
+    return { decision, jobId: job.id };
+  }
+
+  /**
+   * Get the vendorData of a session: the customer it was started for through POST /sessions, or the customer its
+   * webhooks linked it to.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @returns {Promise<string | null>} - The vendorData, or null if it is not known.
+   */
+  private async getVendorData(sessionId: string) {
+    const { sessionRegistry, customers } = this.options;
+    return (await sessionRegistry.get(sessionId))?.customerId || (await customers.findBySession(sessionId))?.vendorData || null;
+  }
+
+  /**
+   * Find out why a session is waiting for a review.
+   * @param {SessionStateRecord} record - State of the session.
+   * @param {RiskSummary | null} risk - Risk summary of the session, if it was screened.
+   * @param {ReviewRecord | null} review - Audit trail of the session, if it was reviewed.
+   * @returns {Omit<PendingReview, 'vendorData'> | null} - The reasons, or null if the session is not waiting for a review.
+   */
+  private toPendingReview(record: SessionStateRecord, risk: RiskSummary | null, review: ReviewRecord | null): Omit<PendingReview, 'vendorData'> | null {
+    // Sessions wait since they entered their state, sessions flagged by ongoing monitoring since the last screening
+    const transitionAt = getTransitionAt(record);
+    // A decision made since then settles the state, the watchlist hits are settled once they are marked as reviewed
+    const settled = isDecidedSince(review, transitionAt);
+    const reasons: ReviewReason[] = [];
+    if (record.state === 'review' && !settled)
+      reasons.push('review');
+    if (record.state === 'resubmission_requested' && !settled)
+      reasons.push('resubmission');
+    if (risk?.reviewRequired)
+      reasons.push('watchlist');
+    if (reasons.length === 0)
+      return null;
+    return {
+      sessionId: record.sessionId,
+      reasons,
+      state: record.state,
+      riskLevel: risk?.riskLevel || 'none',
+      since: reasons[0] === 'watchlist' ? risk!.updatedAt : transitionAt,
+    };
+  }
+}
+
+export default ReviewQueue;
@@ -0,0 +1,58 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import RiskSummaries from './RiskSummaries';
+import { WatchlistHitData } from '../types';
+
+const PEP_HIT: WatchlistHitData = { matchedName: 'John Smith', matchTypes: ['name_exact'], listingsRelatedToMatch: { pep: [{ sourceName: 'UK Parliament' }] } };
+const MEDIA_HIT: WatchlistHitData = { matchedName: 'Jon Smith', matchTypes: ['name_fuzzy'], listingsRelatedToMatch: { adverseMedia: [{ sourceName: 'News' }] } };
+
+describe('RiskSummaries', () => {
+  let directory: string;
+  let riskSummaries: RiskSummaries;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'risk-summaries-'));
+    riskSummaries = new RiskSummaries(directory);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('summarizes a screening and requires a review when the hits reach the review level', async () => {
+    const summary = await riskSummaries.record('session-1', { matchStatus: 'possible_match', checkType: 'initial_result', createdAt: '2024-01-01T00:00:00.000Z', hits: [PEP_HIT, MEDIA_HIT] }, 'medium');
+
+    expect(summary).toMatchObject({ riskLevel: 'medium', matchStatus: 'possible_match', totalHits: 2, pep: 1, sanctions: 0, adverseMedia: 1, newHits: 2, reviewRequired: true });
+    expect(await riskSummaries.get('session-1')).toEqual(summary);
+    expect((await riskSummaries.record('session-2', { hits: [MEDIA_HIT] }, 'medium')).reviewRequired).toBe(false);
+    expect((await riskSummaries.record('session-3', { hits: [PEP_HIT] }, null)).reviewRequired).toBe(false);
+  });
+
+  it('only requires a new review for hits that were not seen before', async () => {
+    await riskSummaries.record('session-1', { createdAt: '2024-01-01T00:00:00.000Z', hits: [PEP_HIT] }, 'medium');
+    await riskSummaries.markReviewed('session-1');
+
+    const update = await riskSummaries.record('session-1', { checkType: 'updated_result', createdAt: '2024-02-01T00:00:00.000Z', hits: [PEP_HIT, MEDIA_HIT] }, 'medium');
+    expect(update).toMatchObject({ newHits: 1, reviewRequired: false });
+
+    const newPep = await riskSummaries.record('session-1', { checkType: 'updated_result', createdAt: '2024-03-01T00:00:00.000Z', hits: [PEP_HIT, { ...PEP_HIT, matchedName: 'Jane Smith' }] }, 'medium');
+    expect(newPep).toMatchObject({ newHits: 1, reviewRequired: true });
+  });
+
+  it('reports the same hits as new when a screening is recorded again', async () => {
+    const screening = { createdAt: '2024-01-01T00:00:00.000Z', hits: [PEP_HIT] };
+    await riskSummaries.record('session-1', screening, 'medium');
+    expect((await riskSummaries.record('session-1', screening, 'medium')).newHits).toBe(1);
+  });
+
+  it('summarizes a screening without storing it until it is saved', async () => {
+    const summary = await riskSummaries.summarize('session-1', { createdAt: '2024-01-01T00:00:00.000Z', hits: [PEP_HIT] }, 'medium');
+    expect(summary).toMatchObject({ sessionId: 'session-1', pep: 1, newHits: 1, reviewRequired: true });
+    expect(await riskSummaries.get('session-1')).toBeNull();
+
+    await riskSummaries.save(summary);
+    expect(await riskSummaries.get('session-1')).toEqual(summary);
+  });
+});
@@ -0,0 +1,113 @@
+import JsonFileStore from './JsonFileStore';
+import { RiskLevel, RiskSummary, WatchlistCategory, WatchlistScreening } from '../types';
+import { getRiskLevel, isRiskAtLeast, parseWatchlistHits } from '../utils/watchlist-utils';
+
+/**
+ * Risk summaries of the sessions, built from their PEP, sanctions and adverse media screening.
+ */
+class RiskSummaries {
+  private store: JsonFileStore<RiskSummary>;
+
+  /**
+   * @param {string} directory - Directory in which the summaries are stored.
+   */
+  constructor(directory: string) {
+    this.store = new JsonFileStore(directory);
+  }
+
+  /**
+   * Get the risk summary of a session.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @returns {Promise<RiskSummary | null>} - The summary, or null if the session was not screened.
+   */
+  public async get(sessionId: string) {
+    return this.store.get(sessionId);
+  }
+
+  /**
+   * Replace the summary of a session with the result of a screening. Hits that earlier screenings already reported keep
+   * the screening they were first seen in, so that updates from ongoing monitoring tell new hits from known ones.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @param {WatchlistScreening} screening - The screening.
+   * @param {RiskLevel | null} reviewLevel - Require a manual review if the new hits reach this level, null to never require one.
+   * @returns {Promise<RiskSummary>} - The updated summary. A review that was required stays required.
+   */
+  public async record(sessionId: string, screening: WatchlistScreening, reviewLevel: RiskLevel | null) {
+    return this.store.update(sessionId, current => summarize(sessionId, current, screening, reviewLevel));
+  }
+
+  /**
+   * Build the summary {@link record} would store for a screening, without storing it.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @param {WatchlistScreening} screening - The screening.
+   * @param {RiskLevel | null} reviewLevel - Require a manual review if the new hits reach this level, null to never require one.
+   * @returns {Promise<RiskSummary>} - The summary, to be stored with {@link save}.
+   */
+  public async summarize(sessionId: string, screening: WatchlistScreening, reviewLevel: RiskLevel | null) {
+    return summarize(sessionId, await this.store.get(sessionId), screening, reviewLevel);
+  }
+
+  /**
+   * Store a summary built with {@link summarize}.
+   * @param {RiskSummary} summary - The summary.
+   */
+  public async save(summary: RiskSummary) {
+    await this.store.put(summary.sessionId, summary);
+  }
+
+  /**
+   * Record that the hits of a session were reviewed manually. Hits found later require a new review.
+   * @param {string} sessionId - ID of the Veriff session.
+   */
+  public async markReviewed(sessionId: string) {
+    if (!(await this.store.get(sessionId))?.reviewRequired)
+      return;
+    await this.store.update(sessionId, current => {
+      if (!current)
+        throw new Error(`Risk summary of session ${sessionId} not found`);
+      return { ...current, reviewRequired: false, updatedAt: new Date().toISOString() };
+    });
+  }
+
+  /**
+   * Forget the summary of a session.
+   * @param {string} sessionId - ID of the Veriff session.
+   */
+  public async delete(sessionId: string) {
+    await this.store.delete(sessionId);
+  }
+}
+
+/**
+ * Summarize a screening on top of the current summary of a session.
+ * @param {string} sessionId - ID of the Veriff session.
+ * @param {RiskSummary | null} current - The current summary, if any.
+ * @param {WatchlistScreening} screening - The screening.
+ * @param {RiskLevel | null} reviewLevel - Require a manual review if the new hits reach this level, null to never require one.
+ * @returns {RiskSummary} - The new summary.
+ */
+const summarize = (sessionId: string, current: RiskSummary | null, screening: WatchlistScreening, reviewLevel: RiskLevel | null): RiskSummary => {
+  const now = new Date().toISOString();
+  // Use the time of the screening, so that a retried webhook reports the same hits as new
+  const screenedAt = screening.createdAt || now;
+  const hits = parseWatchlistHits(screening, current?.hits || [], screenedAt);
+  const newHits = hits.filter(hit => hit.firstSeenAt === screenedAt);
+  const count = (category: WatchlistCategory) => hits.filter(hit => hit.categories.includes(category)).length;
+  return {
+    sessionId,
+    riskLevel: getRiskLevel(hits),
+    matchStatus: screening.matchStatus || null,
+    checkType: screening.checkType || null,
+    totalHits: screening.totalHits ?? hits.length,
+    pep: count('pep'),
+    sanctions: count('sanctions'),
+    adverseMedia: count('adverse_media'),
+    newHits: newHits.length,
+    hits,
+    reviewRequired: Boolean(current?.reviewRequired) || (reviewLevel !== null && newHits.length > 0 && isRiskAtLeast(getRiskLevel(newHits), reviewLevel)),
+    screenedAt: screening.createdAt || null,
+    updatedAt: now,
+  };
+}
+
+export default RiskSummaries;
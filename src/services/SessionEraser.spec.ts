@@ -0,0 +1,157 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import SessionEraser, { SessionBusyError } from './SessionEraser';
+import AddressChecks from './AddressChecks';
+import ArchiveManifests from './ArchiveManifests';
+import CustomerIndex from './CustomerIndex';
+import ErasureReceipts from './ErasureReceipts';
+import JobQueue from './JobQueue';
+import ProcessingLedger from './ProcessingLedger';
+import ReviewLog from './ReviewLog';
+import RiskSummaries from './RiskSummaries';
+import SessionRegistry from './SessionRegistry';
+import SessionStateMachine from './SessionStateMachine';
+import UploadSessions from './UploadSessions';
+import { getStorageBackend } from './storage';
+
+// The storage backend is configured when it is first imported
+const archiveDirectory = vi.hoisted(async () => {
+  const { default: fs } = await import('fs');
+  const { default: os } = await import('os');
+  const { default: path } = await import('path');
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'eraser-archive-'));
+  process.env.STORAGE_BACKEND = 'local';
+  process.env.LOCAL_STORAGE_DIR = directory;
+  return directory;
+});
+
+const SESSION_ID = 'session-1';
+const FOLDER = 'KYC Details/Approved/CUST-1_session-1';
+const MEDIA_FILE = '/Media/CUST-1/session-1_front.jpeg';
+
+describe('SessionEraser', () => {
+  let directory: string;
+  let receipts: ErasureReceipts;
+  let jobQueue: JobQueue;
+  let ledger: ProcessingLedger;
+  let sessionRegistry: SessionRegistry;
+  let sessionStates: SessionStateMachine;
+  let manifests: ArchiveManifests;
+  let customers: CustomerIndex;
+  let uploads: UploadSessions;
+  let eraser: SessionEraser;
+
+  /**
+   * Archive a session: its folder, a media file outside of it, its state, manifest, ledger and customer.
+   */
+  const archive = async (sessionId: string, folder: string) => {
+    const storage = await getStorageBackend();
+    await storage.putJson(folder, 'sessionDecision.json', { status: 'approved' });
+    await storage.putBinary('Media/CUST-1', `${sessionId}_front.jpeg`, Buffer.from('front'), 'image/jpeg');
+    await sessionStates.transition(sessionId, { state: 'approved', code: 9001, reason: null, reasonCode: null, attemptId: null });
+    await sessionStates.addFolder(sessionId, folder);
+    const file = { sha256: 'ab'.repeat(32), size: 5, contentType: 'image/jpeg', mediaId: 'media-1', archivedAt: '2024-01-01T00:00:00.000Z' };
+    await manifests.addFile(sessionId, folder, { ...file, path: 'sessionDecision.json' });
+    await manifests.addFile(sessionId, folder, { ...file, path: `/Media/CUST-1/${sessionId}_front.jpeg` });
+    const [pending] = await manifests.build(sessionId);
+    await manifests.markWritten(pending);
+    await (await ledger.open({ sessionId, event: '9001' })).complete();
+    await customers.link({ sessionId, kind: 'identity', vendorData: 'CUST-1', documentNumber: null, dateOfBirth: null });
+    return pending.manifest.rootHash;
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'eraser-'));
+    receipts = new ErasureReceipts(`${directory}/erasures`);
+    jobQueue = new JobQueue(`${directory}/jobs`);
+    ledger = new ProcessingLedger(`${directory}/ledger`);
+    sessionRegistry = new SessionRegistry(`${directory}/sessions`);
+    sessionStates = new SessionStateMachine(`${directory}/states`);
+    manifests = new ArchiveManifests(`${directory}/manifests`);
+    customers = new CustomerIndex(`${directory}/customers`);
+    uploads = new UploadSessions(`${directory}/uploads`);
+    eraser = new SessionEraser({
+      receipts,
+      jobQueue,
+      ledger,
+      sessionRegistry,
+      sessionStates,
+      manifests,
+      customers,
+      riskSummaries: new RiskSummaries(`${directory}/risk`),
+      reviews: new ReviewLog(`${directory}/reviews`),
+      addressChecks: new AddressChecks(`${directory}/addresses`),
+      uploads,
+      receiptFolder: 'Erasure Receipts',
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    fs.rmSync(await archiveDirectory, { recursive: true, force: true });
+  });
+
+  it('deletes the archive and the local records of a session, and stores a receipt', async () => {
+    const rootHash = await archive(SESSION_ID, FOLDER);
+    await archive('session-2', 'KYC Details/Approved/CUST-1_session-2');
+    await jobQueue.enqueue('rearchive', { sessionId: SESSION_ID });
+    await jobQueue.complete((await jobQueue.claimNext())!);
+    const upload = (filePath: string) => ({ filePath, uploadId: 'upload-1', chunkSize: 10, chunkHashes: ['ab'.repeat(32)], startedAt: '2024-01-01T00:00:00.000Z', updatedAt: '2024-01-01T00:00:00.000Z' });
+    await uploads.save(`${FOLDER}/attempt-1/front.jpeg`, upload(`${FOLDER}/attempt-1/front.jpeg`));
+    await uploads.save('KYC Details/Approved/CUST-1_session-2/front.jpeg', upload('KYC Details/Approved/CUST-1_session-2/front.jpeg'));
+
+    const receipt = await eraser.erase(SESSION_ID, 'request', 'TICKET-1');
+    expect(receipt).toMatchObject({ sessionId: SESSION_ID, reason: 'request', requestedBy: 'TICKET-1', state: 'approved', folders: 1, files: 1, rootHashes: [rootHash] });
+    expect(receipt.completedAt).not.toBeNull();
+
+    const storage = await getStorageBackend();
+    expect(await storage.exists(FOLDER)).toBe(false);
+    expect(await storage.exists(MEDIA_FILE.slice(1))).toBe(false);
+    expect(await storage.exists('Media/CUST-1/session-2_front.jpeg')).toBe(true);
+    expect(JSON.parse((await storage.read(`Erasure Receipts/${SESSION_ID}.json`)).toString())).toEqual(receipt);
+    expect(await sessionStates.get(SESSION_ID)).toBeNull();
+    expect(await manifests.get(SESSION_ID)).toBeNull();
+    expect(await ledger.list(SESSION_ID)).toEqual([]);
+    expect(await jobQueue.list()).toEqual([]);
+    expect(await uploads.get(`${FOLDER}/attempt-1/front.jpeg`)).toBeNull();
+    expect(await uploads.get('KYC Details/Approved/CUST-1_session-2/front.jpeg')).not.toBeNull();
+    expect((await customers.get('CUST-1'))?.sessions.map(session => session.sessionId)).toEqual(['session-2']);
+    expect(await eraser.isKnown(SESSION_ID)).toBe(true);
+  });
+
+  it('returns the first receipt when a session is erased again', async () => {
+    await archive(SESSION_ID, FOLDER);
+    const receipt = await eraser.erase(SESSION_ID, 'retention');
+    expect(await eraser.erase(SESSION_ID, 'request', 'TICKET-1')).toEqual(receipt);
+  });
+
+  it('records the erasure but waits for jobs of the session that are being processed', async () => {
+    await archive(SESSION_ID, FOLDER);
+    await jobQueue.enqueue('rearchive', { sessionId: SESSION_ID });
+    const job = (await jobQueue.claimNext())!;
+
+    await expect(eraser.erase(SESSION_ID, 'request')).rejects.toThrow(SessionBusyError);
+    expect(await receipts.get(SESSION_ID)).toMatchObject({ reason: 'request', completedAt: null });
+    expect(await (await getStorageBackend()).exists(FOLDER)).toBe(true);
+
+    await jobQueue.complete(job);
+    const receipt = await eraser.erase(SESSION_ID, 'request');
+    expect(receipt.completedAt).not.toBeNull();
+    expect(await (await getStorageBackend()).exists(FOLDER)).toBe(false);
+  });
+
+  it('finds the sessions of a customer', async () => {
+    await archive(SESSION_ID, FOLDER);
+    await sessionRegistry.register({ sessionId: 'session-2', customerId: 'CUST-1', sessionUrl: 'https://veriff.example/session-2', createdAt: '2024-01-01T00:00:00.000Z' });
+    await jobQueue.enqueue('decision', { verification: { id: 'session-3', vendorData: 'CUST-1' } });
+    await jobQueue.enqueue('decision', { verification: { id: 'session-4', vendorData: 'CUST-2' } });
+
+    expect((await eraser.findSessions('CUST-1')).sort()).toEqual([SESSION_ID, 'session-2', 'session-3']);
+    expect(await eraser.isKnown('session-5')).toBe(false);
+  });
+});
@@ -0,0 +1,158 @@
+import AddressChecks from './AddressChecks';
+import ArchiveManifests from './ArchiveManifests';
+import CustomerIndex from './CustomerIndex';
+import ErasureReceipts from './ErasureReceipts';
+import JobQueue, { getJobSessionId, getJobVendorData } from './JobQueue';
+import ProcessingLedger from './ProcessingLedger';
+import RiskSummaries from './RiskSummaries';
+import ReviewLog from './ReviewLog';
+import SessionRegistry from './SessionRegistry';
+import SessionStateMachine from './SessionStateMachine';
+import UploadSessions from './UploadSessions';
+import { getStorageBackend } from './storage';
+import { ErasureReason } from '../types';
+import { resolveManifestPath } from '../utils/manifest-utils';
+import logger from '../utils/logger';
+
+export interface SessionEraserOptions {
+  receipts: ErasureReceipts;
+  jobQueue: JobQueue;
+  ledger: ProcessingLedger;
+  sessionRegistry: SessionRegistry;
+  sessionStates: SessionStateMachine;
+  manifests: ArchiveManifests;
+  riskSummaries: RiskSummaries;
+  reviews: ReviewLog;
+  customers: CustomerIndex;
+  addressChecks: AddressChecks;
+  uploads: UploadSessions; // Interrupted chunked uploads, holding upload IDs and chunk hashes of the session's files.
+  receiptFolder: string; // Archive folder a copy of every receipt is stored in.
+}
+
+/**
+ * An erasure that has to wait, because a job of the session is being processed and could archive files again.
+ */
+export class SessionBusyError extends Error {
+  /**
+   * @param {string} sessionId - ID of the Veriff session.
+   */
+  constructor(public sessionId: string) {
+    super(`Session ${sessionId} is being archived`);
+    this.name = 'SessionBusyError';
+  }
+}
+
+/**
+ * Deletes everything archived and stored locally for a session, for retention limits and erasure requests.
+ */
+class SessionEraser {
+  /**
+   * @param {SessionEraserOptions} options - The local stores of the sessions and where to keep the receipts.
+   */
+  constructor(private options: SessionEraserOptions) {}
+
+  /**
+   * Get the receipt of an erased session.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @returns {Promise<ErasureReceipt | null>} - The receipt, or null if the session was not erased.
+   */
+  public async getReceipt(sessionId: string) {
+    return this.options.receipts.get(sessionId);
+  }
+
+  /**
+   * Find the sessions of a customer, created through POST /sessions, received with the customer ID as vendorData or
+   * linked to the customer by their document.
+   * @param {string} vendorData - Our customer ID.
+   * @returns {Promise<string[]>} - IDs of the sessions.
+   */
+  public async findSessions(vendorData: string) {
+    const { sessionRegistry, jobQueue, customers } = this.options;
+    const sessionIds = new Set((await customers.get(vendorData))?.sessions.map(session => session.sessionId) || []);
+    for (const record of await sessionRegistry.list()) {
+      if (record.customerId === vendorData)
+        sessionIds.add(record.sessionId);
+    }
+    for (const job of await jobQueue.list()) {
+      const sessionId = getJobSessionId(job);
+      if (sessionId && getJobVendorData(job) === vendorData)
+        sessionIds.add(sessionId);
+    }
+    return [...sessionIds];
+  }
+
+  /**
+   * Check if anything is known about a session.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @returns {Promise<boolean>} - True if the session was created, archived or erased by this server.
+   */
+  public async isKnown(sessionId: string) {
+    const { receipts, sessionRegistry, sessionStates, manifests, jobQueue } = this.options;
+    return Boolean(await receipts.get(sessionId) || await sessionRegistry.get(sessionId) || await sessionStates.get(sessionId) || await manifests.get(sessionId))
+      || (await jobQueue.list()).some(job => getJobSessionId(job) === sessionId);
+  }
+
+  /**
+   * Erase a session: delete its archive folders and the files archived outside of them, its queued and completed jobs,
+   * its local records and its interrupted uploads, and write a receipt. Erasing a session again returns the receipt of the first erasure,
+   * an erasure that failed half way continues where it stopped.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @param {ErasureReason} reason - Why the session is erased.
+   * @param {string | null} requestedBy - Reference of the erasure request, e.g. a ticket number.
+   * @returns {Promise<ErasureReceipt>} - The receipt.
+   * @throws {SessionBusyError} - If a job of the session is being processed. The receipt is kept, so no new webhook of the session is archived.
+   */
+  public async erase(sessionId: string, reason: ErasureReason, requestedBy: string | null = null) {
+    const { receipts, jobQueue, ledger, sessionRegistry, sessionStates, manifests, riskSummaries, reviews, customers, addressChecks, uploads, receiptFolder } = this.options;
+    const existing = await receipts.get(sessionId);
+    if (existing?.completedAt)
+      return existing;
+
+    const state = await sessionStates.get(sessionId);
+    // Record the erasure first, the webhook handlers skip the session from then on. Jobs that were already being
+    // processed may still archive files, the erasure waits for them and continues when it is retried.
+    await receipts.start(sessionId, reason, requestedBy, state?.state || null);
+    const jobs = (await jobQueue.list()).filter(job => getJobSessionId(job) === sessionId);
+    if (jobs.some(job => job.status === 'processing'))
+      throw new SessionBusyError(sessionId);
+    const manifest = await manifests.get(sessionId);
+
+    const storage = await getStorageBackend();
+    const folders = new Set([...(state?.folders || []).map(({ folder }) => folder), ...Object.keys(manifest?.folders || {})]);
+    let files = 0;
+    for (const [folder, entry] of Object.entries(manifest?.folders || {})) {
+      for (const file of Object.values(entry.files)) {
+        // Media folders outside of the session folder may be shared, only the files of the session are deleted there
+        if (file.path.startsWith('/')) {
+          await storage.delete(resolveManifestPath(folder, file.path));
+          files++;
+        }
+      }
+    }
+    for (const folder of folders) {
+      await storage.delete(folder);
+      await uploads.deleteInFolder(folder);
+    }
+
+    for (const job of jobs) {
+      await jobQueue.remove(job);
+    }
+    await ledger.delete(sessionId);
+    await sessionRegistry.delete(sessionId);
+    await sessionStates.delete(sessionId);
+    await manifests.delete(sessionId);
+    await riskSummaries.delete(sessionId);
+    await reviews.delete(sessionId);
+    await addressChecks.delete(sessionId);
+    await customers.unlink(sessionId);
+
+    const rootHashes = Object.values(manifest?.folders || {}).map(entry => entry.rootHash).filter((hash): hash is string => hash !== null);
+    const receipt = await receipts.complete(sessionId, { folders: folders.size, files, rootHashes });
+    await storage.ensureFolder(receiptFolder);
+    await storage.putJson(receiptFolder, `${sessionId}.json`, receipt);
+    logger.info('Session erased', { sessionId, reason, receiptId: receipt.id, folders: folders.size, files });
+    return receipt;
+  }
+}
+
+export default SessionEraser;
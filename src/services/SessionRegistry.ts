@@ -0,0 +1,51 @@
+import JsonFileStore from './JsonFileStore';
+import { SessionRecord } from '../types';
+
+/**
+ * Mapping of the Veriff sessions created by this server to our customers.
+ */
+class SessionRegistry {
+  private store: JsonFileStore<SessionRecord>;
+
+  /**
+   * @param {string} directory - Directory in which the session records are stored.
+   */
+  constructor(directory: string) {
+    this.store = new JsonFileStore(directory);
+  }
+
+  /**
+   * Record a newly created session.
+   * @param {SessionRecord} record - The session and the customer it belongs to.
+   */
+  public async register(record: SessionRecord) {
+    await this.store.put(record.sessionId, record);
+  }
+
+  /**
+   * Get the record of a session.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @returns {Promise<SessionRecord | null>} - The session record, or null if the session was not created by this server.
+   */
+  public async get(sessionId: string) {
+    return this.store.get(sessionId);
+  }
+
+  /**
+   * Get the records of every session created by this server.
+   * @returns {Promise<SessionRecord[]>} - The session records.
+   */
+  public async list() {
+    return this.store.list();
+  }
+
+  /**
+   * Forget a session.
+   * @param {string} sessionId - ID of the Veriff session.
+   */
+  public async delete(sessionId: string) {
+    await this.store.delete(sessionId);
+  }
+}
+
+export default SessionRegistry;
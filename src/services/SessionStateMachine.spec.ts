@@ -0,0 +1,121 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import SessionStateMachine, { IllegalTransitionError, getStateForDecision, getStateForEvent, getStateLabel, isKnownDecision, isSessionState } from './SessionStateMachine';
+import logger from '../utils/logger';
+import { SessionState } from '../types';
+
+const cause = (state: SessionState, code: number | null = null) => ({ state, code, reason: null, reasonCode: null, attemptId: null });
+
+describe('SessionStateMachine', () => {
+  let directory: string;
+  let sessionStates: SessionStateMachine;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'session-states-'));
+    sessionStates = new SessionStateMachine(directory);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('records the history of a session', async () => {
+    await sessionStates.transition('session-1', cause('started', 7001));
+    await sessionStates.transition('session-1', cause('submitted', 7002));
+    const record = await sessionStates.transition('session-1', { ...cause('declined', 9102), reason: 'Document expired', reasonCode: 102 });
+
+    expect(record).toMatchObject({ state: 'declined', reason: 'Document expired', reasonCode: 102 });
+    expect(record.history.map(({ from, state }) => [from, state])).toEqual([[null, 'started'], ['started', 'submitted'], ['submitted', 'declined']]);
+    expect(await sessionStates.get('session-1')).toEqual(record);
+  });
+
+  it('ignores redelivered transitions to the current state', async () => {
+    await sessionStates.transition('session-1', cause('submitted', 7002));
+    const record = await sessionStates.transition('session-1', cause('submitted', 7002));
+    expect(record.history).toHaveLength(1);
+  });
+
+  it('rejects transitions the lifecycle does not allow', async () => {
+    await sessionStates.transition('session-1', cause('approved', 9001));
+    const error = await sessionStates.transition('session-1', cause('started', 7001)).catch(error => error);
+
+    expect(error).toBeInstanceOf(IllegalTransitionError);
+    expect(error).toMatchObject({ sessionId: 'session-1', from: 'approved', to: 'started' });
+    expect((await sessionStates.get('session-1'))?.state).toBe('approved');
+  });
+
+  it('lets resubmitted sessions start again', async () => {
+    await sessionStates.transition('session-1', cause('resubmission_requested', 9103));
+    await sessionStates.transition('session-1', cause('started', 7001));
+    expect((await sessionStates.transition('session-1', cause('approved', 9001))).state).toBe('approved');
+  });
+
+  it('keeps every transition of concurrent webhooks', async () => {
+    await Promise.all([
+      sessionStates.transition('session-1', cause('started', 7001)),
+      sessionStates.addFolder('session-1', 'KYC Details/Started/CUST-1_session-1'),
+      sessionStates.addFolder('session-1', 'KYC Details/Started/CUST-1_session-1/attempt-1'),
+    ]);
+    const record = await sessionStates.get('session-1');
+    expect(record?.state).toBe('started');
+    expect(record?.folders).toHaveLength(2);
+  });
+
+  it('remembers each archive folder once, with the state it was filed under', async () => {
+    await sessionStates.transition('session-1', cause('submitted', 7002));
+    await sessionStates.addFolder('session-1', 'KYC Details/Submitted/CUST-1_session-1');
+    await sessionStates.transition('session-1', cause('approved', 9001));
+    await sessionStates.addFolder('session-1', 'KYC Details/Approved/CUST-1_session-1');
+    const folders = await sessionStates.addFolder('session-1', 'KYC Details/Submitted/CUST-1_session-1');
+
+    expect(folders.map(({ state, folder }) => [state, folder])).toEqual([
+      ['submitted', 'KYC Details/Submitted/CUST-1_session-1'],
+      ['approved', 'KYC Details/Approved/CUST-1_session-1'],
+    ]);
+  });
+});
+
+describe('getStateForDecision', () => {
+  it('maps every decision code', () => {
+    expect(getStateForDecision(9001, 'approved')).toBe('approved');
+    expect(getStateForDecision(9102, 'declined')).toBe('declined');
+    expect(getStateForDecision(9103, 'resubmission_requested')).toBe('resubmission_requested');
+    expect(getStateForDecision(9104, 'expired')).toBe('expired');
+    expect(getStateForDecision(9104, 'abandoned')).toBe('abandoned');
+    expect(getStateForDecision(9121, 'review')).toBe('review');
+  });
+
+  it('falls back to the status for unknown codes', () => {
+    expect(getStateForDecision(9999, 'declined')).toBe('declined');
+    expect(isKnownDecision(9999, 'declined')).toBe(true);
+  });
+
+  it('files unknown decisions under review with a warning', () => {
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => logger);
+    try {
+      expect(getStateForDecision(9999, 'pending')).toBe('review');
+      expect(isKnownDecision(9999, 'pending')).toBe(false);
+      expect(warn).toHaveBeenCalledWith('Unknown Veriff decision, filing the session under review', { code: 9999, status: 'pending', state: 'review' });
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
+
+describe('getStateForEvent', () => {
+  it('maps the started and submitted events', () => {
+    expect(getStateForEvent(7001)).toBe('started');
+    expect(getStateForEvent(7002)).toBe('submitted');
+    expect(getStateForEvent(7003)).toBeNull();
+  });
+});
+
+describe('getStateLabel and isSessionState', () => {
+  it('name the states', () => {
+    expect(getStateLabel('resubmission_requested')).toBe('ResubmissionRequested');
+    expect(isSessionState('approved')).toBe(true);
+    expect(isSessionState('toString')).toBe(false);
+  });
+});
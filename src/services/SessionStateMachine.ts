@@ -0,0 +1,198 @@
+import JsonFileStore from './JsonFileStore';
+import logger from '../utils/logger';
+import { ArchiveFolder, SessionState, SessionStateRecord, SessionTransition } from '../types';
+
+const DECISION_STATES = ['approved', 'declined', 'resubmission_requested', 'review', 'expired', 'abandoned'] as const;
+
+// States a session can move to from each state. Terminal states have none.
+const TRANSITIONS: Record<SessionState, readonly SessionState[]> = {
+  created: ['started', 'submitted', ...DECISION_STATES],
+  started: ['submitted', ...DECISION_STATES],
+  submitted: DECISION_STATES,
+  review: ['approved', 'declined', 'resubmission_requested'],
+  resubmission_requested: ['started', 'submitted', 'approved', 'declined', 'review', 'expired', 'abandoned'],
+  approved: [],
+  declined: [],
+  expired: [],
+  abandoned: [],
+};
+
+// Veriff decision codes. 9104 is used for both expired and abandoned sessions, the status tells them apart.
+const DECISION_CODES: Record<number, SessionState> = {
+  9001: 'approved',
+  9102: 'declined',
+  9103: 'resubmission_requested',
+  9104: 'expired',
+  9121: 'review',
+};
+
+// State of the decisions the server does not know, so that a person looks at them instead of the job failing until it is dead
+const UNKNOWN_DECISION_STATE: SessionState = 'review';
+
+// Veriff verification event codes
+const EVENT_CODES: Record<number, SessionState> = {
+  7001: 'started',
+  7002: 'submitted',
+};
+
+// Folder names the archive is filed under for each state
+const STATE_LABELS: Record<SessionState, string> = {
+  created: 'Created',
+  started: 'Started',
+  submitted: 'Submitted',
+  review: 'Review',
+  resubmission_requested: 'ResubmissionRequested',
+  approved: 'Approved',
+  declined: 'Declined',
+  expired: 'Expired',
+  abandoned: 'Abandoned',
+};
+
+/**
+ * A transition that the state machine does not allow, e.g. a "started" event arriving after the session was approved.
+ */
+export class IllegalTransitionError extends Error {
+  /**
+   * @param {string} sessionId - ID of the Veriff session.
+   * @param {SessionState} from - Current state of the session.
+   * @param {SessionState} to - Requested state.
+   */
+  constructor(public sessionId: string, public from: SessionState, public to: SessionState) {
+    super(`Session ${sessionId} cannot move from ${from} to ${to}`);
+    this.name = 'IllegalTransitionError';
+  }
+}
+
+/**
+ * Lifecycle of the Veriff sessions, driven by the event and decision webhooks.
+ * The current state of every session and its history are stored locally.
+ */
+class SessionStateMachine {
+  private store: JsonFileStore<SessionStateRecord>;
+
+  /**
+   * @param {string} directory - Directory in which the session states are stored.
+   */
+  constructor(directory: string) {
+    this.store = new JsonFileStore(directory);
+  }
+
+  /**
+   * Get the state of a session.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @returns {Promise<SessionStateRecord | null>} - The state and its history, or null if nothing is known about the session.
+   */
+  public async get(sessionId: string) {
+    return this.store.get(sessionId);
+  }
+
+  /**
+   * Get the state of every known session.
+   * @returns {Promise<SessionStateRecord[]>} - The states and their history.
+   */
+  public async list() {
+    return this.store.list();
+  }
+
+  /**
+   * Forget the state, history and archive folders of a session.
+   * @param {string} sessionId - ID of the Veriff session.
+   */
+  public async delete(sessionId: string) {
+    await this.store.delete(sessionId);
+  }
+
+  /**
+   * Move a session to a new state. Moving to the current state again, e.g. for a redelivered webhook, changes nothing.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @param {Omit<SessionTransition, 'from' | 'at'>} transition - The new state and what caused it.
+   * @returns {Promise<SessionStateRecord>} - The updated state.
+   * @throws {IllegalTransitionError} - If the session cannot move from its current state to the new one.
+   */
+  public async transition(sessionId: string, transition: Omit<SessionTransition, 'from' | 'at'>) {
+    return this.store.update(sessionId, current => {
+      const now = new Date().toISOString();
+      const record: SessionStateRecord = current || { sessionId, state: transition.state, reason: null, reasonCode: null, history: [], folders: [], updatedAt: now };
+      const from = current ? current.state : null;
+      if (from === transition.state)
+        return record;
+      if (from && !TRANSITIONS[from].includes(transition.state))
+        throw new IllegalTransitionError(sessionId, from, transition.state);
+
+      record.history.push({ ...transition, from, at: now });
+      record.state = transition.state;
+      record.reason = transition.reason;
+      record.reasonCode = transition.reasonCode;
+      record.updatedAt = now;
+      return record;
+    });
+  }
+
+  /**
+   * Remember an archive folder of a session.
+   * @param {string} sessionId - ID of the Veriff session.
+   * @param {string} folder - Path of the archive folder.
+   * @returns {Promise<ArchiveFolder[]>} - Every archive folder of the session, oldest first.
+   */
+  public async addFolder(sessionId: string, folder: string) {
+    const record = await this.store.update(sessionId, current => {
+      const now = new Date().toISOString();
+      const record: SessionStateRecord = current || { sessionId, state: 'created', reason: null, reasonCode: null, history: [], folders: [], updatedAt: now };
+      if (!record.folders.some(entry => entry.folder === folder)) {
+        record.folders.push({ state: current ? current.state : null, folder, at: now });
+        record.updatedAt = now;
+      }
+      return record;
+    });
+    return record.folders;
+  }
+}
+
+/**
+ * Check if a Veriff decision maps to a session state of its own.
+ * @param {number} code - Decision code, e.g. 9001.
+ * @param {string} status - Decision status, e.g. approved.
+ * @returns {boolean} - True if the code or the status is known.
+ */
+export const isKnownDecision = (code: number, status: string) =>
+  Object.prototype.hasOwnProperty.call(DECISION_CODES, code) || DECISION_STATES.some(state => state === status);
+
+/**
+ * Map a Veriff decision to a session state. A decision whose code and status are both unknown is filed under review.
+ * @param {number} code - Decision code, e.g. 9001.
+ * @param {string} status - Decision status, e.g. approved.
+ * @returns {SessionState} - The state of the session.
+ */
+export const getStateForDecision = (code: number, status: string): SessionState => {
+  if (code === 9104 && status === 'abandoned')
+    return 'abandoned';
+  const state = DECISION_CODES[code] || DECISION_STATES.find(state => state === status);
+  if (!state) {
+    logger.warn('Unknown Veriff decision, filing the session under review', { code, status, state: UNKNOWN_DECISION_STATE });
+    return UNKNOWN_DECISION_STATE;
+  }
+  return state;
+}
+
+/**
+ * Map a Veriff verification event to a session state.
+ * @param {number} code - Event code, e.g. 7001.
+ * @returns {SessionState | null} - The state of the session, or null if the event does not change it.
+ */
+export const getStateForEvent = (code: number): SessionState | null => EVENT_CODES[code] || null;
+
+/**
+ * Get the folder name the archive of a session in the given state is filed under.
+ * @param {SessionState} state - The state.
+ * @returns {string} - The folder name, e.g. ResubmissionRequested.
+ */
+export const getStateLabel = (state: SessionState) => STATE_LABELS[state];
+
+/**
+ * Check if a string is a session state, e.g. in configuration.
+ * @param {string} value - The string.
+ * @returns {boolean} - True if it names a session state.
+ */
+export const isSessionState = (value: string): value is SessionState => Object.prototype.hasOwnProperty.call(TRANSITIONS, value);
+
+export default SessionStateMachine;
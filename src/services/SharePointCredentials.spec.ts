@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import SharePointCredentials from './SharePointCredentials';
+import { getAccessToken, getFormDigestValue, SharePointAPIError } from '../utils/sharepoint-utils';
+
+vi.mock('../utils/sharepoint-utils', async importOriginal => ({
+  ...await importOriginal<typeof import('../utils/sharepoint-utils')>(),
+  getAccessToken: vi.fn(),
+  getFormDigestValue: vi.fn(),
+}));
+
+describe('SharePointCredentials', () => {
+  let issued: number;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    issued = 0;
+    vi.mocked(getAccessToken).mockImplementation(async () => ({ accessToken: `token-${++issued}`, expiresIn: 3600 }));
+    vi.mocked(getFormDigestValue).mockImplementation(async () => ({ formDigestValue: `digest-${issued}`, expiresIn: 1800 }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('shares one refresh between concurrent callers', async () => {
+    const credentials = new SharePointCredentials();
+    const [first, second] = await Promise.all([credentials.get(), credentials.get()]);
+
+    expect(first).toEqual({ accessToken: 'token-1', formDigestValue: 'digest-1' });
+    expect(second).toBe(first);
+    expect(getAccessToken).toHaveBeenCalledOnce();
+  });
+
+  it('refreshes the credentials ahead of the first of token and digest expiring', async () => {
+    const credentials = new SharePointCredentials(5 * 60 * 1000);
+    await credentials.get();
+
+    vi.advanceTimersByTime(24 * 60 * 1000);
+    expect((await credentials.get()).accessToken).toBe('token-1');
+    vi.advanceTimersByTime(2 * 60 * 1000);
+    expect((await credentials.get()).accessToken).toBe('token-2');
+  });
+
+  it('retries a request once with fresh credentials when SharePoint rejects them', async () => {
+    const credentials = new SharePointCredentials();
+    const request = vi.fn(async ({ accessToken }: { accessToken: string }) => {
+      if (accessToken === 'token-1')
+        throw new SharePointAPIError('Access denied', 401);
+      return accessToken;
+    });
+
+    expect(await credentials.run(request)).toBe('token-2');
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry requests that cannot be sent again', async () => {
+    const credentials = new SharePointCredentials();
+    const request = vi.fn(async () => {
+      throw new SharePointAPIError('Forbidden', 403);
+    });
+
+    await expect(credentials.run(request, false)).rejects.toThrow('Forbidden');
+    expect(request).toHaveBeenCalledOnce();
+    // The rejected credentials are not used again
+    expect((await credentials.get()).accessToken).toBe('token-2');
+  });
+
+  it('does not retry other errors', async () => {
+    const credentials = new SharePointCredentials();
+    const request = vi.fn(async () => {
+      throw new SharePointAPIError('Server error', 500);
+    });
+
+    await expect(credentials.run(request)).rejects.toThrow('Server error');
+    expect(request).toHaveBeenCalledOnce();
+    expect(getAccessToken).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,99 @@
+import { isAxiosError } from 'axios';
+import { getAccessToken, getFormDigestValue, SharePointAPIError } from '../utils/sharepoint-utils';
+import logger from '../utils/logger';
+
+export interface SharePointCredentialSet {
+  accessToken: string; // Access token for SharePoint.
+  formDigestValue: string; // Form Digest Value for SharePoint.
+}
+
+/**
+ * Caches the SharePoint access token and form digest value and refreshes them before they expire,
+ * so that they are fetched once for all handlers instead of once per webhook.
+ */
+class SharePointCredentials {
+  private credentials: SharePointCredentialSet | null = null;
+  private expiresAt = 0;
+  private refreshing: Promise<SharePointCredentialSet> | null = null;
+
+  /**
+   * @param {number} refreshMarginMs - How long before expiry the credentials are refreshed.
+   */
+  constructor(private refreshMarginMs = 5 * 60 * 1000) {}
+
+  /**
+   * Get valid credentials, refreshing them if they expire within the refresh margin.
+   * Concurrent callers share a single refresh.
+   * @returns {Promise<SharePointCredentialSet>} - The access token and form digest value.
+   */
+  public async get() {
+    if (this.credentials && Date.now() < this.expiresAt - this.refreshMarginMs) {
+      return this.credentials;
+    }
+    return this.refresh();
+  }
+
+  /**
+   * Drop the cached credentials so that the next call fetches new ones.
+   */
+  public invalidate() {
+    this.credentials = null;
+    this.expiresAt = 0;
+  }
+
+  /**
+   * Run a SharePoint request with the cached credentials. If SharePoint rejects them with a 401 or 403,
+   * the request is retried once with fresh credentials.
+   * @param {Function} request - The request to run.
+   * @param {boolean} retryable - Whether the request can be sent again, which is not the case for consumed streams.
+   * @returns {Promise<T>} - The result of the request.
+   */
+  public async run<T>(request: (credentials: SharePointCredentialSet) => Promise<T>, retryable = true) {
+    try {
+      return await request(await this.get());
+    } catch (error) {
+      if (!isAuthError(error)) {
+        throw error;
+      }
+      this.invalidate();
+      if (!retryable) {
+        throw error;
+      }
+      logger.warn('SharePoint rejected the cached credentials, retrying with fresh ones');
+      return await request(await this.get());
+    }
+  }
+
+  /**
+   * Fetch a new access token and form digest value.
+   * @returns {Promise<SharePointCredentialSet>} - The new credentials.
+   */
+  private async refresh() {
+    if (!this.refreshing) {
+      this.refreshing = (async () => {
+        const token = await getAccessToken();
+        const digest = await getFormDigestValue(token!.accessToken);
+        // Both expire independently, the pair is only valid as long as the one that expires first
+        const lifetime = Math.min(token!.expiresIn, digest!.expiresIn) * 1000;
+        this.credentials = { accessToken: token!.accessToken, formDigestValue: digest!.formDigestValue };
+        this.expiresAt = Date.now() + lifetime;
+        return this.credentials;
+      })().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+}
+
+/**
+ * Check if an error means that SharePoint rejected the credentials.
+ * @param {any} error - The error thrown by the request.
+ * @returns {boolean} - True for 401 and 403 responses.
+ */
+const isAuthError = (error: any) => {
+  const status = error instanceof SharePointAPIError ? error.status : isAxiosError(error) ? error.response?.status : undefined;
+  return status === 401 || status === 403;
+}
+
+export default SharePointCredentials;
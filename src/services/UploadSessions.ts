@@ -0,0 +1,70 @@
+import JsonFileStore from './JsonFileStore';
+import { UploadSession } from '../types';
+import { sha256 } from '../utils/manifest-utils';
+
+/**
+ * Chunked SharePoint uploads that were interrupted, kept so that the next attempt continues the upload session
+ * instead of sending the file from the start.
+ */
+class UploadSessions {
+  private store: JsonFileStore<UploadSession>;
+
+  /**
+   * @param {string} directory - Directory in which the upload sessions are stored.
+   */
+  constructor(directory: string) {
+    this.store = new JsonFileStore(directory);
+  }
+
+  /**
+   * Get the open upload session of a file.
+   * @param {string} filePath - Path of the file being uploaded.
+   * @returns {Promise<UploadSession | null>} - The upload session, or null if the file has none.
+   */
+  public async get(filePath: string) {
+    return this.store.get(getUploadKey(filePath));
+  }
+
+  /**
+   * Record the chunks the server committed so far.
+   * @param {string} filePath - Path of the file being uploaded.
+   * @param {UploadSession} session - The upload session.
+   */
+  public async save(filePath: string, session: UploadSession) {
+    await this.store.put(getUploadKey(filePath), session);
+  }
+
+  /**
+   * Forget the upload session of a file, once it is finished or can no longer be continued.
+   * @param {string} filePath - Path of the file being uploaded.
+   */
+  public async delete(filePath: string) {
+    await this.store.delete(getUploadKey(filePath));
+  }
+
+  /**
+   * Forget the upload sessions of every file in a folder and its subfolders, e.g. when the folder is erased.
+   * @param {string} folderPath - Path of the folder.
+   * @returns {Promise<number>} - Number of forgotten upload sessions.
+   */
+  public async deleteInFolder(folderPath: string) {
+    let deleted = 0;
+    for (const { filePath } of await this.store.list()) {
+      // Upload sessions saved before their path was recorded cannot be matched
+      if (filePath?.startsWith(`${folderPath}/`)) {
+        await this.delete(filePath);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+}
+
+/**
+ * Get the key an upload session is stored under. The path is hashed, so that names in archive paths never end up in a file name.
+ * @param {string} filePath - Path of the file being uploaded.
+ * @returns {string} - SHA-256 of the path, hex.
+ */
+const getUploadKey = (filePath: string) => sha256(filePath);
+
+export default UploadSessions;
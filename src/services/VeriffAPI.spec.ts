@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+import { AxiosError } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import KeyPool from './KeyPool';
+import VeriffAPI from './VeriffAPI';
+import { NoKeyAvailableError, VeriffAPIError, VeriffAuthFailedError, VeriffRateLimitedError, VeriffTransientError } from './VeriffErrors';
+
+const request = vi.hoisted(() => vi.fn());
+
+vi.mock('axios', async importOriginal => {
+  const actual = await importOriginal<typeof import('axios')>();
+  return { ...actual, default: { ...actual.default, create: () => ({ request, get: vi.fn() }) } };
+});
+
+const KEY_PAIRS = [
+  { apiKey: 'api-key-1', sharedSecretKey: 'secret-1' },
+  { apiKey: 'api-key-2', sharedSecretKey: 'secret-2' },
+];
+
+const OPTIONS = { timeoutMs: 1000, maxRetries: 2, baseDelayMs: 100, maxDelayMs: 5000 };
+
+const DECISION = { status: 'success', verification: { id: 'session-1', code: 9001, status: 'approved' } };
+
+const sign = (payload: string, secret: string) => crypto.createHmac('sha256', secret).update(payload).digest('hex');
+
+const failure = (status?: number, headers: Record<string, string> = {}) =>
+  new AxiosError(`Request failed${status ? ` with status code ${status}` : ''}`, 'ERR_BAD_RESPONSE', undefined, undefined, status ? { status, headers, data: {} } as any : undefined);
+
+describe('VeriffAPI', () => {
+  describe('isSignatureValid', () => {
+    const veriffAPI = new VeriffAPI(KEY_PAIRS, 'https://veriff.example/v1');
+    // Key order and whitespace as sent by Veriff, which JSON.stringify of the parsed body would not reproduce
+    const payload = Buffer.from('{"status": "success",  "verification": {"id": "session-1", "code": 9001}}');
+
+    it('accepts the raw body signed with the secret of the key named in X-AUTH-CLIENT', () => {
+      expect(veriffAPI.isSignatureValid({ signature: sign(payload.toString(), 'secret-2'), apiKey: 'api-key-2', payload })).toBe(true);
+      expect(veriffAPI.isSignatureValid({ signature: sign(payload.toString(), 'secret-2').toUpperCase(), apiKey: 'api-key-2', payload })).toBe(true);
+    });
+
+    it('rejects a body signed with the secret of another key', () => {
+      expect(veriffAPI.isSignatureValid({ signature: sign(payload.toString(), 'secret-1'), apiKey: 'api-key-2', payload })).toBe(false);
+    });
+
+    it('rejects unknown API keys', () => {
+      expect(veriffAPI.isSignatureValid({ signature: sign(payload.toString(), 'secret-1'), apiKey: 'api-key-3', payload })).toBe(false);
+    });
+
+    it('rejects a re-serialized body', () => {
+      const reserialized = JSON.stringify(JSON.parse(payload.toString()));
+      expect(veriffAPI.isSignatureValid({ signature: sign(reserialized, 'secret-1'), apiKey: 'api-key-1', payload })).toBe(false);
+    });
+
+    it('rejects malformed signatures without throwing', () => {
+      expect(veriffAPI.isSignatureValid({ signature: 'abc', apiKey: 'api-key-1', payload })).toBe(false);
+      expect(veriffAPI.isSignatureValid({ signature: '', apiKey: 'api-key-1', payload })).toBe(false);
+      expect(veriffAPI.isSignatureValid({ signature: 'not hex at all', apiKey: 'api-key-1', payload })).toBe(false);
+    });
+  });
+
+  describe('performRequest', () => {
+    let veriffAPI: VeriffAPI;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      request.mockReset();
+      veriffAPI = new VeriffAPI(KEY_PAIRS, 'https://veriff.example/v1', OPTIONS);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('does not retry resources that do not exist yet', async () => {
+      request.mockRejectedValue(failure(404));
+      expect(await veriffAPI.getSessionDecision('session-1')).toBeNull();
+      expect(request).toHaveBeenCalledOnce();
+    });
+
+    it('waits as long as Retry-After asks when rate limited', async () => {
+      request.mockRejectedValueOnce(failure(429, { 'retry-after': '2' })).mockResolvedValue({ status: 200, data: DECISION });
+      const decision = veriffAPI.getSessionDecision('session-1');
+
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(request).toHaveBeenCalledOnce();
+      await vi.advanceTimersByTimeAsync(1);
+      expect((await decision)?.verification?.status).toBe('approved');
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it('reads Retry-After given as an HTTP date', async () => {
+      const retryAt = new Date(Date.now() + 3000).toUTCString();
+      request.mockRejectedValueOnce(failure(429, { 'retry-after': retryAt })).mockResolvedValue({ status: 200, data: DECISION });
+      const decision = veriffAPI.getSessionDecision('session-1');
+
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(request).toHaveBeenCalledOnce();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(await decision).not.toBeNull();
+    });
+
+    it('does not wait for a Retry-After longer than the maximum delay', async () => {
+      request.mockRejectedValue(failure(429, { 'retry-after': '60' }));
+      const error = await veriffAPI.getSessionDecision('session-1').catch(error => error);
+
+      expect(error).toBeInstanceOf(VeriffRateLimitedError);
+      expect(error.retryAfterMs).toBe(60000);
+      expect(request).toHaveBeenCalledOnce();
+    });
+
+    it('retries transient failures of GET requests until retries run out', async () => {
+      request.mockRejectedValueOnce(failure()).mockRejectedValue(failure(503));
+      const decision = veriffAPI.getSessionDecision('session-1').catch(error => error);
+
+      await vi.runAllTimersAsync();
+      expect(await decision).toBeInstanceOf(VeriffTransientError);
+      expect(request).toHaveBeenCalledTimes(OPTIONS.maxRetries + 1);
+    });
+
+    it('does not retry other methods, which may already have been processed', async () => {
+      request.mockRejectedValue(failure(502));
+      await expect(veriffAPI.createSession({ callback: 'https://example.com' } as any)).rejects.toThrow(VeriffAPIError);
+      expect(request).toHaveBeenCalledOnce();
+    });
+
+    it('does not retry other client errors', async () => {
+      request.mockRejectedValue(failure(400));
+      const error = await veriffAPI.getSessionDecision('session-1').catch(error => error);
+
+      expect(error).toBeInstanceOf(VeriffAPIError);
+      expect(error.status).toBe(400);
+      expect(request).toHaveBeenCalledOnce();
+    });
+
+    it('rotates to the next key pair when a key is rejected', async () => {
+      request.mockRejectedValueOnce(failure(401)).mockResolvedValue({ status: 200, data: DECISION });
+      expect(await veriffAPI.getSessionDecision('session-1')).not.toBeNull();
+
+      expect(request.mock.calls.map(([config]) => config.headers['X-AUTH-CLIENT'])).toEqual(['api-key-1', 'api-key-2']);
+      expect(request.mock.calls[1][0].headers['X-HMAC-SIGNATURE']).toBe(sign('session-1', 'secret-2'));
+      expect(veriffAPI.getKeyHealth().map(health => health.authFailures)).toEqual([1, 0]);
+      // The rejected key is cooling down, later requests start with the next one
+      await veriffAPI.getSessionDecision('session-1');
+      expect(request.mock.calls[2][0].headers['X-AUTH-CLIENT']).toBe('api-key-2');
+    });
+
+    it('signs the body of session creation requests exactly as it is sent', async () => {
+      const verification = { callback: 'https://example.com/done', vendorData: 'CUST-1', person: { firstName: 'Jane' } };
+      request.mockResolvedValue({ status: 201, data: { status: 'success', verification: { id: 'session-1', url: 'https://alchemy.veriff.com/v/1', status: 'created' } } });
+
+      expect((await veriffAPI.createSession(verification)).verification.url).toBe('https://alchemy.veriff.com/v/1');
+      const [{ method, data, headers }] = request.mock.calls[0];
+      expect(method).toBe('post');
+      expect(JSON.parse(data)).toEqual({ verification });
+      expect(headers['X-HMAC-SIGNATURE']).toBe(sign(data, 'secret-1'));
+    });
+
+    it('fails once every key pair was rejected', async () => {
+      request.mockRejectedValue(failure(403));
+      await expect(veriffAPI.getSessionDecision('session-1')).rejects.toThrow(VeriffAuthFailedError);
+      expect(request).toHaveBeenCalledTimes(KEY_PAIRS.length);
+    });
+
+    it('sends nothing when the key pool has no key pair to sign with', async () => {
+      const acquire = vi.spyOn(KeyPool.prototype, 'acquire').mockReturnValue(null);
+      try {
+        await expect(veriffAPI.getSessionDecision('session-1')).rejects.toThrow(NoKeyAvailableError);
+        expect(request).not.toHaveBeenCalled();
+      } finally {
+        acquire.mockRestore();
+      }
+    });
+  });
+});
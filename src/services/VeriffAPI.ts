@@ -1,155 +1,304 @@
 import axios, { AxiosInstance, ResponseType, isAxiosError } from 'axios';
 import crypto from 'crypto';
-import { KeyPair } from '../types';
+import { ZodTypeAny, z } from 'zod';
+import {
+  KeyPair,
+  CreateSessionRequest,
+  attemptsResponseSchema,
+  createSessionResponseSchema,
+  mediaListResponseSchema,
+  personResponseSchema,
+  registryResponseSchema,
+  sessionDecisionResponseSchema,
+  watchlistScreeningResponseSchema,
+} from '../types';
+import { validate } from '../utils/validation-utils';
+import {
+  NoKeyAvailableError,
+  VeriffAPIError,
+  VeriffAuthFailedError,
+  VeriffNotFoundError,
+  VeriffRateLimitedError,
+  VeriffTransientError,
+} from './VeriffErrors';
+import KeyPool, { maskApiKey } from './KeyPool';
+import logger from '../utils/logger';
+import { veriffRequestDuration, veriffRequestErrors } from '../utils/metrics';
+
+export interface VeriffAPIOptions {
+  timeoutMs: number; // Timeout of a single request.
+  maxRetries: number; // Retries of rate limited and transient failures.
+  baseDelayMs: number; // Base delay of the exponential backoff between retries.
+  maxDelayMs: number; // Upper bound of the backoff delay.
+}
+
+export interface KeyCheck {
+  apiKey: string; // Masked API key.
+  accepted: boolean; // Whether Veriff accepted a request signed with the key pair.
+  status: number | null; // Status of the check request, null if Veriff could not be reached.
+}
+
+// Session that does not exist, requested to check the API keys. Veriff answers 404 for a valid signature and 401 otherwise.
+const PROBE_SESSION_ID = '00000000-0000-0000-0000-000000000000';
+
+const DEFAULT_OPTIONS: VeriffAPIOptions = {
+  timeoutMs: 30000,
+  maxRetries: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+};
 
 /**
  * Veriff API wrapper class for making secure API requests.
  */
 class VeriffAPI {
-  private currentIndex: number;
-  private veriffAPI!: AxiosInstance;
+  private veriffAPI: AxiosInstance;
+  private keyPool: KeyPool;
 
   /**
    * Initialize the Veriff API wrapper with the API keys and base URL.
    * @param {KeyPair[]} apiKeyPairs - Array of Veriff API key pairs.
    * @param {string} baseUrl - Base URL of the Veriff API.
+   * @param {VeriffAPIOptions} options - Timeout and retry options.
    */
-  constructor(private apiKeyPairs: KeyPair[], private baseUrl: string) {
-    this.currentIndex = 0;
-    this.init();
-  }
-
-  /**
-   * Initialize Axios instance and request interceptor.
-   */
-  private init() {
-    const { apiKey } = this.getCurrentKeyPair();
-
+  constructor(private apiKeyPairs: KeyPair[], private baseUrl: string, private options: VeriffAPIOptions = DEFAULT_OPTIONS) {
+    this.keyPool = new KeyPool(apiKeyPairs);
     this.veriffAPI = axios.create({
       baseURL: this.baseUrl,
+      timeout: this.options.timeoutMs,
       headers: {
         'Content-Type': 'application/json',
-        'X-AUTH-CLIENT': apiKey,
       },
     });
+  }
 
-    this.veriffAPI.interceptors.request.use((config) => {
-      const { url } = config;
-      const id = this.extractIdFromUrl(url || '');
-      const signature = this.generateSignature(id);
-      config.headers['X-HMAC-SIGNATURE'] = signature;
-      return config;
-    });
+  /**
+   * Get the health of the configured API key pairs.
+   * @returns {KeyHealth[]} - Request counts, failure rate and cool-down of every key pair.
+   */
+  public getKeyHealth() {
+    return this.keyPool.getHealth();
   }
 
   /**
-   * Get current API key pair.
-   * @returns {KeyPair} - Current API key pair.
+   * Check that Veriff accepts every configured key pair, with a signed request for a session that does not exist.
+   * The requests bypass the key pool, so a rejected key is reported without putting it on cool-down.
+   * @returns {Promise<KeyCheck[]>} - Result for every key pair, in configured order.
    */
-  private getCurrentKeyPair() {
-    return this.apiKeyPairs[this.currentIndex];
+  public async checkKeys(): Promise<KeyCheck[]> {
+    const url = `/sessions/${PROBE_SESSION_ID}/decision`;
+    return Promise.all(this.apiKeyPairs.map(async keyPair => {
+      const apiKey = maskApiKey(keyPair.apiKey);
+      try {
+        const response = await this.veriffAPI.get(url, {
+          headers: {
+            'X-AUTH-CLIENT': keyPair.apiKey,
+            'X-HMAC-SIGNATURE': this.generateSignature(PROBE_SESSION_ID, keyPair.sharedSecretKey),
+          },
+          validateStatus: status => status < 500,
+        });
+        return { apiKey, accepted: response.status !== 401 && response.status !== 403, status: response.status };
+      } catch (error) {
+        return { apiKey, accepted: false, status: isAxiosError(error) ? error.response?.status ?? null : null };
+      }
+    }));
   }
 
   /**
-   * Perform API request with automatic key rotation.
+   * Perform API request with error classification, retries and automatic key rotation.
+   * - 401/403: the key pair is put on cool-down and the next one is tried, VeriffAuthFailedError once every key pair was rejected.
+   * - 404: VeriffNotFoundError right away, e.g. when a decision is not ready yet.
+   * - 429: retried with backoff, honouring Retry-After, VeriffRateLimitedError once retries run out. A Retry-After longer
+   *   than maxDelayMs is not waited for, VeriffRateLimitedError right away so that the job is retried later.
+   * - 5xx, timeouts and network errors: retried with backoff for GET requests, VeriffTransientError once retries run out.
+   *   Other methods are not retried because the request may already have been processed.
+   * - Other 4xx: VeriffAPIError right away.
+   * - NoKeyAvailableError before anything is sent if the key pool has no key pair to sign with.
    * @param {string} url - API endpoint URL.
    * @param {ResponseType} responseType - Response type (default: 'json').
    * @param {string} method - HTTP method (default: 'get').
-   * @returns {Promise<any>} - Promise with API response data.
+   * @param {object} data - Request body, signed instead of the ID in the URL.
+   * @returns {Promise<any>} - Promise with API response data, or the whole response for streams.
+   * @throws {VeriffAPIError} - If the request failed, see above.
    */
-  private async performRequest(url: string, responseType: ResponseType = 'json', method = 'get') {
-    let attemptsLeft = this.apiKeyPairs.length;
-    while (attemptsLeft > 0) {
+  private async performRequest(url: string, responseType: ResponseType = 'json', method = 'get', data?: object) {
+    // The body is serialized once so that exactly the signed bytes are sent
+    const body = data === undefined ? undefined : JSON.stringify(data);
+    const triedApiKeys = new Set<string>();
+    const firstKeyPair = this.keyPool.acquire();
+    if (!firstKeyPair) {
+      throw new NoKeyAvailableError(url);
+    }
+    let keyPair: KeyPair = firstKeyPair;
+    let retriesLeft = this.options.maxRetries;
+    let retry = 0;
+
+    const endpoint = getEndpoint(url);
+    while (true) {
+      const startedAt = Date.now();
       try {
-        const response = await this.veriffAPI.request({ url, responseType, method });
+        // The key and its signature are picked together for every request, nothing is shared with concurrent requests
+        const response = await this.veriffAPI.request({
+          url,
+          responseType,
+          method,
+          data: body,
+          headers: {
+            'X-AUTH-CLIENT': keyPair.apiKey,
+            'X-HMAC-SIGNATURE': this.generateSignature(body ?? this.extractIdFromUrl(url), keyPair.sharedSecretKey),
+          },
+        });
+        this.keyPool.reportSuccess(keyPair);
+        veriffRequestDuration.observe({ endpoint, key: maskApiKey(keyPair.apiKey), status: response.status }, (Date.now() - startedAt) / 1000);
+        logger.debug('Veriff API request succeeded', { method, url, status: response.status, durationMs: Date.now() - startedAt });
         if (responseType === 'stream') {
           return response;
         }
         return response.data;
       } catch (error) {
-        if (isAxiosError(error) && error.response && error.response.status && error.response.data) {
-          this.switchToNextKeyPair();
-          attemptsLeft--;
-          console.error(`Request to Veriff API failed with status: ${error.response.status} and error message: ${JSON.stringify(error.response.data)}`);
-          if (attemptsLeft === 0) {
-            console.error(`All key pairs failed for ${url}`);
-            return null;
+        if (!isAxiosError(error)) {
+          throw error;
+        }
+        const status = error.response?.status;
+        const labels = { endpoint, key: maskApiKey(keyPair.apiKey), status: status ?? 'none' };
+        veriffRequestDuration.observe(labels, (Date.now() - startedAt) / 1000);
+        veriffRequestErrors.inc(labels);
+        // Response bodies may contain personal data, they are only logged as redacted fields and never end up in errors
+        const details = status ? `status ${status}${describeErrorCode(error.response?.data)}` : error.message;
+        logger.error('Veriff API request failed', { method, url, status, durationMs: Date.now() - startedAt, error: error.message, response: describeResponseData(error.response?.data) });
+
+        if (status === 401 || status === 403) {
+          this.keyPool.reportAuthFailure(keyPair);
+          triedApiKeys.add(keyPair.apiKey);
+          const nextKeyPair = this.keyPool.acquire(triedApiKeys);
+          if (!nextKeyPair) {
+            throw new VeriffAuthFailedError(url, status);
           }
-        } else {
-          console.error(`Request failed for ${url}:`, error);
+          keyPair = nextKeyPair;
+          continue;
+        }
+        if (status === 404) {
+          throw new VeriffNotFoundError(url);
         }
+
+        const rateLimited = status === 429;
+        const transient = (status === undefined || status >= 500) && method.toLowerCase() === 'get';
+        if (!rateLimited && !transient) {
+          throw new VeriffAPIError(`Request to Veriff API ${url} failed with ${details}`, url, status);
+        }
+        const retryAfterMs = rateLimited ? parseRetryAfter(error.response?.headers['retry-after']) : null;
+        if (retriesLeft === 0 || (retryAfterMs !== null && retryAfterMs > this.options.maxDelayMs)) {
+          throw rateLimited ? new VeriffRateLimitedError(url, retryAfterMs) : new VeriffTransientError(url, details, status);
+        }
+        retriesLeft--;
+        const delay = retryAfterMs ?? this.getBackoffDelay(retry++);
+        logger.warn('Retrying Veriff API request', { method, url, delayMs: delay, retriesLeft });
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Get the exponential backoff delay with full jitter for a retry.
+   * @param {number} retry - Number of retries made so far.
+   * @returns {number} - Delay in milliseconds.
+   */
+  private getBackoffDelay(retry: number) {
+    const cap = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** retry);
+    return Math.round(Math.random() * cap);
+  }
+
+  /**
+   * Perform a JSON API request and validate the response against a schema.
+   * @param {string} url - API endpoint URL.
+   * @param {ZodTypeAny} schema - Schema the response must match.
+   * @returns {Promise<any | null>} - The validated response, or null if the resource does not exist.
+   * @throws {Error} - If the request failed or the response does not match the schema.
+   */
+  private async getValidated<T extends ZodTypeAny>(url: string, schema: T): Promise<z.infer<T> | null> {
+    try {
+      const response = await this.performRequest(url);
+      return validate(schema, response, `response from ${url}`);
+    } catch (error) {
+      if (error instanceof VeriffNotFoundError) {
+        return null;
       }
+      throw error;
     }
   }
 
   /**
-   * Switch to the next API key pair for key rotation.
+   * Create a verification session.
+   * @param {CreateSessionRequest} verification - Person and document details, callback URL and vendor data of the session.
+   * @returns {Promise<CreateSessionResponse>} - The created session, including the URL the end user is sent to.
+   * @throws {VeriffAPIError} - If the session could not be created.
    */
-  private switchToNextKeyPair() {
-    this.currentIndex = (this.currentIndex + 1) % this.apiKeyPairs.length;
-    this.init();
+  public async createSession(verification: CreateSessionRequest) {
+    const url = '/sessions';
+    const response = await this.performRequest(url, 'json', 'post', { verification });
+    return validate(createSessionResponseSchema, response, `response from ${url}`);
   }
 
   /**
    * Get the list of attempt objects for the provided session ID.
    * @param {string} sessionId - ID of the Veriff session.
-   * @returns {any[]} - List of JSON objects identifying the attempts associated with the sessionId.
+   * @returns {Promise<AttemptsResponse['verifications'] | null>} - List of JSON objects identifying the attempts associated with the sessionId.
    */
   public async getAttemptsForSession(sessionId: string) {
     const url = `/sessions/${sessionId}/attempts`;
-    const response = await this.performRequest(url);
-    return response.verifications;
+    const response = await this.getValidated(url, attemptsResponseSchema);
+    return response ? response.verifications : null;
   }
 
   /**
    * Get the session decision for the provided session ID.
    * @param {string} sessionId - ID of the Veriff session.
-   * @returns {Object | null} - Verification request session decision object. Null if decision is not available yet.
+   * @returns {Promise<SessionDecisionResponse | null>} - Verification request session decision object. Null if decision is not available yet.
    */
   public async getSessionDecision(sessionId: string) {
     const url = `/sessions/${sessionId}/decision`;
-    return await this.performRequest(url);
+    return await this.getValidated(url, sessionDecisionResponseSchema);
   }
 
   /**
    * Get personal information objects about a person associated with the specific sessionId.
    * @param {string} sessionId - ID of the Veriff session.
-   * @returns {Object} - Personal information object about a person associated with the sessionId.
+   * @returns {Promise<Person | null>} - Personal information object about a person associated with the sessionId.
    */
   public async getPersonForSession(sessionId: string) {
     const url = `/sessions/${sessionId}/person`;
-    const response = await this.performRequest(url);
-    return response.person;
+    const response = await this.getValidated(url, personResponseSchema);
+    return response ? response.person : null;
   }
 
   /**
    * Get a list of media objects for the provided session ID.
    * @param {string} sessionId - ID of the Veriff session.
-   * @returns {Object} - List of media objects for the session.
+   * @returns {Promise<MediaListResponse | null>} - List of media objects for the session.
    */
   public async getMediaForSession(sessionId: string) {
     const url = `/sessions/${sessionId}/media`;
-    return await this.performRequest(url);
+    return await this.getValidated(url, mediaListResponseSchema);
   }
 
   /**
    * Get the watchlist screening data for the provided session ID.
    * @param {string} sessionId - ID of the Veriff session.
-   * @returns {Object} - List of data objects from PEP and Sanctions services associated with the sessionId.
+   * @returns {Promise<WatchlistScreeningResponse | null>} - List of data objects from PEP and Sanctions services associated with the sessionId.
    */
   public async getWatchlistScreeningForSession(sessionId: string) {
     const url = `/sessions/${sessionId}/watchlist-screening`;
-    return await this.performRequest(url);
+    return await this.getValidated(url, watchlistScreeningResponseSchema);
   }
 
   /**
    * Get a list of media objects for the provided attempt ID.
    * @param {string} attemptId - ID of the Veriff attempt.
-   * @returns {Object} - List of media objects for the attempt.
+   * @returns {Promise<MediaListResponse | null>} - List of media objects for the attempt.
    */
   public async getMediaForAttempt(attemptId: string) {
     const url = `/attempts/${attemptId}/media`;
-    return await this.performRequest(url);
+    return await this.getValidated(url, mediaListResponseSchema);
   }
 
   /**
@@ -171,34 +320,34 @@ class VeriffAPI {
    * Get data about the INE identification number for the provided session ID.
    * @param {string} sessionId - ID of the Veriff session.
    * @param {string} version - The version number of the check (required query parameter).
-   * @returns {Object} - Data about the INE identification number.
+   * @returns {Promise<RegistryResponse | null>} - Data about the INE identification number.
    */
   public async getINEDataForSession(sessionId: string, version: string) {
     const encodedVersion = encodeURIComponent(version);
     const url = `/sessions/${sessionId}/decision/ine-registry?version=${encodedVersion}`;
-    return await this.performRequest(url);
+    return await this.getValidated(url, registryResponseSchema);
   }
 
   /**
    * Get data about the CURP (Unique Population Registry Code) identification number and status.
    * @param {string} sessionId - The ID of the Veriff session.
    * @param {string} version - The version number of the check (e.g., '1.0.0').
-   * @returns {Object} - The response data containing the CURP identification number and status.
+   * @returns {Promise<RegistryResponse | null>} - The response data containing the CURP identification number and status.
    */
   public async getCurpRegistryData(sessionId: string, version: string) {
     const encodedVersion = encodeURIComponent(version);
     const url = `/sessions/${sessionId}/decision/curp-registry?version=${encodedVersion}`;
-    return await this.performRequest(url);
+    return await this.getValidated(url, registryResponseSchema);
   }
 
   /**
    * Fetch a list of media objects with the given addressId for Proof of Address sessions.
    * @param {string} addressId - Address ID for which media objects are requested.
-   * @returns {any[]} - The list of media (images/videos) objects.
+   * @returns {Promise<MediaListResponse | null>} - The list of media (images/videos) objects.
    */
   public async getAddressMedia(addressId: string) {
     const url = `/address/${addressId}/media`;
-    return await this.performRequest(url);
+    return await this.getValidated(url, mediaListResponseSchema);
   }
 
   /**
@@ -229,41 +378,82 @@ class VeriffAPI {
 
   /**
    * Verify the webhook signature to check if the request originates from Veriff.
-   * @param {Object} options - Object containing the signature, sharedSecretKey, and payload.
+   * The signature is checked with the shared secret of the key pair named in the X-AUTH-CLIENT header only.
+   * @param {Object} options - Object containing the signature, API key, and payload.
    * @param {string} options.signature - The X-HMAC-SIGNATURE header value received in the webhook request.
-   * @param {Object} options.payload - The payload received in the webhook request (Object or JSON string).
+   * @param {string} options.apiKey - The X-AUTH-CLIENT header value received in the webhook request.
+   * @param {Buffer | string} options.payload - The raw body of the webhook request, exactly as received.
    * @returns {boolean} - Returns true if the signature is valid; otherwise, returns false.
    */
-  public isSignatureValid({ signature, payload }: { signature: string, payload: any }) {
-    if (typeof payload === 'object') {
-      payload = JSON.stringify(payload);
+  public isSignatureValid({ signature, apiKey, payload }: { signature: string, apiKey: string, payload: Buffer | string }) {
+    const apiKeyPair = this.apiKeyPairs.find(keyPair => keyPair.apiKey === apiKey);
+    if (!apiKeyPair) {
+      return false;
     }
 
-    if (!Buffer.isBuffer(payload)) {
-      payload = Buffer.from(payload, 'utf8');
-    }
-
-    for (const apiKeyPair of this.apiKeyPairs) {
-      const { sharedSecretKey } = apiKeyPair;
-      const digest = crypto.createHmac('sha256', sharedSecretKey).update(payload).digest('hex');
-      if (digest === signature) {
-        return true;
-      }
-    }
-
-    return false;
+    const digest = crypto.createHmac('sha256', apiKeyPair.sharedSecretKey).update(payload).digest();
+    const received = Buffer.from(signature.toLowerCase(), 'hex');
+    // timingSafeEqual throws on different lengths, which only reveals that the signature is malformed
+    return received.length === digest.length && crypto.timingSafeEqual(received, digest);
   }
 
   /**
-   * Helper function to generate the signature for a given ID using the shared secret key.
-   * @param {string} id - ID (sessionId, attemptId, mediaId, addressId) for which the signature needs to be generated.
+   * Helper function to generate the signature for a given ID or request body using the shared secret key.
+   * @param {string} id - ID (sessionId, attemptId, mediaId, addressId) or serialized request body for which the signature needs to be generated.
+   * @param {string} sharedSecretKey - Shared secret of the key pair the request is sent with.
    * @returns {string} - The generated signature.
    */
-  private generateSignature(id: string) {
-    const { sharedSecretKey } = this.getCurrentKeyPair();
+  private generateSignature(id: string, sharedSecretKey: string) {
     const hmac = crypto.createHmac('sha256', sharedSecretKey).update(id).digest('hex');
     return hmac;
   }
 }
 
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date.
+ * @param {any} value - The header value.
+ * @returns {number | null} - Delay in milliseconds, or null if the header is missing or invalid.
+ */
+const parseRetryAfter = (value: any) => {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Get the endpoint of a request URL for metrics, with IDs and the query string left out.
+ * @param {string} url - The URL of the request.
+ * @returns {string} - The endpoint, e.g. /sessions/:id/decision.
+ */
+const getEndpoint = (url: string) =>
+  url.split('?')[0].replace(/\/(sessions|attempts|media|address|address-media|transportation-registry)\/[^/]+/, '/$1/:id');
+
+/**
+ * Describe an error response body for logging. Stream bodies (media requests) are not read.
+ * @param {any} data - The response body.
+ * @returns {unknown} - The body, or a placeholder for streams.
+ */
+const describeResponseData = (data: any) => {
+  if (data && typeof data.pipe === 'function') {
+    return '(stream)';
+  }
+  return data;
+}
+
+/**
+ * Get the Veriff error code of an error response body, for error messages.
+ * @param {any} data - The response body.
+ * @returns {string} - The error code in parentheses, or an empty string if the body has none.
+ */
+const describeErrorCode = (data: any) => {
+  const code = data && typeof data === 'object' && typeof data.pipe !== 'function' ? data.code : undefined;
+  return code ? ` (Veriff error code ${code})` : '';
+}
+
 export default VeriffAPI;
\ No newline at end of file
@@ -0,0 +1,68 @@
+/**
+ * Base class for errors returned by the Veriff API.
+ */
+export class VeriffAPIError extends Error {
+  /**
+   * @param {string} message - Description of the error.
+   * @param {string} url - API endpoint URL of the failed request.
+   * @param {number} status - HTTP status of the response, if there was one.
+   */
+  constructor(message: string, public url: string, public status?: number) {
+    super(message);
+    this.name = 'VeriffAPIError';
+  }
+}
+
+/**
+ * The requested resource does not exist (yet), e.g. a decision that is not ready. Not retried.
+ */
+export class VeriffNotFoundError extends VeriffAPIError {
+  constructor(url: string) {
+    super(`Veriff API resource not found: ${url}`, url, 404);
+    this.name = 'VeriffNotFoundError';
+  }
+}
+
+/**
+ * Veriff kept rate limiting the request after all retries.
+ */
+export class VeriffRateLimitedError extends VeriffAPIError {
+  /**
+   * @param {string} url - API endpoint URL of the failed request.
+   * @param {number | null} retryAfterMs - Delay requested by the Retry-After header of the last response.
+   */
+  constructor(url: string, public retryAfterMs: number | null) {
+    super(`Veriff API rate limit exceeded for ${url}`, url, 429);
+    this.name = 'VeriffRateLimitedError';
+  }
+}
+
+/**
+ * Every configured key pair was rejected by Veriff.
+ */
+export class VeriffAuthFailedError extends VeriffAPIError {
+  constructor(url: string, status: number) {
+    super(`All Veriff key pairs were rejected for ${url}`, url, status);
+    this.name = 'VeriffAuthFailedError';
+  }
+}
+
+/**
+ * Network error, timeout or 5xx response that persisted after all retries.
+ */
+export class VeriffTransientError extends VeriffAPIError {
+  constructor(url: string, cause: string, status?: number) {
+    super(`Veriff API request to ${url} failed after retries: ${cause}`, url, status);
+    this.name = 'VeriffTransientError';
+  }
+}
+
+/**
+ * The key pool had no key pair to sign the request with. Nothing was sent.
+ */
+export class NoKeyAvailableError extends VeriffAPIError {
+  constructor(url: string) {
+    super(`No Veriff key pair available for ${url}`, url);
+    this.name = 'NoKeyAvailableError';
+  }
+}
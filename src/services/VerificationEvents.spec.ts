@@ -0,0 +1,91 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import AddressChecks from './AddressChecks';
+import ArchiveManifests from './ArchiveManifests';
+import CustomerIndex from './CustomerIndex';
+import ErasureReceipts from './ErasureReceipts';
+import Notifier from './Notifier';
+import ProcessingLedger from './ProcessingLedger';
+import ReviewLog from './ReviewLog';
+import RiskSummaries from './RiskSummaries';
+import SessionRegistry from './SessionRegistry';
+import SessionStateMachine from './SessionStateMachine';
+import VeriffAPI from './VeriffAPI';
+import VerificationEvents from './VerificationEvents';
+import { EventWebhookPayload, PersonResponse } from '../types';
+
+// The storage backend and the API version are configured when the handlers are first imported
+const archiveDirectory = vi.hoisted(async () => {
+  const { default: fs } = await import('fs');
+  const { default: os } = await import('os');
+  const { default: path } = await import('path');
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'verification-archive-'));
+  process.env.STORAGE_BACKEND = 'local';
+  process.env.LOCAL_STORAGE_DIR = directory;
+  process.env.VERSION = '1.0.0';
+  return directory;
+});
+
+const SESSION_ID = '2a3b4c5d-0000-0000-0000-000000000000';
+
+/**
+ * A "submitted" event webhook of the session.
+ */
+const SUBMITTED: EventWebhookPayload = { id: SESSION_ID, attemptId: 'attempt-1', feature: 'selfid', code: 7002, action: 'submitted', vendorData: 'CUST-1', endUserId: null };
+
+describe('VerificationEvents', () => {
+  let directory: string;
+  let person: PersonResponse | null;
+  let sessionStates: SessionStateMachine;
+  let ledger: ProcessingLedger;
+  let handler: VerificationEvents;
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'verification-events-'));
+    person = null;
+    // Veriff reports the person once it has it, and no media
+    const veriffAPI = {
+      getSessionDecision: async () => null,
+      getPersonForSession: async () => person,
+      getMediaForSession: async () => null,
+      getWatchlistScreeningForSession: async () => null,
+      getINEDataForSession: async () => null,
+      getCurpRegistryData: async () => null,
+      getAttemptsForSession: async () => null,
+    } as unknown as VeriffAPI;
+    handler = await VerificationEvents.new({
+      veriffAPI,
+      ledger: ledger = new ProcessingLedger(`${directory}/ledger`),
+      sessionRegistry: new SessionRegistry(`${directory}/sessions`),
+      sessionStates: sessionStates = new SessionStateMachine(`${directory}/states`),
+      manifests: new ArchiveManifests(`${directory}/manifests`),
+      erasures: new ErasureReceipts(`${directory}/erasures`),
+      riskSummaries: new RiskSummaries(`${directory}/risk`),
+      reviews: new ReviewLog(`${directory}/reviews`),
+      customers: new CustomerIndex(`${directory}/customers`),
+      addressChecks: new AddressChecks(`${directory}/addresses`),
+      notifier: new Notifier([]),
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    fs.rmSync(await archiveDirectory, { recursive: true, force: true });
+  });
+
+  it('fails without moving the session while Veriff has no person information, and archives the event on retry', async () => {
+    await expect(handler.handleWebhook(SUBMITTED)).rejects.toThrow(`Sufficient data not found for session ${SESSION_ID}`);
+    expect(await sessionStates.get(SESSION_ID)).toBeNull();
+
+    person = { firstName: 'John', lastName: 'Smith' } as PersonResponse;
+    await handler.handleWebhook(SUBMITTED);
+
+    expect((await sessionStates.get(SESSION_ID))?.state).toBe('submitted');
+    expect((await ledger.list(SESSION_ID)).map(record => record.completedAt)).toEqual([expect.any(String)]);
+  });
+});
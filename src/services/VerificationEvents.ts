@@ -1,29 +1,41 @@
-import { Response } from 'express';
 import BaseWebhookHandler from './BaseWebhookHandler';
 import { getRelavantSessionData } from '../utils/veriff-utils';
-import { createFolderIfNotExistInSharepoint, uploadObjectAsJSON } from '../utils/sharepoint-utils';
+import { getArchiveLayout, renderPathTemplate } from '../utils/path-utils';
+import logger from '../utils/logger';
+import { getStateForEvent, getStateLabel } from './SessionStateMachine';
+import { HandlerOptions, EventWebhookPayload } from '../types';
 
 class VerificationEvents extends BaseWebhookHandler {
-  public async handleWebhook(payload: any, res: Response) {
+  public async handleWebhook(payload: EventWebhookPayload, options: HandlerOptions = {}) {
     try {
-      const { id: sessionId, code } = payload.verification;
-      const event = code === 7001 ? 'Started' : code === 7002 ? 'Submitted' : 'VerificationEvent';
+      const { id: sessionId, code, attemptId } = payload;
+      const state = getStateForEvent(code);
 
-      // Get all the data from Veriff
-      const { sessionDecision, personInfo, mediaList, watchlistScreening, attempts } = await getRelavantSessionData(VerificationEvents.veriffAPI, sessionId, VerificationEvents.version);
+      // Skip deliveries that were already archived completely
+      const entry = await this.openEntry({ sessionId, event: String(code), attemptId: attemptId || undefined }, options);
+      if (!entry) {
+        logger.info('Verification event webhook was already processed, skipping', { sessionId, code });
+        return;
+      }
+
+      // Get all the data from Veriff before the session moves, so that a retry finds it in its previous state.
+      // Without the person information the job fails and is retried once Veriff has it.
+      const { sessionDecision, personInfo, mediaList, watchlistScreening, attempts } = await getRelavantSessionData(this.services.veriffAPI, sessionId, VerificationEvents.version);
+      if (!personInfo?.value?.firstName)
+        throw new Error(`Sufficient data not found for session ${sessionId}`);
 
-      // Ensure person information is available
-      let personName = `No Name`;
-      if (personInfo?.value?.firstName)
-        personName = `${personInfo.value.firstName} ${personInfo.value.lastName}`;
-      else
+      // Move the session to the state of the event, events without a state are archived as they are
+      if (state && !await this.moveSession(entry, sessionId, { state, code, reason: null, reasonCode: null, attemptId: attemptId || null }))
         return;
 
       // Create folders for session and attempts
-      const personFolderPath = `KYC Details/${event}`;
-      const objectFilesPath = `${personFolderPath}/${personName}_${sessionId}`;
-      await createFolderIfNotExistInSharepoint(personFolderPath, this.accessToken, this.formDigestValue);
-      await createFolderIfNotExistInSharepoint(objectFilesPath, this.accessToken, this.formDigestValue);
+      const layout = getArchiveLayout('verification-event');
+      const values = await this.getArchiveValues(sessionId, state ? getStateLabel(state) : 'VerificationEvent', personInfo.value, sessionDecision.value, payload.vendorData);
+      await this.linkCustomer(values, 'identity', personInfo.value, sessionDecision.value, { attemptIds: attempts.value?.map(attempt => attempt.id) });
+      const objectFilesPath = renderPathTemplate(layout.sessionFolder, values);
+      await this.createFolders(entry, objectFilesPath);
+      await this.linkRelatedEvidence(entry, sessionId, objectFilesPath);
+      await this.uploadJSON(entry, 'sessionState.json', await this.services.sessionStates.get(sessionId), objectFilesPath);
 
       // Upload JSON data to SharePoint
       const jsonUploadTasks = [
@@ -34,31 +46,32 @@ class VerificationEvents extends BaseWebhookHandler {
         { name: 'watchlistScreening', data: watchlistScreening }
       ];
 
-      await Promise.all(jsonUploadTasks.map(async ({ name, data }) => {
-        uploadObjectAsJSON(this.accessToken, this.formDigestValue, `${name}.json`, data.value, objectFilesPath);
-      }));
+      await Promise.all(jsonUploadTasks.map(({ name, data }) =>
+        this.uploadJSON(entry, `${name}.json`, data.value, objectFilesPath)
+      ));
 
       // Upload media files for attempts
-      if (!attempts.value)
-        return;
-
-      for (const attempt of attempts.value) {
-        const { id } = attempt;
-        const folderPath = `${objectFilesPath}/${id}/VerificationEvent`;
-        await createFolderIfNotExistInSharepoint(`${objectFilesPath}/${id}`, this.accessToken, this.formDigestValue);
-        await createFolderIfNotExistInSharepoint(folderPath, this.accessToken, this.formDigestValue);
+      if (attempts.value) {
+        for (const attempt of attempts.value) {
+          const { id } = attempt;
+          const mediaValues = { ...values, sessionFolder: objectFilesPath, attemptId: id };
+          const folderPath = renderPathTemplate(layout.mediaFolder, mediaValues);
+          await this.createFolders(entry, folderPath);
 
-        const attemptMedia = await VerificationEvents.veriffAPI.getMediaForAttempt(id);
-        await this.uploadMediaFiles(attemptMedia.images, folderPath);
-        await this.uploadMediaFiles(attemptMedia.videos, folderPath);
-        console.log(`Media for Attempt ID ${id}: `, attemptMedia);
+          const attemptMedia = await this.services.veriffAPI.getMediaForAttempt(id);
+          if (!attemptMedia)
+            throw new Error(`Media for attempt ${id} could not be fetched`);
+          await this.uploadMediaFiles(entry, attemptMedia.images, folderPath, layout.mediaFileName, mediaValues);
+          await this.uploadMediaFiles(entry, attemptMedia.videos, folderPath, layout.mediaFileName, mediaValues);
+          logger.info('Archived media of attempt', { sessionId, attemptId: id, images: attemptMedia.images.length, videos: attemptMedia.videos.length });
+        }
       }
 
-      return res.status(200).json({ message: 'success' });
-
+      await this.writeManifests(sessionId);
+      await entry.complete();
     } catch (error) {
-      console.error('Error handling verification event webhook:', error);
-      return res.status(500).json({ error: 'Internal server error' });
+      logger.error('Error handling verification event webhook', { sessionId: payload.id, error });
+      throw error;
     }
   }
 }
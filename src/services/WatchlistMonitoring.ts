@@ -0,0 +1,75 @@
+import BaseWebhookHandler from './BaseWebhookHandler';
+import { getArchiveLayout, renderPathTemplate } from '../utils/path-utils';
+import logger from '../utils/logger';
+import { getStateLabel } from './SessionStateMachine';
+import { HandlerOptions, WatchlistScreeningWebhookPayload } from '../types';
+
+/**
+ * Handles the ongoing monitoring webhook, sent by Veriff when the PEP, sanctions or adverse media screening of a
+ * session changes after the decision.
+ */
+class WatchlistMonitoring extends BaseWebhookHandler {
+  public async handleWebhook(payload: WatchlistScreeningWebhookPayload, options: HandlerOptions = {}) {
+    try {
+      const { sessionId, createdAt } = payload;
+
+      // Skip deliveries that were already archived completely, every screening update is archived once
+      const entry = await this.openEntry({ sessionId, event: 'watchlist-screening', attemptId: createdAt || undefined }, options);
+      if (!entry) {
+        logger.info('Watchlist screening webhook was already processed, skipping', { sessionId });
+        return;
+      }
+
+      // New hits on approved sessions, or sessions already held for review, have to be reviewed
+      const current = await this.services.sessionStates.get(sessionId);
+      const review = current?.state === 'approved' || current?.state === 'review';
+      const risk = (await this.screenWatchlist(sessionId, payload, review))!;
+      const flagged = risk.reviewRequired && risk.newHits > 0;
+      if (flagged)
+        logger.warn('Ongoing monitoring found new watchlist hits, flagging session for review', { sessionId, riskLevel: risk.riskLevel, newHits: risk.newHits });
+
+      const [person, sessionDecision] = await Promise.all([
+        this.services.veriffAPI.getPersonForSession(sessionId),
+        this.services.veriffAPI.getSessionDecision(sessionId),
+      ]);
+      if (!person)
+        throw new Error(`Person not found for session ${sessionId}`);
+
+      // Flagged updates are filed under Review, others next to the current evidence of the session
+      const label = flagged ? getStateLabel('review') : current ? getStateLabel(current.state) : 'WatchlistScreening';
+      const values = await this.getArchiveValues(sessionId, label, person, sessionDecision, payload.vendorData);
+      await this.linkCustomer(values, 'identity', person, sessionDecision);
+      const objectFilesPath = renderPathTemplate(getArchiveLayout('watchlist-screening').sessionFolder, values);
+      await this.createFolders(entry, objectFilesPath);
+      await this.linkRelatedEvidence(entry, sessionId, objectFilesPath);
+      // Keep every update, the file name carries the time of the screening
+      const stamp = (createdAt || entry.sessionId).replace(/[^0-9A-Za-z]/g, '');
+      await this.uploadJSON(entry, `watchlistScreening-${stamp}.json`, payload, objectFilesPath);
+      await this.uploadJSON(entry, 'riskSummary.json', risk, objectFilesPath);
+      await this.writeManifests(sessionId);
+
+      if (risk.newHits > 0) {
+        await this.notify(entry, {
+          event: 'watchlist-update',
+          sessionId,
+          state: current?.state || 'submitted',
+          code: null,
+          status: payload.matchStatus || null,
+          reason: null,
+          reasonCode: null,
+          vendorData: values.vendorData,
+          watchlistHit: true,
+          riskLevel: risk.riskLevel,
+          folder: objectFilesPath,
+          decidedAt: createdAt || null,
+        });
+      }
+      await entry.complete();
+    } catch (error) {
+      logger.error('Error handling watchlist screening webhook', { sessionId: payload.sessionId, error });
+      throw error;
+    }
+  }
+}
+
+export default WatchlistMonitoring;
@@ -0,0 +1,137 @@
+import JobQueue from './JobQueue';
+import { Job, JobType } from '../types';
+import logger, { runWithCorrelationId } from '../utils/logger';
+import { jobsProcessed } from '../utils/metrics';
+
+export type JobProcessor = (payload: any, job: Job) => Promise<void>;
+
+export interface WorkerPoolOptions {
+  concurrency: number; // Number of jobs processed in parallel.
+  pollIntervalMs: number; // Delay between queue polls when no job is due.
+  maxAttempts: number; // Attempts after which a job is moved to the dead-letter state.
+  retryDelayMs: number; // Base delay of the exponential backoff between attempts.
+  pruneIntervalMs: number; // Delay between two deletions of the completed jobs past their retention.
+}
+
+/**
+ * Pool of workers that process jobs from the webhook job queue in the background.
+ */
+class WorkerPool {
+  private running = false;
+  private workers: Promise<void>[] = [];
+  private pruneTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Initialize the worker pool.
+   * @param {JobQueue} queue - Queue to take the jobs from.
+   * @param {Record<JobType, JobProcessor>} processors - Processor for each job type.
+   * @param {WorkerPoolOptions} options - Worker pool options.
+   */
+  constructor(private queue: JobQueue, private processors: Record<JobType, JobProcessor>, private options: WorkerPoolOptions) {}
+
+  /**
+   * Recover interrupted jobs, start the workers and prune the completed jobs now and then.
+   */
+  public async start() {
+    const recovered = await this.queue.recover();
+    if (recovered > 0) {
+      logger.info('Recovered interrupted jobs', { recovered });
+    }
+    this.running = true;
+    for (let i = 0; i < this.options.concurrency; i++) {
+      this.workers.push(this.work());
+    }
+    await this.prune();
+    this.pruneTimer = setInterval(() => this.prune(), this.options.pruneIntervalMs);
+  }
+
+  /**
+   * Stop the workers once their current jobs are finished.
+   */
+  public async stop() {
+    this.running = false;
+    if (this.pruneTimer)
+      clearInterval(this.pruneTimer);
+    this.pruneTimer = null;
+    await Promise.all(this.workers);
+    this.workers = [];
+  }
+
+  /**
+   * Worker loop: claim and process jobs until the pool is stopped.
+   */
+  private async work() {
+    while (this.running) {
+      let job: Job | null = null;
+      try {
+        job = await this.queue.claimNext();
+      } catch (error) {
+        logger.error('Unable to claim job from queue', { error });
+      }
+      if (!job) {
+        await sleep(this.options.pollIntervalMs);
+        continue;
+      }
+      // Every log entry of the job carries the correlation ID of the webhook request that created it
+      const claimed = job;
+      try {
+        await runWithCorrelationId(claimed.correlationId || claimed.id, () => this.process(claimed));
+      } catch (error) {
+        logger.error('Unable to update job', { jobId: job.id, error });
+      }
+    }
+  }
+
+  /**
+   * Delete the completed jobs past their retention.
+   */
+  private async prune() {
+    try {
+      const pruned = await this.queue.prune();
+      if (pruned > 0) {
+        logger.info('Pruned completed jobs', { pruned });
+      }
+    } catch (error) {
+      logger.error('Unable to prune completed jobs', { error });
+    }
+  }
+
+  /**
+   * Process a single job, scheduling a retry or dead-lettering it on failure.
+   * @param {Job} job - The job to process.
+   */
+  private async process(job: Job) {
+    try {
+      await this.processors[job.type](job.payload, job);
+      await this.queue.complete(job);
+      jobsProcessed.inc({ type: job.type, outcome: 'completed' });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      const retryDelayMs = job.attempts < this.options.maxAttempts ? this.getRetryDelay(job.attempts) : null;
+      if (retryDelayMs === null) {
+        logger.error('Job failed, moved to dead-letter', { jobId: job.id, type: job.type, attempts: job.attempts, error: err });
+      } else {
+        logger.warn('Job failed, retrying', { jobId: job.id, type: job.type, attempts: job.attempts, retryDelayMs, error: err });
+      }
+      jobsProcessed.inc({ type: job.type, outcome: retryDelayMs === null ? 'dead' : 'retry' });
+      await this.queue.fail(job, err, retryDelayMs);
+    }
+  }
+
+  /**
+   * Get the exponential backoff delay for the given attempt.
+   * @param {number} attempt - Number of the attempt that failed.
+   * @returns {number} - Delay in milliseconds.
+   */
+  private getRetryDelay(attempt: number) {
+    return this.options.retryDelayMs * 2 ** (attempt - 1);
+  }
+}
+
+/**
+ * Wait for the given number of milliseconds.
+ * @param {number} ms - Time to wait in milliseconds.
+ */
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export default WorkerPool;
@@ -0,0 +1,55 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import EncryptedStorage from './EncryptedStorage';
+import LocalStorage from './LocalStorage';
+import { isEnvelope } from '../../utils/encryption-utils';
+
+// The master keys are read when they are first used
+process.env.ENCRYPTION_KEYS = JSON.stringify([{ id: 'key-1', key: crypto.randomBytes(32).toString('base64') }]);
+
+describe('EncryptedStorage', () => {
+  let directory: string;
+  let backend: LocalStorage;
+  let storage: EncryptedStorage;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'encrypted-storage-'));
+    backend = new LocalStorage(directory);
+    storage = new EncryptedStorage(backend);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('stores files encrypted, with the .enc extension', async () => {
+    await storage.putJson('KYC Details/session-1', 'sessionDecision.json', { status: 'approved' });
+    await storage.putBinary('KYC Details/session-1', 'front.jpeg', Readable.from([Buffer.from('fr'), Buffer.from('ont')]), 'image/jpeg', 5);
+
+    expect((await backend.list('KYC Details/session-1')).map(entry => entry.name).sort()).toEqual(['front.jpeg.enc', 'sessionDecision.json.enc']);
+    expect(isEnvelope(await backend.read('KYC Details/session-1/front.jpeg.enc'))).toBe(true);
+    expect(await storage.exists('KYC Details/session-1/front.jpeg')).toBe(true);
+    expect(JSON.parse((await storage.read('KYC Details/session-1/sessionDecision.json')).toString())).toEqual({ status: 'approved' });
+    expect((await storage.read('KYC Details/session-1/front.jpeg.enc')).toString()).toBe('front');
+  });
+
+  it('reads files archived before encryption was enabled', async () => {
+    await backend.putBinary('KYC Details/session-1', 'front.jpeg', Buffer.from('front'), 'image/jpeg');
+
+    expect((await storage.read('KYC Details/session-1/front.jpeg')).toString()).toBe('front');
+    const chunks: Buffer[] = [];
+    for await (const chunk of await storage.readStream('KYC Details/session-1/front.jpeg'))
+      chunks.push(Buffer.from(chunk));
+    expect(Buffer.concat(chunks).toString()).toBe('front');
+  });
+
+  it('deletes the encrypted file', async () => {
+    await storage.putBinary('KYC Details/session-1', 'front.jpeg', Buffer.from('front'), 'image/jpeg');
+    await storage.delete('KYC Details/session-1/front.jpeg');
+    expect(await backend.exists('KYC Details/session-1/front.jpeg.enc')).toBe(false);
+  });
+});
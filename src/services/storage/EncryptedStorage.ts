@@ -0,0 +1,99 @@
+import { StorageBackend } from '../../types';
+import {
+  ENCRYPTED_CONTENT_TYPE,
+  ENCRYPTED_EXTENSION,
+  decryptEnvelope,
+  decryptStream,
+  encryptBuffer,
+  encryptStream,
+  getEncryptedSize,
+  isEnvelope,
+} from '../../utils/encryption-utils';
+
+/**
+ * Storage backend that encrypts every file before passing it to another backend, see encryption-utils.
+ * Encrypted files get the .enc extension after their own, e.g. document-front.jpeg.enc.
+ */
+class EncryptedStorage implements StorageBackend {
+  /**
+   * @param {StorageBackend} backend - The backend the encrypted files are stored in.
+   */
+  constructor(private backend: StorageBackend) {}
+
+  public async ensureFolder(path: string) {
+    await this.backend.ensureFolder(path);
+  }
+
+  public async putJson(folderPath: string, fileName: string, data: any) {
+    if (!data)
+      return;
+    const file = encryptBuffer(Buffer.from(JSON.stringify(data)), 'application/json');
+    await this.backend.putBinary(folderPath, `${fileName}${ENCRYPTED_EXTENSION}`, file, ENCRYPTED_CONTENT_TYPE, file.length);
+  }
+
+  public async putBinary(folderPath: string, fileName: string, content: NodeJS.ReadableStream | Buffer, contentType: string, size?: number) {
+    const encryptedName = `${fileName}${ENCRYPTED_EXTENSION}`;
+    if (Buffer.isBuffer(content)) {
+      const file = encryptBuffer(content, contentType);
+      await this.backend.putBinary(folderPath, encryptedName, file, ENCRYPTED_CONTENT_TYPE, file.length);
+      return;
+    }
+    const encryptedSize = size === undefined ? undefined : getEncryptedSize(size, contentType);
+    await this.backend.putBinary(folderPath, encryptedName, encryptStream(content, contentType), ENCRYPTED_CONTENT_TYPE, encryptedSize);
+  }
+
+  public async exists(path: string) {
+    return await this.backend.exists(path) || await this.backend.exists(`${path}${ENCRYPTED_EXTENSION}`);
+  }
+
+  public async list(folderPath: string) {
+    return this.backend.list(folderPath);
+  }
+
+  /**
+   * Read a file, decrypted if it is encrypted. Files archived before encryption was enabled are returned as they are.
+   * @param {string} filePath - Path of the file, with or without the .enc extension.
+   * @returns {Promise<Buffer>} - The content of the file.
+   */
+  public async read(filePath: string) {
+    const file = await this.backend.read(await this.resolve(filePath));
+    return isEnvelope(file) ? decryptEnvelope(file).plaintext : file;
+  }
+
+  /**
+   * Read a file as a stream, decrypted if it is encrypted. The content is only authenticated once the stream ended,
+   * a file that was modified makes the stream fail at its end.
+   * @param {string} filePath - Path of the file, with or without the .enc extension.
+   * @returns {Promise<NodeJS.ReadableStream>} - The content of the file.
+   */
+  public async readStream(filePath: string) {
+    return decryptStream(await this.backend.readStream(await this.resolve(filePath)));
+  }
+
+  /**
+   * Delete a file, encrypted or not, or a folder.
+   * @param {string} path - Path of the file without the .enc extension, or of the folder.
+   */
+  public async delete(path: string) {
+    await this.backend.delete(path);
+    if (!path.endsWith(ENCRYPTED_EXTENSION))
+      await this.backend.delete(`${path}${ENCRYPTED_EXTENSION}`);
+  }
+
+  public async checkAccess() {
+    await this.backend.checkAccess();
+  }
+
+  /**
+   * Get the path a file is stored under: the encrypted file if there is one, the path as it is otherwise.
+   * @param {string} filePath - Path of the file, with or without the .enc extension.
+   * @returns {Promise<string>} - Path of the stored file.
+   */
+  private async resolve(filePath: string) {
+    return !filePath.endsWith(ENCRYPTED_EXTENSION) && await this.backend.exists(`${filePath}${ENCRYPTED_EXTENSION}`)
+      ? `${filePath}${ENCRYPTED_EXTENSION}`
+      : filePath;
+  }
+}
+
+export default EncryptedStorage;
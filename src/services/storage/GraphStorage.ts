@@ -0,0 +1,63 @@
+import UploadSessions from '../UploadSessions';
+import { StorageBackend } from '../../types';
+import {
+  createFolderIfNotExistInDrive,
+  deleteFromDrive,
+  downloadFileFromDrive,
+  getDriveItemByPath,
+  listFolderInDrive,
+  streamFileFromDrive,
+  uploadFileToDrive,
+  uploadObjectAsJSONToDrive,
+} from '../../utils/graph-utils';
+
+/**
+ * Storage backend that archives files to a SharePoint document library through Microsoft Graph.
+ * Paths are relative to the root of the drive, which gives the same folder layout as SharePointStorage.
+ */
+class GraphStorage implements StorageBackend {
+  /**
+   * @param {string} driveId - ID of the drive (document library) to archive to.
+   * @param {UploadSessions} uploads - Store of interrupted chunked uploads, continued by the next upload of the file.
+   */
+  constructor(private driveId: string, private uploads?: UploadSessions) {}
+
+  public async ensureFolder(path: string) {
+    await createFolderIfNotExistInDrive(this.driveId, path);
+  }
+
+  public async putJson(folderPath: string, fileName: string, data: any) {
+    await uploadObjectAsJSONToDrive(this.driveId, folderPath, fileName, data);
+  }
+
+  public async putBinary(folderPath: string, fileName: string, content: NodeJS.ReadableStream | Buffer, contentType: string, size?: number) {
+    await uploadFileToDrive(this.driveId, folderPath, fileName, content, contentType, size, this.uploads);
+  }
+
+  public async exists(path: string) {
+    return (await getDriveItemByPath(this.driveId, path)) !== null;
+  }
+
+  public async list(folderPath: string) {
+    return listFolderInDrive(this.driveId, folderPath);
+  }
+
+  public async read(filePath: string) {
+    return downloadFileFromDrive(this.driveId, filePath);
+  }
+
+  public async readStream(filePath: string) {
+    return streamFileFromDrive(this.driveId, filePath);
+  }
+
+  public async delete(path: string) {
+    await deleteFromDrive(this.driveId, path);
+  }
+
+  public async checkAccess() {
+    if (!(await getDriveItemByPath(this.driveId, '')))
+      throw new Error(`Drive ${this.driveId} not found`);
+  }
+}
+
+export default GraphStorage;
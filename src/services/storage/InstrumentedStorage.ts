@@ -0,0 +1,91 @@
+import { Transform } from 'stream';
+import { StorageBackend } from '../../types';
+import { uploadBytes, uploadDuration } from '../../utils/metrics';
+
+/**
+ * Storage backend that records the bytes and duration of every upload of another backend in the metrics.
+ */
+class InstrumentedStorage implements StorageBackend {
+  /**
+   * @param {StorageBackend} backend - The backend the calls are passed to.
+   * @param {string} name - Name of the backend in the metrics, e.g. sharepoint.
+   */
+  constructor(private backend: StorageBackend, private name: string) {}
+
+  public async ensureFolder(path: string) {
+    await this.backend.ensureFolder(path);
+  }
+
+  public async putJson(folderPath: string, fileName: string, data: any) {
+    await this.measure('json', () => this.backend.putJson(folderPath, fileName, data));
+    if (data)
+      uploadBytes.inc({ backend: this.name, kind: 'json' }, Buffer.byteLength(JSON.stringify(data)));
+  }
+
+  public async putBinary(folderPath: string, fileName: string, content: NodeJS.ReadableStream | Buffer, contentType: string, size?: number) {
+    if (Buffer.isBuffer(content)) {
+      await this.measure('media', () => this.backend.putBinary(folderPath, fileName, content, contentType, size));
+      uploadBytes.inc({ backend: this.name, kind: 'media' }, content.length);
+      return;
+    }
+    // Streams are counted while the backend reads them, the size reported by Veriff is not always known
+    let bytes = 0;
+    const counter = new Transform({
+      transform(chunk, encoding, callback) {
+        bytes += chunk.length;
+        callback(null, chunk);
+      },
+    });
+    content.on('error', error => counter.destroy(error));
+    content.pipe(counter);
+    try {
+      await this.measure('media', () => this.backend.putBinary(folderPath, fileName, counter, contentType, size));
+    } finally {
+      uploadBytes.inc({ backend: this.name, kind: 'media' }, bytes);
+    }
+  }
+
+  public async exists(path: string) {
+    return this.backend.exists(path);
+  }
+
+  public async list(folderPath: string) {
+    return this.backend.list(folderPath);
+  }
+
+  public async read(filePath: string) {
+    return this.backend.read(filePath);
+  }
+
+  public async readStream(filePath: string) {
+    return this.backend.readStream(filePath);
+  }
+
+  public async delete(path: string) {
+    await this.backend.delete(path);
+  }
+
+  public async checkAccess() {
+    await this.backend.checkAccess();
+  }
+
+  /**
+   * Measure the duration of an upload.
+   * @param {string} kind - Kind of the file, json or media.
+   * @param {Function} upload - The upload.
+   */
+  private async measure(kind: string, upload: () => Promise<void>) {
+    const startedAt = Date.now();
+    let outcome = 'success';
+    try {
+      await upload();
+    } catch (error) {
+      outcome = 'failure';
+      throw error;
+    } finally {
+      uploadDuration.observe({ backend: this.name, kind, outcome }, (Date.now() - startedAt) / 1000);
+    }
+  }
+}
+
+export default InstrumentedStorage;
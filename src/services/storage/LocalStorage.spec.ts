@@ -0,0 +1,67 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import LocalStorage from './LocalStorage';
+
+describe('LocalStorage', () => {
+  let directory: string;
+  let storage: LocalStorage;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'local-storage-'));
+    storage = new LocalStorage(directory);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('stores JSON files and binary files from buffers and streams', async () => {
+    await storage.putJson('KYC Details/session-1', 'sessionDecision.json', { status: 'approved' });
+    await storage.putBinary('KYC Details/session-1', 'front.jpeg', Buffer.from('front'), 'image/jpeg');
+    await storage.putBinary('KYC Details/session-1', 'back.jpeg', Readable.from([Buffer.from('ba'), Buffer.from('ck')]), 'image/jpeg');
+
+    expect(JSON.parse((await storage.read('KYC Details/session-1/sessionDecision.json')).toString())).toEqual({ status: 'approved' });
+    expect((await storage.read('KYC Details/session-1/front.jpeg')).toString()).toBe('front');
+    expect((await storage.read('KYC Details/session-1/back.jpeg')).toString()).toBe('back');
+  });
+
+  it('skips empty JSON files', async () => {
+    await storage.putJson('KYC Details', 'personInfo.json', null);
+    expect(await storage.exists('KYC Details/personInfo.json')).toBe(false);
+  });
+
+  it('lists folders and files with their sizes', async () => {
+    await storage.ensureFolder('KYC Details/session-1/attempt-1');
+    await storage.putBinary('KYC Details/session-1', 'front.jpeg', Buffer.from('front'), 'image/jpeg');
+
+    const entries = await storage.list('KYC Details/session-1');
+    expect(entries.sort((a, b) => a.name.localeCompare(b.name))).toEqual([
+      { name: 'attempt-1', isFolder: true },
+      { name: 'front.jpeg', isFolder: false, size: 5 },
+    ]);
+  });
+
+  it('streams stored files', async () => {
+    await storage.putBinary('KYC Details', 'front.jpeg', Buffer.from('front'), 'image/jpeg');
+    const chunks: Buffer[] = [];
+    for await (const chunk of await storage.readStream('KYC Details/front.jpeg'))
+      chunks.push(Buffer.from(chunk));
+    expect(Buffer.concat(chunks).toString()).toBe('front');
+  });
+
+  it('deletes folders but not the storage directory', async () => {
+    await storage.putJson('KYC Details/session-1', 'sessionDecision.json', { status: 'approved' });
+    await storage.delete('KYC Details/session-1');
+    expect(await storage.exists('KYC Details/session-1')).toBe(false);
+    expect(await storage.exists('KYC Details')).toBe(true);
+    await expect(storage.delete('')).rejects.toThrow('Refusing to delete');
+  });
+
+  it('rejects paths outside of the storage directory', async () => {
+    await expect(storage.putJson('../outside', 'file.json', { a: 1 })).rejects.toThrow('outside of the storage directory');
+    await expect(storage.read('KYC Details/../../etc/passwd')).rejects.toThrow('outside of the storage directory');
+  });
+});
@@ -0,0 +1,101 @@
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { StorageBackend, StorageEntry } from '../../types';
+import logger from '../../utils/logger';
+
+/**
+ * Storage backend that archives files to a directory on the local filesystem.
+ */
+class LocalStorage implements StorageBackend {
+  /**
+   * @param {string} rootDirectory - Directory under which all archive paths are resolved.
+   */
+  constructor(private rootDirectory: string) {}
+
+  public async ensureFolder(folderPath: string) {
+    await fs.promises.mkdir(this.resolve(folderPath), { recursive: true });
+  }
+
+  public async putJson(folderPath: string, fileName: string, data: any) {
+    if (!data) {
+      logger.warn('Cannot upload empty file', { fileName });
+      return;
+    }
+    await this.ensureFolder(folderPath);
+    await fs.promises.writeFile(this.resolve(folderPath, fileName), JSON.stringify(data));
+    logger.info('Object stored as JSON file', { folderPath, fileName });
+  }
+
+  public async putBinary(folderPath: string, fileName: string, content: NodeJS.ReadableStream | Buffer, contentType: string) {
+    await this.ensureFolder(folderPath);
+    const filePath = this.resolve(folderPath, fileName);
+    if (Buffer.isBuffer(content)) {
+      await fs.promises.writeFile(filePath, content);
+    } else {
+      await pipeline(content, fs.createWriteStream(filePath));
+    }
+    logger.info('File stored', { folderPath, fileName, contentType });
+  }
+
+  public async exists(targetPath: string) {
+    try {
+      await fs.promises.access(this.resolve(targetPath));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  public async list(folderPath: string) {
+    const directory = this.resolve(folderPath);
+    const dirents = await fs.promises.readdir(directory, { withFileTypes: true });
+    const entries: StorageEntry[] = [];
+    for (const dirent of dirents) {
+      if (dirent.isDirectory()) {
+        entries.push({ name: dirent.name, isFolder: true });
+      } else {
+        const { size } = await fs.promises.stat(path.join(directory, dirent.name));
+        entries.push({ name: dirent.name, isFolder: false, size });
+      }
+    }
+    return entries;
+  }
+
+  public async read(filePath: string) {
+    return fs.promises.readFile(this.resolve(filePath));
+  }
+
+  public async readStream(filePath: string) {
+    return fs.createReadStream(this.resolve(filePath));
+  }
+
+  public async delete(targetPath: string) {
+    const resolved = this.resolve(targetPath);
+    if (resolved === this.resolve())
+      throw new Error('Refusing to delete the storage directory');
+    await fs.promises.rm(resolved, { recursive: true, force: true });
+    logger.info('Deleted from storage', { path: targetPath });
+  }
+
+  public async checkAccess() {
+    await fs.promises.mkdir(this.resolve(), { recursive: true });
+    await fs.promises.access(this.resolve(), fs.constants.W_OK);
+  }
+
+  /**
+   * Resolve an archive path inside the root directory, rejecting paths that escape it.
+   * @param {string[]} segments - Path segments relative to the root directory.
+   * @returns {string} - Absolute path on disk.
+   */
+  private resolve(...segments: string[]) {
+    const root = path.resolve(this.rootDirectory);
+    const resolved = path.resolve(root, ...segments);
+    if (resolved !== root && !resolved.startsWith(root.endsWith(path.sep) ? root : root + path.sep)) {
+      throw new Error(`Path ${segments.join('/')} is outside of the storage directory.`);
+    }
+    return resolved;
+  }
+}
+
+export default LocalStorage;
@@ -0,0 +1,158 @@
+import { DeleteObjectCommand, DeleteObjectsCommand, GetObjectCommand, HeadBucketCommand, HeadObjectCommand, ListObjectsV2Command, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { Readable } from 'stream';
+import { StorageBackend, StorageEntry } from '../../types';
+import logger from '../../utils/logger';
+
+export interface S3StorageOptions {
+  bucket: string; // Name of the bucket the archive is written to.
+  region: string; // Region of the bucket.
+  endpoint?: string; // Custom endpoint for S3-compatible services such as MinIO.
+  forcePathStyle?: boolean; // Use path-style URLs, required by most S3-compatible services.
+  accessKeyId?: string; // Access key, falls back to the default AWS credential chain when omitted.
+  secretAccessKey?: string; // Secret key, falls back to the default AWS credential chain when omitted.
+  prefix?: string; // Key prefix under which all archive paths are stored.
+}
+
+/**
+ * Storage backend that archives files to an S3 (or S3-compatible) bucket.
+ * S3 has no real folders, so folders only exist as key prefixes.
+ */
+class S3Storage implements StorageBackend {
+  private client: S3Client;
+
+  /**
+   * @param {S3StorageOptions} options - Bucket and connection options.
+   */
+  constructor(private options: S3StorageOptions) {
+    const { region, endpoint, forcePathStyle, accessKeyId, secretAccessKey } = options;
+    this.client = new S3Client({
+      region,
+      endpoint,
+      forcePathStyle,
+      credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+    });
+  }
+
+  public async ensureFolder(path: string) {
+    // Nothing to create, the prefix comes into existence with the first object stored under it
+  }
+
+  public async putJson(folderPath: string, fileName: string, data: any) {
+    if (!data) {
+      logger.warn('Cannot upload empty file', { fileName });
+      return;
+    }
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: this.key(folderPath, fileName),
+      Body: JSON.stringify(data),
+      ContentType: 'application/json',
+    }));
+    logger.info('Object uploaded as JSON file to S3', { folderPath, fileName });
+  }
+
+  public async putBinary(folderPath: string, fileName: string, content: NodeJS.ReadableStream | Buffer, contentType: string) {
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.options.bucket,
+        Key: this.key(folderPath, fileName),
+        Body: Buffer.isBuffer(content) ? content : Readable.from(content),
+        ContentType: contentType,
+      },
+    });
+    await upload.done();
+    logger.info('File uploaded to S3', { folderPath, fileName });
+  }
+
+  public async exists(path: string) {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.options.bucket, Key: this.key(path) }));
+      return true;
+    } catch (error: any) {
+      if (error?.$metadata?.httpStatusCode !== 404) {
+        throw error;
+      }
+    }
+    const response = await this.client.send(new ListObjectsV2Command({
+      Bucket: this.options.bucket,
+      Prefix: `${this.key(path)}/`,
+      MaxKeys: 1,
+    }));
+    return (response.KeyCount || 0) > 0;
+  }
+
+  public async list(folderPath: string) {
+    const prefix = `${this.key(folderPath)}/`;
+    const entries: StorageEntry[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.options.bucket,
+        Prefix: prefix,
+        Delimiter: '/',
+        ContinuationToken: continuationToken,
+      }));
+      for (const commonPrefix of response.CommonPrefixes || []) {
+        entries.push({ name: commonPrefix.Prefix!.slice(prefix.length, -1), isFolder: true });
+      }
+      for (const object of response.Contents || []) {
+        entries.push({ name: object.Key!.slice(prefix.length), isFolder: false, size: object.Size });
+      }
+      continuationToken = response.NextContinuationToken;
+    } while (continuationToken);
+    return entries;
+  }
+
+  public async read(filePath: string) {
+    const response = await this.client.send(new GetObjectCommand({ Bucket: this.options.bucket, Key: this.key(filePath) }));
+    if (!response.Body)
+      throw new Error(`Object ${filePath} has no content`);
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  public async readStream(filePath: string) {
+    const response = await this.client.send(new GetObjectCommand({ Bucket: this.options.bucket, Key: this.key(filePath) }));
+    if (!response.Body)
+      throw new Error(`Object ${filePath} has no content`);
+    return response.Body as Readable;
+  }
+
+  public async delete(path: string) {
+    if (!path.split('/').filter(Boolean).length)
+      throw new Error('Refusing to delete the whole archive');
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.options.bucket, Key: this.key(path) }));
+    // Delete everything under the prefix as well, in case the path is a folder
+    const prefix = `${this.key(path)}/`;
+    let continuationToken: string | undefined;
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.options.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      }));
+      const objects = (response.Contents || []).map(object => ({ Key: object.Key! }));
+      if (objects.length) {
+        await this.client.send(new DeleteObjectsCommand({ Bucket: this.options.bucket, Delete: { Objects: objects, Quiet: true } }));
+      }
+      continuationToken = response.NextContinuationToken;
+    } while (continuationToken);
+    logger.info('Deleted from S3', { path });
+  }
+
+  public async checkAccess() {
+    await this.client.send(new HeadBucketCommand({ Bucket: this.options.bucket }));
+  }
+
+  /**
+   * Build the object key for an archive path.
+   * @param {string[]} segments - Path segments of the file or folder.
+   * @returns {string} - The object key.
+   */
+  private key(...segments: string[]) {
+    return [this.options.prefix, ...segments].filter(Boolean).join('/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+  }
+}
+
+export default S3Storage;
@@ -0,0 +1,87 @@
+import SharePointCredentials from '../SharePointCredentials';
+import UploadSessions from '../UploadSessions';
+import { StorageBackend } from '../../types';
+import {
+  checkFileExistsInSharepoint,
+  checkFolderExistsInSharepoint,
+  createFolderIfNotExistInSharepoint,
+  deleteFromSharepoint,
+  downloadFileFromSharepoint,
+  listFolderInSharepoint,
+  streamFileFromSharepoint,
+  uploadFileToSharepoint,
+  uploadObjectAsJSON,
+} from '../../utils/sharepoint-utils';
+
+/**
+ * Storage backend that archives files to a SharePoint document library.
+ */
+class SharePointStorage implements StorageBackend {
+  /**
+   * @param {SharePointCredentials} credentials - Credential manager providing the access token and form digest value.
+   * @param {UploadSessions} uploads - Store of interrupted chunked uploads, continued by the next upload of the file.
+   */
+  constructor(private credentials: SharePointCredentials, private uploads?: UploadSessions) {}
+
+  public async ensureFolder(path: string) {
+    await this.credentials.run(({ accessToken, formDigestValue }) =>
+      createFolderIfNotExistInSharepoint(path, accessToken, formDigestValue)
+    );
+  }
+
+  public async putJson(folderPath: string, fileName: string, data: any) {
+    await this.credentials.run(({ accessToken, formDigestValue }) =>
+      uploadObjectAsJSON(accessToken, formDigestValue, fileName, data, folderPath)
+    );
+  }
+
+  public async putBinary(folderPath: string, fileName: string, content: NodeJS.ReadableStream | Buffer, contentType: string) {
+    await this.credentials.run(({ accessToken, formDigestValue }) =>
+      uploadFileToSharepoint(fileName, content, contentType, accessToken, formDigestValue, folderPath, () => this.credentials.get(), this.uploads)
+    , Buffer.isBuffer(content));
+  }
+
+  public async exists(path: string) {
+    return this.credentials.run(async ({ accessToken, formDigestValue }) => {
+      if (await checkFileExistsInSharepoint(path, accessToken, formDigestValue))
+        return true;
+      return Boolean(await checkFolderExistsInSharepoint(path, accessToken, formDigestValue));
+    });
+  }
+
+  public async list(folderPath: string) {
+    return this.credentials.run(async ({ accessToken, formDigestValue }) =>
+      await listFolderInSharepoint(folderPath, accessToken, formDigestValue) || []
+    );
+  }
+
+  public async read(filePath: string) {
+    return this.credentials.run(async ({ accessToken, formDigestValue }) =>
+      await downloadFileFromSharepoint(filePath, accessToken, formDigestValue) as Buffer
+    );
+  }
+
+  public async readStream(filePath: string) {
+    return this.credentials.run(async ({ accessToken, formDigestValue }) =>
+      await streamFileFromSharepoint(filePath, accessToken, formDigestValue) as NodeJS.ReadableStream
+    );
+  }
+
+  public async delete(path: string) {
+    await this.credentials.run(async ({ accessToken, formDigestValue }) => {
+      if (await checkFileExistsInSharepoint(path, accessToken, formDigestValue))
+        await deleteFromSharepoint(path, 'file', accessToken, formDigestValue);
+      else if (await checkFolderExistsInSharepoint(path, accessToken, formDigestValue))
+        await deleteFromSharepoint(path, 'folder', accessToken, formDigestValue);
+    });
+  }
+
+  public async checkAccess() {
+    // The root folder of the site always exists, the request only fails if the credentials are rejected
+    await this.credentials.run(({ accessToken, formDigestValue }) =>
+      checkFolderExistsInSharepoint('', accessToken, formDigestValue)
+    );
+  }
+}
+
+export default SharePointStorage;
@@ -0,0 +1,101 @@
+import dotenv from 'dotenv';
+import EncryptedStorage from './EncryptedStorage';
+import GraphStorage from './GraphStorage';
+import InstrumentedStorage from './InstrumentedStorage';
+import LocalStorage from './LocalStorage';
+import S3Storage from './S3Storage';
+import SharePointStorage from './SharePointStorage';
+import SharePointCredentials from '../SharePointCredentials';
+import UploadSessions from '../UploadSessions';
+import { StorageBackend } from '../../types';
+import { getMasterKeys } from '../../utils/encryption-utils';
+dotenv.config();
+
+const {
+  STORAGE_BACKEND = 'sharepoint',
+  DATA_DIR = 'data',
+  LOCAL_STORAGE_DIR,
+  S3_BUCKET,
+  S3_REGION = 'us-east-1',
+  S3_ENDPOINT,
+  S3_FORCE_PATH_STYLE,
+  S3_ACCESS_KEY_ID,
+  S3_SECRET_ACCESS_KEY,
+  S3_PREFIX,
+  GRAPH_DRIVE_ID,
+} = process.env;
+
+let storageBackend: StorageBackend | undefined;
+let rawStorageBackend: StorageBackend | undefined;
+let uploadSessions: UploadSessions | undefined;
+
+/**
+ * Get the storage backend selected by the STORAGE_BACKEND environment variable.
+ * The backend is created once and shared, so its clients and credentials are reused by all handlers.
+ * Files are encrypted when ENCRYPTION_KEYS is set, and uploads are recorded in the metrics.
+ * @returns {Promise<StorageBackend>} - The configured storage backend.
+ * @throws {Error} - If the backend is unknown or its configuration is incomplete.
+ */
+export const getStorageBackend = async (): Promise<StorageBackend> => {
+  if (!storageBackend) {
+    const backend = await getRawStorageBackend();
+    storageBackend = getMasterKeys() ? new EncryptedStorage(backend) : backend;
+  }
+  return storageBackend;
+}
+
+/**
+ * Get the storage backend without encryption, which reads and writes the encrypted files as they are stored.
+ * @returns {Promise<StorageBackend>} - The configured storage backend.
+ * @throws {Error} - If the backend is unknown or its configuration is incomplete.
+ */
+export const getRawStorageBackend = async (): Promise<StorageBackend> => {
+  if (!rawStorageBackend) {
+    rawStorageBackend = new InstrumentedStorage(buildStorageBackend(), STORAGE_BACKEND);
+  }
+  return rawStorageBackend;
+}
+
+/**
+ * Get the store of interrupted chunked uploads. It is created once and shared, so that erasures forget the uploads of
+ * the SharePoint backend through the same locks.
+ * @returns {UploadSessions} - The store.
+ */
+export const getUploadSessions = () => {
+  if (!uploadSessions) {
+    uploadSessions = new UploadSessions(`${DATA_DIR}/uploads`);
+  }
+  return uploadSessions;
+}
+
+/**
+ * Build the storage backend selected by the STORAGE_BACKEND environment variable.
+ * @returns {StorageBackend} - The configured storage backend.
+ * @throws {Error} - If the backend is unknown or its configuration is incomplete.
+ */
+const buildStorageBackend = (): StorageBackend => {
+  switch (STORAGE_BACKEND) {
+    case 'sharepoint':
+      return new SharePointStorage(new SharePointCredentials(), getUploadSessions());
+    case 'graph':
+      if (!GRAPH_DRIVE_ID) throw new Error('Graph drive ID not found');
+      return new GraphStorage(GRAPH_DRIVE_ID, getUploadSessions());
+    case 'local':
+      return new LocalStorage(LOCAL_STORAGE_DIR || `${DATA_DIR}/archive`);
+    case 's3':
+      if (!S3_BUCKET) throw new Error('S3 bucket not found');
+      return new S3Storage({
+        bucket: S3_BUCKET,
+        region: S3_REGION,
+        endpoint: S3_ENDPOINT || undefined,
+        forcePathStyle: S3_FORCE_PATH_STYLE === 'true',
+        accessKeyId: S3_ACCESS_KEY_ID,
+        secretAccessKey: S3_SECRET_ACCESS_KEY,
+        prefix: S3_PREFIX,
+      });
+    default:
+      throw new Error(`Unknown storage backend: ${STORAGE_BACKEND}`);
+  }
+}
+
+export { GraphStorage, LocalStorage, S3Storage, SharePointStorage };
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { createSessionRequestSchema } from './veriff';
+
+/*
+ * Runtime schemas for the requests accepted by this server's own API.
+ */
+
+// Body of POST /sessions
+export const startSessionRequestSchema = z.object({
+  customerId: z.string().min(1).max(1000), // Our customer ID, sent to Veriff as vendorData.
+  person: createSessionRequestSchema.shape.person,
+  document: createSessionRequestSchema.shape.document,
+  callbackUrl: z.string().url().optional(), // Where Veriff sends the end user after the verification.
+  endUserId: z.string().uuid().optional(),
+});
+
+// Body of POST /admin/webhooks/replay
+export const replayWebhookRequestSchema = z.object({
+  jobId: z.string().uuid(), // ID of the queued or completed job whose payload is processed again.
+});
+
+// Body of POST /admin/erasures
+export const erasureRequestSchema = z.object({
+  sessionId: z.string().uuid().optional(), // Erase a single session.
+  vendorData: z.string().min(1).max(1000).optional(), // Erase every session of a customer.
+  requestedBy: z.string().min(1).max(200).optional(), // Reference of the request, e.g. a ticket number, kept in the receipts.
+}).refine(({ sessionId, vendorData }) => Boolean(sessionId) !== Boolean(vendorData), {
+  message: 'Either sessionId or vendorData is required',
+  path: ['sessionId'],
+});
+
+// Body of POST /admin/reviews/:sessionId
+export const reviewDecisionRequestSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  reviewer: z.string().trim().min(1).max(200), // Identity of the reviewer, e.g. their email address.
+  notes: z.string().trim().min(1).max(5000), // Why the reviewer decided so.
+});
+
+export type StartSessionRequest = z.infer<typeof startSessionRequestSchema>;
+export type ReplayWebhookRequest = z.infer<typeof replayWebhookRequestSchema>;
+export type ErasureRequest = z.infer<typeof erasureRequestSchema>;
+export type ReviewDecisionRequest = z.infer<typeof reviewDecisionRequestSchema>;
@@ -1,15 +1,387 @@
+export * from './veriff';
+export * from './api';
+export * from './notifications';
+
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer; // Unparsed request body, used to verify webhook signatures.
+    }
+  }
+}
+
 export interface KeyPair {
   apiKey: string;
   sharedSecretKey: string;
 }
 
-export interface MediaItem {
-  context: string; // Context type of the image/video.
-  id: string; // Image/Video Id (UUID-v4 format).
-  name: string; // Image/Video name.
-  duration?: string; // Video duration in seconds.
-  url: string; // Image/Video download URL.
-  size: string; // Image/Video size in bytes.
-  timestamp: object | null; // Timestamp object (deprecated, may be null).
-  mimetype: string; // Format of the media file.
-}
\ No newline at end of file
+export interface FieldError {
+  field: string; // Dot-separated path of the invalid field.
+  message: string; // What is wrong with the field.
+}
+
+export interface SettledData<T> {
+  status: 'fulfilled' | 'rejected'; // Whether the data could be fetched.
+  value: T | null; // The fetched data, null if the request failed or returned nothing.
+}
+
+export type WebhookType = 'decision' | 'verification-event' | 'proof-of-address' | 'watchlist-screening';
+
+export type JobType = WebhookType | 'rearchive' | 'review-decision';
+
+export type JobStatus = 'pending' | 'processing' | 'dead' | 'completed';
+
+export interface Job {
+  id: string; // Job ID (UUID-v4 format).
+  type: JobType; // Webhook route the job was accepted on, or rearchive for runs requested through the admin API.
+  payload: any; // Webhook payload as received from Veriff.
+  status: JobStatus; // Current processing state of the job.
+  attempts: number; // Number of processing attempts made so far.
+  runAt: string; // ISO timestamp before which the job must not be picked up.
+  createdAt: string; // ISO timestamp when the webhook was accepted.
+  updatedAt: string; // ISO timestamp of the last state change.
+  lastError?: string; // Message of the last processing failure.
+  force?: boolean; // Archive again even if the webhook was already archived completely, set for replays.
+  correlationId?: string; // Correlation ID of the request the job was created by, carried into its processing logs.
+}
+
+export interface RearchivePayload {
+  sessionId: string; // ID of the Veriff session to archive again.
+}
+
+export interface ReviewDecisionPayload {
+  sessionId: string; // ID of the reviewed Veriff session.
+  decisionId: string; // ID of the review decision to archive.
+}
+
+export interface HandlerOptions {
+  force?: boolean; // Archive again even if the webhook was already archived completely.
+}
+
+export interface LedgerKey {
+  sessionId: string; // ID of the Veriff session.
+  event: string; // Event or decision code of the webhook, or the webhook type if it has no code.
+  attemptId?: string; // ID of the attempt (or address) the webhook refers to, if any.
+}
+
+export interface LedgerRecord extends LedgerKey {
+  artifacts: Record<string, string>; // Archived folders and files, mapped to the ISO timestamp they were archived at.
+  completedAt: string | null; // ISO timestamp when every artifact of the webhook was archived.
+  updatedAt: string; // ISO timestamp of the last change.
+}
+
+export interface StorageEntry {
+  name: string; // File or folder name.
+  isFolder: boolean; // Whether the entry is a folder.
+  size?: number; // File size in bytes, if known.
+}
+
+export interface StorageBackend {
+  ensureFolder(path: string): Promise<void>; // Create the folder (and its parents where needed) if it does not exist.
+  putJson(folderPath: string, fileName: string, data: any): Promise<void>; // Store an object as a JSON file.
+  putBinary(folderPath: string, fileName: string, content: NodeJS.ReadableStream | Buffer, contentType: string, size?: number): Promise<void>; // Store a binary file, size in bytes if known.
+  exists(path: string): Promise<boolean>; // Check if a file or folder exists.
+  list(folderPath: string): Promise<StorageEntry[]>; // List the files and folders directly inside a folder.
+  read(filePath: string): Promise<Buffer>; // Read the content of a file.
+  readStream(filePath: string): Promise<NodeJS.ReadableStream>; // Read the content of a file without holding it in memory.
+  delete(path: string): Promise<void>; // Delete a file, or a folder with everything inside it. Does nothing if the path does not exist.
+  checkAccess(): Promise<void>; // Check that the storage can be reached with the configured credentials, throws otherwise.
+}
+
+export interface UploadSession {
+  filePath: string; // Path of the file being uploaded, so that the uploads into the folders of an erased session can be found.
+  uploadId: string; // ID of the upload session.
+  uploadUrl?: string; // Pre-authenticated URL of a Microsoft Graph upload session.
+  chunkSize: number; // Size of the chunks in bytes.
+  chunkHashes: string[]; // SHA-256 of every chunk the server committed, hex, in order.
+  startedAt: string; // ISO timestamp when the upload session was started.
+  updatedAt: string; // ISO timestamp of the last committed chunk.
+}
+
+export interface SessionRecord {
+  sessionId: string; // ID of the Veriff session.
+  customerId: string; // Our customer ID, sent to Veriff as vendorData.
+  sessionUrl: string; // URL the end user completes the verification at.
+  createdAt: string; // ISO timestamp when the session was created.
+}
+
+export type SessionState = 'created' | 'started' | 'submitted' | 'review' | 'resubmission_requested' | 'approved' | 'declined' | 'expired' | 'abandoned';
+
+export interface SessionTransition {
+  state: SessionState; // State the session moved to.
+  from: SessionState | null; // State the session was in, null for the first transition.
+  code: number | null; // Veriff event or decision code that caused the transition.
+  reason: string | null; // Reason given by Veriff, e.g. why a session was declined.
+  reasonCode: number | null; // Veriff reason code.
+  attemptId: string | null; // Attempt the transition refers to.
+  at: string; // ISO timestamp of the transition.
+}
+
+export interface ArchiveFolder {
+  state: SessionState | null; // State the session was filed under, null for folders not tied to a state.
+  folder: string; // Path of the archive folder.
+  at: string; // ISO timestamp when the folder was first used.
+}
+
+export interface SessionStateRecord {
+  sessionId: string; // ID of the Veriff session.
+  state: SessionState; // Current state.
+  reason: string | null; // Reason of the current state, if any.
+  reasonCode: number | null; // Veriff reason code of the current state, if any.
+  history: SessionTransition[]; // Every transition, oldest first.
+  folders: ArchiveFolder[]; // Every archive folder the evidence of the session was filed in, oldest first.
+  updatedAt: string; // ISO timestamp of the last change.
+}
+
+export interface ArchivePathValues {
+  decision: string; // Outcome or event the archive is filed under, e.g. Successful or Submitted.
+  vendorData: string | null; // Our customer ID, from the session registry or the vendorData sent to Veriff.
+  name: string | null; // Full name of the verified person.
+  sessionId: string; // ID of the Veriff session.
+  date: Date; // Date of the session, used by the {date:format} token.
+  reasonCode?: string | null; // Veriff reason code of the decision, if any.
+  attemptId?: string | null; // ID of the attempt (or address) the media belongs to.
+  context?: string | null; // Context type of the media file, e.g. document-front.
+  mediaId?: string | null; // ID of the media file.
+  sessionFolder?: string; // Rendered session folder, for media folder templates.
+}
+
+export interface ArchiveLayout {
+  sessionFolder: string; // Template of the folder the JSON files of a session are stored in.
+  mediaFolder: string; // Template of the folder the media files of an attempt are stored in.
+  mediaFileName: string; // Template of the media file names, without extension.
+}
+
+export interface ManifestFile {
+  path: string; // Path of the file relative to the session folder, or the full archive path starting with / if it is stored elsewhere.
+  sha256: string; // SHA-256 of the content, hex. For encrypted archives, of the decrypted content.
+  size: number; // Size of the content in bytes.
+  contentType: string; // MIME type of the content.
+  mediaId: string | null; // ID of the Veriff media file, null for JSON files.
+  archivedAt: string; // ISO timestamp when the file was uploaded.
+}
+
+export interface ArchiveManifest {
+  version: 1;
+  sessionId: string; // ID of the Veriff session.
+  folder: string; // The session folder the manifest is stored in.
+  generatedAt: string; // ISO timestamp when the manifest was written.
+  files: ManifestFile[]; // Every file archived for the folder, ordered by path.
+  previousRootHash: string | null; // Root hash of the manifest this one replaced, chaining the versions of the manifest.
+  rootHash: string; // Hash chain over the session, folder, previous root hash and every file entry, hex.
+  signature: string | null; // HMAC-SHA256 of the root hash with MANIFEST_SIGNING_KEY, hex. Null if no key is configured.
+}
+
+export interface ManifestRecord {
+  sessionId: string; // ID of the Veriff session.
+  folders: Record<string, {
+    files: Record<string, ManifestFile>; // Archived files by path.
+    revision: number; // Incremented with every recorded file.
+    writtenRevision: number; // Revision of the last manifest written to the folder.
+    rootHash: string | null; // Root hash of the last manifest written to the folder.
+  }>;
+}
+
+export interface ManifestCheck {
+  path: string; // Path of the file as listed in the manifest.
+  status: 'ok' | 'missing' | 'modified'; // Whether the stored file matches its hash and size.
+}
+
+export interface ManifestVerification {
+  folder: string; // The session folder.
+  valid: boolean; // Whether the manifest is intact and every file matches it.
+  manifestFound: boolean; // Whether the folder has a manifest.
+  chainValid: boolean; // Whether the root hash matches the listed files.
+  signatureValid: boolean | null; // Whether the signature matches, null if the manifest or the configuration has no signing key.
+  files: ManifestCheck[]; // Result for every listed file.
+  unlisted: string[]; // Files in the folder that the manifest does not list.
+}
+
+export type ErasureReason = 'retention' | 'request';
+
+export interface ErasureReceipt {
+  id: string; // ID of the receipt (UUID-v4 format).
+  sessionId: string; // ID of the erased Veriff session.
+  reason: ErasureReason; // retention for sessions past their retention period, request for erasure requests.
+  requestedBy: string | null; // Reference given with the erasure request, e.g. a ticket number.
+  state: SessionState | null; // State the session was in when it was erased.
+  folders: number; // Number of archive folders deleted.
+  files: number; // Number of files deleted outside of the archive folders.
+  rootHashes: string[]; // Root hashes of the last manifests of the deleted folders, identifying what was deleted.
+  startedAt: string; // ISO timestamp when the erasure started.
+  completedAt: string | null; // ISO timestamp when everything was deleted, null while the erasure has not finished.
+}
+
+export type WatchlistCategory = 'pep' | 'sanctions' | 'adverse_media' | 'warnings' | 'fitness_probity';
+
+export type MatchStrength = 'strong' | 'medium' | 'weak';
+
+export type RiskLevel = 'none' | 'low' | 'medium' | 'high';
+
+export interface WatchlistSource {
+  category: WatchlistCategory; // List type the source belongs to.
+  name: string | null; // Name of the list or publication.
+  url: string | null; // Link to the listing.
+  date: string | null; // Date of the listing, if known.
+}
+
+export interface WatchlistHit {
+  name: string | null; // Name of the listed person.
+  categories: WatchlistCategory[]; // List types the person is found on.
+  strength: MatchStrength; // strong for an exact name and year of birth, medium for an exact name or alias, weak for fuzzy matches.
+  matchTypes: string[]; // How the person matched, as reported by Veriff.
+  countries: string[]; // Countries of the listing.
+  dateOfBirth: string | null; // Date or year of birth of the listed person.
+  sources: WatchlistSource[]; // Every listing of the person.
+  firstSeenAt: string; // ISO timestamp of the screening that first reported the hit.
+}
+
+export interface RiskSummary {
+  sessionId: string; // ID of the Veriff session.
+  riskLevel: RiskLevel; // high for sanctions, medium for PEP and adverse media, low for other hits. Weak matches count one level lower.
+  matchStatus: string | null; // Match status reported by Veriff, e.g. possible_match.
+  checkType: string | null; // initial_result, or updated_result for ongoing monitoring.
+  totalHits: number; // Number of hits.
+  pep: number; // Number of hits on PEP lists.
+  sanctions: number; // Number of hits on sanctions lists.
+  adverseMedia: number; // Number of hits in adverse media.
+  newHits: number; // Number of hits the last screening reported for the first time.
+  hits: WatchlistHit[]; // Every hit of the last screening.
+  reviewRequired: boolean; // Whether the hits must be reviewed manually.
+  screenedAt: string | null; // ISO timestamp of the last screening, as reported by Veriff.
+  updatedAt: string; // ISO timestamp of the last change.
+}
+
+export interface DecisionNotification {
+  event: 'decision' | 'watchlist-update'; // A decision, or new hits found by ongoing monitoring.
+  sessionId: string; // ID of the Veriff session.
+  state: SessionState; // State the decision moved the session to.
+  code: number | null; // Veriff decision code.
+  status: string | null; // Veriff decision status, e.g. declined.
+  reason: string | null; // Reason given by Veriff.
+  reasonCode: number | null; // Veriff reason code.
+  vendorData: string | null; // Our customer ID.
+  watchlistHit: boolean; // Whether the watchlist screening found possible matches.
+  riskLevel: RiskLevel; // Risk level of the watchlist hits.
+  folder: string; // Archive folder of the session.
+  decidedAt: string | null; // ISO timestamp of the decision, if known.
+}
+
+export type ReviewReason = 'review' | 'watchlist' | 'resubmission';
+
+export type ReviewOutcome = 'approved' | 'rejected';
+
+export interface PendingReview {
+  sessionId: string; // ID of the Veriff session.
+  reasons: ReviewReason[]; // review if Veriff or the watchlist screening put the session in review, watchlist for unreviewed watchlist hits, resubmission if Veriff requested a resubmission.
+  state: SessionState; // Current state of the session.
+  vendorData: string | null; // Our customer ID, if known.
+  riskLevel: RiskLevel; // Risk level of the watchlist hits.
+  since: string; // ISO timestamp since when the session is waiting for a review.
+}
+
+export interface ReviewDecision {
+  id: string; // ID of the decision (UUID-v4 format).
+  sessionId: string; // ID of the reviewed Veriff session.
+  outcome: ReviewOutcome; // The reviewer's decision.
+  reviewer: string; // Identity of the reviewer.
+  notes: string; // Why the reviewer decided so.
+  reasons: ReviewReason[]; // Why the session was waiting for a review.
+  veriffState: SessionState; // State the session was in, as decided by Veriff and the watchlist screening.
+  veriffCode: number | null; // Veriff decision code of that state.
+  riskLevel: RiskLevel; // Risk level of the watchlist hits at the time of the decision.
+  decidedAt: string; // ISO timestamp of the decision.
+  previousHash: string | null; // Hash of the previous decision of the session, chaining the audit trail.
+  hash: string; // SHA-256 over the decision and the previous hash, hex.
+}
+
+export interface ReviewRecord {
+  sessionId: string; // ID of the Veriff session.
+  decisions: ReviewDecision[]; // Every decision, oldest first. Decisions are only ever appended.
+}
+
+export type CustomerSessionKind = 'identity' | 'proof-of-address';
+
+export interface CustomerLink {
+  sessionId: string; // ID of the Veriff session.
+  kind: CustomerSessionKind; // Identity verification or proof of address.
+  vendorData: string | null; // Our customer ID, if the session carries one.
+  documentNumber: string | null; // Document number of the verified person, for sessions without vendorData.
+  dateOfBirth: string | null; // Date of birth of the verified person, for sessions without vendorData.
+  attemptIds?: string[]; // Attempts of the session.
+  addressId?: string | null; // Address the proof of address webhook refers to.
+}
+
+export interface CustomerSession {
+  sessionId: string; // ID of the Veriff session.
+  kind: CustomerSessionKind; // proof-of-address once a proof of address webhook was received for the session.
+  attemptIds: string[]; // Every attempt of the session.
+  addressIds: string[]; // Every proof of address of the session.
+  linkedAt: string; // ISO timestamp when the session was linked to the customer.
+  updatedAt: string; // ISO timestamp of the last webhook of the session.
+}
+
+export interface CustomerRecord {
+  customerId: string; // The vendorData, or an ID derived from the document number and date of birth if no vendorData is known.
+  vendorData: string | null; // Our customer ID, null while the customer is only known by their document.
+  identities: string[]; // SHA-256 of the document numbers and dates of birth the customer was verified with, hex.
+  sessions: CustomerSession[]; // Every session of the customer, oldest first.
+  createdAt: string; // ISO timestamp when the customer was first seen.
+  updatedAt: string; // ISO timestamp of the last change.
+}
+
+export type KycStatus = 'unverified' | 'pending' | 'review' | 'approved' | 'declined' | 'resubmission_requested' | 'expired' | 'abandoned';
+
+export interface KycSessionSummary {
+  sessionId: string; // ID of the Veriff session.
+  kind: CustomerSessionKind; // Identity verification or proof of address.
+  status: KycStatus; // State of the session, review while watchlist hits wait for a review, declined if a reviewer rejected them.
+  riskLevel: RiskLevel; // Risk level of the watchlist screening, none if the session was not screened.
+  reviewOutcome: ReviewOutcome | null; // Latest manual review decision, null if the session was never reviewed.
+  addressMismatch: boolean | null; // Whether the proof of address does not match the identity verification, null for sessions without one.
+  attemptIds: string[]; // Every attempt of the session.
+  addressIds: string[]; // Every proof of address of the session.
+  linkedAt: string; // ISO timestamp when the session was linked to the customer.
+  updatedAt: string; // ISO timestamp of the last change of the session.
+}
+
+export interface KycSummary {
+  customerId: string; // ID of the customer.
+  vendorData: string | null; // Our customer ID, null while the customer is only known by their document.
+  status: KycStatus; // Status of the latest identity verification with a decision, unverified without identity verifications.
+  statusSessionId: string | null; // Session the status is taken from.
+  proofOfAddress: KycStatus; // Status of the latest proof of address with a decision, unverified without proofs of address.
+  addressMismatch: boolean; // Whether the name or address of that proof of address does not match the identity verification.
+  riskLevel: RiskLevel; // Highest risk level of the sessions.
+  reviewPending: boolean; // Whether a session of the customer waits for a manual review.
+  sessions: KycSessionSummary[]; // Every session of the customer, oldest first.
+  updatedAt: string; // ISO timestamp of the last change of the customer or their sessions.
+}
+
+export interface ExtractedAddress {
+  fullAddress: string | null; // The address as a single line.
+  street: string | null;
+  houseNumber: string | null;
+  unit: string | null;
+  postcode: string | null;
+  city: string | null;
+  state: string | null;
+  country: string | null;
+}
+
+export interface AddressCheck {
+  sessionId: string; // ID of the proof of address session.
+  addressId: string | null; // ID of the proof of address, null if the webhook carried none.
+  state: SessionState | null; // State of the proof of address decision, null while Veriff has not decided.
+  code: number | null; // Decision code.
+  unknownDecision: boolean; // Whether the decision code and status are unknown, the proof of address is then filed under review.
+  reason: string | null; // Reason of a declined or resubmission decision.
+  documentType: string | null; // Type of the proof of address document.
+  issueDate: string | null; // Issue date of the document.
+  address: ExtractedAddress | null; // Address extracted from the document, null if Veriff extracted none.
+  identitySessionId: string | null; // Identity verification of the customer the address was compared with, null if none is known.
+  nameMatch: boolean | null; // Whether the name on the document matches the verified person, null if it could not be compared.
+  addressMatch: boolean | null; // Whether the address matches one on the identity document, null if it could not be compared.
+  mismatch: boolean; // Whether the name or the address does not match.
+  checkedAt: string; // ISO timestamp of the check.
+}
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+/*
+ * Runtime schemas of the NOTIFICATION_RULES configuration.
+ */
+
+const sessionStateSchema = z.enum(['created', 'started', 'submitted', 'review', 'resubmission_requested', 'approved', 'declined', 'expired', 'abandoned']);
+
+export const notificationChannelSchema = z.discriminatedUnion('type', [
+  // Generic webhook, the JSON body is signed with HMAC-SHA256 of the secret
+  z.object({ type: z.literal('webhook'), url: z.string().url(), secret: z.string().min(16) }),
+  // Slack incoming webhook
+  z.object({ type: z.literal('slack'), url: z.string().url() }),
+  // Microsoft Teams incoming webhook
+  z.object({ type: z.literal('teams'), url: z.string().url() }),
+  // Email sent through the SMTP server
+  z.object({ type: z.literal('email'), to: z.array(z.string().email()).min(1) }),
+]);
+
+export const notificationRuleSchema = z.object({
+  name: z.string().min(1).max(100), // Name of the rule, unique. Used to send every notification only once.
+  events: z.array(z.enum(['decision', 'watchlist-update'])).optional(), // Only decisions, or only new hits found by ongoing monitoring.
+  states: z.array(sessionStateSchema).optional(), // Only decisions that move the session to one of these states.
+  codes: z.array(z.number().int()).optional(), // Only decisions with one of these Veriff decision codes.
+  watchlistHit: z.boolean().optional(), // Only sessions with (true) or without (false) watchlist hits.
+  vendorDataPrefix: z.string().min(1).optional(), // Only sessions whose vendorData starts with the prefix.
+  title: z.string().min(1).optional(), // Template of the title or email subject.
+  template: z.string().min(1).optional(), // Template of the message text.
+  channels: z.array(notificationChannelSchema).min(1), // Where to send the notification.
+});
+
+export const notificationRulesSchema = z.array(notificationRuleSchema)
+  .refine(rules => new Set(rules.map(rule => rule.name)).size === rules.length, { message: 'Rule names must be unique' });
+
+export type NotificationChannel = z.infer<typeof notificationChannelSchema>;
+export type NotificationRule = z.infer<typeof notificationRuleSchema>;
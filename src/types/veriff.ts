@@ -0,0 +1,223 @@
+import { z } from 'zod';
+
+/*
+ * Runtime schemas for the Veriff webhooks and API responses. Every object schema is passthrough,
+ * so fields that are not modelled here are kept and still end up in the archived JSON files.
+ */
+
+const nullableString = z.string().nullish();
+
+export const mediaItemSchema = z.object({
+  id: z.string(), // Image/Video Id (UUID-v4 format).
+  context: z.string(), // Context type of the image/video.
+  name: nullableString, // Image/Video name.
+  duration: z.union([z.string(), z.number()]).nullish(), // Video duration in seconds.
+  url: nullableString, // Image/Video download URL.
+  size: z.union([z.string(), z.number()]).nullish(), // Image/Video size in bytes.
+  timestamp: z.unknown().nullish(), // Timestamp object (deprecated, may be null).
+  mimetype: nullableString, // Format of the media file.
+}).passthrough();
+
+export const addressSchema = z.object({
+  fullAddress: nullableString, // The address as a single line.
+  parsedAddress: z.object({
+    street: nullableString,
+    houseNumber: nullableString,
+    unit: nullableString,
+    postcode: nullableString,
+    city: nullableString,
+    state: nullableString,
+    country: nullableString,
+  }).passthrough().nullish(),
+}).passthrough();
+
+export const personSchema = z.object({
+  firstName: nullableString,
+  lastName: nullableString,
+  fullName: nullableString,
+  idNumber: nullableString,
+  citizenship: nullableString,
+  dateOfBirth: nullableString,
+  nationality: nullableString,
+  gender: nullableString,
+  yearOfBirth: z.union([z.string(), z.number()]).nullish(),
+  placeOfBirth: nullableString,
+  pepSanctionMatch: nullableString,
+  addresses: z.array(addressSchema).nullish(), // Addresses extracted from the document, e.g. from a proof of address.
+}).passthrough();
+
+export const documentSchema = z.object({
+  number: nullableString,
+  type: nullableString,
+  country: nullableString,
+  state: nullableString,
+  validFrom: nullableString,
+  validUntil: nullableString,
+}).passthrough();
+
+export const verificationSchema = z.object({
+  id: z.string(),
+  attemptId: nullableString,
+  code: z.number(),
+  status: z.string(),
+  vendorData: nullableString,
+  endUserId: nullableString,
+  reason: nullableString,
+  reasonCode: z.number().nullish(),
+  decisionTime: nullableString,
+  acceptanceTime: nullableString,
+  person: personSchema.nullish(),
+  document: documentSchema.nullish(),
+  riskLabels: z.array(z.object({ label: z.string(), category: nullableString }).passthrough()).nullish(),
+  additionalVerifiedData: z.object({
+    proofOfAddress: z.object({
+      documentType: nullableString, // Type of the proof of address, e.g. a utility bill or bank statement.
+      issueDate: nullableString,
+      nameMatch: z.boolean().nullish(), // Whether the name on the document matches the person of the session.
+      nameMatchPercentage: z.number().nullish(),
+    }).passthrough().nullish(),
+  }).passthrough().nullish(),
+}).passthrough();
+
+// Decision webhook, also the response of GET /sessions/{id}/decision
+export const decisionWebhookSchema = z.object({
+  status: z.string(),
+  verification: verificationSchema,
+  technicalData: z.object({ ip: nullableString }).passthrough().nullish(),
+}).passthrough();
+
+export const sessionDecisionResponseSchema = decisionWebhookSchema.extend({
+  // The decision is null while the session is still being processed
+  verification: verificationSchema.nullable(),
+});
+
+export const eventWebhookSchema = z.object({
+  id: z.string(),
+  attemptId: nullableString,
+  feature: nullableString,
+  code: z.number(),
+  action: z.string(),
+  vendorData: nullableString,
+  endUserId: nullableString,
+}).passthrough();
+
+export const proofOfAddressWebhookSchema = z.object({
+  id: z.string(),
+  addressId: nullableString,
+  vendorData: nullableString,
+}).passthrough();
+
+export const personResponseSchema = z.object({
+  status: z.string(),
+  person: personSchema.nullable(),
+}).passthrough();
+
+export const attemptsResponseSchema = z.object({
+  status: z.string(),
+  verifications: z.array(z.object({ id: z.string(), status: z.string() }).passthrough()),
+}).passthrough();
+
+export const mediaListResponseSchema = z.object({
+  status: z.string(),
+  images: z.array(mediaItemSchema).default([]),
+  videos: z.array(mediaItemSchema).default([]),
+}).passthrough();
+
+const watchlistListingSchema = z.object({
+  sourceName: nullableString, // Name of the list, e.g. a sanctions list or a news outlet.
+  sourceUrl: nullableString,
+  date: nullableString,
+}).passthrough();
+
+export const watchlistHitSchema = z.object({
+  matchedName: nullableString, // Name of the listed person.
+  countries: z.array(z.string()).nullish(),
+  dateOfBirth: z.union([z.string(), z.number()]).nullish(),
+  dateOfDeath: z.union([z.string(), z.number()]).nullish(),
+  matchTypes: z.array(z.string()).nullish(), // How the person matched, e.g. name_exact, aka_fuzzy or year_of_birth.
+  aka: z.array(z.unknown()).nullish(),
+  associates: z.array(z.unknown()).nullish(),
+  listingsRelatedToMatch: z.object({
+    warnings: z.array(watchlistListingSchema).nullish(),
+    sanctions: z.array(watchlistListingSchema).nullish(),
+    fitnessProbity: z.array(watchlistListingSchema).nullish(),
+    pep: z.array(watchlistListingSchema).nullish(),
+    adverseMedia: z.array(watchlistListingSchema).nullish(),
+  }).passthrough().nullish(),
+}).passthrough();
+
+export const watchlistScreeningSchema = z.object({
+  attemptId: nullableString,
+  vendorData: nullableString,
+  checkType: nullableString, // initial_result, or updated_result for ongoing monitoring.
+  matchStatus: nullableString, // possible_match or no_match.
+  searchTerm: z.object({ name: nullableString, year: z.union([z.string(), z.number()]).nullish() }).passthrough().nullish(),
+  totalHits: z.number().nullish(),
+  createdAt: nullableString,
+  hits: z.array(watchlistHitSchema).nullish(),
+}).passthrough();
+
+export const watchlistScreeningResponseSchema = z.object({
+  status: z.string(),
+  data: watchlistScreeningSchema.nullish(),
+}).passthrough();
+
+// Ongoing monitoring webhook, sent when the screening of a session finds new or changed hits
+export const watchlistScreeningWebhookSchema = watchlistScreeningSchema.extend({
+  sessionId: z.string(),
+  endUserId: nullableString,
+});
+
+export const registryResponseSchema = z.object({
+  status: nullableString,
+}).passthrough();
+
+// Body of POST /sessions, sent inside a "verification" object
+export const createSessionRequestSchema = z.object({
+  callback: z.string().url().optional(),
+  person: z.object({
+    firstName: z.string().optional(),
+    lastName: z.string().optional(),
+    idNumber: z.string().optional(),
+    dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD').optional(),
+    gender: z.enum(['M', 'F']).optional(),
+  }).optional(),
+  document: z.object({
+    number: z.string().optional(),
+    type: z.enum(['PASSPORT', 'ID_CARD', 'RESIDENCE_PERMIT', 'DRIVERS_LICENSE']).optional(),
+    country: z.string().length(2).optional(),
+  }).optional(),
+  vendorData: z.string().max(1000).optional(),
+  endUserId: z.string().uuid().optional(),
+});
+
+export const createSessionResponseSchema = z.object({
+  status: z.string(),
+  verification: z.object({
+    id: z.string(),
+    url: z.string(),
+    vendorData: nullableString,
+    host: nullableString,
+    status: z.string(),
+    sessionToken: nullableString,
+  }).passthrough(),
+}).passthrough();
+
+export type MediaItem = z.infer<typeof mediaItemSchema>;
+export type Address = z.infer<typeof addressSchema>;
+export type Person = z.infer<typeof personSchema>;
+export type Verification = z.infer<typeof verificationSchema>;
+export type DecisionWebhookPayload = z.infer<typeof decisionWebhookSchema>;
+export type SessionDecisionResponse = z.infer<typeof sessionDecisionResponseSchema>;
+export type EventWebhookPayload = z.infer<typeof eventWebhookSchema>;
+export type ProofOfAddressWebhookPayload = z.infer<typeof proofOfAddressWebhookSchema>;
+export type PersonResponse = z.infer<typeof personResponseSchema>;
+export type AttemptsResponse = z.infer<typeof attemptsResponseSchema>;
+export type MediaListResponse = z.infer<typeof mediaListResponseSchema>;
+export type WatchlistHitData = z.infer<typeof watchlistHitSchema>;
+export type WatchlistScreening = z.infer<typeof watchlistScreeningSchema>;
+export type WatchlistScreeningResponse = z.infer<typeof watchlistScreeningResponseSchema>;
+export type WatchlistScreeningWebhookPayload = z.infer<typeof watchlistScreeningWebhookSchema>;
+export type RegistryResponse = z.infer<typeof registryResponseSchema>;
+export type CreateSessionRequest = z.infer<typeof createSessionRequestSchema>;
+export type CreateSessionResponse = z.infer<typeof createSessionResponseSchema>;
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { compareAddresses, compareNames, parseAddress } from './address-utils';
+import { ExtractedAddress } from '../types';
+
+const address = (fields: Partial<ExtractedAddress>): ExtractedAddress =>
+  ({ fullAddress: null, street: null, houseNumber: null, unit: null, postcode: null, city: null, state: null, country: null, ...fields });
+
+describe('parseAddress', () => {
+  it('flattens the parsed address, with missing fields null', () => {
+    expect(parseAddress({ fullAddress: 'Main Street 1, 10115 Berlin', parsedAddress: { street: 'Main Street', houseNumber: '1', postcode: '10115', city: 'Berlin' } }))
+      .toEqual(address({ fullAddress: 'Main Street 1, 10115 Berlin', street: 'Main Street', houseNumber: '1', postcode: '10115', city: 'Berlin' }));
+    expect(parseAddress({ fullAddress: null })).toEqual(address({}));
+  });
+});
+
+describe('compareAddresses', () => {
+  it('compares the parsed fields both addresses have', () => {
+    const document = address({ street: 'Hauptstraße', houseNumber: '1', postcode: '10115', city: 'Berlin', country: 'DE' });
+
+    expect(compareAddresses(document, address({ street: 'Hauptstraße', houseNumber: '1', postcode: '10117' }))).toBe(false);
+    expect(compareAddresses(document, address({ street: 'HAUPTSTRAßE', houseNumber: '1', city: 'Berlin-Mitte' }))).toBe(true);
+    expect(compareAddresses(address({ postcode: 'SW1A 1AA' }), address({ postcode: 'sw1a1aa' }))).toBe(true);
+    expect(compareAddresses(document, address({ street: 'Hauptstraße', houseNumber: '2' }))).toBe(false);
+  });
+
+  it('compares the full addresses when no parsed field is in common', () => {
+    expect(compareAddresses(address({ fullAddress: '1 Main St, Flat 2, Springfield' }), address({ fullAddress: '1 Main St. Springfield', city: 'Springfield' }))).toBe(true);
+    expect(compareAddresses(address({ fullAddress: '1 Main St, Springfield' }), address({ fullAddress: '2 Main St, Springfield' }))).toBe(false);
+    expect(compareAddresses(address({ fullAddress: '1 Main St' }), address({ city: 'Springfield' }))).toBeNull();
+  });
+});
+
+describe('compareNames', () => {
+  it('matches names regardless of case, accents and missing middle names', () => {
+    expect(compareNames({ firstName: 'José', lastName: 'García' }, { fullName: 'JOSE MARIA GARCIA' })).toBe(true);
+    expect(compareNames({ firstName: 'Jane', lastName: 'Doe' }, { firstName: 'Jane', lastName: 'Roe' })).toBe(false);
+  });
+
+  it('cannot compare people without a name', () => {
+    expect(compareNames({ firstName: 'Jane' }, {})).toBeNull();
+    expect(compareNames({ fullName: '--' }, { firstName: 'Jane' })).toBeNull();
+  });
+});
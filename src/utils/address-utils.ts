@@ -0,0 +1,86 @@
+import { Address, ExtractedAddress, Person } from '../types';
+
+/*
+ * Comparison of the address and name on a proof of address with the data of the person's identity verification.
+ */
+
+// Fields of parsed addresses that are compared when both addresses have them
+const COMPARED_FIELDS = ['country', 'postcode', 'city', 'street', 'houseNumber'] as const;
+
+/**
+ * Flatten an address as reported by Veriff.
+ * @param {Address} address - The address.
+ * @returns {ExtractedAddress} - The address, with every missing field null.
+ */
+export const parseAddress = ({ fullAddress, parsedAddress }: Address): ExtractedAddress => ({
+  fullAddress: fullAddress || null,
+  street: parsedAddress?.street || null,
+  houseNumber: parsedAddress?.houseNumber || null,
+  unit: parsedAddress?.unit || null,
+  postcode: parsedAddress?.postcode || null,
+  city: parsedAddress?.city || null,
+  state: parsedAddress?.state || null,
+  country: parsedAddress?.country || null,
+});
+
+/**
+ * Check if two addresses are the same. Parsed fields are compared when both addresses have at least one of them in
+ * common, the full addresses otherwise.
+ * @param {ExtractedAddress} a - An address.
+ * @param {ExtractedAddress} b - Another address.
+ * @returns {boolean | null} - Whether the addresses match, null if they have nothing to compare.
+ */
+export const compareAddresses = (a: ExtractedAddress, b: ExtractedAddress) => {
+  const fields = COMPARED_FIELDS.filter(field => a[field] && b[field]);
+  if (fields.length > 0)
+    return fields.every(field => field === 'postcode' ? compact(a[field]!) === compact(b[field]!) : containsTokens(a[field]!, b[field]!));
+  if (a.fullAddress && b.fullAddress)
+    return containsTokens(a.fullAddress, b.fullAddress);
+  return null;
+}
+
+/**
+ * Check if two people have the same name.
+ * @param {Person} a - A person.
+ * @param {Person} b - Another person.
+ * @returns {boolean | null} - Whether the names match, null if either person has no name.
+ */
+export const compareNames = (a: Person, b: Person) => {
+  const name = (person: Person) => [person.firstName, person.lastName].filter(Boolean).join(' ') || person.fullName || '';
+  if (!normalize(name(a)) || !normalize(name(b)))
+    return null;
+  return containsTokens(name(a), name(b));
+}
+
+/**
+ * Check if the words of one value all appear in the other, so that e.g. a missing middle name or unit still matches.
+ * @param {string} a - A value.
+ * @param {string} b - Another value.
+ * @returns {boolean} - True if every word of the shorter value appears in the longer one.
+ */
+const containsTokens = (a: string, b: string) => {
+  const [shorter, longer] = [tokenize(a), tokenize(b)].sort((x, y) => x.length - y.length);
+  return shorter.length > 0 && shorter.every(token => longer.includes(token));
+}
+
+/**
+ * Lower-case a value and strip accents and punctuation.
+ * @param {string} value - The value.
+ * @returns {string} - The words of the value, separated by single spaces.
+ */
+const normalize = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Split a value into its normalized words.
+ * @param {string} value - The value.
+ * @returns {string[]} - The words.
+ */
+const tokenize = (value: string) => normalize(value).split(' ').filter(Boolean);
+
+/**
+ * Remove everything but letters and digits, e.g. for postcodes written with or without a space.
+ * @param {string} value - The value.
+ * @returns {string} - The compacted value.
+ */
+const compact = (value: string) => normalize(value).replace(/ /g, '');
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { isBearerTokenValid } from './auth-utils';
+
+describe('isBearerTokenValid', () => {
+  it('accepts the expected bearer token', () => {
+    expect(isBearerTokenValid('Bearer s3cret-token', 's3cret-token')).toBe(true);
+  });
+
+  it('rejects other tokens, including prefixes of the expected one', () => {
+    expect(isBearerTokenValid('Bearer other-token', 's3cret-token')).toBe(false);
+    expect(isBearerTokenValid('Bearer s3cret', 's3cret-token')).toBe(false);
+    expect(isBearerTokenValid('Bearer s3cret-token-and-more', 's3cret-token')).toBe(false);
+  });
+
+  it('rejects missing and malformed headers', () => {
+    expect(isBearerTokenValid(undefined, 's3cret-token')).toBe(false);
+    expect(isBearerTokenValid('', 's3cret-token')).toBe(false);
+    expect(isBearerTokenValid('s3cret-token', 's3cret-token')).toBe(false);
+    expect(isBearerTokenValid('Basic s3cret-token', 's3cret-token')).toBe(false);
+    expect(isBearerTokenValid('Bearer ', 's3cret-token')).toBe(false);
+  });
+});
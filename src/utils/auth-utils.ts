@@ -0,0 +1,18 @@
+import crypto from 'crypto';
+
+/**
+ * Check an "Authorization: Bearer <token>" header against the expected token in constant time.
+ * @param {string | undefined} header - The Authorization header of the request.
+ * @param {string} token - The expected token.
+ * @returns {boolean} - True if the header carries the expected token.
+ */
+export const isBearerTokenValid = (header: string | undefined, token: string) => {
+  const match = header?.match(/^Bearer (.+)$/);
+  if (!match) {
+    return false;
+  }
+  // Compare digests so that the comparison does not depend on the token length
+  const received = crypto.createHash('sha256').update(match[1]).digest();
+  const expected = crypto.createHash('sha256').update(token).digest();
+  return crypto.timingSafeEqual(received, expected);
+}
@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { decryptEnvelope, decryptStream, encryptBuffer, encryptStream, getEncryptedSize, isEnvelope, readEnvelopeHeader, rewrapEnvelope } from './encryption-utils';
+
+const KEY_1 = { id: 'key-1', key: crypto.randomBytes(32).toString('base64') };
+const KEY_2 = { id: 'key-2', key: crypto.randomBytes(32).toString('base64') };
+
+// The master keys are read when they are first used
+process.env.ENCRYPTION_KEYS = JSON.stringify([KEY_1]);
+
+/**
+ * Read a stream to the end.
+ */
+const readAll = async (stream: NodeJS.ReadableStream) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream)
+    chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+};
+
+/**
+ * Load the module again with other master keys.
+ */
+const withKeys = async (keys: unknown) => {
+  vi.resetModules();
+  vi.stubEnv('ENCRYPTION_KEYS', JSON.stringify(keys));
+  return import('./encryption-utils');
+};
+
+describe('encryption-utils', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('decrypts what it encrypted, with the content type in the header', () => {
+    const file = encryptBuffer(Buffer.from('{"status":"approved"}'), 'application/json');
+
+    expect(isEnvelope(file)).toBe(true);
+    expect(file.includes('approved')).toBe(false);
+    const { header, plaintext } = decryptEnvelope(file);
+    expect(header).toMatchObject({ version: 1, algorithm: 'AES-256-GCM', contentType: 'application/json', key: { id: 'key-1' } });
+    expect(plaintext.toString()).toBe('{"status":"approved"}');
+  });
+
+  it('encrypts streams to the announced size, and decrypts them in any chunking', async () => {
+    const content = crypto.randomBytes(1000);
+    const file = await readAll(encryptStream(Readable.from([content.subarray(0, 300), content.subarray(300)]), 'image/jpeg'));
+
+    expect(file.length).toBe(getEncryptedSize(content.length, 'image/jpeg'));
+    expect(decryptEnvelope(file).plaintext).toEqual(content);
+    const chunks = Array.from({ length: Math.ceil(file.length / 7) }, (_, index) => file.subarray(index * 7, (index + 1) * 7));
+    expect(await readAll(decryptStream(Readable.from(chunks)))).toEqual(content);
+  });
+
+  it('passes files that are not encrypted through the stream as they are', async () => {
+    expect(await readAll(decryptStream(Readable.from([Buffer.from('fr'), Buffer.from('ont.jpeg')])))).toEqual(Buffer.from('front.jpeg'));
+    expect(await readAll(decryptStream(Readable.from([Buffer.from('VKE')])))).toEqual(Buffer.from('VKE'));
+  });
+
+  it('detects modified and truncated files', async () => {
+    const file = encryptBuffer(Buffer.from('front'), 'image/jpeg');
+    const modified = Buffer.from(file);
+    modified[modified.length - 20] ^= 1;
+
+    expect(() => decryptEnvelope(modified)).toThrow('Encrypted file was modified or truncated');
+    await expect(readAll(decryptStream(Readable.from([modified])))).rejects.toThrow('Encrypted file was modified or truncated');
+    expect(() => decryptEnvelope(file.subarray(0, file.length - 20))).toThrow('Encrypted file is truncated');
+    expect(() => readEnvelopeHeader(Buffer.from('front.jpeg'))).toThrow('Not an encrypted file');
+  });
+
+  it('authenticates the header', () => {
+    const file = encryptBuffer(Buffer.from('front'), 'image/jpeg');
+    const { headerEnd } = readEnvelopeHeader(file);
+    const tampered = Buffer.from(file.toString('latin1').replace('image/jpeg', 'image/png!'), 'latin1');
+
+    expect(readEnvelopeHeader(tampered).headerEnd).toBe(headerEnd);
+    expect(() => decryptEnvelope(tampered)).toThrow('Encrypted file was modified or truncated');
+  });
+
+  it('rewraps the data key with the active master key after a rotation', async () => {
+    const file = encryptBuffer(Buffer.from('front'), 'image/jpeg');
+    const rotated = await withKeys([KEY_2, KEY_1]);
+
+    const rewrapped = rotated.rewrapEnvelope(file)!;
+    expect(rotated.readEnvelopeHeader(rewrapped).header.key.id).toBe('key-2');
+    expect(rewrapped.subarray(rewrapped.length - 21)).toEqual(file.subarray(file.length - 21));
+    expect(rotated.rewrapEnvelope(rewrapped)).toBeNull();
+
+    const retired = await withKeys([KEY_2]);
+    expect(retired.decryptEnvelope(rewrapped).plaintext.toString()).toBe('front');
+    expect(() => retired.decryptEnvelope(file)).toThrow('Unknown encryption key key-1');
+    expect(rewrapEnvelope(encryptBuffer(Buffer.from('front'), 'image/jpeg'))).toBeNull();
+  });
+
+  it('rejects invalid master key configurations', async () => {
+    expect((await withKeys([])).getMasterKeys).toThrow('ENCRYPTION_KEYS must be a non-empty JSON array');
+    expect((await withKeys([{ id: 'key-1', key: 'c2hvcnQ=' }])).getMasterKeys).toThrow('Encryption key key-1 must be 32 bytes, base64 encoded');
+    expect((await withKeys([KEY_1, KEY_1])).getMasterKeys).toThrow('ENCRYPTION_KEYS contains duplicate IDs');
+  });
+});
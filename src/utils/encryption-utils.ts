@@ -0,0 +1,339 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import dotenv from 'dotenv';
+dotenv.config();
+
+/*
+ * Envelope encryption of archived files. Every file is encrypted with its own random data key (AES-256-GCM),
+ * and the data key is stored in the file, wrapped (encrypted) with a master key from ENCRYPTION_KEYS.
+ *
+ * File layout: "VKE1" | header length (uint32 BE) | header (JSON) | ciphertext | authentication tag (16 bytes)
+ *
+ * The header fields other than `key` are authenticated together with the content, so rotating the master key only
+ * rewrites `key` and leaves the ciphertext untouched.
+ */
+
+export interface MasterKey {
+  id: string; // ID of the key, stored in the files it wraps data keys of.
+  key: Buffer; // 32 byte key.
+}
+
+export interface EnvelopeHeader {
+  version: 1;
+  algorithm: 'AES-256-GCM';
+  contentType: string; // Content type of the plaintext.
+  iv: string; // IV of the content, base64.
+  key: {
+    id: string; // ID of the master key the data key is wrapped with.
+    iv: string; // IV of the wrapping, base64.
+    tag: string; // Authentication tag of the wrapping, base64.
+    wrapped: string; // The wrapped data key, base64.
+  };
+}
+
+export const ENCRYPTED_EXTENSION = '.enc';
+export const ENCRYPTED_CONTENT_TYPE = 'application/octet-stream';
+
+const MAGIC = Buffer.from('VKE1');
+const PREFIX_LENGTH = MAGIC.length + 4;
+const TAG_LENGTH = 16;
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+
+let masterKeys: MasterKey[] | null | undefined;
+
+/**
+ * Get the master keys configured in the ENCRYPTION_KEYS environment variable, a JSON array of { "id", "key" } objects
+ * with base64 encoded 32 byte keys. The first key wraps new data keys, the others are only used to decrypt.
+ * @returns {MasterKey[] | null} - The master keys, null if encryption is not configured.
+ * @throws {Error} - If the configuration is invalid.
+ */
+export const getMasterKeys = () => {
+  if (masterKeys === undefined) {
+    const { ENCRYPTION_KEYS } = process.env;
+    masterKeys = ENCRYPTION_KEYS ? parseMasterKeys(ENCRYPTION_KEYS) : null;
+  }
+  return masterKeys;
+}
+
+/**
+ * Parse the master key configuration.
+ * @param {string} value - JSON array of { "id", "key" } objects.
+ * @returns {MasterKey[]} - The master keys, in configured order.
+ * @throws {Error} - If the configuration is invalid.
+ */
+const parseMasterKeys = (value: string) => {
+  const entries = JSON.parse(value);
+  if (!Array.isArray(entries) || entries.length === 0)
+    throw new Error('ENCRYPTION_KEYS must be a non-empty JSON array');
+  const keys: MasterKey[] = entries.map(({ id, key }: { id: unknown, key: unknown }) => {
+    if (typeof id !== 'string' || !id || typeof key !== 'string')
+      throw new Error('Every entry of ENCRYPTION_KEYS needs an id and a key');
+    const buffer = Buffer.from(key, 'base64');
+    if (buffer.length !== KEY_LENGTH)
+      throw new Error(`Encryption key ${id} must be ${KEY_LENGTH} bytes, base64 encoded`);
+    return { id, key: buffer };
+  });
+  if (new Set(keys.map(key => key.id)).size !== keys.length)
+    throw new Error('ENCRYPTION_KEYS contains duplicate IDs');
+  return keys;
+}
+
+/**
+ * Get a master key by its ID.
+ * @param {string} id - ID of the key.
+ * @returns {MasterKey} - The key.
+ * @throws {Error} - If encryption is not configured or the key is unknown.
+ */
+const getMasterKey = (id: string) => {
+  const key = getMasterKeys()?.find(key => key.id === id);
+  if (!key)
+    throw new Error(`Unknown encryption key ${id}`);
+  return key;
+}
+
+/**
+ * Get the master key new data keys are wrapped with.
+ * @returns {MasterKey} - The first configured key.
+ * @throws {Error} - If encryption is not configured.
+ */
+const getActiveMasterKey = () => {
+  const keys = getMasterKeys();
+  if (!keys)
+    throw new Error('Encryption is not configured');
+  return keys[0];
+}
+
+/**
+ * Wrap a data key with a master key.
+ * @param {Buffer} dataKey - The data key.
+ * @param {MasterKey} masterKey - The master key.
+ * @returns {EnvelopeHeader['key']} - The wrapped key.
+ */
+const wrapKey = (dataKey: Buffer, masterKey: MasterKey): EnvelopeHeader['key'] => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', masterKey.key, iv);
+  cipher.setAAD(Buffer.from(masterKey.id));
+  const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+  return { id: masterKey.id, iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64'), wrapped: wrapped.toString('base64') };
+}
+
+/**
+ * Unwrap the data key of a file.
+ * @param {EnvelopeHeader['key']} key - The wrapped key.
+ * @returns {Buffer} - The data key.
+ * @throws {Error} - If the master key is unknown or the wrapped key was tampered with.
+ */
+const unwrapKey = (key: EnvelopeHeader['key']) => {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getMasterKey(key.id).key, Buffer.from(key.iv, 'base64'));
+  decipher.setAAD(Buffer.from(key.id));
+  decipher.setAuthTag(Buffer.from(key.tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(key.wrapped, 'base64')), decipher.final()]);
+}
+
+/**
+ * Get the authenticated data of a file: every header field except the wrapped key.
+ * @param {EnvelopeHeader} header - The header.
+ * @returns {Buffer} - The additional authenticated data.
+ */
+const getAAD = ({ version, algorithm, contentType, iv }: EnvelopeHeader) =>
+  Buffer.from(JSON.stringify({ version, algorithm, contentType, iv }));
+
+/**
+ * Serialize the header with the magic bytes and its length.
+ * @param {EnvelopeHeader} header - The header.
+ * @returns {Buffer} - The start of the file, up to the ciphertext.
+ */
+const serializeHeader = (header: EnvelopeHeader) => {
+  const json = Buffer.from(JSON.stringify(header));
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(json.length);
+  return Buffer.concat([MAGIC, length, json]);
+}
+
+/**
+ * Start the encryption of a file with a new data key.
+ * @param {string} contentType - Content type of the plaintext.
+ * @returns {{ cipher: crypto.CipherGCM, start: Buffer }} - The content cipher and the start of the file.
+ */
+const createEnvelope = (contentType: string) => {
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const header: EnvelopeHeader = {
+    version: 1,
+    algorithm: 'AES-256-GCM',
+    contentType,
+    iv: iv.toString('base64'),
+    key: wrapKey(dataKey, getActiveMasterKey()),
+  };
+  const cipher = crypto.createCipheriv('aes-256-gcm', dataKey, iv);
+  cipher.setAAD(getAAD(header));
+  return { cipher, start: serializeHeader(header) };
+}
+
+/**
+ * Encrypt a file held in memory.
+ * @param {Buffer} plaintext - The content.
+ * @param {string} contentType - Content type of the content.
+ * @returns {Buffer} - The encrypted file.
+ */
+export const encryptBuffer = (plaintext: Buffer, contentType: string) => {
+  const { cipher, start } = createEnvelope(contentType);
+  return Buffer.concat([start, cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+}
+
+/**
+ * Encrypt a stream without holding it in memory.
+ * @param {NodeJS.ReadableStream} stream - The content.
+ * @param {string} contentType - Content type of the content.
+ * @returns {Readable} - The encrypted file.
+ */
+export const encryptStream = (stream: NodeJS.ReadableStream, contentType: string) => {
+  const { cipher, start } = createEnvelope(contentType);
+  return Readable.from((async function* () {
+    yield start;
+    for await (const chunk of stream) {
+      const encrypted = cipher.update(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+      if (encrypted.length)
+        yield encrypted;
+    }
+    const final = cipher.final();
+    if (final.length)
+      yield final;
+    yield cipher.getAuthTag();
+  })());
+}
+
+/**
+ * Get the size of a file once encrypted.
+ * @param {number} size - Size of the plaintext in bytes.
+ * @param {string} contentType - Content type of the plaintext.
+ * @returns {number} - Size of the encrypted file in bytes.
+ */
+export const getEncryptedSize = (size: number, contentType: string) =>
+  serializeHeader({
+    version: 1,
+    algorithm: 'AES-256-GCM',
+    contentType,
+    iv: Buffer.alloc(IV_LENGTH).toString('base64'),
+    key: wrapKey(Buffer.alloc(KEY_LENGTH), getActiveMasterKey()),
+  }).length + size + TAG_LENGTH;
+
+/**
+ * Check if a file is encrypted.
+ * @param {Buffer} file - The file content.
+ * @returns {boolean} - Whether the file starts with the envelope magic bytes.
+ */
+export const isEnvelope = (file: Buffer) => file.length >= PREFIX_LENGTH && file.subarray(0, MAGIC.length).equals(MAGIC);
+
+/**
+ * Read the header of an encrypted file.
+ * @param {Buffer} file - The file content.
+ * @returns {{ header: EnvelopeHeader, headerEnd: number }} - The header and the offset of the ciphertext.
+ * @throws {Error} - If the file is not an encrypted file.
+ */
+export const readEnvelopeHeader = (file: Buffer) => {
+  if (!isEnvelope(file))
+    throw new Error('Not an encrypted file');
+  const headerEnd = PREFIX_LENGTH + file.readUInt32BE(MAGIC.length);
+  if (headerEnd + TAG_LENGTH > file.length)
+    throw new Error('Encrypted file is truncated');
+  const header: EnvelopeHeader = JSON.parse(file.subarray(PREFIX_LENGTH, headerEnd).toString('utf8'));
+  if (header.version !== 1 || header.algorithm !== 'AES-256-GCM')
+    throw new Error(`Unsupported encryption ${header.algorithm} version ${header.version}`);
+  return { header, headerEnd };
+}
+
+/**
+ * Decrypt a file and verify that it was not modified.
+ * @param {Buffer} file - The encrypted file.
+ * @returns {{ header: EnvelopeHeader, plaintext: Buffer }} - The header and the content.
+ * @throws {Error} - If the master key is unknown or the file was modified or truncated.
+ */
+export const decryptEnvelope = (file: Buffer) => {
+  const { header, headerEnd } = readEnvelopeHeader(file);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', unwrapKey(header.key), Buffer.from(header.iv, 'base64'));
+  decipher.setAAD(getAAD(header));
+  decipher.setAuthTag(file.subarray(file.length - TAG_LENGTH));
+  const plaintext = decipher.update(file.subarray(headerEnd, file.length - TAG_LENGTH));
+  try {
+    return { header, plaintext: Buffer.concat([plaintext, decipher.final()]) };
+  } catch {
+    throw new Error('Encrypted file was modified or truncated');
+  }
+}
+
+/**
+ * Decrypt a file without holding it in memory. Files that are not encrypted are passed through as they are.
+ * The authentication tag is at the end of the file, so the content is only verified once the stream ended.
+ * @param {NodeJS.ReadableStream} stream - The file.
+ * @returns {Readable} - The content.
+ * @throws {Error} - From the stream, if the master key is unknown or the file was modified or truncated.
+ */
+export const decryptStream = (stream: NodeJS.ReadableStream) => Readable.from((async function* () {
+  let buffered = Buffer.alloc(0);
+  let decipher: crypto.DecipherGCM | null = null;
+  let plain = false;
+  for await (const data of stream) {
+    buffered = Buffer.concat([buffered, Buffer.isBuffer(data) ? data : Buffer.from(data)]);
+    if (plain) {
+      yield buffered;
+      buffered = Buffer.alloc(0);
+      continue;
+    }
+    if (!decipher) {
+      if (buffered.length < PREFIX_LENGTH)
+        continue;
+      if (!isEnvelope(buffered)) {
+        plain = true;
+        yield buffered;
+        buffered = Buffer.alloc(0);
+        continue;
+      }
+      const headerEnd = PREFIX_LENGTH + buffered.readUInt32BE(MAGIC.length);
+      if (buffered.length < headerEnd)
+        continue;
+      const { header } = readEnvelopeHeader(Buffer.concat([buffered.subarray(0, headerEnd), Buffer.alloc(TAG_LENGTH)]));
+      decipher = crypto.createDecipheriv('aes-256-gcm', unwrapKey(header.key), Buffer.from(header.iv, 'base64'));
+      decipher.setAAD(getAAD(header));
+      buffered = buffered.subarray(headerEnd);
+    }
+    // The last bytes may be the authentication tag, they are kept until the stream ends
+    if (buffered.length > TAG_LENGTH) {
+      const plaintext = decipher.update(buffered.subarray(0, buffered.length - TAG_LENGTH));
+      buffered = buffered.subarray(buffered.length - TAG_LENGTH);
+      if (plaintext.length)
+        yield plaintext;
+    }
+  }
+  if (plain || (!decipher && !isEnvelope(buffered))) {
+    if (buffered.length)
+      yield buffered;
+    return;
+  }
+  if (!decipher || buffered.length < TAG_LENGTH)
+    throw new Error('Encrypted file is truncated');
+  decipher.setAuthTag(buffered);
+  try {
+    const final = decipher.final();
+    if (final.length)
+      yield final;
+  } catch {
+    throw new Error('Encrypted file was modified or truncated');
+  }
+})());
+
+/**
+ * Wrap the data key of a file with the active master key, after the master key was rotated.
+ * @param {Buffer} file - The encrypted file.
+ * @returns {Buffer | null} - The file with the new wrapped key, null if it already uses the active master key.
+ * @throws {Error} - If the master key of the file is unknown or its wrapped key was tampered with.
+ */
+export const rewrapEnvelope = (file: Buffer) => {
+  const { header, headerEnd } = readEnvelopeHeader(file);
+  const masterKey = getActiveMasterKey();
+  if (header.key.id === masterKey.id)
+    return null;
+  const rewrapped: EnvelopeHeader = { ...header, key: wrapKey(unwrapKey(header.key), masterKey) };
+  return Buffer.concat([serializeHeader(rewrapped), file.subarray(headerEnd)]);
+}
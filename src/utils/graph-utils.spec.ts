@@ -0,0 +1,200 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { AxiosError } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import UploadSessions from '../services/UploadSessions';
+import { createFolderIfNotExistInDrive, deleteFromDrive, listFolderInDrive, uploadFileToDrive } from './graph-utils';
+
+const client = vi.hoisted(() => {
+  process.env.TENANT_ID = 'tenant';
+  process.env.CLIENT_ID = 'client';
+  process.env.CLIENT_SECRET = 'secret';
+  process.env.SHAREPOINT_CHUNK_SIZE_MB = '0.3125';
+  process.env.SHAREPOINT_CHUNK_RETRIES = '1';
+  return { get: vi.fn(), post: vi.fn(), put: vi.fn(), delete: vi.fn() };
+});
+
+vi.mock('axios', async importOriginal => {
+  const actual = await importOriginal<typeof import('axios')>();
+  const create = () => ({ ...client, interceptors: { request: { use: vi.fn() } } });
+  return { ...actual, default: { ...actual.default, create } };
+});
+
+vi.mock('@azure/msal-node', () => ({
+  ConfidentialClientApplication: class {
+    public async acquireTokenByClientCredential() {
+      return { accessToken: 'graph-token' };
+    }
+  },
+}));
+
+const DRIVE = 'https://graph.microsoft.com/v1.0/drives/drive-1';
+const CHUNK_SIZE = 320 * 1024;
+
+const notFound = () => new AxiosError('Not found', 'ERR_BAD_REQUEST', undefined, undefined, { status: 404, data: {} } as any);
+const serverError = () => new AxiosError('Service unavailable', 'ERR_BAD_RESPONSE', undefined, undefined, { status: 503, data: {} } as any);
+const conflict = () => new AxiosError('Conflict', 'ERR_BAD_REQUEST', undefined, undefined, { status: 409, data: {} } as any);
+
+describe('graph-utils', () => {
+  beforeEach(() => {
+    Object.values(client).forEach(mock => mock.mockReset());
+  });
+
+  describe('createFolderIfNotExistInDrive', () => {
+    it('creates the missing folders of a path below their parents', async () => {
+      client.get.mockImplementation(async (url: string) => {
+        if (url === `${DRIVE}/root:/KYC%20Details:`)
+          return { data: { id: 'kyc' } };
+        throw notFound();
+      });
+      client.post.mockImplementation(async (url: string, body: any) => ({ data: { id: `${body.name}-id` } }));
+
+      expect(await createFolderIfNotExistInDrive('drive-1', 'KYC Details/Approved/2024-01')).toBe('2024-01-id');
+      expect(client.post.mock.calls.map(([url, body]) => [url, body.name])).toEqual([
+        [`${DRIVE}/items/kyc/children`, 'Approved'],
+        [`${DRIVE}/items/Approved-id/children`, '2024-01'],
+      ]);
+      expect(client.post.mock.calls[0][2].headers.Authorization).toBe('Bearer graph-token');
+    });
+
+    it('uses a folder another worker created in the meantime', async () => {
+      let created = false;
+      client.get.mockImplementation(async () => {
+        if (created)
+          return { data: { id: 'kyc' } };
+        throw notFound();
+      });
+      client.post.mockImplementation(async () => {
+        created = true;
+        throw conflict();
+      });
+
+      expect(await createFolderIfNotExistInDrive('drive-1', 'KYC Details')).toBe('kyc');
+    });
+  });
+
+  describe('uploadFileToDrive', () => {
+    const SIZE = CHUNK_SIZE * 2 + 100;
+    let directory: string;
+    let uploads: UploadSessions;
+
+    /**
+     * Get the URL, size and Content-Range of every chunk sent to the upload session, and whether it carried the bearer token.
+     */
+    const getChunks = () => client.put.mock.calls.map(([url, chunk, { headers }]) => [url, chunk.length, headers['Content-Range'], headers.Authorization]);
+
+    beforeEach(() => {
+      // Retry failed chunks without waiting
+      vi.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void) => callback()) as any);
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'drive-uploads-'));
+      uploads = new UploadSessions(directory);
+      client.get.mockResolvedValue({ data: { id: 'folder' } });
+      client.put.mockResolvedValue({ data: {} });
+      client.post.mockResolvedValue({ data: { uploadUrl: 'https://upload.example/session-1' } });
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('uploads small files with a single request', async () => {
+      await uploadFileToDrive('drive-1', 'KYC Details', 'session decision.json', Buffer.from('{}'), 'application/json');
+
+      expect(client.put).toHaveBeenCalledOnce();
+      expect(client.put.mock.calls[0][0]).toBe(`${DRIVE}/items/folder:/session%20decision.json:/content`);
+      expect(client.post).not.toHaveBeenCalled();
+    });
+
+    it('uploads large files in chunks through an upload session without the bearer token', async () => {
+      await uploadFileToDrive('drive-1', 'KYC Details', 'video.webm', Buffer.alloc(SIZE), 'video/webm', undefined, uploads);
+
+      expect(client.post.mock.calls[0][0]).toBe(`${DRIVE}/items/folder:/video.webm:/createUploadSession`);
+      expect(getChunks()).toEqual([
+        ['https://upload.example/session-1', CHUNK_SIZE, `bytes 0-${CHUNK_SIZE - 1}/${SIZE}`, undefined],
+        ['https://upload.example/session-1', CHUNK_SIZE, `bytes ${CHUNK_SIZE}-${CHUNK_SIZE * 2 - 1}/${SIZE}`, undefined],
+        ['https://upload.example/session-1', 100, `bytes ${CHUNK_SIZE * 2}-${SIZE - 1}/${SIZE}`, undefined],
+      ]);
+      expect(await uploads.get('KYC Details/video.webm')).toBeNull();
+    });
+
+    it('reads streams of unknown size to send the total size with every chunk', async () => {
+      await uploadFileToDrive('drive-1', 'KYC Details', 'video.webm', Readable.from([Buffer.alloc(CHUNK_SIZE), Buffer.alloc(CHUNK_SIZE + 100)]), 'video/webm');
+
+      expect(getChunks().map(([, , range]) => range)).toEqual([
+        `bytes 0-${CHUNK_SIZE - 1}/${SIZE}`,
+        `bytes ${CHUNK_SIZE}-${CHUNK_SIZE * 2 - 1}/${SIZE}`,
+        `bytes ${CHUNK_SIZE * 2}-${SIZE - 1}/${SIZE}`,
+      ]);
+    });
+
+    it('sends a failed chunk again from the range Graph expects', async () => {
+      client.put
+        .mockResolvedValueOnce({ data: { nextExpectedRanges: ['1000-'] } })
+        .mockRejectedValueOnce(serverError());
+      await uploadFileToDrive('drive-1', 'KYC Details', 'video.webm', Buffer.alloc(CHUNK_SIZE + 100), 'video/webm');
+
+      expect(getChunks().map(([, size, range]) => [size, range])).toEqual([
+        [CHUNK_SIZE, `bytes 0-${CHUNK_SIZE - 1}/${CHUNK_SIZE + 100}`],
+        [CHUNK_SIZE - 1000, `bytes 1000-${CHUNK_SIZE - 1}/${CHUNK_SIZE + 100}`],
+        [CHUNK_SIZE - 1000, `bytes 1000-${CHUNK_SIZE - 1}/${CHUNK_SIZE + 100}`],
+        [100, `bytes ${CHUNK_SIZE}-${CHUNK_SIZE + 99}/${CHUNK_SIZE + 100}`],
+      ]);
+    });
+
+    it('resumes a failed upload from the last committed chunk through the same upload URL', async () => {
+      const content = Buffer.alloc(SIZE, 1);
+      client.put.mockImplementation(async (url: string, chunk: Buffer, { headers }: any) => {
+        if (headers['Content-Range'].startsWith(`bytes ${CHUNK_SIZE * 2}-`))
+          throw serverError();
+        return { data: {} };
+      });
+      await expect(uploadFileToDrive('drive-1', 'KYC Details', 'video.webm', content, 'video/webm', undefined, uploads)).rejects.toThrow('Service unavailable');
+      expect(await uploads.get('KYC Details/video.webm')).toMatchObject({ uploadUrl: 'https://upload.example/session-1', chunkHashes: [expect.any(String), expect.any(String)] });
+
+      client.put.mockReset();
+      client.post.mockReset();
+      client.put.mockResolvedValue({ data: {} });
+      await uploadFileToDrive('drive-1', 'KYC Details', 'video.webm', content, 'video/webm', undefined, uploads);
+      expect(client.post).not.toHaveBeenCalled();
+      expect(getChunks()).toEqual([['https://upload.example/session-1', 100, `bytes ${CHUNK_SIZE * 2}-${SIZE - 1}/${SIZE}`, undefined]]);
+      expect(await uploads.get('KYC Details/video.webm')).toBeNull();
+    });
+  });
+
+  describe('listFolderInDrive', () => {
+    it('follows the pages of the folder', async () => {
+      client.get.mockImplementation(async (url: string) => {
+        if (url.endsWith(':/KYC%20Details:'))
+          return { data: { id: 'kyc' } };
+        if (url.endsWith('/items/kyc/children'))
+          return { data: { value: [{ name: 'Approved', folder: {} }], '@odata.nextLink': 'https://graph.example/next' } };
+        return { data: { value: [{ name: 'manifest.json', size: 42 }] } };
+      });
+
+      expect(await listFolderInDrive('drive-1', 'KYC Details')).toEqual([
+        { name: 'Approved', isFolder: true },
+        { name: 'manifest.json', isFolder: false, size: 42 },
+      ]);
+    });
+
+    it('lists missing folders as empty', async () => {
+      client.get.mockRejectedValue(notFound());
+      expect(await listFolderInDrive('drive-1', 'KYC Details')).toEqual([]);
+    });
+  });
+
+  describe('deleteFromDrive', () => {
+    it('refuses to delete the root of the drive', async () => {
+      await expect(deleteFromDrive('drive-1', '/')).rejects.toThrow('Refusing to delete the root of the drive');
+      expect(client.delete).not.toHaveBeenCalled();
+    });
+
+    it('ignores items that do not exist', async () => {
+      client.delete.mockRejectedValue(notFound());
+      await expect(deleteFromDrive('drive-1', 'KYC Details/session-1')).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,342 @@
+import axios, { isAxiosError } from 'axios';
+import crypto from 'crypto';
+import fs from 'fs';
+import { ConfidentialClientApplication } from '@azure/msal-node';
+import UploadSessions from '../services/UploadSessions';
+import { readAll } from './stream-utils';
+import { uploadInChunks } from './upload-utils';
+import { StorageEntry } from '../types';
+import logger, { traceRequests } from './logger';
+import dotenv from 'dotenv';
+dotenv.config();
+
+const {
+  TENANT_ID,
+  CLIENT_ID,
+  CLIENT_SECRET,
+  GRAPH_CERTIFICATE_PATH,
+  GRAPH_CERTIFICATE_THUMBPRINT,
+  SHAREPOINT_CHUNK_SIZE_MB,
+  SHAREPOINT_CHUNK_RETRIES,
+} = process.env;
+const GRAPH_URL = 'https://graph.microsoft.com/v1.0';
+// Upload session chunks must be a multiple of 320 KiB
+const CHUNK_UNIT = 320 * 1024;
+const CHUNK_SIZE = Math.max(1, Math.floor(Number(SHAREPOINT_CHUNK_SIZE_MB || 10) * 1024 * 1024 / CHUNK_UNIT)) * CHUNK_UNIT;
+const CHUNK_RETRIES = Number(SHAREPOINT_CHUNK_RETRIES || 3);
+// Files up to this size are uploaded with a single request
+const SIMPLE_UPLOAD_LIMIT = 4 * 1024 * 1024;
+const client = traceRequests(axios.create(), 'client-request-id');
+
+let msalClient: ConfidentialClientApplication | undefined;
+
+/**
+ * Get the MSAL client, authenticating with a certificate when GRAPH_CERTIFICATE_PATH is set and with the client secret otherwise.
+ * @returns {ConfidentialClientApplication} - The MSAL client.
+ * @throws {Error} - If no client credentials are configured.
+ */
+const getMsalClient = () => {
+  if (msalClient)
+    return msalClient;
+  if (!TENANT_ID || !CLIENT_ID) throw new Error('Graph tenant or client ID not found');
+
+  let clientCredentials;
+  if (GRAPH_CERTIFICATE_PATH) {
+    if (!GRAPH_CERTIFICATE_THUMBPRINT) throw new Error('Graph certificate thumbprint not found');
+    clientCredentials = {
+      clientCertificate: {
+        thumbprint: GRAPH_CERTIFICATE_THUMBPRINT,
+        privateKey: fs.readFileSync(GRAPH_CERTIFICATE_PATH, 'utf8'),
+      },
+    };
+  } else if (CLIENT_SECRET) {
+    clientCredentials = { clientSecret: CLIENT_SECRET };
+  } else {
+    throw new Error('Graph client secret or certificate not found');
+  }
+
+  msalClient = new ConfidentialClientApplication({
+    auth: {
+      clientId: CLIENT_ID,
+      authority: `https://login.microsoftonline.com/${TENANT_ID}`,
+      ...clientCredentials,
+    },
+  });
+  return msalClient;
+}
+
+/**
+ * Get an access token for Microsoft Graph using client credentials. MSAL caches the token until it expires.
+ * @returns {Promise<string>} - Promise that resolves with the access token.
+ * @throws {Error} - If there is an error while fetching the access token.
+ */
+export const getGraphAccessToken = async () => {
+  const result = await getMsalClient().acquireTokenByClientCredential({
+    scopes: ['https://graph.microsoft.com/.default'],
+  });
+  if (!result?.accessToken) {
+    throw new Error('Failed to fetch access token from Microsoft Graph.');
+  }
+  return result.accessToken;
+}
+
+/**
+ * Get a drive item by its path relative to the drive root.
+ * @param {string} driveId - ID of the drive (document library).
+ * @param {string} path - Path of the file or folder.
+ * @returns {Promise<any | null>} - The drive item, or null if it does not exist.
+ * @throws {Error} - If there is an error with the request.
+ */
+export const getDriveItemByPath = async (driveId: string, path: string) => {
+  try {
+    const response = await client.get(`${GRAPH_URL}/drives/${driveId}/root${toPathSegment(path)}`, {
+      headers: await getHeaders(),
+    });
+    return response.data;
+  } catch (error) {
+    if (isAxiosError(error) && error.response?.status === 404) {
+      return null;
+    }
+    handleGraphError(error, 'fetching drive item');
+  }
+}
+
+/**
+ * Create a folder and any missing parent folders in the drive.
+ * @param {string} driveId - ID of the drive (document library).
+ * @param {string} path - Path of the folder.
+ * @returns {Promise<string>} - ID of the folder.
+ * @throws {Error} - If there is an error while creating the folder.
+ */
+export const createFolderIfNotExistInDrive = async (driveId: string, path: string) => {
+  let parentId = 'root';
+  let currentPath = '';
+  for (const name of splitPath(path)) {
+    currentPath = currentPath ? `${currentPath}/${name}` : name;
+    const existing = await getDriveItemByPath(driveId, currentPath);
+    if (existing) {
+      parentId = existing.id;
+      continue;
+    }
+    try {
+      const response = await client.post(`${GRAPH_URL}/drives/${driveId}/items/${parentId}/children`, {
+        name,
+        folder: {},
+        '@microsoft.graph.conflictBehavior': 'fail',
+      }, { headers: await getHeaders() });
+      parentId = response.data.id;
+    } catch (error) {
+      // Another worker created the folder in the meantime
+      if (isAxiosError(error) && error.response?.status === 409) {
+        parentId = (await getDriveItemByPath(driveId, currentPath)).id;
+        continue;
+      }
+      handleGraphError(error, 'creating folder');
+    }
+  }
+  return parentId;
+}
+
+/**
+ * Upload a file to the specified drive folder. Small files are uploaded with a single request, larger ones in chunks
+ * through an upload session, which the next upload of the file continues if it was interrupted.
+ * Graph needs the total size with every chunk, a stream of unknown size is therefore read into memory first.
+ * @param {string} driveId - ID of the drive (document library).
+ * @param {string} folderPath - The path to the folder where the file will be uploaded.
+ * @param {string} fileName - The name of the file (including the file extension).
+ * @param {NodeJS.ReadableStream | Buffer} stream - The readable stream of the file to be uploaded.
+ * @param {string} contentType - The MIME type of the file to be uploaded.
+ * @param {number} size - Size of the file in bytes, if known.
+ * @param {UploadSessions} uploads - Optional store of interrupted upload sessions. Without it, a failed upload starts from the beginning.
+ * @returns {Promise<void>} - Promise that resolves when the file is uploaded successfully.
+ * @throws {Error} - If there is an error during the file upload.
+ */
+export const uploadFileToDrive = async (driveId: string, folderPath: string, fileName: string, stream: NodeJS.ReadableStream | Buffer, contentType: string, size?: number, uploads?: UploadSessions) => {
+  try {
+    const parentId = await createFolderIfNotExistInDrive(driveId, folderPath);
+    const itemUrl = `${GRAPH_URL}/drives/${driveId}/items/${parentId}:/${encodeURIComponent(fileName)}:`;
+    const content = size === undefined && !Buffer.isBuffer(stream) ? await readAll(stream) : stream;
+    const total = Buffer.isBuffer(content) ? content.length : size!;
+
+    const resumed = await uploadInChunks(`${folderPath}/${fileName}`, content, {
+      chunkSize: CHUNK_SIZE,
+      retries: CHUNK_RETRIES,
+      singleRequestLimit: SIMPLE_UPLOAD_LIMIT,
+      putFile: async chunk => {
+        await client.put(`${itemUrl}/content`, chunk, {
+          headers: { ...await getHeaders(), 'Content-Type': contentType },
+        });
+      },
+      startSession: async () => {
+        const session = await client.post(`${itemUrl}/createUploadSession`, {
+          item: { '@microsoft.graph.conflictBehavior': 'replace' },
+        }, { headers: await getHeaders() });
+        return { uploadId: crypto.randomUUID(), uploadUrl: session.data.uploadUrl as string };
+      },
+      putChunk: async ({ uploadUrl }, chunk, offset) => {
+        // The upload URL is pre-authenticated, sending the bearer token is not allowed
+        const response = await client.put(uploadUrl!, chunk, {
+          maxBodyLength: Infinity,
+          headers: {
+            'Content-Length': chunk.length,
+            'Content-Range': `bytes ${offset}-${offset + chunk.length - 1}/${total}`,
+          },
+        });
+        // Graph answers chunks before the last one with the ranges it still expects, e.g. ["26-"]
+        const expected = parseInt(response.data?.nextExpectedRanges?.[0], 10);
+        return Number.isFinite(expected) ? expected : offset + chunk.length;
+      },
+      cancelSession: async ({ uploadUrl }) => {
+        await client.delete(uploadUrl!);
+      },
+    }, uploads);
+
+    logger.info('File uploaded to drive', { folderPath, fileName, resumed });
+  } catch (error) {
+    handleGraphError(error, 'uploading media file');
+  }
+}
+
+/**
+ * Upload an object as a JSON file to the specified drive folder.
+ * @param {string} driveId - ID of the drive (document library).
+ * @param {string} folderPath - The path to the folder where the file will be uploaded.
+ * @param {string} fileName - The name of the JSON file to be created.
+ * @param {object} data - The object to be stored in the JSON file.
+ * @returns {Promise<void>} - Promise that resolves when the JSON file is uploaded successfully.
+ */
+export const uploadObjectAsJSONToDrive = async (driveId: string, folderPath: string, fileName: string, data: any) => {
+  if (!data) {
+    logger.warn('Cannot upload empty file', { fileName });
+    return;
+  }
+  await uploadFileToDrive(driveId, folderPath, fileName, Buffer.from(JSON.stringify(data)), 'application/json');
+  logger.info('Object uploaded as JSON file to drive', { folderPath, fileName });
+}
+
+/**
+ * Download a file from the drive.
+ * @param {string} driveId - ID of the drive (document library).
+ * @param {string} path - Path of the file.
+ * @returns {Promise<Buffer>} - The content of the file.
+ * @throws {Error} - If the file does not exist or there is an error with the request.
+ */
+export const downloadFileFromDrive = async (driveId: string, path: string) => {
+  try {
+    const response = await client.get(`${GRAPH_URL}/drives/${driveId}/root${toPathSegment(path)}/content`, {
+      headers: await getHeaders(),
+      responseType: 'arraybuffer',
+    });
+    return Buffer.from(response.data);
+  } catch (error) {
+    return handleGraphError(error, 'downloading file');
+  }
+}
+
+/**
+ * Download a file from the drive as a stream.
+ * @param {string} driveId - ID of the drive (document library).
+ * @param {string} path - Path of the file.
+ * @returns {Promise<NodeJS.ReadableStream>} - The content of the file.
+ * @throws {Error} - If the file does not exist or there is an error with the request.
+ */
+export const streamFileFromDrive = async (driveId: string, path: string) => {
+  try {
+    const response = await client.get(`${GRAPH_URL}/drives/${driveId}/root${toPathSegment(path)}/content`, {
+      headers: await getHeaders(),
+      responseType: 'stream',
+    });
+    return response.data as NodeJS.ReadableStream;
+  } catch (error) {
+    return handleGraphError(error, 'downloading file');
+  }
+}
+
+/**
+ * Delete a file or a folder with everything inside it from the drive.
+ * @param {string} driveId - ID of the drive (document library).
+ * @param {string} path - Path of the file or folder.
+ * @returns {Promise<void>} - Promise that resolves when the item is deleted or did not exist.
+ * @throws {Error} - If there is an error with the request.
+ */
+export const deleteFromDrive = async (driveId: string, path: string) => {
+  if (!splitPath(path).length)
+    throw new Error('Refusing to delete the root of the drive');
+  try {
+    await client.delete(`${GRAPH_URL}/drives/${driveId}/root${toPathSegment(path)}`, {
+      headers: await getHeaders(),
+    });
+    logger.info('Deleted from drive', { path });
+  } catch (error) {
+    if (isAxiosError(error) && error.response?.status === 404) {
+      return;
+    }
+    handleGraphError(error, 'deleting drive item');
+  }
+}
+
+/**
+ * List the files and subfolders of a drive folder.
+ * @param {string} driveId - ID of the drive (document library).
+ * @param {string} path - Path of the folder.
+ * @returns {Promise<StorageEntry[]>} - The entries of the folder.
+ * @throws {Error} - If there is an error with the request.
+ */
+export const listFolderInDrive = async (driveId: string, path: string) => {
+  const folder = await getDriveItemByPath(driveId, path);
+  if (!folder)
+    return [];
+  const entries: StorageEntry[] = [];
+  try {
+    let url: string | undefined = `${GRAPH_URL}/drives/${driveId}/items/${folder.id}/children`;
+    while (url) {
+      const response: any = await client.get(url, { headers: await getHeaders() });
+      for (const item of response.data.value) {
+        entries.push(item.folder ? { name: item.name, isFolder: true } : { name: item.name, isFolder: false, size: item.size });
+      }
+      url = response.data['@odata.nextLink'];
+    }
+  } catch (error) {
+    handleGraphError(error, 'listing folder');
+  }
+  return entries;
+}
+
+/**
+ * Get the authorization headers for a Graph request.
+ * @returns {Promise<object>} - The request headers.
+ */
+const getHeaders = async () => ({
+  'Authorization': `Bearer ${await getGraphAccessToken()}`,
+  'Accept': 'application/json',
+});
+
+/**
+ * Split a folder path into its non-empty segments.
+ * @param {string} path - The folder path.
+ * @returns {string[]} - The path segments.
+ */
+const splitPath = (path: string) => path.split('/').filter(Boolean);
+
+/**
+ * Build the path-based addressing segment for a drive item, e.g. ":/KYC%20Details/Successful:".
+ * @param {string} path - Path of the drive item relative to the drive root.
+ * @returns {string} - The URL segment.
+ */
+const toPathSegment = (path: string) => {
+  const segments = splitPath(path);
+  return segments.length ? `:/${segments.map(encodeURIComponent).join('/')}:` : '';
+}
+
+/**
+ * Handles Graph API errors.
+ * @param {Error} error - The Axios error.
+ * @param {string} operation - The operation where the error occurred.
+ * @throws {Error} - Throws the appropriate error message based on the Axios error.
+ */
+const handleGraphError = (error: any, operation: string): never => {
+  if (isAxiosError(error) && error.response?.data?.error?.message) {
+    throw new Error(`Graph API error while ${operation}: ${error.response.data.error.message}`);
+  }
+  throw error;
+}
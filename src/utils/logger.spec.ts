@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import logger, { getCorrelationId, redact, redactValues, runWithCorrelationId } from './logger';
+
+describe('redact', () => {
+  it('masks personal data fields, case-insensitively', () => {
+    expect(redact({ firstName: 'Jane', LASTNAME: 'Doe', idNumber: 12345, status: 'approved', person: null })).toEqual({
+      firstName: '[redacted]',
+      LASTNAME: '[redacted]',
+      idNumber: '[redacted]',
+      status: 'approved',
+      person: null,
+    });
+  });
+
+  it('redacts nested objects and arrays', () => {
+    expect(redact({ verification: { person: { fullName: 'Jane Doe' }, documents: [{ number: 'X123' }] } }))
+      .toEqual({ verification: { person: { fullName: '[redacted]' }, documents: [{ number: '[redacted]' }] } });
+  });
+
+  it('masks URL fields and the query strings of URLs in strings', () => {
+    expect(redact({ url: 'https://media.veriff.com/1' })).toEqual({ url: '[redacted]' });
+    expect(redact('Downloading https://media.veriff.com/v1/media/1?token=abc#x failed'))
+      .toBe('Downloading https://media.veriff.com/v1/media/1?[redacted] failed');
+  });
+
+  it('reduces errors to their name, message, code, status and stack', () => {
+    const error = Object.assign(new Error('Request failed'), { code: 'ERR_BAD_RESPONSE', response: { status: 500, data: { firstName: 'Jane' } }, config: { headers: { 'X-AUTH-CLIENT': 'key' } } });
+    const redacted = redact(error) as Record<string, unknown>;
+
+    expect(redacted).toMatchObject({ name: 'Error', message: 'Request failed', code: 'ERR_BAD_RESPONSE', status: 500 });
+    expect(Object.keys(redacted).sort()).toEqual(['code', 'message', 'name', 'stack', 'status']);
+  });
+
+  it('leaves out binary data and deeply nested values', () => {
+    expect(redact({ content: Buffer.from('image') })).toEqual({ content: '[binary]' });
+    expect(redact({ a: { b: { c: { d: { e: { f: { g: 1 } } } } } } })).toEqual({ a: { b: { c: { d: { e: { f: '[truncated]' } } } } } });
+  });
+});
+
+describe('correlation IDs', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('are only set while a request or job runs', () => {
+    expect(getCorrelationId()).toBeUndefined();
+    expect(runWithCorrelationId('job-1', () => getCorrelationId())).toBe('job-1');
+    expect(runWithCorrelationId(undefined, () => getCorrelationId())).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('are written with every log entry, with the values seen in the request masked', () => {
+    const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    runWithCorrelationId('job-1', () => {
+      redactValues('Jane Doe', 'CUST-1', 'ab', null);
+      logger.info('Archived session of Jane Doe to KYC Details/Approved/CUST-1_session-1', { folder: 'KYC Details/Approved/jane doe' });
+    });
+    // Values are only masked in the request they were seen in
+    logger.info('Archived session of Jane Doe');
+
+    const [first, second] = write.mock.calls.map(([line]) => JSON.parse(String(line)));
+    expect(first).toMatchObject({
+      level: 'info',
+      correlationId: 'job-1',
+      message: 'Archived session of [redacted] to KYC Details/Approved/[redacted]_session-1',
+      folder: 'KYC Details/Approved/[redacted]',
+    });
+    expect(second.message).toBe('Archived session of Jane Doe');
+    expect(second).not.toHaveProperty('correlationId');
+  });
+
+  it('write warnings and errors to stderr', () => {
+    const stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    logger.warn('Retrying');
+    logger.error('Failed', { error: new Error('Veriff is down') });
+
+    expect(stdout).not.toHaveBeenCalled();
+    expect(stderr.mock.calls.map(([line]) => JSON.parse(String(line)).level)).toEqual(['warn', 'error']);
+  });
+});
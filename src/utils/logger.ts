@@ -0,0 +1,168 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { AxiosInstance } from 'axios';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+dotenv.config();
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+interface LogContext {
+  correlationId: string; // ID shared by all log entries of a request or job.
+  redactedValues: Set<string>; // Personal data seen while handling the request or job, masked wherever it appears.
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const { LOG_LEVEL = 'info' } = process.env;
+const minLevel = LEVELS[LOG_LEVEL as LogLevel] ?? LEVELS.info;
+
+const REDACTED = '[redacted]';
+// Fields that hold personal data, compared case-insensitively
+const PII_KEYS = new Set([
+  'name', 'firstname', 'lastname', 'fullname', 'personname', 'idnumber', 'number', 'documentnumber',
+  'dateofbirth', 'yearofbirth', 'placeofbirth', 'address', 'fulladdress', 'email', 'phone', 'phonenumber',
+]);
+// Fields that hold URLs, which may be signed or point to media files
+const URL_KEYS = new Set(['url', 'sessionurl', 'uploadurl', 'mediaurl']);
+const URL_QUERY = /(https?:\/\/[^\s?#'"]+)[?#][^\s'"]*/g;
+const MIN_REDACTED_LENGTH = 3;
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run a function with a correlation ID. Every log entry written while it runs, including in the Veriff API and
+ * storage clients, carries the ID.
+ * @param {string} correlationId - The correlation ID, a new one if not given.
+ * @param {Function} fn - The function.
+ * @returns {R} - The result of the function.
+ */
+export const runWithCorrelationId = <R>(correlationId: string | undefined, fn: () => R) =>
+  storage.run({ correlationId: correlationId || crypto.randomUUID(), redactedValues: new Set() }, fn);
+
+/**
+ * Get the correlation ID of the current request or job.
+ * @returns {string | undefined} - The correlation ID, undefined outside of a request or job.
+ */
+export const getCorrelationId = () => storage.getStore()?.correlationId;
+
+/**
+ * Send the correlation ID with every request of an HTTP client, so that requests can be traced in the logs of the other side.
+ * @param {AxiosInstance} instance - The HTTP client.
+ * @param {string} header - Name of the header, e.g. client-request-id for SharePoint and Microsoft Graph.
+ * @returns {AxiosInstance} - The same HTTP client.
+ */
+export const traceRequests = (instance: AxiosInstance, header: string) => {
+  instance.interceptors.request.use(config => {
+    const correlationId = getCorrelationId();
+    if (correlationId)
+      config.headers.set(header, correlationId);
+    return config;
+  });
+  return instance;
+}
+
+/**
+ * Mask personal data in every later log entry of the current request or job, e.g. the name of the verified person,
+ * which also appears in archive folder paths.
+ * @param {unknown[]} values - The values. Empty and very short values are ignored.
+ */
+export const redactValues = (...values: unknown[]) => {
+  const context = storage.getStore();
+  if (!context)
+    return;
+  for (const value of values) {
+    if ((typeof value === 'string' || typeof value === 'number') && String(value).trim().length >= MIN_REDACTED_LENGTH)
+      context.redactedValues.add(String(value).trim());
+  }
+}
+
+/**
+ * Mask personal data and URL query strings in a string.
+ * @param {string} text - The string.
+ * @returns {string} - The redacted string.
+ */
+const redactString = (text: string) => {
+  let redacted = text.replace(URL_QUERY, `$1?${REDACTED}`);
+  for (const value of storage.getStore()?.redactedValues || []) {
+    redacted = redacted.replace(new RegExp(value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi'), REDACTED);
+  }
+  return redacted;
+}
+
+/**
+ * Redact a value for logging. Personal data fields and URL fields are masked, errors are reduced to
+ * their name, message, status and stack so that request configurations and response bodies are never logged.
+ * @param {unknown} value - The value.
+ * @param {number} depth - Nesting depth, deeper values are left out.
+ * @returns {unknown} - The redacted value.
+ */
+export const redact = (value: unknown, depth = 0): unknown => {
+  if (typeof value === 'string')
+    return redactString(value);
+  if (value === null || typeof value !== 'object')
+    return value;
+  if (depth > 5)
+    return '[truncated]';
+  if (value instanceof Error) {
+    const error = value as any;
+    return {
+      name: error.name,
+      message: redactString(String(error.message)),
+      code: error.code,
+      status: error.status ?? error.response?.status,
+      stack: error.stack && redactString(error.stack),
+    };
+  }
+  if (Array.isArray(value))
+    return value.map(item => redact(item, depth + 1));
+  if (Buffer.isBuffer(value) || typeof (value as any).pipe === 'function')
+    return '[binary]';
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (item === undefined)
+      continue;
+    const normalizedKey = key.toLowerCase();
+    if (PII_KEYS.has(normalizedKey) && item !== null && typeof item !== 'object')
+      result[key] = REDACTED;
+    else if (URL_KEYS.has(normalizedKey) && typeof item === 'string')
+      result[key] = REDACTED;
+    else
+      result[key] = redact(item, depth + 1);
+  }
+  return result;
+}
+
+/**
+ * Write a log entry as a single JSON line, to stderr for warnings and errors and to stdout otherwise.
+ * @param {LogLevel} level - Level of the entry.
+ * @param {string} message - What happened.
+ * @param {Record<string, unknown>} fields - Additional data, redacted before it is written.
+ */
+const write = (level: LogLevel, message: string, fields: Record<string, unknown> = {}) => {
+  if (LEVELS[level] < minLevel)
+    return;
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    message: redactString(message),
+    correlationId: getCorrelationId(),
+    ...(redact(fields) as Record<string, unknown>),
+  };
+  const line = `${JSON.stringify(entry)}\n`;
+  if (LEVELS[level] >= LEVELS.warn)
+    process.stderr.write(line);
+  else
+    process.stdout.write(line);
+}
+
+/**
+ * Structured JSON logger. The minimum level is set with the LOG_LEVEL environment variable (default: info).
+ */
+const logger = {
+  debug: (message: string, fields?: Record<string, unknown>) => write('debug', message, fields),
+  info: (message: string, fields?: Record<string, unknown>) => write('info', message, fields),
+  warn: (message: string, fields?: Record<string, unknown>) => write('warn', message, fields),
+  error: (message: string, fields?: Record<string, unknown>) => write('error', message, fields),
+};
+
+export default logger;
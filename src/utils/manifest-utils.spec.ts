@@ -0,0 +1,150 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MANIFEST_FILE_NAME, computeRootHash, sha256, signRootHash, verifyManifest } from './manifest-utils';
+import ArchiveManifests from '../services/ArchiveManifests';
+import LocalStorage from '../services/storage/LocalStorage';
+import { ManifestFile } from '../types';
+
+// The signing key is read when the module is imported
+vi.hoisted(() => {
+  process.env.MANIFEST_SIGNING_KEY = 'signing-key';
+});
+
+const SESSION_ID = 'session-1';
+const FOLDER = 'KYC Details/Approved/CUST-1_session-1';
+
+/**
+ * Build the manifest entry of a file.
+ */
+const entry = (filePath: string, content: string, mediaId: string | null = null): ManifestFile => ({
+  path: filePath,
+  sha256: sha256(content),
+  size: Buffer.byteLength(content),
+  contentType: mediaId ? 'image/jpeg' : 'application/json',
+  mediaId,
+  archivedAt: '2024-01-01T00:00:00.000Z',
+});
+
+describe('computeRootHash', () => {
+  const files = [entry('front.jpeg', 'front', 'media-1'), entry('sessionDecision.json', '{}')];
+
+  it('changes when an entry is changed, removed or reordered, or the chain is different', () => {
+    const rootHash = computeRootHash({ sessionId: SESSION_ID, folder: FOLDER, files, previousRootHash: null });
+
+    expect(rootHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(computeRootHash({ sessionId: SESSION_ID, folder: FOLDER, files: [...files], previousRootHash: null })).toBe(rootHash);
+    expect(computeRootHash({ sessionId: SESSION_ID, folder: FOLDER, files: [{ ...files[0], size: 6 }, files[1]], previousRootHash: null })).not.toBe(rootHash);
+    expect(computeRootHash({ sessionId: SESSION_ID, folder: FOLDER, files: files.slice(1), previousRootHash: null })).not.toBe(rootHash);
+    expect(computeRootHash({ sessionId: SESSION_ID, folder: FOLDER, files: [...files].reverse(), previousRootHash: null })).not.toBe(rootHash);
+    expect(computeRootHash({ sessionId: SESSION_ID, folder: FOLDER, files, previousRootHash: rootHash })).not.toBe(rootHash);
+    expect(computeRootHash({ sessionId: 'session-2', folder: FOLDER, files, previousRootHash: null })).not.toBe(rootHash);
+  });
+});
+
+describe('ArchiveManifests and verifyManifest', () => {
+  let directory: string;
+  let storage: LocalStorage;
+  let manifests: ArchiveManifests;
+
+  /**
+   * Archive a file and record it for the manifest.
+   */
+  const archive = async (fileName: string, content: string) => {
+    await storage.putBinary(FOLDER, fileName, Buffer.from(content), 'application/octet-stream');
+    await manifests.addFile(SESSION_ID, FOLDER, entry(fileName, content));
+  };
+
+  /**
+   * Build the pending manifests, store them in their folders and mark them as written.
+   */
+  const writeManifests = async () => {
+    const pending = await manifests.build(SESSION_ID);
+    for (const manifest of pending) {
+      await storage.putJson(manifest.manifest.folder, MANIFEST_FILE_NAME, manifest.manifest);
+      await manifests.markWritten(manifest);
+    }
+    return pending.map(({ manifest }) => manifest);
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'manifests-'));
+    storage = new LocalStorage(`${directory}/archive`);
+    manifests = new ArchiveManifests(`${directory}/manifests`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('verifies a signed manifest of an untouched folder', async () => {
+    await archive('sessionDecision.json', '{"status":"approved"}');
+    await archive('front.jpeg', 'front');
+    const [manifest] = await writeManifests();
+
+    expect(manifest.files.map(file => file.path)).toEqual(['front.jpeg', 'sessionDecision.json']);
+    expect(manifest.signature).toBe(signRootHash(manifest.rootHash));
+    expect(await verifyManifest(storage, FOLDER)).toEqual({
+      folder: FOLDER,
+      valid: true,
+      manifestFound: true,
+      chainValid: true,
+      signatureValid: true,
+      files: [{ path: 'front.jpeg', status: 'ok' }, { path: 'sessionDecision.json', status: 'ok' }],
+      unlisted: [],
+    });
+  });
+
+  it('chains a manifest to the previous one, and only rebuilds folders with new files', async () => {
+    await archive('front.jpeg', 'front');
+    const [first] = await writeManifests();
+    expect(await writeManifests()).toEqual([]);
+
+    await archive('back.jpeg', 'back');
+    const [second] = await writeManifests();
+    expect(second.previousRootHash).toBe(first.rootHash);
+    expect(second.files.map(file => file.path)).toEqual(['back.jpeg', 'front.jpeg']);
+    expect((await verifyManifest(storage, FOLDER)).valid).toBe(true);
+  });
+
+  it('detects modified, truncated, missing and unlisted files', async () => {
+    await archive('front.jpeg', 'front');
+    await archive('back.jpeg', 'back');
+    await archive('selfie.jpeg', 'selfie');
+    await writeManifests();
+    const archiveFolder = `${directory}/archive/${FOLDER}`;
+    fs.writeFileSync(`${archiveFolder}/front.jpeg`, 'fronT');
+    fs.writeFileSync(`${archiveFolder}/back.jpeg`, 'bac');
+    fs.rmSync(`${archiveFolder}/selfie.jpeg`);
+    fs.mkdirSync(`${archiveFolder}/attempt-2`);
+    fs.writeFileSync(`${archiveFolder}/attempt-2/face.jpeg.enc`, 'face');
+
+    const result = await verifyManifest(storage, FOLDER);
+    expect(result).toMatchObject({ valid: false, chainValid: true, signatureValid: true, unlisted: ['attempt-2/face.jpeg'] });
+    expect(result.files).toEqual([
+      { path: 'back.jpeg', status: 'modified' },
+      { path: 'front.jpeg', status: 'modified' },
+      { path: 'selfie.jpeg', status: 'missing' },
+    ]);
+  });
+
+  it('detects a manifest that was edited or re-signed without the key', async () => {
+    await archive('front.jpeg', 'front');
+    const [manifest] = await writeManifests();
+    fs.writeFileSync(`${directory}/archive/${FOLDER}/front.jpeg`, 'forged');
+
+    const edited = { ...manifest, files: [entry('front.jpeg', 'forged')] };
+    await storage.putJson(FOLDER, MANIFEST_FILE_NAME, edited);
+    expect(await verifyManifest(storage, FOLDER)).toMatchObject({ valid: false, chainValid: false, signatureValid: true });
+
+    const rehashed = { ...edited, rootHash: computeRootHash(edited), signature: 'ab'.repeat(32) };
+    await storage.putJson(FOLDER, MANIFEST_FILE_NAME, rehashed);
+    expect(await verifyManifest(storage, FOLDER)).toMatchObject({ valid: false, chainValid: true, signatureValid: false });
+  });
+
+  it('reports folders without a manifest', async () => {
+    await storage.putBinary(FOLDER, 'front.jpeg', Buffer.from('front'), 'image/jpeg');
+    expect(await verifyManifest(storage, FOLDER)).toMatchObject({ valid: false, manifestFound: false });
+  });
+});
@@ -0,0 +1,121 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { ArchiveManifest, ManifestCheck, ManifestFile, ManifestVerification, StorageBackend } from '../types';
+import { ENCRYPTED_EXTENSION } from './encryption-utils';
+import { hashStream } from './stream-utils';
+dotenv.config();
+
+const { MANIFEST_SIGNING_KEY } = process.env;
+
+export const MANIFEST_FILE_NAME = 'manifest.json';
+
+/**
+ * Hash content with SHA-256.
+ * @param {Buffer | string} content - The content.
+ * @returns {string} - The hash, hex.
+ */
+export const sha256 = (content: Buffer | string) => crypto.createHash('sha256').update(content).digest('hex');
+
+/**
+ * Serialize a file entry with a fixed field order, so that the hash does not depend on how the manifest was parsed.
+ * @param {ManifestFile} file - The file entry.
+ * @returns {string} - The serialized entry.
+ */
+const serializeFile = ({ path, sha256, size, contentType, mediaId, archivedAt }: ManifestFile) =>
+  JSON.stringify([path, sha256, size, contentType, mediaId, archivedAt]);
+
+/**
+ * Compute the root hash of a manifest: a hash chain that starts with the session, the folder and the root hash of the
+ * previous manifest, and takes in one file entry after the other. Changing, adding, removing or reordering an entry
+ * changes the root hash.
+ * @param {Pick<ArchiveManifest, 'sessionId' | 'folder' | 'files' | 'previousRootHash'>} manifest - The manifest.
+ * @returns {string} - The root hash, hex.
+ */
+export const computeRootHash = ({ sessionId, folder, files, previousRootHash }: Pick<ArchiveManifest, 'sessionId' | 'folder' | 'files' | 'previousRootHash'>) =>
+  files.reduce((hash, file) => sha256(`${hash}\n${serializeFile(file)}`), sha256(JSON.stringify([sessionId, folder, previousRootHash])));
+
+/**
+ * Sign a root hash with the MANIFEST_SIGNING_KEY.
+ * @param {string} rootHash - The root hash.
+ * @returns {string | null} - HMAC-SHA256 of the root hash, hex. Null if no key is configured.
+ */
+export const signRootHash = (rootHash: string) =>
+  MANIFEST_SIGNING_KEY ? crypto.createHmac('sha256', MANIFEST_SIGNING_KEY).update(rootHash).digest('hex') : null;
+
+/**
+ * Get the archive path of a file listed in a manifest.
+ * @param {string} folder - The session folder.
+ * @param {string} filePath - Path of the file as listed in the manifest.
+ * @returns {string} - The archive path.
+ */
+export const resolveManifestPath = (folder: string, filePath: string) =>
+  filePath.startsWith('/') ? filePath.slice(1) : `${folder}/${filePath}`;
+
+/**
+ * List the files inside a folder, recursively.
+ * @param {StorageBackend} storage - The storage backend.
+ * @param {string} folder - The folder.
+ * @param {string} prefix - Path of the folder relative to the folder the listing started at.
+ * @returns {Promise<string[]>} - Relative paths of the files, without the extension of encrypted files.
+ */
+const listFiles = async (storage: StorageBackend, folder: string, prefix = ''): Promise<string[]> => {
+  const files: string[] = [];
+  for (const entry of await storage.list(folder)) {
+    const relativePath = `${prefix}${entry.name}`;
+    if (entry.isFolder)
+      files.push(...await listFiles(storage, `${folder}/${entry.name}`, `${relativePath}/`));
+    else
+      files.push(relativePath.endsWith(ENCRYPTED_EXTENSION) ? relativePath.slice(0, -ENCRYPTED_EXTENSION.length) : relativePath);
+  }
+  return files;
+}
+
+/**
+ * Hash a stored file while it is downloaded, without holding it in memory.
+ * @param {StorageBackend} storage - The storage backend.
+ * @param {string} filePath - Path of the file.
+ * @returns {Promise<{ sha256: string, size: number }>} - SHA-256 of the content, hex, and its size in bytes.
+ */
+const hashFile = async (storage: StorageBackend, filePath: string) => {
+  const hashed = hashStream(await storage.readStream(filePath));
+  for await (const _ of hashed.stream);
+  return hashed.digest();
+}
+
+/**
+ * Compare the contents of a session folder with its manifest. Every listed file is read and hashed while it is
+ * downloaded, and the folder is searched for files that the manifest does not list.
+ * @param {StorageBackend} storage - The storage backend, decrypting files if the archive is encrypted.
+ * @param {string} folder - The session folder.
+ * @returns {Promise<ManifestVerification>} - The result of the verification.
+ */
+export const verifyManifest = async (storage: StorageBackend, folder: string): Promise<ManifestVerification> => {
+  const result: ManifestVerification = { folder, valid: false, manifestFound: false, chainValid: false, signatureValid: null, files: [], unlisted: [] };
+  if (!await storage.exists(`${folder}/${MANIFEST_FILE_NAME}`))
+    return result;
+  const manifest: ArchiveManifest = JSON.parse((await storage.read(`${folder}/${MANIFEST_FILE_NAME}`)).toString('utf8'));
+  result.manifestFound = true;
+  result.chainValid = computeRootHash(manifest) === manifest.rootHash;
+  const expectedSignature = signRootHash(manifest.rootHash);
+  if (expectedSignature) {
+    const expected = Buffer.from(expectedSignature, 'hex');
+    const received = Buffer.from(manifest.signature || '', 'hex');
+    result.signatureValid = received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  }
+
+  for (const file of manifest.files) {
+    const filePath = resolveManifestPath(folder, file.path);
+    let status: ManifestCheck['status'] = 'missing';
+    if (await storage.exists(filePath)) {
+      // An encrypted file that was tampered with fails to decrypt
+      const content = await hashFile(storage, filePath).catch(() => null);
+      status = content && content.size === file.size && content.sha256 === file.sha256 ? 'ok' : 'modified';
+    }
+    result.files.push({ path: file.path, status });
+  }
+
+  const listed = new Set(manifest.files.map(file => file.path));
+  result.unlisted = (await listFiles(storage, folder)).filter(file => file !== MANIFEST_FILE_NAME && !listed.has(file));
+  result.valid = result.chainValid && result.signatureValid !== false && result.files.every(file => file.status === 'ok') && result.unlisted.length === 0;
+  return result;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { Counter, Gauge, Histogram, onCollect, renderMetrics } from './metrics';
+
+describe('metrics', () => {
+  it('renders counters per label set, with labels in declared order', async () => {
+    const counter = new Counter('test_webhooks_total', 'Webhooks received.', ['route', 'outcome']);
+    counter.inc({ outcome: 'accepted', route: 'decision' });
+    counter.inc({ route: 'decision', outcome: 'accepted' }, 2);
+    counter.inc({ route: 'event', outcome: 'rejected' });
+
+    expect(counter.render()).toEqual([
+      'test_webhooks_total{route="decision",outcome="accepted"} 3',
+      'test_webhooks_total{route="event",outcome="rejected"} 1',
+    ]);
+    const rendered = await renderMetrics();
+    expect(rendered).toContain('# HELP test_webhooks_total Webhooks received.\n# TYPE test_webhooks_total counter\n');
+  });
+
+  it('escapes label values', () => {
+    const counter = new Counter('test_escaped_total', 'Escaped labels.', ['value']);
+    counter.inc({ value: 'a "quoted"\\path\nline' });
+    expect(counter.render()).toEqual(['test_escaped_total{value="a \\"quoted\\"\\\\path\\nline"} 1']);
+  });
+
+  it('renders metrics without labels', () => {
+    const counter = new Counter('test_plain_total', 'Without labels.');
+    counter.inc();
+    expect(counter.render()).toEqual(['test_plain_total 1']);
+  });
+
+  it('renders cumulative histogram buckets, sum and count', () => {
+    const histogram = new Histogram('test_duration_seconds', 'Durations.', ['endpoint'], [0.1, 1]);
+    histogram.observe({ endpoint: '/sessions/:id/decision' }, 0.05);
+    histogram.observe({ endpoint: '/sessions/:id/decision' }, 0.5);
+    histogram.observe({ endpoint: '/sessions/:id/decision' }, 2);
+
+    expect(histogram.render()).toEqual([
+      'test_duration_seconds_bucket{endpoint="/sessions/:id/decision",le="0.1"} 1',
+      'test_duration_seconds_bucket{endpoint="/sessions/:id/decision",le="1"} 2',
+      'test_duration_seconds_bucket{endpoint="/sessions/:id/decision",le="+Inf"} 3',
+      'test_duration_seconds_sum{endpoint="/sessions/:id/decision"} 2.55',
+      'test_duration_seconds_count{endpoint="/sessions/:id/decision"} 3',
+    ]);
+  });
+
+  it('updates gauges from collectors before rendering', async () => {
+    const gauge = new Gauge('test_queue_jobs', 'Queued jobs.', ['status']);
+    let pending = 0;
+    onCollect(() => gauge.set({ status: 'pending' }, ++pending));
+
+    expect(await renderMetrics()).toContain('test_queue_jobs{status="pending"} 1\n');
+    expect(await renderMetrics()).toContain('test_queue_jobs{status="pending"} 2\n');
+  });
+});
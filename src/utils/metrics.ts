@@ -0,0 +1,189 @@
+type Labels = Record<string, string | number>;
+
+interface Metric {
+  render(): string[]; // Lines of the metric in the Prometheus text format, without HELP and TYPE.
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+}
+
+// Buckets in seconds, from fast API calls up to large chunked uploads
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+const metrics: Metric[] = [];
+const collectors: (() => Promise<void> | void)[] = [];
+
+/**
+ * Serialize label values to a series key, in the order the metric declares its labels.
+ * @param {string[]} labelNames - Label names of the metric.
+ * @param {Labels} labels - Label values.
+ * @returns {string} - The label set in the Prometheus text format, e.g. {route="decision"}, empty if there are no labels.
+ */
+const formatLabels = (labelNames: string[], labels: Labels) => {
+  if (!labelNames.length)
+    return '';
+  const pairs = labelNames.map(name => `${name}="${String(labels[name] ?? '').replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`);
+  return `{${pairs.join(',')}}`;
+}
+
+/**
+ * Counter that only goes up, e.g. the number of webhooks received.
+ */
+export class Counter implements Metric {
+  public readonly type = 'counter';
+  private values = new Map<string, number>();
+
+  /**
+   * @param {string} name - Name of the metric.
+   * @param {string} help - What the metric counts.
+   * @param {string[]} labelNames - Names of the labels the series are split by.
+   */
+  constructor(public readonly name: string, public readonly help: string, private labelNames: string[] = []) {
+    metrics.push(this);
+  }
+
+  /**
+   * Increase the counter.
+   * @param {Labels} labels - Label values of the series.
+   * @param {number} value - Amount to add (default: 1).
+   */
+  public inc(labels: Labels = {}, value = 1) {
+    const key = formatLabels(this.labelNames, labels);
+    this.values.set(key, (this.values.get(key) || 0) + value);
+  }
+
+  public render() {
+    return [...this.values].map(([labels, value]) => `${this.name}${labels} ${value}`);
+  }
+}
+
+/**
+ * Gauge that is set to the current value, e.g. the number of queued jobs.
+ */
+export class Gauge implements Metric {
+  public readonly type = 'gauge';
+  private values = new Map<string, number>();
+
+  /**
+   * @param {string} name - Name of the metric.
+   * @param {string} help - What the metric measures.
+   * @param {string[]} labelNames - Names of the labels the series are split by.
+   */
+  constructor(public readonly name: string, public readonly help: string, private labelNames: string[] = []) {
+    metrics.push(this);
+  }
+
+  /**
+   * Set the value of a series.
+   * @param {Labels} labels - Label values of the series.
+   * @param {number} value - The value.
+   */
+  public set(labels: Labels, value: number) {
+    this.values.set(formatLabels(this.labelNames, labels), value);
+  }
+
+  public render() {
+    return [...this.values].map(([labels, value]) => `${this.name}${labels} ${value}`);
+  }
+}
+
+/**
+ * Histogram of observed values, e.g. request durations.
+ */
+export class Histogram implements Metric {
+  public readonly type = 'histogram';
+  private series = new Map<string, { labels: Labels, buckets: number[], sum: number, count: number }>();
+
+  /**
+   * @param {string} name - Name of the metric.
+   * @param {string} help - What the metric measures.
+   * @param {string[]} labelNames - Names of the labels the series are split by.
+   * @param {number[]} buckets - Upper bounds of the buckets, ascending (default: durations in seconds).
+   */
+  constructor(public readonly name: string, public readonly help: string, private labelNames: string[] = [], private buckets = DURATION_BUCKETS) {
+    metrics.push(this);
+  }
+
+  /**
+   * Record a value.
+   * @param {Labels} labels - Label values of the series.
+   * @param {number} value - The value.
+   */
+  public observe(labels: Labels, value: number) {
+    const key = formatLabels(this.labelNames, labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound)
+        series!.buckets[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  public render() {
+    const lines: string[] = [];
+    for (const [key, { labels, buckets, sum, count }] of this.series) {
+      buckets.forEach((value, i) => {
+        lines.push(`${this.name}_bucket${formatLabels([...this.labelNames, 'le'], { ...labels, le: this.buckets[i] })} ${value}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels([...this.labelNames, 'le'], { ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${key} ${sum}`);
+      lines.push(`${this.name}_count${key} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Register a function that updates gauges right before the metrics are rendered, e.g. from the job queue.
+ * @param {Function} collector - The function. Errors are rendered as a failed scrape.
+ */
+export const onCollect = (collector: () => Promise<void> | void) => {
+  collectors.push(collector);
+}
+
+/**
+ * Render every metric in the Prometheus text format.
+ * @returns {Promise<string>} - The metrics.
+ */
+export const renderMetrics = async () => {
+  for (const collector of collectors)
+    await collector();
+  const lines: string[] = [];
+  for (const metric of metrics) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.render());
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+export const webhooksReceived = new Counter(
+  'veriff_kyc_webhooks_total', 'Webhooks received, by route, Veriff event or decision code and outcome.', ['route', 'code', 'outcome'],
+);
+export const signatureFailures = new Counter(
+  'veriff_kyc_webhook_signature_failures_total', 'Webhooks rejected because the signature or API key was missing or invalid.', ['route'],
+);
+export const veriffRequestDuration = new Histogram(
+  'veriff_kyc_veriff_api_request_duration_seconds', 'Duration of Veriff API requests, by endpoint, API key and status.', ['endpoint', 'key', 'status'],
+);
+export const veriffRequestErrors = new Counter(
+  'veriff_kyc_veriff_api_errors_total', 'Failed Veriff API requests, by endpoint, API key and status.', ['endpoint', 'key', 'status'],
+);
+export const uploadBytes = new Counter(
+  'veriff_kyc_upload_bytes_total', 'Bytes uploaded to the archive, by storage backend and file kind.', ['backend', 'kind'],
+);
+export const uploadDuration = new Histogram(
+  'veriff_kyc_upload_duration_seconds', 'Duration of archive uploads, by storage backend, file kind and outcome.', ['backend', 'kind', 'outcome'],
+);
+export const queueDepth = new Gauge(
+  'veriff_kyc_job_queue_jobs', 'Jobs in the webhook job queue, by status.', ['status'],
+);
+export const jobsProcessed = new Counter(
+  'veriff_kyc_jobs_processed_total', 'Processing attempts of queued jobs, by job type and outcome.', ['type', 'outcome'],
+);
+export const notificationsSent = new Counter(
+  'veriff_kyc_notifications_total', 'Notifications sent on decisions, by channel type and outcome.', ['channel', 'outcome'],
+);
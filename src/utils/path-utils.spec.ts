@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { getArchiveLayout, renderFileNameTemplate, renderPathTemplate, sanitizePathSegment, validateTemplate } from './path-utils';
+import { ArchivePathValues } from '../types';
+
+const values: ArchivePathValues = {
+  decision: 'Approved',
+  vendorData: 'CUST-1',
+  name: 'Jane Doe',
+  sessionId: '1f2e3d4c-0000-0000-0000-000000000000',
+  date: new Date('2024-01-05T09:07:00Z'),
+};
+
+describe('renderPathTemplate', () => {
+  it('renders the default layout', () => {
+    expect(renderPathTemplate(getArchiveLayout('decision').sessionFolder, values))
+      .toBe('KYC Details/CUST-1_1f2e3d4c-0000-0000-0000-000000000000');
+  });
+
+  it('falls back to the next token of a chain and to "unknown"', () => {
+    expect(renderPathTemplate('{vendorData|name}', { ...values, vendorData: null })).toBe('Jane Doe');
+    expect(renderPathTemplate('{vendorData|name}', { ...values, vendorData: '  ', name: null })).toBe('unknown');
+  });
+
+  it('formats dates in UTC', () => {
+    expect(renderPathTemplate('{date:yyyy/MM}/{date:dd HH-mm}/{date}', values)).toBe('2024/01/05 09-07/2024-01-05');
+  });
+
+  it('keeps values from adding folders', () => {
+    expect(renderPathTemplate('KYC Details/{name}', { ...values, name: '../../Jane/Doe' })).toBe('KYC Details/_.._Jane_Doe');
+  });
+
+  it('inserts the rendered session folder as it is', () => {
+    const sessionFolder = renderPathTemplate(getArchiveLayout('decision').sessionFolder, values);
+    expect(renderPathTemplate(getArchiveLayout('decision').mediaFolder, { ...values, sessionFolder, attemptId: 'attempt-1' }))
+      .toBe(`${sessionFolder}/attempt-1/DecisionEvent`);
+  });
+
+  it('drops empty folders', () => {
+    expect(renderPathTemplate('KYC Details//{decision}/ ./', values)).toBe('KYC Details/Approved');
+  });
+});
+
+describe('renderFileNameTemplate', () => {
+  it('renders a single file name', () => {
+    expect(renderFileNameTemplate('{date:yyyy/MM}-{context}', { ...values, context: 'document-front' })).toBe('2024_01-document-front');
+    expect(renderFileNameTemplate('{context}', { ...values, context: '..' })).toBe('unknown');
+  });
+});
+
+describe('sanitizePathSegment', () => {
+  it('replaces characters SharePoint forbids', () => {
+    expect(sanitizePathSegment('Jane "JD" Doe: #1? 50%')).toBe('Jane _JD_ Doe_ _1_ 50_');
+    expect(sanitizePathSegment('line\nbreak\ttab')).toBe('line_break_tab');
+  });
+
+  it('trims leading and trailing spaces and dots', () => {
+    expect(sanitizePathSegment(' . Jane Doe. ')).toBe('Jane Doe');
+    expect(sanitizePathSegment('...')).toBe('');
+  });
+
+  it('suffixes reserved names', () => {
+    expect(sanitizePathSegment('CON')).toBe('CON_');
+    expect(sanitizePathSegment('lpt1')).toBe('lpt1_');
+    expect(sanitizePathSegment('desktop.ini')).toBe('desktop.ini_');
+    expect(sanitizePathSegment('Connor')).toBe('Connor');
+  });
+
+  it('defuses names SharePoint treats specially', () => {
+    expect(sanitizePathSegment('~$document')).toBe('_$document');
+    expect(sanitizePathSegment('a_vti_b')).toBe('a_vtib');
+  });
+
+  it('shortens long names', () => {
+    expect(sanitizePathSegment('a'.repeat(300))).toHaveLength(255);
+    expect(sanitizePathSegment(`${'a'.repeat(254)} b`)).toBe('a'.repeat(254));
+  });
+});
+
+describe('getArchiveLayout', () => {
+  it('takes templates from the environment', () => {
+    process.env.ARCHIVE_WATCHLIST_SCREENING_SESSION_FOLDER = 'Monitoring/{date:yyyy}/{sessionId}';
+    try {
+      expect(getArchiveLayout('watchlist-screening').sessionFolder).toBe('Monitoring/{date:yyyy}/{sessionId}');
+      expect(getArchiveLayout('watchlist-screening').mediaFolder).toBe('{sessionFolder}/WatchlistScreening');
+    } finally {
+      delete process.env.ARCHIVE_WATCHLIST_SCREENING_SESSION_FOLDER;
+    }
+  });
+});
+
+describe('validateTemplate', () => {
+  it('rejects unknown tokens', () => {
+    expect(() => validateTemplate('KYC Details/{vendorData|name}/{date:yyyy}')).not.toThrow();
+    expect(() => validateTemplate('KYC Details/{vendorData|email}')).toThrow('Unknown token "email"');
+  });
+});
@@ -0,0 +1,162 @@
+import dotenv from 'dotenv';
+import { ArchiveLayout, ArchivePathValues, WebhookType } from '../types';
+dotenv.config();
+
+const TOKEN_PATTERN = /\{([^{}]+)\}/g;
+
+// Tokens whose values are inserted as they are, because they are already made of valid path segments
+const PATH_TOKENS = ['sessionFolder'];
+const VALUE_TOKENS = ['decision', 'reasonCode', 'vendorData', 'name', 'sessionId', 'attemptId', 'context', 'mediaId', ...PATH_TOKENS];
+
+// Characters SharePoint (and Windows) do not allow in file and folder names
+const FORBIDDEN_CHARACTERS = /["*:<>?/\\|#%\u0000-\u001f]/g;
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d|desktop\.ini|\.lock)$/i;
+const MAX_SEGMENT_LENGTH = 255;
+
+// Every webhook of a session is filed in the same folder whatever its state, which is recorded in sessionState.json
+const DEFAULT_SESSION_FOLDER = 'KYC Details/{vendorData|name}_{sessionId}';
+const DEFAULT_MEDIA_FILE_NAME = '{context}';
+
+const DEFAULT_LAYOUTS: Record<WebhookType, ArchiveLayout> = {
+  'decision': {
+    sessionFolder: DEFAULT_SESSION_FOLDER,
+    mediaFolder: '{sessionFolder}/{attemptId}/DecisionEvent',
+    mediaFileName: DEFAULT_MEDIA_FILE_NAME,
+  },
+  'verification-event': {
+    sessionFolder: DEFAULT_SESSION_FOLDER,
+    mediaFolder: '{sessionFolder}/{attemptId}/VerificationEvent',
+    mediaFileName: DEFAULT_MEDIA_FILE_NAME,
+  },
+  'proof-of-address': {
+    sessionFolder: DEFAULT_SESSION_FOLDER,
+    mediaFolder: '{sessionFolder}/{attemptId}/ProofOfAddress',
+    mediaFileName: DEFAULT_MEDIA_FILE_NAME,
+  },
+  // Ongoing monitoring only archives JSON files, the media templates are unused
+  'watchlist-screening': {
+    sessionFolder: DEFAULT_SESSION_FOLDER,
+    mediaFolder: '{sessionFolder}/WatchlistScreening',
+    mediaFileName: DEFAULT_MEDIA_FILE_NAME,
+  },
+};
+
+const layouts = new Map<WebhookType, ArchiveLayout>();
+
+/**
+ * Get the archive layout of an event type. Each template can be overridden with the
+ * ARCHIVE_{TYPE}_SESSION_FOLDER, ARCHIVE_{TYPE}_MEDIA_FOLDER and ARCHIVE_{TYPE}_MEDIA_FILE_NAME environment variables,
+ * where TYPE is DECISION, VERIFICATION_EVENT, PROOF_OF_ADDRESS or WATCHLIST_SCREENING.
+ * @param {WebhookType} type - The event type.
+ * @returns {ArchiveLayout} - The templates of the event type.
+ * @throws {Error} - If a configured template uses an unknown token.
+ */
+export const getArchiveLayout = (type: WebhookType): ArchiveLayout => {
+  let layout = layouts.get(type);
+  if (!layout) {
+    const prefix = `ARCHIVE_${type.replace(/-/g, '_').toUpperCase()}`;
+    const defaults = DEFAULT_LAYOUTS[type];
+    layout = {
+      sessionFolder: process.env[`${prefix}_SESSION_FOLDER`] || defaults.sessionFolder,
+      mediaFolder: process.env[`${prefix}_MEDIA_FOLDER`] || defaults.mediaFolder,
+      mediaFileName: process.env[`${prefix}_MEDIA_FILE_NAME`] || defaults.mediaFileName,
+    };
+    Object.values(layout).forEach(validateTemplate);
+    layouts.set(type, layout);
+  }
+  return layout;
+}
+
+/**
+ * Check that a template only uses known tokens.
+ * @param {string} template - The template.
+ * @throws {Error} - If the template uses an unknown token.
+ */
+export const validateTemplate = (template: string) => {
+  for (const [, expression] of template.matchAll(TOKEN_PATTERN)) {
+    const [name] = expression.split(':');
+    if (name === 'date')
+      continue;
+    const unknown = name.split('|').filter(token => !VALUE_TOKENS.includes(token));
+    if (unknown.length)
+      throw new Error(`Unknown token "${unknown[0]}" in archive path template "${template}"`);
+  }
+}
+
+/**
+ * Render a folder path template. Supported tokens:
+ * - {decision}, {reasonCode}, {vendorData}, {name}, {sessionId}, {attemptId}, {context}, {mediaId} and {sessionFolder}
+ * - {a|b} to use the value of b when a is empty, e.g. {vendorData|name}
+ * - {date:format} with yyyy, MM, dd, HH and mm, e.g. {date:yyyy/MM}. The date is in UTC.
+ * Values are sanitized so that they cannot add folders or contain characters SharePoint forbids.
+ * Empty folders are dropped from the path.
+ * @param {string} template - The template.
+ * @param {ArchivePathValues} values - The token values.
+ * @returns {string} - The folder path.
+ */
+export const renderPathTemplate = (template: string, values: ArchivePathValues) => {
+  const path = template.replace(TOKEN_PATTERN, (_, expression: string) => renderToken(expression, values));
+  return path.split('/').map(sanitizePathSegment).filter(Boolean).join('/');
+}
+
+/**
+ * Render a file name template. Slashes produced by the template are replaced, so the result is always a single name.
+ * @param {string} template - The template.
+ * @param {ArchivePathValues} values - The token values.
+ * @returns {string} - The file name, without extension.
+ */
+export const renderFileNameTemplate = (template: string, values: ArchivePathValues) =>
+  sanitizePathSegment(template.replace(TOKEN_PATTERN, (_, expression: string) => renderToken(expression, values)).replace(/\//g, '_')) || 'file';
+
+/**
+ * Make a file or folder name valid for SharePoint: forbidden characters are replaced with underscores,
+ * leading and trailing spaces and dots are removed, and reserved names are suffixed with an underscore.
+ * @param {string} name - The name.
+ * @returns {string} - The sanitized name, empty if nothing valid was left.
+ */
+export const sanitizePathSegment = (name: string) => {
+  let segment = name.replace(FORBIDDEN_CHARACTERS, '_').replace(/^[\s.]+|[\s.]+$/g, '').replace(/^~\$/, '_$').replace(/_vti_/gi, '_vti');
+  if (RESERVED_NAMES.test(segment))
+    segment = `${segment}_`;
+  return segment.slice(0, MAX_SEGMENT_LENGTH).trimEnd();
+}
+
+/**
+ * Render a single token.
+ * @param {string} expression - The token without braces, e.g. vendorData|name or date:yyyy/MM.
+ * @param {ArchivePathValues} values - The token values.
+ * @returns {string} - The rendered token, "unknown" if no value is available.
+ */
+const renderToken = (expression: string, values: ArchivePathValues) => {
+  const separator = expression.indexOf(':');
+  if (expression.slice(0, separator) === 'date')
+    return formatDate(values.date, expression.slice(separator + 1));
+  if (expression === 'date')
+    return formatDate(values.date, 'yyyy-MM-dd');
+
+  for (const token of expression.split('|')) {
+    const value = values[token as keyof ArchivePathValues];
+    if (typeof value === 'string' && value.trim()) {
+      return PATH_TOKENS.includes(token) ? value : sanitizePathSegment(value.replace(/\//g, '_')) || 'unknown';
+    }
+  }
+  return 'unknown';
+}
+
+/**
+ * Format a date in UTC.
+ * @param {Date} date - The date.
+ * @param {string} format - Format with yyyy, MM, dd, HH and mm placeholders.
+ * @returns {string} - The formatted date.
+ */
+const formatDate = (date: Date, format: string) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const parts: Record<string, string> = {
+    yyyy: String(date.getUTCFullYear()),
+    MM: pad(date.getUTCMonth() + 1),
+    dd: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+  };
+  return format.replace(/yyyy|MM|dd|HH|mm/g, part => parts[part]);
+}
@@ -0,0 +1,162 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AxiosError } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import UploadSessions from '../services/UploadSessions';
+import {
+  checkFileExistsInSharepoint,
+  checkFolderExistsInSharepoint,
+  createFolderInSharepoint,
+  deleteFromSharepoint,
+  listFolderInSharepoint,
+  uploadFileToSharepoint,
+} from './sharepoint-utils';
+
+const { get, post } = vi.hoisted(() => {
+  process.env.SITE_DOMAIN = 'contoso.sharepoint.com';
+  process.env.SUBSITE = 'kyc';
+  process.env.SHAREPOINT_CHUNK_SIZE_MB = String(1 / 1024);
+  process.env.SHAREPOINT_CHUNK_RETRIES = '0';
+  return { get: vi.fn(), post: vi.fn() };
+});
+
+vi.mock('axios', async importOriginal => {
+  const actual = await importOriginal<typeof import('axios')>();
+  const create = () => ({ get, post, interceptors: { request: { use: vi.fn() } } });
+  return { ...actual, default: { ...actual.default, create } };
+});
+
+const CHUNK_SIZE = 1024;
+
+/**
+ * Get the upload method and file offset of every request sent to SharePoint, with the size of the body.
+ */
+const getRequests = () => post.mock.calls.map(([url, body]) => {
+  const offset = url.match(/fileOffset=(\d+)/)?.[1];
+  return { method: url.match(/\/(\w+)\([^/]*$/)[1], offset: offset && Number(offset), size: body?.length };
+});
+
+const serverError = () => new AxiosError('Service unavailable', 'ERR_BAD_RESPONSE', undefined, undefined, { status: 503, data: {} } as any);
+
+describe('uploadFileToSharepoint', () => {
+  let directory: string;
+  let uploads: UploadSessions;
+
+  const upload = (content: Buffer, folderPath = 'KYC Details/session-1') =>
+    uploadFileToSharepoint('video.webm', content, 'video/webm', 'token', 'digest', folderPath, undefined, uploads);
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-sessions-'));
+    uploads = new UploadSessions(directory);
+    post.mockReset();
+    post.mockResolvedValue({ data: {} });
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('uploads small files in a single request', async () => {
+    await upload(Buffer.alloc(100));
+    expect(getRequests()).toEqual([{ method: 'Add', offset: undefined, size: 100 }]);
+  });
+
+  it('uploads large files in chunks through an upload session', async () => {
+    await upload(crypto.randomBytes(CHUNK_SIZE * 2 + 100));
+
+    expect(getRequests()).toEqual([
+      { method: 'Add', offset: undefined, size: 0 },
+      { method: 'StartUpload', offset: undefined, size: CHUNK_SIZE },
+      { method: 'ContinueUpload', offset: CHUNK_SIZE, size: CHUNK_SIZE },
+      { method: 'FinishUpload', offset: CHUNK_SIZE * 2, size: 100 },
+    ]);
+    expect(await uploads.get('KYC Details/session-1/video.webm')).toBeNull();
+  });
+
+  it('sends the part of a chunk the server did not commit again', async () => {
+    post.mockImplementation(async (url: string) => url.includes('StartUpload') ? { data: { d: { StartUpload: '600' } } } : { data: {} });
+    await upload(Buffer.alloc(CHUNK_SIZE + 100));
+
+    expect(getRequests()).toEqual([
+      { method: 'Add', offset: undefined, size: 0 },
+      { method: 'StartUpload', offset: undefined, size: CHUNK_SIZE },
+      { method: 'ContinueUpload', offset: 600, size: CHUNK_SIZE - 600 },
+      { method: 'FinishUpload', offset: CHUNK_SIZE, size: 100 },
+    ]);
+  });
+
+  it('resumes a failed upload from the last committed chunk', async () => {
+    const content = crypto.randomBytes(CHUNK_SIZE * 2 + 100);
+    post.mockImplementation(async (url: string) => {
+      if (url.includes('FinishUpload'))
+        throw serverError();
+      return { data: {} };
+    });
+    await expect(upload(content)).rejects.toThrow('Service unavailable');
+    expect((await uploads.get('KYC Details/session-1/video.webm'))?.chunkHashes).toHaveLength(2);
+    expect(getRequests().map(request => request.method)).not.toContain('CancelUpload');
+
+    post.mockReset();
+    post.mockResolvedValue({ data: {} });
+    await upload(content);
+    expect(getRequests()).toEqual([{ method: 'FinishUpload', offset: CHUNK_SIZE * 2, size: 100 }]);
+    expect(await uploads.get('KYC Details/session-1/video.webm')).toBeNull();
+  });
+
+  it('starts again when the file changed before the first committed chunk', async () => {
+    post.mockImplementation(async (url: string) => {
+      if (url.includes('FinishUpload'))
+        throw serverError();
+      return { data: {} };
+    });
+    await expect(upload(crypto.randomBytes(CHUNK_SIZE * 2 + 100))).rejects.toThrow();
+
+    post.mockReset();
+    post.mockResolvedValue({ data: {} });
+    await upload(crypto.randomBytes(CHUNK_SIZE * 2 + 100));
+    expect(getRequests().map(request => request.method)).toEqual(['CancelUpload', 'Add', 'StartUpload', 'ContinueUpload', 'FinishUpload']);
+  });
+
+  it('escapes quotes in the paths of OData URLs', async () => {
+    await upload(Buffer.alloc(100), "KYC Details/CUST-1 - Jane O'Brien");
+    expect(post.mock.calls[0][0]).toContain("GetFolderByServerRelativeUrl('kyc/KYC Details/CUST-1 - Jane O''Brien')");
+  });
+});
+
+describe('SharePoint paths', () => {
+  const FOLDER = "KYC Details/CUST-1 - Jane O'Brien";
+  const SERVER_RELATIVE_URL = "'kyc/KYC Details/CUST-1 - Jane O''Brien'";
+
+  beforeEach(() => {
+    get.mockReset();
+    get.mockResolvedValue({ data: { value: [] } });
+    post.mockReset();
+    post.mockResolvedValue({ data: {} });
+  });
+
+  it('resolves the paths of every operation in the subsite', async () => {
+    await checkFolderExistsInSharepoint(FOLDER, 'token', 'digest');
+    await checkFileExistsInSharepoint(`${FOLDER}/personInfo.json`, 'token', 'digest');
+    await listFolderInSharepoint(FOLDER, 'token', 'digest');
+    await createFolderInSharepoint(FOLDER, 'token', 'digest');
+    await deleteFromSharepoint(FOLDER, 'folder', 'token', 'digest');
+
+    expect(get.mock.calls.map(([url]) => url.replace('https://contoso.sharepoint.com/sites/kyc/_api/web/', ''))).toEqual([
+      `GetFolderByServerRelativeUrl(${SERVER_RELATIVE_URL})/Exists`,
+      "GetFileByServerRelativeUrl('kyc/KYC Details/CUST-1 - Jane O''Brien/personInfo.json')/Exists",
+      `GetFolderByServerRelativeUrl(${SERVER_RELATIVE_URL})/Files`,
+      `GetFolderByServerRelativeUrl(${SERVER_RELATIVE_URL})/Folders`,
+    ]);
+    expect(post.mock.calls.map(([url]) => url.replace('https://contoso.sharepoint.com/sites/kyc/_api/web/', ''))).toEqual([
+      `Folders/add(${SERVER_RELATIVE_URL})`,
+      `GetFolderByServerRelativeUrl(${SERVER_RELATIVE_URL})`,
+    ]);
+  });
+
+  it('resolves an empty path to the subsite itself', async () => {
+    await checkFolderExistsInSharepoint('', 'token', 'digest');
+    expect(get.mock.calls[0][0]).toContain("GetFolderByServerRelativeUrl('kyc')/Exists");
+  });
+});
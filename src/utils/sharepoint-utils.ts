@@ -1,13 +1,31 @@
 import axios, { isAxiosError } from 'axios';
+import crypto from 'crypto';
 import querystring from 'querystring';
 import dotenv from 'dotenv';
+import { StorageEntry } from '../types';
+import UploadSessions from '../services/UploadSessions';
+import { uploadInChunks } from './upload-utils';
+import logger, { traceRequests } from './logger';
 dotenv.config();
 
-const { TENANT_ID, CLIENT_ID, CLIENT_SECRET, RESOURCE, SITE_DOMAIN, SUBSITE } = process.env;
+const { TENANT_ID, CLIENT_ID, CLIENT_SECRET, RESOURCE, SITE_DOMAIN, SUBSITE, SHAREPOINT_CHUNK_SIZE_MB, SHAREPOINT_CHUNK_RETRIES } = process.env;
+const CHUNK_SIZE = Number(SHAREPOINT_CHUNK_SIZE_MB || 10) * 1024 * 1024;
+const CHUNK_RETRIES = Number(SHAREPOINT_CHUNK_RETRIES || 3);
+const client = traceRequests(axios.create(), 'client-request-id');
+
+/**
+ * Error returned by the SharePoint API, keeping the HTTP status of the failed request.
+ */
+export class SharePointAPIError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'SharePointAPIError';
+  }
+}
 
 /**
  * Get the access token from SharePoint using client credentials.
- * @returns {Promise<string>} - Promise that resolves with the access token.
+ * @returns {Promise<{ accessToken: string, expiresIn: number }>} - Promise that resolves with the access token and its lifetime in seconds.
  * @throws {Error} - If there is an error while fetching the access token.
  */
 export const getAccessToken = async () => {
@@ -21,14 +39,14 @@ export const getAccessToken = async () => {
       resource: `${RESOURCE}/${SITE_DOMAIN}@${TENANT_ID}`,
     });
 
-    const response = await axios.post(url, data, {
+    const response = await client.post(url, data, {
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
       },
     });
 
     if (response.status === 200 && response.data && response.data.access_token) {
-      return response.data.access_token;
+      return { accessToken: response.data.access_token as string, expiresIn: Number(response.data.expires_in) || 3600 };
     } else {
       throw new Error('Failed to fetch access token from SharePoint.');
     }
@@ -40,14 +58,14 @@ export const getAccessToken = async () => {
 /**
  * Get the Form Digest Value from SharePoint using the access token.
  * @param {string} accessToken - The access token obtained from SharePoint.
- * @returns {Promise<string>} - Promise that resolves with the Form Digest Value.
+ * @returns {Promise<{ formDigestValue: string, expiresIn: number }>} - Promise that resolves with the Form Digest Value and its lifetime in seconds.
  * @throws {Error} - If there is an error while fetching the Form Digest Value.
  */
 export const getFormDigestValue = async (accessToken: string) => {
   try {
     const url = `https://${SITE_DOMAIN}/sites/${SUBSITE}/_api/contextinfo`;
 
-    const response = await axios.post(url, undefined, {
+    const response = await client.post(url, undefined, {
       headers: {
         'Authorization': `Bearer ${accessToken}`,
         'Accept': 'application/json'
@@ -55,7 +73,7 @@ export const getFormDigestValue = async (accessToken: string) => {
     });
 
     if (response.status === 200 && response.data && response.data.FormDigestValue) {
-      return response.data.FormDigestValue.split(',')[0];
+      return { formDigestValue: response.data.FormDigestValue.split(',')[0] as string, expiresIn: Number(response.data.FormDigestTimeoutSeconds) || 1800 };
     } else {
       throw new Error('Failed to fetch Form Digest Value from SharePoint.');
     }
@@ -74,8 +92,8 @@ export const getFormDigestValue = async (accessToken: string) => {
  */
 export const checkFolderExistsInSharepoint = async (path: string, accessToken: string, formDigestValue: string) => {
   try {
-    const url = `https://${SITE_DOMAIN}/sites/${SUBSITE}/_api/web/GetFolderByServerRelativeUrl('${path}')/Exists`;
-    const response = await axios.get(url, {
+    const url = `https://${SITE_DOMAIN}/sites/${SUBSITE}/_api/web/GetFolderByServerRelativeUrl('${getServerRelativeUrl(path)}')/Exists`;
+    const response = await client.get(url, {
       headers: {
         'Authorization': `Bearer ${accessToken}`,
         'Accept': 'application/json',
@@ -88,6 +106,142 @@ export const checkFolderExistsInSharepoint = async (path: string, accessToken: s
   }
 }
 
+/**
+ * Check if a file exists on SharePoint.
+ * @param {string} path - Path of the file.
+ * @param {string} accessToken - Access token for SharePoint.
+ * @param {string} formDigestValue - Form Digest Value for SharePoint.
+ * @returns {Promise<boolean>} - Returns a Promise that resolves to a boolean indicating whether the file exists.
+ * @throws {Error} - Throws an error if there's an issue with the request.
+ */
+export const checkFileExistsInSharepoint = async (path: string, accessToken: string, formDigestValue: string) => {
+  try {
+    const url = `https://${SITE_DOMAIN}/sites/${SUBSITE}/_api/web/GetFileByServerRelativeUrl('${getServerRelativeUrl(path)}')/Exists`;
+    const response = await client.get(url, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Accept': 'application/json',
+        'X-RequestDigest': formDigestValue
+      }
+    });
+    return response.data.value;
+  } catch (error) {
+    // SharePoint answers with a 404 instead of false when the file does not exist
+    if (isAxiosError(error) && error.response?.status === 404) {
+      return false;
+    }
+    handleAxiosError(error, 'checking file existence');
+  }
+}
+
+/**
+ * List the files and subfolders of a SharePoint folder.
+ * @param {string} path - Path of the folder.
+ * @param {string} accessToken - Access token for SharePoint.
+ * @param {string} formDigestValue - Form Digest Value for SharePoint.
+ * @returns {Promise<StorageEntry[]>} - Returns a Promise that resolves to the entries of the folder.
+ * @throws {Error} - Throws an error if there's an issue with the request.
+ */
+export const listFolderInSharepoint = async (path: string, accessToken: string, formDigestValue: string) => {
+  try {
+    const url = `https://${SITE_DOMAIN}/sites/${SUBSITE}/_api/web/GetFolderByServerRelativeUrl('${getServerRelativeUrl(path)}')`;
+    const headers = {
+      'Authorization': `Bearer ${accessToken}`,
+      'Accept': 'application/json',
+      'X-RequestDigest': formDigestValue
+    };
+    const [files, folders] = await Promise.all([
+      client.get(`${url}/Files`, { headers }),
+      client.get(`${url}/Folders`, { headers })
+    ]);
+    const entries: StorageEntry[] = [
+      ...folders.data.value.map((folder: any) => ({ name: folder.Name, isFolder: true })),
+      ...files.data.value.map((file: any) => ({ name: file.Name, isFolder: false, size: Number(file.Length) }))
+    ];
+    return entries;
+  } catch (error) {
+    handleAxiosError(error, 'listing folder');
+  }
+}
+
+/**
+ * Download a file from SharePoint.
+ * @param {string} path - Path of the file.
+ * @param {string} accessToken - Access token for SharePoint.
+ * @param {string} formDigestValue - Form Digest Value for SharePoint.
+ * @returns {Promise<Buffer>} - Returns a Promise that resolves to the content of the file.
+ * @throws {Error} - Throws an error if there's an issue with the request or if the file does not exist.
+ */
+export const downloadFileFromSharepoint = async (path: string, accessToken: string, formDigestValue: string) => {
+  try {
+    const url = `https://${SITE_DOMAIN}/sites/${SUBSITE}/_api/web/GetFileByServerRelativeUrl('${getServerRelativeUrl(path)}')/$value`;
+    const response = await client.get(url, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'X-RequestDigest': formDigestValue
+      },
+      responseType: 'arraybuffer',
+    });
+    return Buffer.from(response.data);
+  } catch (error) {
+    handleAxiosError(error, 'downloading file');
+  }
+}
+
+/**
+ * Download a file from SharePoint as a stream.
+ * @param {string} path - Path of the file.
+ * @param {string} accessToken - Access token for SharePoint.
+ * @param {string} formDigestValue - Form Digest Value for SharePoint.
+ * @returns {Promise<NodeJS.ReadableStream>} - Returns a Promise that resolves to the content of the file.
+ * @throws {Error} - Throws an error if there's an issue with the request or if the file does not exist.
+ */
+export const streamFileFromSharepoint = async (path: string, accessToken: string, formDigestValue: string) => {
+  try {
+    const url = `https://${SITE_DOMAIN}/sites/${SUBSITE}/_api/web/GetFileByServerRelativeUrl('${getServerRelativeUrl(path)}')/$value`;
+    const response = await client.get(url, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'X-RequestDigest': formDigestValue
+      },
+      responseType: 'stream',
+    });
+    return response.data as NodeJS.ReadableStream;
+  } catch (error) {
+    handleAxiosError(error, 'downloading file');
+  }
+}
+
+/**
+ * Delete a file or a folder with everything inside it from SharePoint. Deleted items skip the recycle bin.
+ * @param {string} path - Path of the file or folder.
+ * @param {'file' | 'folder'} type - Whether the path is a file or a folder.
+ * @param {string} accessToken - Access token for SharePoint.
+ * @param {string} formDigestValue - Form Digest Value for SharePoint.
+ * @returns {Promise<void>} - Returns a Promise that resolves when the item is deleted.
+ * @throws {Error} - Throws an error if there's an issue with the request.
+ */
+export const deleteFromSharepoint = async (path: string, type: 'file' | 'folder', accessToken: string, formDigestValue: string) => {
+  if (!path.split('/').filter(Boolean).length)
+    throw new Error('Refusing to delete the root of the site');
+  try {
+    const resource = type === 'file' ? 'GetFileByServerRelativeUrl' : 'GetFolderByServerRelativeUrl';
+    const url = `https://${SITE_DOMAIN}/sites/${SUBSITE}/_api/web/${resource}('${getServerRelativeUrl(path)}')`;
+    await client.post(url, undefined, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Accept': 'application/json',
+        'X-RequestDigest': formDigestValue,
+        'X-HTTP-Method': 'DELETE',
+        'IF-MATCH': '*'
+      }
+    });
+    logger.info('Deleted from SharePoint', { path, type });
+  } catch (error) {
+    handleAxiosError(error, `deleting ${type}`);
+  }
+}
+
 /**
  * Creates a folder in SharePoint.
  * @param {string} path - Full path of the folder to create.
@@ -98,9 +252,9 @@ export const checkFolderExistsInSharepoint = async (path: string, accessToken: s
  */
 export const createFolderInSharepoint = async (path: string, accessToken: string, formDigestValue: string) => {
   try {
-    const url = `https://${SITE_DOMAIN}/sites/${SUBSITE}/_api/web/Folders/add('${SUBSITE}/${path}')`;
+    const url = `https://${SITE_DOMAIN}/sites/${SUBSITE}/_api/web/Folders/add('${getServerRelativeUrl(path)}')`;
 
-    await axios.post(url, undefined, {
+    await client.post(url, undefined, {
       headers: {
         'Authorization': `Bearer ${accessToken}`,
         'Accept': 'application/json;odata=verbose',
@@ -115,31 +269,67 @@ export const createFolderInSharepoint = async (path: string, accessToken: string
 
 /**
  * Upload a file to the specified SharePoint folder.
+ * The stream is read in chunks of SHAREPOINT_CHUNK_SIZE_MB. Files that fit in a single chunk are uploaded
+ * with one request, larger files go through an upload session (StartUpload/ContinueUpload/FinishUpload)
+ * so that they never have to be held in memory as a whole.
+ * A failed upload session is kept, and the next upload of the file continues it after the chunks the server committed,
+ * as long as the stream starts with the same chunks. A stream that starts differently, e.g. because the file was
+ * encrypted again, starts a new upload session.
  * @param {string} fileName - The name of the file (including the file extension).
- * @param {Buffer} stream - The readable stream of the file to be uploaded.
+ * @param {NodeJS.ReadableStream | Buffer} stream - The readable stream of the file to be uploaded.
  * @param {string} contentType - The MIME type of the file to be uploaded.
  * @param {string} accessToken - The access token obtained from SharePoint.
  * @param {string} formDigestValue - The form digest obtained from SharePoint.
  * @param {string} folderPath - The path to the folder where the file will be uploaded.
+ * @param {Function} refreshCredentials - Optional callback returning current credentials, called before every chunk so that long uploads outlive the token.
+ * @param {UploadSessions} uploads - Optional store of interrupted upload sessions. Without it, a failed upload starts from the beginning.
  * @returns {Promise<void>} - Promise that resolves when the file is uploaded successfully.
  * @throws {Error} - If there is an error during the file upload.
  */
-export const uploadFileToSharepoint = async (fileName: string, stream: any, contentType: string, accessToken: string, formDigestValue: string, folderPath: string) => {
+export const uploadFileToSharepoint = async (fileName: string, stream: NodeJS.ReadableStream | Buffer, contentType: string, accessToken: string, formDigestValue: string, folderPath: string, refreshCredentials?: () => Promise<{ accessToken: string, formDigestValue: string }>, uploads?: UploadSessions) => {
+  const folderUrl = `https://${SITE_DOMAIN}/sites/${SUBSITE}/_api/web/GetFolderByServerRelativeUrl('${getServerRelativeUrl(folderPath)}')`;
+  const fileUrl = `https://${SITE_DOMAIN}/sites/${SUBSITE}/_api/web/GetFileByServerRelativeUrl('${getServerRelativeUrl(`${folderPath}/${fileName}`)}')`;
+  const headers: Record<string, string> = {
+    'Authorization': `Bearer ${accessToken}`,
+    'X-RequestDigest': formDigestValue,
+    'Accept': 'application/json;odata=verbose',
+    'Content-Type': contentType,
+  };
+  const addFile = (content: Buffer) => client.post(`${folderUrl}/Files/Add(url='${escapeODataString(fileName)}', overwrite=true)`, content, { headers });
+
   try {
-    const url = `https://${SITE_DOMAIN}/sites/${SUBSITE}/_api/web/GetFolderByServerRelativeUrl('${SUBSITE}/${folderPath}')/Files/Add(url='${fileName}', overwrite=true)`;
-    const binaryData = await streamToBuffer(stream);
-    await axios.post(url, binaryData, {
-      maxBodyLength: Infinity,
-      maxContentLength: Infinity,
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'X-RequestDigest': formDigestValue,
-        'Accept': 'application/json;odata=verbose',
-        'Content-Type': contentType,
+    const resumed = await uploadInChunks(`${folderPath}/${fileName}`, stream, {
+      chunkSize: CHUNK_SIZE,
+      retries: CHUNK_RETRIES,
+      singleRequestLimit: CHUNK_SIZE,
+      putFile: async content => {
+        await addFile(content);
       },
-    });
-
-    console.log(`File ${fileName} uploaded successfully.`);
+      startSession: async () => {
+        // The upload session needs an empty file to write to
+        await addFile(Buffer.alloc(0));
+        return { uploadId: crypto.randomUUID() };
+      },
+      putChunk: async ({ uploadId }, chunk, offset, { start, last }) => {
+        // SharePoint answers StartUpload and ContinueUpload with the offset it committed
+        const method = start ? 'StartUpload' : last ? 'FinishUpload' : 'ContinueUpload';
+        const url = start
+          ? `${fileUrl}/StartUpload(uploadId=guid'${uploadId}')`
+          : `${fileUrl}/${method}(uploadId=guid'${uploadId}',fileOffset=${offset})`;
+        const response = await client.post(url, chunk, { headers, maxBodyLength: CHUNK_SIZE, maxContentLength: Infinity });
+        const fileOffset = Number(response.data?.d?.[method]);
+        return !last && Number.isFinite(fileOffset) ? fileOffset : offset + chunk.length;
+      },
+      cancelSession: async ({ uploadId }) => {
+        await client.post(`${fileUrl}/CancelUpload(uploadId=guid'${uploadId}')`, undefined, { headers });
+      },
+      beforeChunk: refreshCredentials && (async () => {
+        const credentials = await refreshCredentials();
+        headers['Authorization'] = `Bearer ${credentials.accessToken}`;
+        headers['X-RequestDigest'] = credentials.formDigestValue;
+      }),
+    }, uploads);
+    logger.info('File uploaded to SharePoint', { folderPath, fileName, resumed });
   } catch (error) {
     handleAxiosError(error, 'uploading media file');
   }
@@ -157,13 +347,13 @@ export const uploadFileToSharepoint = async (fileName: string, stream: any, cont
 export const uploadObjectAsJSON = async (accessToken: string, formDigestValue: string, fileName: string, data: any, folderPath: string) => {
   try {
     if (!data) {
-      console.log(`Cannot upload empty file: ${fileName}`);
+      logger.warn('Cannot upload empty file', { fileName });
       return;
     }
     const fileContent = JSON.stringify(data);
 
-    const createFileUrl = `https://${SITE_DOMAIN}/sites/${SUBSITE}/_api/web/GetFolderByServerRelativeUrl('${SUBSITE}/${folderPath}')/files/add(url='${fileName}', overwrite=true)`;
-    await axios.post(createFileUrl, fileContent, {
+    const createFileUrl = `https://${SITE_DOMAIN}/sites/${SUBSITE}/_api/web/GetFolderByServerRelativeUrl('${getServerRelativeUrl(folderPath)}')/files/add(url='${escapeODataString(fileName)}', overwrite=true)`;
+    await client.post(createFileUrl, fileContent, {
       headers: {
         Authorization: `Bearer ${accessToken}`,
         'X-RequestDigest': formDigestValue,
@@ -172,7 +362,7 @@ export const uploadObjectAsJSON = async (accessToken: string, formDigestValue: s
       },
     });
 
-    console.log(`Object uploaded as JSON file: ${fileName}`);
+    logger.info('Object uploaded as JSON file to SharePoint', { folderPath, fileName });
   } catch (error) {
     handleAxiosError(error, 'uploading JSON file');
   }
@@ -191,18 +381,18 @@ export const createFolderIfNotExistInSharepoint = async (path: string, accessTok
 }
 
 /**
- * Convert a Readable stream to a Buffer.
- * @param {ReadableStream} stream - The Readable stream to convert.
- * @returns {Promise<Buffer>} - Promise that resolves with the Buffer containing the entire data of the stream.
+ * Get the server relative URL of a path in the subsite, escaped for a string literal of an OData URL.
+ * @param {string} path - Path in the subsite, e.g. KYC Details/CUST-1, or an empty string for the subsite itself.
+ * @returns {string} - The escaped server relative URL, e.g. kyc/KYC Details/CUST-1.
  */
-const streamToBuffer = async (stream: any): Promise<Buffer> => {
-  return new Promise((resolve, reject) => {
-    const chunks: Buffer[] = [];
-    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
-    stream.on('end', () => resolve(Buffer.concat(chunks)));
-    stream.on('error', (error: Error) => reject(error));
-  });
-}
+const getServerRelativeUrl = (path: string) => escapeODataString(path ? `${SUBSITE}/${path}` : `${SUBSITE}`);
+
+/**
+ * Escape a value for a string literal of an OData URL, e.g. GetFolderByServerRelativeUrl('...'), where quotes are doubled.
+ * @param {string} value - The value, e.g. a path with a name like O'Brien.
+ * @returns {string} - The escaped value.
+ */
+const escapeODataString = (value: string) => value.replace(/'/g, "''");
 
 /**
  * Handles Axios errors.
@@ -210,10 +400,11 @@ const streamToBuffer = async (stream: any): Promise<Buffer> => {
  * @param {string} operation - The operation where the error occurred.
  * @throws {Error} - Throws the appropriate error message based on the Axios error.
  */
-const handleAxiosError = (error: any, operation: string): void => {
-  if (isAxiosError(error) && error.response && error.response.data && error.response.data.error) {
-    const errorMessage = error.response.data.error.message.value;
-    throw new Error(`SharePoint API error while ${operation}: ${errorMessage}`);
+const handleAxiosError = (error: any, operation: string): never => {
+  if (isAxiosError(error) && error.response) {
+    const { data, status } = error.response;
+    const errorMessage = data?.error?.message?.value || data?.error_description || error.message;
+    throw new SharePointAPIError(`SharePoint API error while ${operation}: ${errorMessage}`, status);
   } else {
     throw error;
   }
@@ -0,0 +1,238 @@
+import crypto from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+
+/*
+ * Minimal SMTP client for notification emails: plain or implicit TLS connections, STARTTLS when the server offers
+ * it, AUTH PLAIN and plain text messages.
+ */
+
+export interface SmtpOptions {
+  host: string; // SMTP server.
+  port: number; // SMTP port, usually 25, 587 or 465 for implicit TLS.
+  secure: boolean; // Connect with TLS right away instead of upgrading with STARTTLS.
+  user?: string; // User name, no authentication if omitted.
+  password?: string; // Password of the user.
+  timeoutMs?: number; // Inactivity timeout of the connection (default: 30000).
+}
+
+export interface MailMessage {
+  from: string; // Sender address.
+  to: string[]; // Recipient addresses.
+  subject: string; // Subject line.
+  text: string; // Plain text body.
+}
+
+interface SmtpReply {
+  code: number; // Reply code, e.g. 250.
+  lines: string[]; // Text of every line of the reply.
+}
+
+/**
+ * A connection to an SMTP server, reading one reply per command.
+ */
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void, reject: (error: Error) => void }[] = [];
+  private error: Error | null = null;
+
+  /**
+   * @param {net.Socket} socket - The connected socket.
+   * @param {number} timeoutMs - Inactivity timeout of the connection.
+   */
+  constructor(private socket: net.Socket, private timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  /**
+   * Upgrade the connection to TLS after STARTTLS was accepted.
+   * @param {string} host - Name of the server, checked against its certificate.
+   */
+  public async upgrade(host: string) {
+    this.socket.removeAllListeners('data');
+    const secure = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', resolve);
+      secure.once('error', reject);
+    });
+    this.attach(secure);
+  }
+
+  /**
+   * Send a command and read its reply.
+   * @param {string} command - The command, without line ending.
+   * @param {number[]} expected - Reply codes that mean success.
+   * @returns {Promise<SmtpReply>} - The reply.
+   * @throws {Error} - If the server answers with another code or the connection fails.
+   */
+  public async command(command: string, expected: number[]) {
+    this.socket.write(`${command}\r\n`);
+    // Do not echo credentials in errors
+    return this.expect(expected, command.startsWith('AUTH') ? 'AUTH' : command.split(' ')[0]);
+  }
+
+  /**
+   * Read the next reply.
+   * @param {number[]} expected - Reply codes that mean success.
+   * @param {string} step - Name of the step, for the error message.
+   * @returns {Promise<SmtpReply>} - The reply.
+   * @throws {Error} - If the server answers with another code or the connection fails.
+   */
+  public async expect(expected: number[], step: string) {
+    const reply = await this.read();
+    if (!expected.includes(reply.code))
+      throw new Error(`SMTP ${step} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    return reply;
+  }
+
+  /**
+   * Write raw data, e.g. the message after DATA.
+   * @param {string} data - The data.
+   */
+  public write(data: string) {
+    this.socket.write(data);
+  }
+
+  /**
+   * Close the connection.
+   */
+  public close() {
+    this.socket.end();
+  }
+
+  /**
+   * Read the next reply, waiting for it if it did not arrive yet.
+   * @returns {Promise<SmtpReply>} - The reply.
+   */
+  private read() {
+    const reply = this.replies.shift();
+    if (reply)
+      return Promise.resolve(reply);
+    if (this.error)
+      return Promise.reject(this.error);
+    return new Promise<SmtpReply>((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  /**
+   * Read the replies arriving on a socket.
+   * @param {net.Socket} socket - The socket.
+   */
+  private attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.on('data', data => this.receive(data.toString('utf8')));
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  /**
+   * Split received data into replies. The last line of a reply has a space after its code, the others a dash.
+   * @param {string} data - The received data.
+   */
+  private receive(data: string) {
+    this.buffer += data;
+    let end: number;
+    while ((end = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.lines.push(line.slice(4));
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), lines: this.lines };
+        this.lines = [];
+        const waiter = this.waiting.shift();
+        if (waiter)
+          waiter.resolve(reply);
+        else
+          this.replies.push(reply);
+      }
+    }
+  }
+
+  /**
+   * Fail every pending and future read.
+   * @param {Error} error - Why the connection failed.
+   */
+  private fail(error: Error) {
+    this.error = this.error || error;
+    for (const waiter of this.waiting.splice(0))
+      waiter.reject(this.error);
+  }
+}
+
+/**
+ * Encode a header value that contains non-ASCII characters.
+ * @param {string} value - The header value.
+ * @returns {string} - The value, as an encoded word if needed.
+ */
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+
+/**
+ * Build the message sent after DATA. The body is base64 encoded, so it works with servers without 8BITMIME and
+ * never contains a line with a single dot.
+ * @param {MailMessage} message - The message.
+ * @returns {string} - The message, terminated with the end of data marker.
+ */
+const buildMessage = ({ from, to, subject, text }: MailMessage) => {
+  const domain = from.split('@')[1] || os.hostname();
+  const body = Buffer.from(text).toString('base64').replace(/.{1,76}/g, '$&\r\n');
+  return [
+    `From: ${from}`,
+    `To: ${to.join(', ')}`,
+    `Subject: ${encodeHeader(subject.replace(/[\r\n]+/g, ' '))}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n') + '.\r\n';
+}
+
+/**
+ * Open a connection to the SMTP server.
+ * @param {SmtpOptions} options - Server options.
+ * @returns {Promise<net.Socket>} - The connected socket.
+ */
+const connect = (options: SmtpOptions) => new Promise<net.Socket>((resolve, reject) => {
+  const socket: net.Socket = options.secure
+    ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+    : net.connect({ host: options.host, port: options.port }, () => resolve(socket));
+  socket.once('error', reject);
+});
+
+/**
+ * Send an email.
+ * @param {SmtpOptions} options - Server options.
+ * @param {MailMessage} message - The message.
+ * @throws {Error} - If the server rejects the message or cannot be reached.
+ */
+export const sendMail = async (options: SmtpOptions, message: MailMessage) => {
+  const connection = new SmtpConnection(await connect(options), options.timeoutMs ?? 30000);
+  try {
+    await connection.expect([220], 'greeting');
+    const { lines } = await connection.command(`EHLO ${os.hostname()}`, [250]);
+    if (!options.secure && lines.some(line => line.toUpperCase() === 'STARTTLS')) {
+      await connection.command('STARTTLS', [220]);
+      await connection.upgrade(options.host);
+      await connection.command(`EHLO ${os.hostname()}`, [250]);
+    }
+    if (options.user) {
+      const credentials = Buffer.from(`\0${options.user}\0${options.password || ''}`).toString('base64');
+      await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+    await connection.command(`MAIL FROM:<${message.from}>`, [250]);
+    for (const recipient of message.to)
+      await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    await connection.command('DATA', [354]);
+    connection.write(buildMessage(message));
+    await connection.expect([250], 'DATA');
+    await connection.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    connection.close();
+  }
+}
@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+
+/**
+ * Read a stream in chunks of a fixed size. The last chunk may be smaller and is flagged,
+ * which is why one chunk is always held back until the next one is complete.
+ * @param {NodeJS.ReadableStream} stream - The stream to read.
+ * @param {number} chunkSize - Size of the chunks in bytes.
+ * @returns {AsyncGenerator<{ chunk: Buffer, last: boolean }>} - The chunks of the stream.
+ */
+export async function* readChunks(stream: NodeJS.ReadableStream, chunkSize: number) {
+  let buffered: Buffer[] = [];
+  let bufferedLength = 0;
+  let pending: Buffer | null = null;
+
+  for await (const data of stream) {
+    const piece = Buffer.isBuffer(data) ? data : Buffer.from(data);
+    buffered.push(piece);
+    bufferedLength += piece.length;
+    while (bufferedLength >= chunkSize) {
+      const all = Buffer.concat(buffered);
+      if (pending) {
+        yield { chunk: pending, last: false };
+      }
+      pending = all.subarray(0, chunkSize);
+      buffered = [all.subarray(chunkSize)];
+      bufferedLength = all.length - chunkSize;
+    }
+  }
+
+  if (bufferedLength > 0) {
+    if (pending) {
+      yield { chunk: pending, last: false };
+    }
+    pending = Buffer.concat(buffered);
+  }
+  yield { chunk: pending || Buffer.alloc(0), last: true };
+}
+
+/**
+ * Read a stream into memory.
+ * @param {NodeJS.ReadableStream} stream - The stream to read.
+ * @returns {Promise<Buffer>} - The content of the stream.
+ */
+export const readAll = async (stream: NodeJS.ReadableStream) => {
+  const pieces: Buffer[] = [];
+  for await (const data of stream) {
+    pieces.push(Buffer.isBuffer(data) ? data : Buffer.from(data));
+  }
+  return Buffer.concat(pieces);
+}
+
+/**
+ * Hash a stream with SHA-256 while it is being consumed.
+ * @param {NodeJS.ReadableStream} stream - The stream to hash.
+ * @returns {{ stream: Readable, digest: () => { sha256: string, size: number } }} - The stream to consume instead, and
+ * a function returning the hash and size in bytes once it was consumed completely.
+ */
+export const hashStream = (stream: NodeJS.ReadableStream) => {
+  const hash = crypto.createHash('sha256');
+  let size = 0;
+  const hashed = Readable.from((async function* () {
+    for await (const data of stream) {
+      const piece = Buffer.isBuffer(data) ? data : Buffer.from(data);
+      hash.update(piece);
+      size += piece.length;
+      yield piece;
+    }
+  })());
+  return { stream: hashed, digest: () => ({ sha256: hash.digest('hex'), size }) };
+}
@@ -0,0 +1,140 @@
+import { isAxiosError } from 'axios';
+import { Readable } from 'stream';
+import UploadSessions from '../services/UploadSessions';
+import { UploadSession } from '../types';
+import { sha256 } from './manifest-utils';
+import { readChunks } from './stream-utils';
+import logger from './logger';
+
+/**
+ * Where a chunked upload is sent to, e.g. a SharePoint or a Microsoft Graph upload session.
+ */
+export interface ChunkedUploadTarget {
+  chunkSize: number; // Size of the chunks in bytes.
+  retries: number; // How often a failed chunk is sent again before the upload fails.
+  singleRequestLimit: number; // Files up to this size are uploaded with a single request instead of an upload session.
+  putFile(content: Buffer): Promise<void>; // Upload a small file with a single request.
+  startSession(): Promise<Pick<UploadSession, 'uploadId' | 'uploadUrl'>>; // Start an upload session.
+  putChunk(session: UploadSession, chunk: Buffer, offset: number, position: { start: boolean, last: boolean }): Promise<number>; // Send (the rest of) a chunk, returning the offset the server committed up to.
+  cancelSession(session: UploadSession): Promise<void>; // Cancel an upload session, so that the file is not left behind half written.
+  beforeChunk?(): Promise<void>; // Called before every chunk, e.g. to refresh the credentials of long uploads.
+}
+
+/**
+ * Upload a file in chunks through an upload session. The chunks the server committed are recorded with their hashes,
+ * so that the next upload of the same file continues the session after them instead of sending the file from the start.
+ * A failed chunk is sent again from the last committed offset, up to the target's number of retries.
+ * @param {string} filePath - Path of the file being uploaded, the key of its upload session.
+ * @param {NodeJS.ReadableStream | Buffer} content - The content of the file.
+ * @param {ChunkedUploadTarget} target - The upload session API.
+ * @param {UploadSessions} uploads - Optional store of interrupted upload sessions. Without it, a failed upload starts from the beginning.
+ * @returns {Promise<boolean>} - True if an interrupted upload session was continued.
+ * @throws {Error} - If the upload failed.
+ */
+export const uploadInChunks = async (filePath: string, content: NodeJS.ReadableStream | Buffer, target: ChunkedUploadTarget, uploads?: UploadSessions) => {
+  let session = await uploads?.get(filePath) || null;
+  if (session && session.chunkSize !== target.chunkSize) {
+    await discardSession(filePath, session, target, uploads);
+    session = null;
+  }
+  const resumed = Boolean(session);
+  let index = 0;
+  let offset = 0;
+
+  try {
+    const source = Buffer.isBuffer(content) ? Readable.from([content]) : content;
+    for await (const { chunk, last } of readChunks(source, target.chunkSize)) {
+      await target.beforeChunk?.();
+      if (session && index < session.chunkHashes.length) {
+        // Chunks the server already committed are skipped
+        if (!last && sha256(chunk) === session.chunkHashes[index]) {
+          index++;
+          offset += chunk.length;
+          continue;
+        }
+        await discardSession(filePath, session, target, uploads);
+        if (index > 0) {
+          throw new Error('File changed since its upload session was started, the upload starts again on the next attempt');
+        }
+        session = null;
+      }
+      if (!session && last && chunk.length <= target.singleRequestLimit) {
+        await target.putFile(chunk);
+        break;
+      }
+
+      const start = !session;
+      if (!session) {
+        const now = new Date().toISOString();
+        session = { filePath, ...await target.startSession(), chunkSize: target.chunkSize, chunkHashes: [], startedAt: now, updatedAt: now };
+      }
+      await sendChunk(target, session, chunk, offset, start, last);
+      index++;
+      offset += chunk.length;
+      if (!last) {
+        session.chunkHashes.push(sha256(chunk));
+        session.updatedAt = new Date().toISOString();
+        await uploads?.save(filePath, session);
+      }
+    }
+
+    if (session) {
+      await uploads?.delete(filePath);
+    }
+    return resumed;
+  } catch (error) {
+    // The upload session is kept for the next attempt, unless there is nowhere to keep it or the server no longer knows it, e.g. because it expired
+    const expired = resumed && isAxiosError(error) && (error.response?.status === 400 || error.response?.status === 404);
+    if (session && (!uploads || expired)) {
+      await discardSession(filePath, session, target, uploads);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Send a chunk of an upload session. The part of the chunk the server did not commit is sent again from where it
+ * stopped, and a failed request is retried from the last committed offset.
+ * @param {ChunkedUploadTarget} target - The upload session API.
+ * @param {UploadSession} session - The upload session.
+ * @param {Buffer} chunk - The chunk to upload.
+ * @param {number} offset - Offset of the chunk in the file.
+ * @param {boolean} start - Whether the chunk starts the upload session.
+ * @param {boolean} last - Whether the chunk is the last one of the file.
+ * @throws {Error} - If the chunk could not be uploaded after the target's retries.
+ */
+const sendChunk = async (target: ChunkedUploadTarget, session: UploadSession, chunk: Buffer, offset: number, start: boolean, last: boolean) => {
+  let committed = 0;
+  for (let attempt = 0; ;) {
+    try {
+      committed = await target.putChunk(session, chunk.subarray(committed), offset + committed, { start: start && committed === 0, last }) - offset;
+      if (committed >= chunk.length) {
+        return;
+      }
+      logger.warn('Chunk was committed partially, sending the rest', { uploadId: session.uploadId, offset, committed, length: chunk.length });
+    } catch (error) {
+      if (attempt >= target.retries) {
+        throw error;
+      }
+      logger.warn(`Chunk upload failed, retrying (${attempt + 1}/${target.retries})`, { error });
+      await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** attempt));
+      attempt++;
+    }
+  }
+}
+
+/**
+ * Cancel an upload session that cannot be continued and forget it. Failures to cancel are only logged.
+ * @param {string} filePath - Path of the file being uploaded.
+ * @param {UploadSession} session - The upload session.
+ * @param {ChunkedUploadTarget} target - The upload session API.
+ * @param {UploadSessions} uploads - Store of interrupted upload sessions, if any.
+ */
+const discardSession = async (filePath: string, session: UploadSession, target: ChunkedUploadTarget, uploads?: UploadSessions) => {
+  try {
+    await target.cancelSession(session);
+  } catch (error) {
+    logger.error('Unable to cancel upload session', { uploadId: session.uploadId, error });
+  }
+  await uploads?.delete(filePath);
+}
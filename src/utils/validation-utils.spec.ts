@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { toFieldErrors, validate } from './validation-utils';
+import { decisionWebhookSchema, eventWebhookSchema, mediaListResponseSchema, sessionDecisionResponseSchema } from '../types';
+
+const decision = {
+  status: 'success',
+  verification: { id: 'session-1', code: 9001, status: 'approved', vendorData: 'CUST-1', person: { firstName: 'Jane' } },
+};
+
+describe('validate', () => {
+  it('keeps fields that are not modelled', () => {
+    const payload = { ...decision, verification: { ...decision.verification, comments: ['checked'] } };
+    expect(validate(decisionWebhookSchema, payload, 'decision webhook').verification).toMatchObject({ comments: ['checked'] });
+  });
+
+  it('lists every invalid field', () => {
+    expect(() => validate(eventWebhookSchema, { id: 'session-1', code: '7002' }, 'event webhook'))
+      .toThrow('Invalid event webhook: code: Expected number, received string; action: Required');
+  });
+
+  it('applies schema defaults', () => {
+    expect(validate(mediaListResponseSchema, { status: 'success' }, 'media list')).toEqual({ status: 'success', images: [], videos: [] });
+  });
+});
+
+describe('toFieldErrors', () => {
+  it('names nested fields by their path and the payload itself as (root)', () => {
+    const missing = decisionWebhookSchema.safeParse({ status: 'success' });
+    expect(toFieldErrors(missing.error!)).toEqual([{ field: 'verification', message: 'Required' }]);
+
+    const nested = decisionWebhookSchema.safeParse({ ...decision, verification: { ...decision.verification, code: null } });
+    expect(toFieldErrors(nested.error!)).toEqual([{ field: 'verification.code', message: 'Expected number, received null' }]);
+
+    const root = decisionWebhookSchema.safeParse('not an object');
+    expect(toFieldErrors(root.error!)).toEqual([{ field: '(root)', message: 'Expected object, received string' }]);
+  });
+});
+
+describe('sessionDecisionResponseSchema', () => {
+  it('accepts sessions that were not decided yet', () => {
+    expect(sessionDecisionResponseSchema.safeParse({ status: 'success', verification: null }).success).toBe(true);
+    expect(decisionWebhookSchema.safeParse({ status: 'success', verification: null }).success).toBe(false);
+  });
+});
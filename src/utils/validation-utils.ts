@@ -0,0 +1,27 @@
+import { ZodError, ZodTypeAny, z } from 'zod';
+import { FieldError } from '../types';
+
+/**
+ * Convert a zod error into a list of field errors.
+ * @param {ZodError} error - The validation error.
+ * @returns {FieldError[]} - One entry per invalid field.
+ */
+export const toFieldErrors = (error: ZodError): FieldError[] =>
+  error.issues.map(issue => ({ field: issue.path.join('.') || '(root)', message: issue.message }));
+
+/**
+ * Validate data against a schema.
+ * @param {ZodTypeAny} schema - The schema to validate against.
+ * @param {any} data - The data to validate.
+ * @param {string} description - What the data is, used in the error message.
+ * @returns {any} - The validated data.
+ * @throws {Error} - If the data does not match the schema, listing every invalid field.
+ */
+export const validate = <T extends ZodTypeAny>(schema: T, data: unknown, description: string): z.infer<T> => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const fields = toFieldErrors(result.error).map(({ field, message }) => `${field}: ${message}`).join('; ');
+    throw new Error(`Invalid ${description}: ${fields}`);
+  }
+  return result.data;
+}
@@ -1,4 +1,5 @@
 import VeriffAPI from "../services/VeriffAPI";
+import { SettledData } from "../types";
 
 /**
  * Retrieves relevant session data from Veriff APIs.
@@ -8,17 +9,17 @@ import VeriffAPI from "../services/VeriffAPI";
  * @param {string} sessionId - The ID of the Veriff session.
  * @param {string} version - The version number for data retrieval.
  * @returns {Promise<{
- *   sessionDecision: { status: string, value: any },
- *   personInfo: { status: string, value: any },
- *   mediaList: { status: string, value: any },
- *   watchlistScreening: { status: string, value: any },
- *   ineData: { status: string, value: any },
- *   curpData: { status: string, value: any },
- *   attempts: { status: string, value: any }
+ *   sessionDecision: SettledData<SessionDecisionResponse>,
+ *   personInfo: SettledData<Person>,
+ *   mediaList: SettledData<MediaListResponse>,
+ *   watchlistScreening: SettledData<WatchlistScreeningResponse>,
+ *   ineData: SettledData<RegistryResponse>,
+ *   curpData: SettledData<RegistryResponse>,
+ *   attempts: SettledData<AttemptsResponse['verifications']>
  * }>} - A promise resolving to an object containing all the retrieved data.
  */
 export const getRelavantSessionData = async (veriffApi: VeriffAPI, sessionId: string, version: string) => {
-  const data = await Promise.allSettled([
+  const [sessionDecision, personInfo, mediaList, watchlistScreening, ineData, curpData, attempts] = await Promise.allSettled([
     veriffApi.getSessionDecision(sessionId),
     veriffApi.getPersonForSession(sessionId),
     veriffApi.getMediaForSession(sessionId),
@@ -28,24 +29,22 @@ export const getRelavantSessionData = async (veriffApi: VeriffAPI, sessionId: st
     veriffApi.getAttemptsForSession(sessionId)
   ]);
 
-  const [sessionDecision, personInfo, mediaList, watchlistScreening, ineData, curpData, attempts] = data.map(extractValue);
-
   return {
-    sessionDecision,
-    personInfo,
-    mediaList,
-    watchlistScreening,
-    ineData,
-    curpData,
-    attempts
+    sessionDecision: extractValue(sessionDecision),
+    personInfo: extractValue(personInfo),
+    mediaList: extractValue(mediaList),
+    watchlistScreening: extractValue(watchlistScreening),
+    ineData: extractValue(ineData),
+    curpData: extractValue(curpData),
+    attempts: extractValue(attempts)
   };
 }
 
 /**
  * Safely extracts the value from a settled promise result.
- * @param {PromiseSettledResult<any>} result - The settled promise result.
- * @returns {any} - The value if the promise is fulfilled, otherwise null.
+ * @param {PromiseSettledResult<T>} result - The settled promise result.
+ * @returns {SettledData<T>} - The status of the promise, with its value if it is fulfilled and null otherwise.
  */
-export const extractValue = (result: PromiseSettledResult<any>) => {
-  return result.status === 'fulfilled' ? result.value : null;
-}
\ No newline at end of file
+export const extractValue = <T>(result: PromiseSettledResult<T | null>): SettledData<T> => {
+  return result.status === 'fulfilled' ? { status: result.status, value: result.value } : { status: result.status, value: null };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { getMatchStrength, getRiskLevel, isRiskAtLeast, parseRiskLevel, parseWatchlistHits } from './watchlist-utils';
+import { WatchlistHitData } from '../types';
+
+const SANCTIONS_HIT: WatchlistHitData = {
+  matchedName: 'John Smith',
+  countries: ['GB'],
+  dateOfBirth: 1970,
+  matchTypes: ['name_exact', 'year_of_birth'],
+  listingsRelatedToMatch: {
+    sanctions: [{ sourceName: 'UK Sanctions List', sourceUrl: 'https://sanctions.example/1', date: '2020-01-01' }],
+    pep: [{ sourceName: 'UK Parliament' }],
+    warnings: null,
+  },
+};
+
+describe('getMatchStrength', () => {
+  it('rates exact names with the year of birth strong, exact names medium and the rest weak', () => {
+    expect(getMatchStrength(['name_exact', 'year_of_birth'])).toBe('strong');
+    expect(getMatchStrength(['aka_exact'])).toBe('medium');
+    expect(getMatchStrength(['name_fuzzy', 'year_of_birth'])).toBe('weak');
+    expect(getMatchStrength([])).toBe('weak');
+  });
+});
+
+describe('parseWatchlistHits', () => {
+  it('parses the categories and sources of the hits', () => {
+    expect(parseWatchlistHits({ hits: [SANCTIONS_HIT] }, [], '2024-01-01T00:00:00.000Z')).toEqual([{
+      name: 'John Smith',
+      categories: ['pep', 'sanctions'],
+      strength: 'strong',
+      matchTypes: ['name_exact', 'year_of_birth'],
+      countries: ['GB'],
+      dateOfBirth: '1970',
+      sources: [
+        { category: 'pep', name: 'UK Parliament', url: null, date: null },
+        { category: 'sanctions', name: 'UK Sanctions List', url: 'https://sanctions.example/1', date: '2020-01-01' },
+      ],
+      firstSeenAt: '2024-01-01T00:00:00.000Z',
+    }]);
+    expect(parseWatchlistHits({ hits: null }, [], '2024-01-01T00:00:00.000Z')).toEqual([]);
+  });
+
+  it('keeps when known hits were first seen', () => {
+    const [known] = parseWatchlistHits({ hits: [SANCTIONS_HIT] }, [], '2024-01-01T00:00:00.000Z');
+    const hits = parseWatchlistHits({ hits: [{ ...SANCTIONS_HIT, matchedName: ' john smith ' }, { matchedName: 'Jane Smith' }] }, [known], '2024-02-01T00:00:00.000Z');
+    expect(hits.map(hit => hit.firstSeenAt)).toEqual(['2024-01-01T00:00:00.000Z', '2024-02-01T00:00:00.000Z']);
+  });
+});
+
+describe('risk levels', () => {
+  const parse = (hits: WatchlistHitData[]) => parseWatchlistHits({ hits }, [], '2024-01-01T00:00:00.000Z');
+
+  it('takes the highest level of any hit, one lower for weak matches and at least low', () => {
+    expect(getRiskLevel([])).toBe('none');
+    expect(getRiskLevel(parse([SANCTIONS_HIT]))).toBe('high');
+    expect(getRiskLevel(parse([{ ...SANCTIONS_HIT, matchTypes: ['name_fuzzy'] }]))).toBe('medium');
+    expect(getRiskLevel(parse([{ matchTypes: ['name_exact'], listingsRelatedToMatch: { adverseMedia: [{}] } }]))).toBe('medium');
+    expect(getRiskLevel(parse([{ matchTypes: ['name_fuzzy'], listingsRelatedToMatch: { pep: [{}] } }]))).toBe('low');
+    expect(getRiskLevel(parse([{ matchTypes: ['name_fuzzy'] }]))).toBe('low');
+  });
+
+  it('compares levels', () => {
+    expect(isRiskAtLeast('high', 'medium')).toBe(true);
+    expect(isRiskAtLeast('medium', 'medium')).toBe(true);
+    expect(isRiskAtLeast('low', 'medium')).toBe(false);
+    expect(isRiskAtLeast('none', 'low')).toBe(false);
+  });
+
+  it('parses configured levels', () => {
+    expect(parseRiskLevel('high', 'medium', 'WATCHLIST_REVIEW_LEVEL')).toBe('high');
+    expect(parseRiskLevel(undefined, 'medium', 'WATCHLIST_REVIEW_LEVEL')).toBe('medium');
+    expect(() => parseRiskLevel('none', 'medium', 'WATCHLIST_REVIEW_LEVEL')).toThrow('WATCHLIST_REVIEW_LEVEL must be low, medium or high');
+    expect(() => parseRiskLevel('HIGH', 'medium', 'WATCHLIST_REVIEW_LEVEL')).toThrow('WATCHLIST_REVIEW_LEVEL must be low, medium or high');
+  });
+});
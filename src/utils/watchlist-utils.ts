@@ -0,0 +1,136 @@
+import { MatchStrength, RiskLevel, WatchlistCategory, WatchlistHit, WatchlistHitData, WatchlistScreening, WatchlistSource } from '../types';
+
+/*
+ * Parsing of Veriff's PEP, sanctions and adverse media screening into typed hits and a risk level.
+ */
+
+const RISK_LEVELS: readonly RiskLevel[] = ['none', 'low', 'medium', 'high'];
+
+// Listing groups of a hit, as named by Veriff
+const CATEGORIES: Record<string, WatchlistCategory> = {
+  pep: 'pep',
+  sanctions: 'sanctions',
+  adverseMedia: 'adverse_media',
+  warnings: 'warnings',
+  fitnessProbity: 'fitness_probity',
+};
+
+// Risk level of a strong or medium match per category, weak matches count one level lower
+const CATEGORY_RISK: Record<WatchlistCategory, RiskLevel> = {
+  sanctions: 'high',
+  pep: 'medium',
+  adverse_media: 'medium',
+  warnings: 'low',
+  fitness_probity: 'low',
+};
+
+/**
+ * Rate how closely a hit matches the screened person.
+ * @param {string[]} matchTypes - Match types reported by Veriff, e.g. name_exact and year_of_birth.
+ * @returns {MatchStrength} - strong for an exact name or alias and year of birth, medium for an exact name or alias only, weak otherwise.
+ */
+export const getMatchStrength = (matchTypes: string[]): MatchStrength => {
+  const exact = matchTypes.some(type => type === 'name_exact' || type === 'aka_exact');
+  if (!exact)
+    return 'weak';
+  return matchTypes.includes('year_of_birth') ? 'strong' : 'medium';
+}
+
+/**
+ * Parse the hits of a screening.
+ * @param {WatchlistScreening} screening - The screening.
+ * @param {WatchlistHit[]} previous - Hits of the last screening of the session, to keep when they were first seen.
+ * @param {string} screenedAt - ISO timestamp of the screening, the first time new hits are seen.
+ * @returns {WatchlistHit[]} - The hits.
+ */
+export const parseWatchlistHits = (screening: WatchlistScreening, previous: WatchlistHit[], screenedAt: string) =>
+  (screening.hits || []).map((data): WatchlistHit => {
+    const hit = parseWatchlistHit(data);
+    const known = previous.find(entry => getHitKey(entry) === getHitKey(hit));
+    return { ...hit, firstSeenAt: known?.firstSeenAt || screenedAt };
+  });
+
+/**
+ * Get the risk level of a set of hits, the highest level of any hit.
+ * @param {WatchlistHit[]} hits - The hits.
+ * @returns {RiskLevel} - none if there are no hits.
+ */
+export const getRiskLevel = (hits: WatchlistHit[]) =>
+  hits.reduce((level: RiskLevel, hit) => maxRiskLevel(level, getHitRiskLevel(hit)), 'none');
+
+/**
+ * Check if a risk level reaches a threshold.
+ * @param {RiskLevel} level - The risk level.
+ * @param {RiskLevel} threshold - The threshold.
+ * @returns {boolean} - True if the level is the threshold or higher.
+ */
+export const isRiskAtLeast = (level: RiskLevel, threshold: RiskLevel) => RISK_LEVELS.indexOf(level) >= RISK_LEVELS.indexOf(threshold);
+
+/**
+ * Parse a risk level from configuration.
+ * @param {string | undefined} value - The configured level.
+ * @param {RiskLevel} fallback - Level to use if nothing is configured.
+ * @param {string} name - Name of the setting, for the error message.
+ * @returns {RiskLevel} - The risk level.
+ * @throws {Error} - If the value is not a risk level.
+ */
+export const parseRiskLevel = (value: string | undefined, fallback: RiskLevel, name: string): RiskLevel => {
+  if (!value)
+    return fallback;
+  const level = RISK_LEVELS.find(level => level === value);
+  if (!level || level === 'none')
+    throw new Error(`${name} must be low, medium or high`);
+  return level;
+}
+
+/**
+ * Parse a single hit, without the time it was first seen.
+ * @param {WatchlistHitData} data - The hit as reported by Veriff.
+ * @returns {Omit<WatchlistHit, 'firstSeenAt'>} - The hit.
+ */
+const parseWatchlistHit = (data: WatchlistHitData): Omit<WatchlistHit, 'firstSeenAt'> => {
+  const sources: WatchlistSource[] = [];
+  for (const [group, category] of Object.entries(CATEGORIES)) {
+    const listings = data.listingsRelatedToMatch?.[group];
+    if (!Array.isArray(listings))
+      continue;
+    for (const listing of listings) {
+      sources.push({ category, name: listing?.sourceName || null, url: listing?.sourceUrl || null, date: listing?.date || null });
+    }
+  }
+  const matchTypes = data.matchTypes || [];
+  return {
+    name: data.matchedName || null,
+    categories: [...new Set(sources.map(source => source.category))],
+    strength: getMatchStrength(matchTypes),
+    matchTypes,
+    countries: data.countries || [],
+    dateOfBirth: data.dateOfBirth != null ? String(data.dateOfBirth) : null,
+    sources,
+  };
+}
+
+/**
+ * Get the risk level of a single hit.
+ * @param {Omit<WatchlistHit, 'firstSeenAt'>} hit - The hit.
+ * @returns {RiskLevel} - The highest level of its categories, one lower for weak matches, and at least low.
+ */
+const getHitRiskLevel = (hit: Omit<WatchlistHit, 'firstSeenAt'>): RiskLevel => {
+  const level = hit.categories.reduce((level: RiskLevel, category) => maxRiskLevel(level, CATEGORY_RISK[category]), 'low');
+  return hit.strength === 'weak' ? RISK_LEVELS[Math.max(1, RISK_LEVELS.indexOf(level) - 1)] : level;
+}
+
+/**
+ * Identify a hit across screenings of the same session.
+ * @param {Omit<WatchlistHit, 'firstSeenAt'>} hit - The hit.
+ * @returns {string} - Key made of the listed name and date of birth.
+ */
+const getHitKey = (hit: Omit<WatchlistHit, 'firstSeenAt'>) => `${(hit.name || '').trim().toLowerCase()}|${hit.dateOfBirth || ''}`;
+
+/**
+ * Get the higher of two risk levels.
+ * @param {RiskLevel} a - A risk level.
+ * @param {RiskLevel} b - Another risk level.
+ * @returns {RiskLevel} - The higher level.
+ */
+const maxRiskLevel = (a: RiskLevel, b: RiskLevel) => isRiskAtLeast(a, b) ? a : b;